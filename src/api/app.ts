@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
-import type { Context, Next } from 'hono';
 import { clerkAuthMiddleware } from '../auth/clerk.middleware.js';
+import { createAuthMiddleware } from '../auth/provider.js';
+import { LocalJwtProvider } from '../auth/providers.js';
 import { SessionManager } from '../session/session-manager.js';
 
 // 型定義
@@ -33,36 +34,16 @@ export class ApiApp {
     this.sessionManager = new SessionManager();
     this.app = new Hono() as AppType;
 
-    this.setupRoutes(config.useClerk ?? true);
+    this.setupRoutes(config);
   }
 
-  /**
-   * 認証ミドルウェア（JWT - 非推奨、後方互換性のみ）
-   * @deprecated Clerk認証を使用してください
-   */
-  private jwtAuthMiddleware = async (c: Context<{ Variables: Variables }>, next: Next) => {
-    const authHeader = c.req.header('Authorization');
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const token = authHeader.substring(7);
-
-    try {
-      // 動的インポートで循環依存を回避
-      const { decodeToken } = await import('../auth/jwt.js');
-      const payload = decodeToken(token, process.env.JWT_SECRET || 'secret');
-      c.set('userId', payload.userId);
-      await next();
-    } catch {
-      return c.json({ error: 'Invalid token' }, 401);
-    }
-  };
-
-  private setupRoutes(useClerk: boolean) {
-    // 認証ミドルウェアを選択
-    const authMiddleware = useClerk ? clerkAuthMiddleware : this.jwtAuthMiddleware;
+  private setupRoutes(config: ApiConfig) {
+    // 認証ミドルウェアを選択（ローカルJWTは非推奨、後方互換性のみ）
+    const authMiddleware = (config.useClerk ?? true)
+      ? clerkAuthMiddleware
+      : createAuthMiddleware([
+          new LocalJwtProvider(config.jwtSecret || process.env.JWT_SECRET || 'secret'),
+        ]);
 
     // セッション管理エンドポイント（認証必要）
     const sessionRoutes = new Hono<{ Variables: Variables }>();
@@ -0,0 +1,42 @@
+/**
+ * API Key Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { API_KEY_PREFIX, generateApiKey, hashApiKey, isApiKey } from './api-keys.js';
+
+describe('API keys', () => {
+  describe('generateApiKey', () => {
+    it('generates prefixed, unique keys', () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+
+      expect(first.key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(first.key).not.toBe(second.key);
+      expect(first.key.length).toBeGreaterThan(40);
+    });
+
+    it('exposes only a short display prefix', () => {
+      const { key, prefix } = generateApiKey();
+
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(prefix.length).toBeLessThan(key.length / 2);
+    });
+  });
+
+  describe('isApiKey', () => {
+    it('distinguishes API keys from JWTs', () => {
+      expect(isApiKey(generateApiKey().key)).toBe(true);
+      expect(isApiKey('eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiJ1c2VyIn0.sig')).toBe(false);
+    });
+  });
+
+  describe('hashApiKey', () => {
+    it('produces a stable SHA-256 hex digest', async () => {
+      const hash = await hashApiKey('ock_example');
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(await hashApiKey('ock_example')).toBe(hash);
+      expect(await hashApiKey('ock_other')).not.toBe(hash);
+    });
+  });
+});
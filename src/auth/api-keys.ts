@@ -0,0 +1,47 @@
+/**
+ * Personal API keys
+ *
+ * Long-lived credentials for scripts and CI. Only the SHA-256 hash of a key is
+ * stored; the plaintext is shown to the user once at creation time. Keys carry
+ * a recognizable prefix so the auth middleware can tell them apart from JWTs.
+ */
+import { toBase64Url } from './encoding.js';
+
+export const API_KEY_PREFIX = 'ock_';
+
+// Characters of the key kept in clear text so users can tell keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export interface GeneratedApiKey {
+  /** Full secret, returned to the user exactly once */
+  key: string;
+  /** Non-secret leading characters, e.g. "ock_AbCdEfGh" */
+  prefix: string;
+}
+
+/**
+ * Generate a new random API key (256 bits of entropy)
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  return { key, prefix: key.substring(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * Whether a bearer credential looks like an API key rather than a JWT
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Hash an API key for storage and lookup (hex-encoded SHA-256)
+ *
+ * Keys are high-entropy random strings, so a fast hash is sufficient.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -1,29 +1,39 @@
-import type { Context, Next } from 'hono';
+import type { Context } from 'hono';
 import { clerkMiddleware, getAuth } from '@hono/clerk-auth';
-
-// 型定義
-type ClerkVariables = {
-  userId: string;
-};
+import { AuthError, createAuthMiddleware } from './provider.js';
+import type { AuthIdentity, AuthProvider } from './provider.js';
 
 /**
- * Clerk認証ミドルウェア（Hono用）
- * @hono/clerk-authをラップ
+ * @hono/clerk-authのgetAuthをAuthProviderとして扱う
+ * （clerkMiddlewareが先に実行されている必要がある）
  */
-export const clerkAuthMiddleware = async (c: Context<{ Variables: ClerkVariables }>, next: Next) => {
-  try {
-    const auth = getAuth(c);
+export class HonoClerkProvider implements AuthProvider {
+  readonly name = 'hono_clerk';
 
-    if (!auth?.userId) {
-      return c.json({ error: 'Unauthorized' }, 401);
+  async authenticate(_request: Request, context?: Context): Promise<AuthIdentity | null> {
+    if (!context) {
+      return null;
     }
 
-    c.set('userId', auth.userId);
-    await next();
-  } catch {
-    return c.json({ error: 'Authentication failed' }, 401);
+    let auth;
+    try {
+      auth = getAuth(context);
+    } catch {
+      throw new AuthError('clerk_auth_failed');
+    }
+
+    if (!auth?.userId) {
+      return null;
+    }
+    return { userId: auth.userId, method: 'clerk' };
   }
-};
+}
+
+/**
+ * Clerk認証ミドルウェア（Hono用）
+ * @hono/clerk-authをラップ
+ */
+export const clerkAuthMiddleware = createAuthMiddleware([new HonoClerkProvider()]);
 
 /**
  * Clerkミドルウェアを直接エクスポート
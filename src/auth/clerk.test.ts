@@ -1,67 +1,240 @@
 /**
  * Clerk Authentication Tests
  */
-import { describe, it, expect } from 'vitest';
-import { verifyClerkToken } from './clerk.js';
-
-// Mock Clerk JWT token (base64url encoded)
-// Header: {"alg":"RS256","typ":"JWT"}
-// Payload: {"sub":"user_123","iss":"https://clerk.example.com","exp":9999999999,"iat":1234567890}
-function createMockToken(sub: string): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
-  const payload = Buffer.from(
-    JSON.stringify({
-      sub,
-      iss: 'https://clerk.example.com',
-      exp: 9999999999,
-      iat: 1234567890,
-    })
-  ).toString('base64url');
-  const signature = 'signature'; // Mock signature
-  return `${header}.${payload}.${signature}`;
-}
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ClerkTokenError,
+  clerkOptionsFromEnv,
+  issuerFromPublishableKey,
+  verifyClerkJwt,
+  verifyClerkToken,
+} from './clerk.js';
+import { clearJwksCache } from './jwks.js';
+import type { RsaPublicJwk } from './jwks.js';
+import { createTestSigner, signTestToken, TEST_ISSUER, TEST_PUBLISHABLE_KEY } from './test-keys.js';
+import type { TestSigner } from './test-keys.js';
 
-function createExpiredToken(): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
-  const payload = Buffer.from(
-    JSON.stringify({
-      sub: 'user_123',
-      iss: 'https://clerk.example.com',
-      exp: 1000000000, // Expired
-      iat: 1234567890,
-    })
-  ).toString('base64url');
-  const signature = 'signature';
-  return `${header}.${payload}.${signature}`;
+async function expectRejected(promise: Promise<unknown>, reason: string) {
+  await expect(promise).rejects.toBeInstanceOf(ClerkTokenError);
+  await expect(promise).rejects.toMatchObject({ reason });
 }
 
 describe('Clerk Authentication', () => {
+  let signer: TestSigner;
+  let otherSigner: TestSigner;
+
+  beforeAll(async () => {
+    signer = await createTestSigner('key-1');
+    otherSigner = await createTestSigner('key-2');
+  });
+
+  beforeEach(() => {
+    clearJwksCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
   describe('verifyClerkToken', () => {
-    it('extracts userId from valid Clerk JWT token', () => {
-      const token = createMockToken('user_123');
-      const result = verifyClerkToken(`Bearer ${token}`);
+    it('extracts userId from valid Clerk JWT token', async () => {
+      const token = await signTestToken(signer, 'user_123');
+      const result = await verifyClerkToken(`Bearer ${token}`, { jwtKey: signer.publicKeyPem });
       expect(result).toBe('user_123');
     });
 
-    it('returns null when Authorization header is missing', () => {
-      const result = verifyClerkToken('');
+    it('returns null when Authorization header is missing', async () => {
+      const result = await verifyClerkToken('', { jwtKey: signer.publicKeyPem });
       expect(result).toBeNull();
     });
 
-    it('returns null when Authorization header is malformed', () => {
-      const result = verifyClerkToken('InvalidFormat token123');
+    it('returns null when Authorization header is malformed', async () => {
+      const result = await verifyClerkToken('InvalidFormat token123', { jwtKey: signer.publicKeyPem });
       expect(result).toBeNull();
     });
 
-    it('returns null for expired tokens', () => {
-      const token = createExpiredToken();
-      const result = verifyClerkToken(`Bearer ${token}`);
+    it('returns null for expired tokens', async () => {
+      const token = await signTestToken(signer, 'user_123', { exp: 1000000000 });
+      const result = await verifyClerkToken(`Bearer ${token}`, { jwtKey: signer.publicKeyPem });
       expect(result).toBeNull();
     });
 
-    it('returns null for invalid JWT format', () => {
-      const result = verifyClerkToken('Bearer invalid.jwt.token');
+    it('returns null for invalid JWT format', async () => {
+      const result = await verifyClerkToken('Bearer invalid.jwt.token', { jwtKey: signer.publicKeyPem });
       expect(result).toBeNull();
     });
   });
+
+  describe('verifyClerkJwt', () => {
+    it('rejects tokens signed by another key', async () => {
+      const forged = await signTestToken(otherSigner, 'user_attacker');
+      await expectRejected(verifyClerkJwt(forged, { jwtKey: signer.publicKeyPem }), 'invalid_signature');
+    });
+
+    it('rejects a payload swapped onto a valid signature', async () => {
+      const token = await signTestToken(signer, 'user_123');
+      const [header, , signature] = token.split('.');
+      const payload = Buffer.from(JSON.stringify({
+        sub: 'user_victim',
+        iss: TEST_ISSUER,
+        exp: 9999999999,
+      })).toString('base64url');
+      await expectRejected(verifyClerkJwt(`${header}.${payload}.${signature}`, { jwtKey: signer.publicKeyPem }), 'invalid_signature');
+    });
+
+    it('rejects segments that are not JSON objects as malformed', async () => {
+      const [header, , signature] = (await signTestToken(signer, 'user_123')).split('.');
+      const payload = Buffer.from('null').toString('base64url');
+      await expectRejected(verifyClerkJwt(`${header}.${payload}.${signature}`, { jwtKey: signer.publicKeyPem }), 'invalid_jwt_format');
+    });
+
+    it('rejects unsigned and non-RS256 tokens', async () => {
+      const payload = Buffer.from(JSON.stringify({ sub: 'user_123', iss: TEST_ISSUER, exp: 9999999999 })).toString('base64url');
+      const none = `${Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url')}.${payload}.`;
+      const hs256 = `${Buffer.from(JSON.stringify({ alg: 'HS256' })).toString('base64url')}.${payload}.c2ln`;
+
+      await expectRejected(verifyClerkJwt(none, { jwtKey: signer.publicKeyPem }), 'unsupported_alg');
+      await expectRejected(verifyClerkJwt(hs256, { jwtKey: signer.publicKeyPem }), 'unsupported_alg');
+    });
+
+    it('rejects tokens that are not yet valid (nbf)', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signTestToken(signer, 'user_123', { nbf: now + 120 });
+      await expectRejected(verifyClerkJwt(token, { jwtKey: signer.publicKeyPem }), 'token_not_active');
+    });
+
+    it('tolerates clock skew on exp and nbf', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signTestToken(signer, 'user_123', { nbf: now + 3, exp: now - 3 });
+
+      const payload = await verifyClerkJwt(token, { jwtKey: signer.publicKeyPem, clockSkewInSeconds: 5 });
+      expect(payload.sub).toBe('user_123');
+
+      await expectRejected(
+        verifyClerkJwt(token, { jwtKey: signer.publicKeyPem, clockSkewInSeconds: 0 }),
+        'token_expired'
+      );
+    });
+
+    it('checks the authorized party against the allowlist', async () => {
+      const token = await signTestToken(signer, 'user_123', { azp: 'https://evil.example' });
+      await expectRejected(
+        verifyClerkJwt(token, { jwtKey: signer.publicKeyPem, authorizedParties: ['https://app.example'] }),
+        'invalid_azp'
+      );
+
+      const allowed = await signTestToken(signer, 'user_123', { azp: 'https://app.example' });
+      const payload = await verifyClerkJwt(allowed, { jwtKey: signer.publicKeyPem, authorizedParties: ['https://app.example'] });
+      expect(payload.azp).toBe('https://app.example');
+    });
+
+    it('enforces the configured issuer', async () => {
+      const token = await signTestToken(signer, 'user_123', { iss: 'https://other.clerk.accounts.dev' });
+      await expectRejected(
+        verifyClerkJwt(token, { jwtKey: signer.publicKeyPem, issuer: TEST_ISSUER }),
+        'invalid_issuer'
+      );
+    });
+
+    it('rejects non-Clerk issuers when no issuer is configured', async () => {
+      const token = await signTestToken(signer, 'user_123', { iss: 'https://attacker.example' });
+      await expectRejected(verifyClerkJwt(token, { jwtKey: signer.publicKeyPem }), 'invalid_issuer');
+    });
+
+    it('fails closed when no key material is configured', async () => {
+      const token = await signTestToken(signer, 'user_123');
+      await expectRejected(verifyClerkJwt(token, {}), 'jwks_unavailable');
+    });
+  });
+
+  describe('JWKS verification', () => {
+    function stubJwks(keys: RsaPublicJwk[]) {
+      const fetchMock = vi.fn().mockImplementation(async () => Response.json({ keys }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('verifies against the JWKS and caches the keys', async () => {
+      const fetchMock = stubJwks([signer.publicJwk]);
+      const token = await signTestToken(signer, 'user_123');
+
+      await verifyClerkJwt(token, { secretKey: 'sk_test' });
+      await verifyClerkJwt(token, { secretKey: 'sk_test' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.clerk.com/v1/jwks');
+      expect(init.headers.Authorization).toBe('Bearer sk_test');
+    });
+
+    it('refetches the JWKS when a new kid appears after rotation', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fetchMock = stubJwks([signer.publicJwk]);
+      await verifyClerkJwt(await signTestToken(signer, 'user_123'), { secretKey: 'sk_test' });
+
+      fetchMock.mockImplementation(async () => Response.json({ keys: [signer.publicJwk, otherSigner.publicJwk] }));
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+      const payload = await verifyClerkJwt(await signTestToken(otherSigner, 'user_456'), { secretKey: 'sk_test' });
+      expect(payload.sub).toBe('user_456');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not refetch on every unknown kid', async () => {
+      const fetchMock = stubJwks([signer.publicJwk]);
+      await verifyClerkJwt(await signTestToken(signer, 'user_123'), { secretKey: 'sk_test' });
+
+      const unknown = await signTestToken(otherSigner, 'user_456');
+      await expectRejected(verifyClerkJwt(unknown, { secretKey: 'sk_test' }), 'unknown_kid');
+      await expectRejected(verifyClerkJwt(unknown, { secretKey: 'sk_test' }), 'unknown_kid');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps serving cached keys during an outage without refetching on every unknown kid', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchMock = stubJwks([signer.publicJwk]);
+      await verifyClerkJwt(await signTestToken(signer, 'user_123'), { secretKey: 'sk_test' });
+
+      fetchMock.mockImplementation(async () => new Response('down', { status: 503 }));
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+      const unknown = await signTestToken(otherSigner, 'user_456');
+      await expectRejected(verifyClerkJwt(unknown, { secretKey: 'sk_test' }), 'unknown_kid');
+      await expectRejected(verifyClerkJwt(unknown, { secretKey: 'sk_test' }), 'unknown_kid');
+
+      expect((await verifyClerkJwt(await signTestToken(signer, 'user_123'), { secretKey: 'sk_test' })).sub).toBe('user_123');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('reports an unavailable JWKS endpoint', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('down', { status: 503 })));
+      const token = await signTestToken(signer, 'user_123');
+      await expectRejected(verifyClerkJwt(token, { secretKey: 'sk_test' }), 'jwks_unavailable');
+    });
+  });
+
+  describe('clerkOptionsFromEnv', () => {
+    it('derives the issuer from the publishable key', () => {
+      expect(issuerFromPublishableKey(TEST_PUBLISHABLE_KEY)).toBe(TEST_ISSUER);
+      expect(issuerFromPublishableKey('pk_test_123456')).toBeUndefined();
+      expect(issuerFromPublishableKey(undefined)).toBeUndefined();
+    });
+
+    it('parses authorized parties and ignores empty keys', () => {
+      const options = clerkOptionsFromEnv({
+        CLERK_SECRET_KEY: 'sk_test',
+        CLERK_JWT_KEY: '',
+        CLERK_PUBLISHABLE_KEY: TEST_PUBLISHABLE_KEY,
+        CLERK_AUTHORIZED_PARTIES: 'https://a.example, https://b.example',
+      });
+
+      expect(options.jwtKey).toBeUndefined();
+      expect(options.secretKey).toBe('sk_test');
+      expect(options.issuer).toBe(TEST_ISSUER);
+      expect(options.authorizedParties).toEqual(['https://a.example', 'https://b.example']);
+    });
+  });
 });
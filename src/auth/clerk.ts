@@ -1,16 +1,28 @@
 /**
  * Clerk Authentication Utilities for Cloudflare Workers
  *
- * For production use, we need to verify JWT tokens using the Clerk secret key.
- * Since Cloudflare Workers has limited crypto support, we use a simpler approach
- * that can be enhanced with proper JWT verification.
+ * Session tokens are RS256 JWTs. Signatures are verified with Web Crypto
+ * against either the instance's PEM public key (`CLERK_JWT_KEY`, no network)
+ * or the JWKS served by the Clerk Backend API, cached per isolate.
  */
+import { base64UrlToBytes } from './encoding.js';
+import { getJwksKey, importPemPublicKey } from './jwks.js';
 
-interface ClerkJwtPayload {
+export interface ClerkJwtPayload {
   sub: string; // User ID
   iss: string;
   exp: number;
   iat: number;
+  nbf?: number;
+  azp?: string; // Authorized party (origin that requested the token)
+  sid?: string; // Session ID
+  [claim: string]: unknown;
+}
+
+interface ClerkJwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
 }
 
 interface ClerkSessionResponse {
@@ -19,20 +31,220 @@ interface ClerkSessionResponse {
   status: string;
 }
 
+/**
+ * Options for verifying Clerk session tokens
+ */
+export interface ClerkVerifyOptions {
+  /** PEM public key from the Clerk dashboard; enables networkless verification */
+  jwtKey?: string;
+  /** Secret key used to authenticate against the Backend API JWKS endpoint */
+  secretKey?: string;
+  /** JWKS endpoint (defaults to the Clerk Backend API) */
+  jwksUrl?: string;
+  /** Expected `iss`; when omitted any Clerk-hosted issuer is accepted */
+  issuer?: string;
+  /** Allowed `azp` values (origins); when empty `azp` is not checked */
+  authorizedParties?: string[];
+  /** Tolerated clock drift for `exp`/`nbf`, in seconds */
+  clockSkewInSeconds?: number;
+}
+
+/**
+ * Environment variables relevant to Clerk token verification
+ */
+export interface ClerkEnv {
+  CLERK_SECRET_KEY?: string;
+  CLERK_PUBLISHABLE_KEY?: string;
+  CLERK_JWT_KEY?: string;
+  CLERK_AUTHORIZED_PARTIES?: string;
+}
+
+export type ClerkTokenErrorReason =
+  | 'invalid_jwt_format'
+  | 'unsupported_alg'
+  | 'unknown_kid'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'token_not_active'
+  | 'invalid_issuer'
+  | 'invalid_azp'
+  | 'no_user_id'
+  | 'jwks_unavailable';
+
+/**
+ * Raised when a Clerk token fails verification; `reason` is safe to return to clients
+ */
+export class ClerkTokenError extends Error {
+  constructor(readonly reason: ClerkTokenErrorReason, message?: string) {
+    super(message ?? reason);
+    this.name = 'ClerkTokenError';
+  }
+}
+
+const CLERK_JWKS_URL = 'https://api.clerk.com/v1/jwks';
+const DEFAULT_CLOCK_SKEW_SECONDS = 5;
+
+function decodeJsonSegment<T>(segment: string): T {
+  const value: unknown = JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+  // `null` or a bare number would otherwise surface as a TypeError in the claim checks
+  if (typeof value !== 'object' || value === null) {
+    throw new TypeError('JWT segment is not a JSON object');
+  }
+  return value as T;
+}
+
+/**
+ * Derive the token issuer from a publishable key
+ * (pk_test_/pk_live_ followed by base64 of "<frontend-api>$")
+ */
+export function issuerFromPublishableKey(publishableKey: string | undefined): string | undefined {
+  const match = publishableKey?.match(/^pk_(?:test|live)_(.+)$/);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    const decoded = atob(match[1]);
+    if (!decoded.endsWith('$') || !decoded.includes('.')) {
+      return undefined;
+    }
+    return `https://${decoded.slice(0, -1)}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build verification options from Worker environment variables
+ */
+export function clerkOptionsFromEnv(env: ClerkEnv): ClerkVerifyOptions {
+  return {
+    jwtKey: env.CLERK_JWT_KEY || undefined,
+    secretKey: env.CLERK_SECRET_KEY || undefined,
+    issuer: issuerFromPublishableKey(env.CLERK_PUBLISHABLE_KEY),
+    authorizedParties: (env.CLERK_AUTHORIZED_PARTIES || '')
+      .split(',')
+      .map(party => party.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Resolve the public key a token was signed with
+ */
+async function resolveVerificationKey(header: ClerkJwtHeader, options: ClerkVerifyOptions): Promise<CryptoKey> {
+  if (options.jwtKey) {
+    try {
+      return await importPemPublicKey(options.jwtKey);
+    } catch (error) {
+      throw new ClerkTokenError('jwks_unavailable', `Invalid CLERK_JWT_KEY: ${String(error)}`);
+    }
+  }
+
+  if (!options.secretKey && !options.jwksUrl) {
+    throw new ClerkTokenError('jwks_unavailable', 'Neither CLERK_JWT_KEY nor CLERK_SECRET_KEY is configured');
+  }
+  if (!header.kid) {
+    throw new ClerkTokenError('unknown_kid', 'Token header has no kid');
+  }
+
+  let key: CryptoKey | null;
+  try {
+    key = await getJwksKey(options.jwksUrl ?? CLERK_JWKS_URL, header.kid, options.secretKey);
+  } catch (error) {
+    throw new ClerkTokenError('jwks_unavailable', String(error));
+  }
+  if (!key) {
+    throw new ClerkTokenError('unknown_kid', `No JWKS key for kid ${header.kid}`);
+  }
+  return key;
+}
+
+/**
+ * Verify a Clerk session token (signature and registered claims)
+ *
+ * @param token - Raw JWT (without "Bearer ")
+ * @returns the verified payload
+ * @throws ClerkTokenError when the token must be rejected
+ */
+export async function verifyClerkJwt(token: string, options: ClerkVerifyOptions): Promise<ClerkJwtPayload> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new ClerkTokenError('invalid_jwt_format');
+  }
+
+  let header: ClerkJwtHeader;
+  let payload: ClerkJwtPayload;
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    header = decodeJsonSegment<ClerkJwtHeader>(parts[0]);
+    payload = decodeJsonSegment<ClerkJwtPayload>(parts[1]);
+    signature = base64UrlToBytes(parts[2]);
+  } catch {
+    throw new ClerkTokenError('invalid_jwt_format');
+  }
+
+  // Only RS256 is issued by Clerk; refusing anything else blocks alg=none/HS256 confusion
+  if (header.alg !== 'RS256') {
+    throw new ClerkTokenError('unsupported_alg');
+  }
+
+  const key = await resolveVerificationKey(header, options);
+  const signedData = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData);
+  if (!valid) {
+    throw new ClerkTokenError('invalid_signature');
+  }
+
+  const skew = options.clockSkewInSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== 'number' || payload.exp + skew <= now) {
+    throw new ClerkTokenError('token_expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - skew > now) {
+    throw new ClerkTokenError('token_not_active');
+  }
+
+  if (options.issuer) {
+    if (payload.iss !== options.issuer) {
+      throw new ClerkTokenError('invalid_issuer');
+    }
+  } else if (
+    typeof payload.iss !== 'string' ||
+    !payload.iss.startsWith('https://') ||
+    (!payload.iss.includes('clerk.') && !payload.iss.includes('.clerk.accounts.'))
+  ) {
+    throw new ClerkTokenError('invalid_issuer');
+  }
+
+  const authorizedParties = options.authorizedParties ?? [];
+  if (payload.azp && authorizedParties.length > 0 && !authorizedParties.includes(payload.azp)) {
+    throw new ClerkTokenError('invalid_azp');
+  }
+
+  if (!payload.sub) {
+    throw new ClerkTokenError('no_user_id');
+  }
+
+  return payload;
+}
+
 /**
  * Verify Clerk session using Backend API
  * This handles both JWT tokens, session IDs, and sign-in tokens
  *
  * @param token - JWT token, session ID, or sign-in token
  * @param secretKey - Clerk Secret Key for Backend API
+ * @param options - JWT verification options (secretKey is filled in if absent)
  * @returns userId if valid, null otherwise
  */
 export async function verifyClerkSessionOrToken(
   token: string,
-  secretKey: string
+  secretKey: string,
+  options: ClerkVerifyOptions = {}
 ): Promise<string | null> {
   // First, try to verify as JWT
-  const jwtUserId = verifyClerkToken(`Bearer ${token}`);
+  const jwtUserId = await verifyClerkToken(`Bearer ${token}`, { secretKey, ...options });
   if (jwtUserId) {
     return jwtUserId;
   }
@@ -87,16 +299,13 @@ export async function verifyClerkSessionOrToken(
 }
 
 /**
- * Extract userId from Clerk JWT token
- *
- * NOTE: This is a simplified implementation. For production:
- * 1. Use @clerk/backend's verifyToken() if available in Workers
- * 2. Or implement JWT verification using Web Crypto API
+ * Extract userId from a Clerk JWT after verifying it
  *
  * @param authHeader - Authorization header value (e.g., "Bearer <token>")
+ * @param options - Verification options (see clerkOptionsFromEnv)
  * @returns userId if valid, null otherwise
  */
-export function verifyClerkToken(authHeader: string): string | null {
+export async function verifyClerkToken(authHeader: string, options: ClerkVerifyOptions): Promise<string | null> {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
   }
@@ -104,40 +313,7 @@ export function verifyClerkToken(authHeader: string): string | null {
   const token = authHeader.substring(7); // Remove "Bearer " prefix
 
   try {
-    // Decode JWT without verification (for development)
-    // In production, verify signature using Clerk Secret Key
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      return null;
-    }
-
-    // Decode payload - Cloudflare Workers compatible (using atob)
-    // Convert base64url to base64
-    let base64Payload = parts[1].replace(/-/g, '+').replace(/_/g, '/');
-    // Add padding
-    while (base64Payload.length % 4) {
-      base64Payload += '=';
-    }
-    // Decode using TextDecoder for Cloudflare Workers compatibility
-    const binaryString = atob(base64Payload);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    const decoded = new TextDecoder().decode(bytes);
-    const payload = JSON.parse(decoded) as ClerkJwtPayload;
-
-    // Check expiration
-    const now = Math.floor(Date.now() / 1000);
-    if (payload.exp < now) {
-      return null;
-    }
-
-    // Verify issuer (should be Clerk)
-    if (!payload.iss.startsWith('https://clerk.')) {
-      return null;
-    }
-
+    const payload = await verifyClerkJwt(token, options);
     return payload.sub; // User ID
   } catch {
     return null;
@@ -145,15 +321,11 @@ export function verifyClerkToken(authHeader: string): string | null {
 }
 
 /**
- * Verify Clerk token using secret key (for production)
- *
- * This would use the Clerk secret key to verify the JWT signature.
- * To be implemented with proper crypto verification.
+ * Verify Clerk token using secret key (JWKS-backed verification)
  */
 export async function verifyClerkTokenWithSecret(
   token: string,
   secretKey: string
 ): Promise<string | null> {
-  // Use the new verifyClerkSessionOrToken function
   return verifyClerkSessionOrToken(token, secretKey);
 }
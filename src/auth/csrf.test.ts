@@ -0,0 +1,58 @@
+/**
+ * CSRF Protection Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { createCsrfMiddleware, isSameOriginRequest } from './csrf.js';
+import type { AuthVariables } from './provider.js';
+
+function request(method: string, headers: Record<string, string> = {}): Request {
+  return new Request('https://app.example.com/api/prompt', { method, headers });
+}
+
+describe('isSameOriginRequest', () => {
+  it('allows safe methods from anywhere', () => {
+    expect(isSameOriginRequest(request('GET', { 'Origin': 'https://evil.example' }))).toBe(true);
+  });
+
+  it('allows state-changing requests from the same origin', () => {
+    expect(isSameOriginRequest(request('POST', { 'Origin': 'https://app.example.com' }))).toBe(true);
+    expect(isSameOriginRequest(request('DELETE', { 'Referer': 'https://app.example.com/chat' }))).toBe(true);
+  });
+
+  it('allows configured origins', () => {
+    const allowed = ['https://ui.example.com'];
+    expect(isSameOriginRequest(request('POST', { 'Origin': 'https://ui.example.com' }), allowed)).toBe(true);
+  });
+
+  it('rejects cross-origin and origin-less state-changing requests', () => {
+    expect(isSameOriginRequest(request('POST', { 'Origin': 'https://evil.example' }))).toBe(false);
+    expect(isSameOriginRequest(request('POST', { 'Origin': 'null' }))).toBe(false);
+    expect(isSameOriginRequest(request('DELETE'))).toBe(false);
+  });
+});
+
+describe('createCsrfMiddleware', () => {
+  function createApp(fromCookie: boolean) {
+    const app = new Hono<{ Variables: AuthVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('auth', { userId: 'user_1', method: 'clerk', fromCookie });
+      await next();
+    });
+    app.use('*', createCsrfMiddleware());
+    app.post('/api/prompt', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  it('blocks cross-origin requests made with a cookie session', async () => {
+    const response = await createApp(true).request(request('POST', { 'Origin': 'https://evil.example' }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Forbidden', code: 'csrf_origin_mismatch' });
+  });
+
+  it('does not apply to bearer credentials', async () => {
+    const response = await createApp(false).request(request('POST'));
+    expect(response.status).toBe(200);
+  });
+});
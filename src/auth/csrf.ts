@@ -0,0 +1,67 @@
+/**
+ * CSRF protection for cookie-authenticated requests
+ *
+ * Browsers attach the Clerk `__session` cookie to cross-site requests, so a
+ * state-changing request authenticated by that cookie must prove it came from
+ * an allowed origin. Bearer credentials are never sent ambiently and skip the
+ * check.
+ */
+import type { Context, MiddlewareHandler } from 'hono';
+import type { AuthVariables } from './provider.js';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * The origin a request claims to come from (Origin header, falling back to Referer)
+ */
+export function getRequestOrigin(request: Request): string | null {
+  const origin = request.headers.get('Origin');
+  if (origin && origin !== 'null') {
+    return origin;
+  }
+
+  const referer = request.headers.get('Referer');
+  if (referer) {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a request may change state on behalf of a cookie session
+ *
+ * @param allowedOrigins extra trusted origins; the request's own origin is always allowed
+ */
+export function isSameOriginRequest(request: Request, allowedOrigins: string[] = []): boolean {
+  if (SAFE_METHODS.has(request.method)) {
+    return true;
+  }
+
+  const origin = getRequestOrigin(request);
+  if (!origin) {
+    return false;
+  }
+  return origin === new URL(request.url).origin || allowedOrigins.includes(origin);
+}
+
+/**
+ * Hono middleware rejecting cross-origin state-changing requests made with a cookie session
+ * (must run after createAuthMiddleware)
+ */
+export function createCsrfMiddleware(
+  allowedOrigins: string[] | ((c: Context) => string[]) = []
+): MiddlewareHandler<{ Variables: AuthVariables }> {
+  return async (c, next) => {
+    if (c.get('auth')?.fromCookie) {
+      const origins = typeof allowedOrigins === 'function' ? allowedOrigins(c) : allowedOrigins;
+      if (!isSameOriginRequest(c.req.raw, origins)) {
+        return c.json({ error: 'Forbidden', code: 'csrf_origin_mismatch' }, 403);
+      }
+    }
+    await next();
+  };
+}
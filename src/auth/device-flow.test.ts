@@ -0,0 +1,73 @@
+/**
+ * Device Authorization Flow Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  generateDeviceCode,
+  generateRefreshToken,
+  generateUserCode,
+  normalizeUserCode,
+  readOAuthParams,
+  REFRESH_TOKEN_PREFIX,
+  USER_CODE_PATTERN,
+} from './device-flow.js';
+import { isApiKey } from './api-keys.js';
+
+describe('device flow', () => {
+  describe('generateUserCode', () => {
+    it('generates readable consonant-only codes', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(generateUserCode()).toMatch(USER_CODE_PATTERN);
+      }
+    });
+  });
+
+  describe('normalizeUserCode', () => {
+    it('accepts lowercase and missing or extra separators', () => {
+      expect(normalizeUserCode('bcdf-ghjk')).toBe('BCDF-GHJK');
+      expect(normalizeUserCode('BCDFGHJK')).toBe('BCDF-GHJK');
+      expect(normalizeUserCode(' bcdf ghjk ')).toBe('BCDF-GHJK');
+    });
+  });
+
+  describe('secrets', () => {
+    it('generates unique device codes', () => {
+      expect(generateDeviceCode()).not.toBe(generateDeviceCode());
+      expect(generateDeviceCode().length).toBeGreaterThan(40);
+    });
+
+    it('keeps refresh tokens distinguishable from API keys', () => {
+      const token = generateRefreshToken();
+
+      expect(token.startsWith(REFRESH_TOKEN_PREFIX)).toBe(true);
+      expect(isApiKey(token)).toBe(false);
+    });
+  });
+
+  describe('readOAuthParams', () => {
+    it('reads form-encoded bodies', async () => {
+      const request = new Request('http://localhost/auth/device/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'grant_type=refresh_token&refresh_token=ocr_abc',
+      });
+
+      expect(await readOAuthParams(request)).toEqual({ grant_type: 'refresh_token', refresh_token: 'ocr_abc' });
+    });
+
+    it('reads JSON bodies and drops non-string values', async () => {
+      const request = new Request('http://localhost/auth/device', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_name: 'laptop', interval: 5 }),
+      });
+
+      expect(await readOAuthParams(request)).toEqual({ client_name: 'laptop' });
+    });
+
+    it('tolerates an empty body', async () => {
+      const request = new Request('http://localhost/auth/device', { method: 'POST' });
+      expect(await readOAuthParams(request)).toEqual({});
+    });
+  });
+});
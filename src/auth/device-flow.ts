@@ -0,0 +1,100 @@
+/**
+ * Device authorization grant (RFC 8628) for CLI login
+ *
+ * The CLI requests a device code, the user approves the matching user code on
+ * /device while signed in with Clerk, and the CLI polls for tokens. Issued
+ * access tokens are short-lived personal API keys; refresh tokens rotate on
+ * every use. Device codes and refresh tokens are stored only as SHA-256 hashes.
+ */
+import { hashApiKey } from './api-keys.js';
+import { toBase64Url } from './encoding.js';
+
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+export const REFRESH_TOKEN_GRANT_TYPE = 'refresh_token';
+
+export const DEVICE_CODE_TTL_SECONDS = 10 * 60;
+export const DEVICE_POLL_INTERVAL_SECONDS = 5;
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const REFRESH_TOKEN_PREFIX = 'ocr_';
+
+// RFC 8628 §6.1: consonants only, so codes cannot spell words and are easy to read aloud
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+export const USER_CODE_PATTERN = /^[BCDFGHJKLMNPQRSTVWXZ]{4}-[BCDFGHJKLMNPQRSTVWXZ]{4}$/;
+
+/**
+ * Error codes of the token endpoint (RFC 6749 §5.2, RFC 8628 §3.5)
+ */
+export type DeviceTokenErrorCode =
+  | 'invalid_request'
+  | 'invalid_scope'
+  | 'unsupported_grant_type'
+  | 'invalid_grant'
+  | 'authorization_pending'
+  | 'slow_down'
+  | 'access_denied'
+  | 'expired_token';
+
+/**
+ * Secret code held by the CLI while it polls
+ */
+export function generateDeviceCode(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Short code the user types on the verification page, e.g. "BCDF-GHJK"
+ */
+export function generateUserCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(bytes, byte => USER_CODE_ALPHABET[byte % USER_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/**
+ * Normalize user input ("bcdf ghjk", "BCDFGHJK") to the stored form
+ */
+export function normalizeUserCode(input: string): string {
+  const compact = input.toUpperCase().replace(/[^A-Z]/g, '');
+  return compact.length === 8 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+}
+
+export function generateRefreshToken(): string {
+  return `${REFRESH_TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * Hash a device code or refresh token for storage and lookup
+ */
+export function hashDeviceSecret(secret: string): Promise<string> {
+  return hashApiKey(secret);
+}
+
+/**
+ * Read OAuth request parameters
+ *
+ * RFC 8628 clients send application/x-www-form-urlencoded; JSON is accepted
+ * for convenience. Non-string values are dropped.
+ */
+export async function readOAuthParams(request: Request): Promise<Record<string, string>> {
+  const contentType = request.headers.get('Content-Type') || '';
+  const params: Record<string, string> = {};
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    new URLSearchParams(await request.text()).forEach((value, key) => {
+      params[key] = value;
+    });
+    return params;
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body && typeof body === 'object') {
+    for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        params[key] = value;
+      }
+    }
+  }
+  return params;
+}
@@ -0,0 +1,19 @@
+/**
+ * Encoding Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { base64ToBytes, base64UrlToBytes, bytesToBase64, toBase64Url } from './encoding.js';
+
+describe('encoding', () => {
+  const bytes = new Uint8Array([0xfb, 0xff, 0xbf, 0x00, 0x41]);
+
+  it('round-trips base64', () => {
+    expect(bytesToBase64(bytes)).toBe('+/+/AEE=');
+    expect(base64ToBytes('+/+/AEE=')).toEqual(bytes);
+  });
+
+  it('round-trips unpadded base64url', () => {
+    expect(toBase64Url(bytes)).toBe('-_-_AEE');
+    expect(base64UrlToBytes('-_-_AEE')).toEqual(bytes);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Invitation Code Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { generateInviteCode, INVITE_CODE_PATTERN, isInviteCodeUsable, normalizeInviteCode } from './invite-codes.js';
+import type { InviteCodeRecord } from '../durable-objects/session-durable-object.js';
+
+function record(overrides: Partial<InviteCodeRecord> = {}): InviteCodeRecord {
+  return {
+    code: 'FRIENDS-2025',
+    maxRedemptions: null,
+    redemptionCount: 0,
+    expiresAt: null,
+    createdBy: 'user_admin',
+    notes: null,
+    createdAt: 0,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe('invite codes', () => {
+  it('normalizes user input', () => {
+    expect(normalizeInviteCode('  friends-2025 ')).toBe('FRIENDS-2025');
+  });
+
+  it('generates codes that match the accepted pattern', () => {
+    const code = generateInviteCode();
+    expect(code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(INVITE_CODE_PATTERN.test(code)).toBe(true);
+    expect(generateInviteCode()).not.toBe(code);
+  });
+
+  describe('isInviteCodeUsable', () => {
+    const now = 1_700_000_000_000;
+
+    it('accepts an unlimited, unexpired code', () => {
+      expect(isInviteCodeUsable(record(), now)).toBe(true);
+    });
+
+    it('rejects revoked codes', () => {
+      expect(isInviteCodeUsable(record({ revokedAt: now - 1 }), now)).toBe(false);
+    });
+
+    it('rejects expired codes', () => {
+      expect(isInviteCodeUsable(record({ expiresAt: now }), now)).toBe(false);
+      expect(isInviteCodeUsable(record({ expiresAt: now + 1 }), now)).toBe(true);
+    });
+
+    it('rejects codes without redemptions left', () => {
+      expect(isInviteCodeUsable(record({ maxRedemptions: 2, redemptionCount: 2 }), now)).toBe(false);
+      expect(isInviteCodeUsable(record({ maxRedemptions: 2, redemptionCount: 1 }), now)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Invitation code helpers shared by the Durable Object and the in-memory store
+ */
+import type { InviteCodeRecord } from '../durable-objects/session-durable-object.js';
+
+// Codes are case-insensitive and stored upper-case, e.g. FRIENDS-2025
+export const INVITE_CODE_PATTERN = /^[A-Z0-9][A-Z0-9-]{3,63}$/;
+
+// Unambiguous alphabet for generated codes (no 0/O, 1/I)
+const GENERATED_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Canonical form of a user-entered code
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Generate a random code such as "K7QM-XW3P"
+ */
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(bytes, byte => GENERATED_CODE_ALPHABET[byte % GENERATED_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/**
+ * Whether a code can still be redeemed
+ */
+export function isInviteCodeUsable(record: InviteCodeRecord, now: number = Date.now()): boolean {
+  if (record.revokedAt !== null) {
+    return false;
+  }
+  if (record.expiresAt !== null && record.expiresAt <= now) {
+    return false;
+  }
+  if (record.maxRedemptions !== null && record.redemptionCount >= record.maxRedemptions) {
+    return false;
+  }
+  return true;
+}
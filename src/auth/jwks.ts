@@ -0,0 +1,134 @@
+/**
+ * JWKS / PEM key resolution for Clerk JWT verification
+ *
+ * Keys are imported once via Web Crypto and cached per JWKS URL so that
+ * every request does not hit the network. An unknown `kid` triggers a
+ * refetch (key rotation), rate-limited to avoid being used as an amplifier.
+ */
+import { base64ToBytes } from './encoding.js';
+
+/**
+ * RSA public key as published in a JWKS document
+ */
+export interface RsaPublicJwk {
+  kty: string;
+  kid?: string;
+  use?: string;
+  alg?: string;
+  n?: string;
+  e?: string;
+}
+
+interface JwksCacheEntry {
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+  // Last fetch, successful or not
+  attemptedAt: number;
+}
+
+const RS256_IMPORT_PARAMS = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' } as const;
+
+// Cached keys are trusted for an hour; unknown kids and stale keys may force a refetch once a minute
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+const JWKS_MISS_REFETCH_INTERVAL_MS = 60 * 1000;
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+const pemCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Import an RSA public key in PEM (SPKI) format, e.g. Clerk's "JWT public key"
+ */
+export function importPemPublicKey(pem: string): Promise<CryptoKey> {
+  let cached = pemCache.get(pem);
+  if (!cached) {
+    const body = pem
+      .replace(/-----BEGIN PUBLIC KEY-----/, '')
+      .replace(/-----END PUBLIC KEY-----/, '')
+      .replace(/\\n/g, '')
+      .replace(/\s+/g, '');
+    cached = crypto.subtle.importKey('spki', base64ToBytes(body), RS256_IMPORT_PARAMS, false, ['verify']);
+    // Do not keep a rejected import around
+    cached.catch(() => pemCache.delete(pem));
+    pemCache.set(pem, cached);
+  }
+  return cached;
+}
+
+/**
+ * Fetch a JWKS document and import every RS256 signing key it contains
+ */
+async function fetchJwks(url: string, secretKey?: string): Promise<Map<string, CryptoKey>> {
+  const headers: Record<string, string> = {};
+  if (secretKey) {
+    headers['Authorization'] = `Bearer ${secretKey}`;
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`JWKS fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { keys?: RsaPublicJwk[] };
+  const keys = new Map<string, CryptoKey>();
+
+  for (const jwk of data.keys ?? []) {
+    if (jwk.kty !== 'RSA' || !jwk.kid || (jwk.use && jwk.use !== 'sig')) {
+      continue;
+    }
+    const { kid, ...keyData } = jwk;
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { ...keyData, alg: 'RS256', ext: true },
+      RS256_IMPORT_PARAMS,
+      false,
+      ['verify']
+    );
+    keys.set(kid, key);
+  }
+
+  return keys;
+}
+
+/**
+ * Resolve the verification key for `kid` from a (cached) JWKS endpoint
+ *
+ * @returns the key, or null when the JWKS does not contain `kid`
+ * @throws when the JWKS cannot be fetched and no cached copy exists
+ */
+export async function getJwksKey(url: string, kid: string, secretKey?: string): Promise<CryptoKey | null> {
+  const now = Date.now();
+  const entry = jwksCache.get(url);
+
+  if (entry) {
+    const key = entry.keys.get(kid);
+    if (key && now - entry.fetchedAt < JWKS_CACHE_TTL_MS) {
+      return key;
+    }
+    // Unknown kid: the signing key may have rotated, but don't refetch (or fail and log) on every forged kid
+    if (now - entry.attemptedAt < JWKS_MISS_REFETCH_INTERVAL_MS) {
+      return key ?? null;
+    }
+  }
+
+  try {
+    const keys = await fetchJwks(url, secretKey);
+    jwksCache.set(url, { keys, fetchedAt: now, attemptedAt: now });
+    return keys.get(kid) ?? null;
+  } catch (error) {
+    // Serve stale keys rather than locking everyone out during a JWKS outage
+    if (entry) {
+      entry.attemptedAt = now;
+      console.warn('[JWKS] Refetch failed, using cached keys:', error);
+      return entry.keys.get(kid) ?? null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop all cached keys (tests and key-rotation tooling)
+ */
+export function clearJwksCache(): void {
+  jwksCache.clear();
+  pemCache.clear();
+}
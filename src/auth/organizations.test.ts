@@ -0,0 +1,48 @@
+/**
+ * Organization Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { canAccessSession, canDeleteSession, orgFromClaims } from './organizations.js';
+
+describe('organizations', () => {
+  describe('orgFromClaims', () => {
+    it('reads v1 org claims and strips the org: prefix', () => {
+      expect(orgFromClaims({ org_id: 'org_1', org_role: 'org:admin' })).toEqual({ orgId: 'org_1', role: 'admin' });
+      expect(orgFromClaims({ org_id: 'org_1', org_role: 'basic_member' })).toEqual({ orgId: 'org_1', role: 'member' });
+    });
+
+    it('reads the compact v2 org claim', () => {
+      expect(orgFromClaims({ o: { id: 'org_2', rol: 'admin' } })).toEqual({ orgId: 'org_2', role: 'admin' });
+    });
+
+    it('returns null without an active organization', () => {
+      expect(orgFromClaims({})).toBeNull();
+      expect(orgFromClaims(undefined)).toBeNull();
+      expect(orgFromClaims({ org_id: '' })).toBeNull();
+    });
+  });
+
+  describe('session permissions', () => {
+    const personal = { userId: 'user_1', orgId: null };
+    const shared = { userId: 'user_1', orgId: 'org_1' };
+    const member = { orgId: 'org_1', role: 'member' as const };
+    const admin = { orgId: 'org_1', role: 'admin' as const };
+
+    it('restricts personal sessions to their owner', () => {
+      expect(canAccessSession(personal, 'user_1')).toBe(true);
+      expect(canAccessSession(personal, 'user_2', admin)).toBe(false);
+      expect(canDeleteSession(personal, 'user_2', admin)).toBe(false);
+    });
+
+    it('shares org sessions with every member of the organization', () => {
+      expect(canAccessSession(shared, 'user_2', member)).toBe(true);
+      expect(canAccessSession(shared, 'user_2', { orgId: 'org_other', role: 'admin' })).toBe(false);
+      expect(canAccessSession(shared, 'user_1')).toBe(false);
+    });
+
+    it('lets only org admins delete org sessions', () => {
+      expect(canDeleteSession(shared, 'user_1', member)).toBe(false);
+      expect(canDeleteSession(shared, 'user_2', admin)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Clerk organizations
+ *
+ * When a user has an active organization, Clerk session tokens carry it as
+ * `org_id` / `org_role` (session token v1) or `o: { id, rol }` (v2). Sessions
+ * may be owned by an organization; every member can read and continue them,
+ * and only org admins can delete them.
+ */
+
+export type OrgRole = 'admin' | 'member';
+
+/**
+ * The caller's active organization
+ */
+export interface OrgMembership {
+  orgId: string;
+  role: OrgRole;
+}
+
+/**
+ * Who owns a session: a single user, or an organization
+ */
+export interface SessionOwnership {
+  userId: string;
+  /** null/absent for personal sessions */
+  orgId?: string | null;
+}
+
+// Clerk roles are "org:admin" / "org:member" (or custom "org:<key>"); older instances use "admin" / "basic_member"
+function toOrgRole(value: unknown): OrgRole {
+  const role = typeof value === 'string' ? value.replace(/^org:/, '') : '';
+  return role === 'admin' ? 'admin' : 'member';
+}
+
+/**
+ * Read the active organization from verified Clerk claims
+ */
+export function orgFromClaims(claims: Record<string, unknown> | undefined): OrgMembership | null {
+  if (typeof claims?.org_id === 'string' && claims.org_id) {
+    return { orgId: claims.org_id, role: toOrgRole(claims.org_role) };
+  }
+
+  const compact = claims?.o as { id?: unknown; rol?: unknown } | undefined;
+  if (compact && typeof compact.id === 'string' && compact.id) {
+    return { orgId: compact.id, role: toOrgRole(compact.rol) };
+  }
+
+  return null;
+}
+
+/**
+ * Whether the caller may read and continue a session
+ */
+export function canAccessSession(session: SessionOwnership, userId: string, org?: OrgMembership | null): boolean {
+  if (!session.orgId) {
+    return session.userId === userId;
+  }
+  return org?.orgId === session.orgId;
+}
+
+/**
+ * Whether the caller may delete a session (org sessions: org admins only)
+ */
+export function canDeleteSession(session: SessionOwnership, userId: string, org?: OrgMembership | null): boolean {
+  if (!session.orgId) {
+    return session.userId === userId;
+  }
+  return org?.orgId === session.orgId && org.role === 'admin';
+}
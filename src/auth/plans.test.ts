@@ -0,0 +1,52 @@
+/**
+ * Plan Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { evaluateQuota, isPlanId, PLAN_QUOTAS, quotaPeriod } from './plans.js';
+
+const NOW = Date.parse('2026-03-15T12:00:00Z');
+
+describe('plans', () => {
+  it('recognises plan IDs', () => {
+    expect(isPlanId('free')).toBe(true);
+    expect(isPlanId('team')).toBe(true);
+    expect(isPlanId('enterprise')).toBe(false);
+  });
+
+  it('uses the calendar month in UTC as the quota period', () => {
+    expect(quotaPeriod(NOW)).toEqual({ start: Date.parse('2026-03-01T00:00:00Z'), end: Date.parse('2026-04-01T00:00:00Z') });
+    expect(quotaPeriod(Date.parse('2026-12-31T23:59:59Z')).end).toBe(Date.parse('2027-01-01T00:00:00Z'));
+  });
+
+  describe('evaluateQuota', () => {
+    it('puts users without a plan on the free plan', () => {
+      const status = evaluateQuota({ plan: null, topUps: [], used: { tokens: 1000, requests: 3 } }, NOW);
+
+      expect(status).toEqual({
+        plan: 'free',
+        periodStart: '2026-03-01',
+        limits: PLAN_QUOTAS.free,
+        used: { tokens: 1000, requests: 3 },
+        remaining: { tokens: PLAN_QUOTAS.free.tokens - 1000, requests: PLAN_QUOTAS.free.requests - 3 },
+        exceeded: false,
+        resetsAt: '2026-04-01T00:00:00.000Z',
+      });
+    });
+
+    it('is exceeded when either tokens or requests run out', () => {
+      const { tokens, requests } = PLAN_QUOTAS.team;
+
+      expect(evaluateQuota({ plan: 'team', topUps: [], used: { tokens, requests: 0 } }, NOW).exceeded).toBe(true);
+      expect(evaluateQuota({ plan: 'team', topUps: [], used: { tokens: 0, requests } }, NOW).exceeded).toBe(true);
+      expect(evaluateQuota({ plan: 'team', topUps: [], used: { tokens: tokens + 5, requests: 0 } }, NOW).remaining.tokens).toBe(0);
+    });
+
+    it('adds top-ups to the plan quota', () => {
+      const topUp = { id: 't1', tokens: 50_000, requests: 0, grantedBy: 'user_admin', note: null, createdAt: NOW };
+      const status = evaluateQuota({ plan: 'free', topUps: [topUp, topUp], used: { tokens: PLAN_QUOTAS.free.tokens, requests: 0 } }, NOW);
+
+      expect(status.limits.tokens).toBe(PLAN_QUOTAS.free.tokens + 100_000);
+      expect(status.exceeded).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Plans and monthly quotas
+ *
+ * Every user is on a plan (`free` unless an admin assigned another) that caps
+ * the tokens and requests they may use per calendar month (UTC). Admins can
+ * grant one-off top-ups that raise the caps for the month they are granted
+ * in. Quotas are checked before a prompt reaches the model, so concurrent
+ * prompts may overshoot a quota by the tokens of the prompts in flight.
+ */
+
+export const PLAN_IDS = ['free', 'team'] as const;
+export type PlanId = typeof PLAN_IDS[number];
+
+export const DEFAULT_PLAN: PlanId = 'free';
+
+export interface QuotaLimits {
+  tokens: number;
+  requests: number;
+}
+
+export const PLAN_QUOTAS: Record<PlanId, QuotaLimits> = {
+  free: { tokens: 200_000, requests: 500 },
+  team: { tokens: 5_000_000, requests: 10_000 },
+};
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && (PLAN_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * A quota increase an admin granted for one month
+ */
+export interface QuotaTopUp {
+  id: string;
+  tokens: number;
+  requests: number;
+  grantedBy: string;
+  note: string | null;
+  createdAt: number;
+}
+
+/**
+ * What the store knows about a user's month: their plan, top-ups and usage so far
+ */
+export interface QuotaState {
+  /** null = DEFAULT_PLAN */
+  plan: PlanId | null;
+  topUps: QuotaTopUp[];
+  used: QuotaLimits;
+}
+
+export interface QuotaStatus {
+  plan: PlanId;
+  /** First day of the month (YYYY-MM-DD, UTC) */
+  periodStart: string;
+  /** Plan quota plus this month's top-ups */
+  limits: QuotaLimits;
+  used: QuotaLimits;
+  remaining: QuotaLimits;
+  exceeded: boolean;
+  /** When usage starts counting from zero again (ISO 8601) */
+  resetsAt: string;
+}
+
+/**
+ * Start and end (ms) of the calendar month (UTC) containing `now`
+ */
+export function quotaPeriod(now: number = Date.now()): { start: number; end: number } {
+  const date = new Date(now);
+  return {
+    start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+  };
+}
+
+export function evaluateQuota(state: QuotaState, now: number = Date.now()): QuotaStatus {
+  const plan = state.plan ?? DEFAULT_PLAN;
+  const { start, end } = quotaPeriod(now);
+  const limits = {
+    tokens: PLAN_QUOTAS[plan].tokens + state.topUps.reduce((sum, topUp) => sum + topUp.tokens, 0),
+    requests: PLAN_QUOTAS[plan].requests + state.topUps.reduce((sum, topUp) => sum + topUp.requests, 0),
+  };
+
+  return {
+    plan,
+    periodStart: new Date(start).toISOString().slice(0, 10),
+    limits,
+    used: state.used,
+    remaining: {
+      tokens: Math.max(0, limits.tokens - state.used.tokens),
+      requests: Math.max(0, limits.requests - state.used.requests),
+    },
+    exceeded: state.used.tokens >= limits.tokens || state.used.requests >= limits.requests,
+    resetsAt: new Date(end).toISOString(),
+  };
+}
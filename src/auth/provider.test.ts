@@ -0,0 +1,225 @@
+/**
+ * AuthProvider Tests
+ *
+ * Every provider runs through the same contract suite, followed by tests
+ * for the chain and the shared middleware.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { Hono } from 'hono';
+import { AuthError, authenticateRequest, createAuthMiddleware, getCookie } from './provider.js';
+import type { AuthProvider, AuthVariables } from './provider.js';
+import { ApiKeyProvider, ClerkCookieProvider, ClerkJwtProvider, DevBypassProvider, LocalJwtProvider } from './providers.js';
+import { generateApiKey, hashApiKey } from './api-keys.js';
+import { createTestSigner, signTestToken } from './test-keys.js';
+
+// jsonwebtoken is only needed by the deprecated Node app; the provider logic is what is under test
+vi.mock('./jwt.js', () => ({
+  decodeToken: (token: string, secret: string) => {
+    if (token === 'local-jwt-for-user_local' && secret === 'local-secret') {
+      return { userId: 'user_local' };
+    }
+    throw new Error('invalid signature');
+  },
+}));
+
+interface ProviderFixture {
+  name: string;
+  provider: AuthProvider;
+  expectedUserId: string;
+  expectedMethod: string;
+  validRequest(): Promise<Request>;
+  /** A credential the provider owns but must reject (omitted if none exists) */
+  invalidRequest?(): Promise<Request>;
+}
+
+function bearer(token: string): Request {
+  return new Request('http://localhost/api/test', { headers: { 'Authorization': `Bearer ${token}` } });
+}
+
+function sessionCookie(token: string): Request {
+  return new Request('http://localhost/api/test', { headers: { 'Cookie': `theme=dark; __session=${token}` } });
+}
+
+const fixtures: ProviderFixture[] = [];
+
+beforeAll(async () => {
+  const signer = await createTestSigner();
+  const attacker = await createTestSigner();
+  const { key } = generateApiKey();
+  const keyHash = await hashApiKey(key);
+
+  fixtures.push(
+    {
+      name: 'ClerkJwtProvider',
+      provider: new ClerkJwtProvider({ jwtKey: signer.publicKeyPem }),
+      expectedUserId: 'user_clerk',
+      expectedMethod: 'clerk',
+      validRequest: async () => bearer(await signTestToken(signer, 'user_clerk')),
+      invalidRequest: async () => bearer(await signTestToken(attacker, 'user_clerk')),
+    },
+    {
+      name: 'ClerkCookieProvider',
+      provider: new ClerkCookieProvider({ jwtKey: signer.publicKeyPem }),
+      expectedUserId: 'user_cookie',
+      expectedMethod: 'clerk',
+      validRequest: async () => sessionCookie(await signTestToken(signer, 'user_cookie')),
+      invalidRequest: async () => sessionCookie(await signTestToken(attacker, 'user_cookie')),
+    },
+    {
+      name: 'ApiKeyProvider',
+      provider: new ApiKeyProvider({
+        verifyApiKey: async (hash: string) => (hash === keyHash ? { userId: 'user_key', keyId: 'key-1', scopes: null } : null),
+      }),
+      expectedUserId: 'user_key',
+      expectedMethod: 'api_key',
+      validRequest: async () => bearer(key),
+      invalidRequest: async () => bearer(generateApiKey().key),
+    },
+    {
+      name: 'LocalJwtProvider',
+      provider: new LocalJwtProvider('local-secret'),
+      expectedUserId: 'user_local',
+      expectedMethod: 'local_jwt',
+      validRequest: async () => bearer('local-jwt-for-user_local'),
+      invalidRequest: async () => bearer('tampered.local.jwt'),
+    },
+    {
+      name: 'DevBypassProvider',
+      provider: new DevBypassProvider(),
+      expectedUserId: 'user_dev',
+      expectedMethod: 'dev',
+      validRequest: async () => new Request('http://localhost/api/test', { headers: { 'X-Dev-User-Id': 'user_dev' } }),
+    },
+  );
+});
+
+describe.each(['ClerkJwtProvider', 'ClerkCookieProvider', 'ApiKeyProvider', 'LocalJwtProvider', 'DevBypassProvider'])('%s contract', (name) => {
+  const fixture = () => fixtures.find(f => f.name === name)!;
+
+  it('returns null when the request has no credentials', async () => {
+    const identity = await fixture().provider.authenticate(new Request('http://localhost/api/test'));
+    expect(identity).toBeNull();
+  });
+
+  it('resolves a valid credential to an identity', async () => {
+    const { provider, validRequest, expectedUserId, expectedMethod } = fixture();
+    const identity = await provider.authenticate(await validRequest());
+
+    expect(identity?.userId).toBe(expectedUserId);
+    expect(identity?.method).toBe(expectedMethod);
+  });
+
+  it('rejects an invalid credential with AuthError', async () => {
+    const { provider, invalidRequest } = fixture();
+    if (!invalidRequest) {
+      return;
+    }
+    await expect(provider.authenticate(await invalidRequest())).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('works behind the shared middleware', async () => {
+    const { provider, validRequest, expectedUserId } = fixture();
+    const app = new Hono<{ Variables: AuthVariables }>();
+    app.use('*', createAuthMiddleware([provider]));
+    app.get('/api/test', (c) => c.json({ userId: c.get('userId'), method: c.get('authMethod') }));
+
+    const response = await app.request(await validRequest());
+    const body = await response.json() as { userId: string };
+
+    expect(response.status).toBe(200);
+    expect(body.userId).toBe(expectedUserId);
+  });
+});
+
+describe('ClerkCookieProvider', () => {
+  it('marks identities as cookie-based', async () => {
+    const { provider, validRequest } = fixtures.find(f => f.name === 'ClerkCookieProvider')!;
+    const identity = await provider.authenticate(await validRequest());
+
+    expect(identity?.fromCookie).toBe(true);
+  });
+
+  it('defers to an explicit Authorization header', async () => {
+    const { provider, validRequest } = fixtures.find(f => f.name === 'ClerkCookieProvider')!;
+    const request = await validRequest();
+    request.headers.set('Authorization', 'Bearer ock_something');
+
+    expect(await provider.authenticate(request)).toBeNull();
+  });
+});
+
+describe('getCookie', () => {
+  it('finds a cookie among several, keeping "=" in the value', () => {
+    const request = new Request('http://localhost/', { headers: { 'Cookie': 'a=1; __session=abc.def==; b=2' } });
+
+    expect(getCookie(request, '__session')).toBe('abc.def==');
+    expect(getCookie(request, 'missing')).toBeNull();
+  });
+});
+
+describe('authenticateRequest', () => {
+  const stub = (name: string, result: () => Promise<any>): AuthProvider => ({ name, authenticate: vi.fn(result) });
+
+  it('returns the first identity in chain order', async () => {
+    const first = stub('first', async () => null);
+    const second = stub('second', async () => ({ userId: 'user_2', method: 'dev' }));
+    const third = stub('third', async () => ({ userId: 'user_3', method: 'dev' }));
+
+    const result = await authenticateRequest([first, second, third], new Request('http://localhost/'));
+
+    expect(result).toEqual({ ok: true, identity: { userId: 'user_2', method: 'dev' } });
+    expect(third.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('stops at a provider that rejects its credential', async () => {
+    const rejecting = stub('rejecting', async () => { throw new AuthError('invalid_api_key'); });
+    const fallback = stub('fallback', async () => ({ userId: 'user_x', method: 'dev' }));
+
+    const result = await authenticateRequest([rejecting, fallback], new Request('http://localhost/'));
+
+    expect(result).toEqual({ ok: false, reason: 'invalid_api_key' });
+    expect(fallback.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('reports missing credentials', async () => {
+    const result = await authenticateRequest([stub('none', async () => null)], new Request('http://localhost/'));
+    expect(result).toEqual({ ok: false, reason: 'no_bearer' });
+  });
+
+  it('does not leak unexpected provider errors', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = stub('broken', async () => { throw new Error('database exploded'); });
+
+    const result = await authenticateRequest([broken], new Request('http://localhost/'));
+
+    expect(result).toEqual({ ok: false, reason: 'verify_error' });
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('does not log rejected credentials', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const expired = stub('clerk', async () => { throw new AuthError('token_expired'); });
+
+    await authenticateRequest([expired], new Request('http://localhost/'));
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    warn.mockRestore();
+    error.mockRestore();
+  });
+});
+
+describe('createAuthMiddleware', () => {
+  it('returns a consistent 401 body', async () => {
+    const app = new Hono<{ Variables: AuthVariables }>();
+    app.use('*', createAuthMiddleware([new DevBypassProvider()]));
+    app.get('/test', (c) => c.json({ ok: true }));
+
+    const response = await app.request('/test');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized', debug: 'no_bearer' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Pluggable authentication
+ *
+ * Every way of proving who a caller is (Clerk session JWT, Clerk session
+ * cookie, personal API key, local HS256 JWT, dev bypass) implements AuthProvider. Entry points compose
+ * an ordered provider chain and share one middleware / one 401 format.
+ */
+import type { Context, MiddlewareHandler } from 'hono';
+
+export type AuthMethod = 'clerk' | 'api_key' | 'local_jwt' | 'dev';
+
+/**
+ * The authenticated caller
+ */
+export interface AuthIdentity {
+  userId: string;
+  method: AuthMethod;
+  /** Verified token claims, when the credential carries any */
+  claims?: Record<string, unknown>;
+  /** Scopes the credential is restricted to (undefined = unrestricted, see scopes.ts) */
+  scopes?: string[];
+  /** The credential was an ambient browser cookie, so state-changing requests need CSRF checks */
+  fromCookie?: boolean;
+}
+
+/**
+ * Variables set on the Hono context by createAuthMiddleware
+ */
+export type AuthVariables = {
+  userId: string;
+  authMethod: AuthMethod;
+  auth: AuthIdentity;
+};
+
+/**
+ * Raised by a provider that recognises the credential but rejects it
+ *
+ * `reason` is a short machine-readable code returned to clients as `debug`.
+ */
+export class AuthError extends Error {
+  constructor(readonly reason: string, message?: string) {
+    super(message ?? reason);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  /**
+   * @returns the identity, or null when the request carries no credential for this provider
+   * @throws AuthError when the credential is meant for this provider but invalid
+   */
+  authenticate(request: Request, context?: Context): Promise<AuthIdentity | null>;
+}
+
+export type AuthResult =
+  | { ok: true; identity: AuthIdentity }
+  | { ok: false; reason: string };
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get('Authorization') || '';
+  if (!authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  const token = authHeader.substring(7).trim();
+  return token || null;
+}
+
+/**
+ * Read a cookie from the request's Cookie header
+ */
+export function getCookie(request: Request, name: string): string | null {
+  const cookieHeader = request.headers.get('Cookie') || '';
+  for (const part of cookieHeader.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.substring(0, separator).trim() === name) {
+      const value = part.substring(separator + 1).trim();
+      return value || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run the provider chain: the first provider to return an identity wins,
+ * and a provider rejecting its credential stops the chain.
+ */
+export async function authenticateRequest(
+  providers: AuthProvider[],
+  request: Request,
+  context?: Context
+): Promise<AuthResult> {
+  for (const provider of providers) {
+    try {
+      const identity = await provider.authenticate(request, context);
+      if (identity) {
+        return { ok: true, identity };
+      }
+    } catch (error) {
+      // Rejected credentials are routine (expired or forged tokens) and not worth a log line
+      if (error instanceof AuthError) {
+        return { ok: false, reason: error.reason };
+      }
+      console.warn(`[Auth] Unexpected ${provider.name} provider error:`, error);
+      return { ok: false, reason: 'verify_error' };
+    }
+  }
+  // Named before cookies and API keys existed; clients match on it, so it stays `no_bearer`
+  return { ok: false, reason: 'no_bearer' };
+}
+
+/**
+ * Body of every 401 response
+ */
+export function unauthorizedBody(reason: string): { error: 'Unauthorized'; debug: string } {
+  return { error: 'Unauthorized', debug: reason };
+}
+
+/**
+ * Hono middleware authenticating with a provider chain
+ */
+export function createAuthMiddleware(
+  providers: AuthProvider[] | ((c: Context) => AuthProvider[])
+): MiddlewareHandler<{ Variables: AuthVariables }> {
+  return async (c, next) => {
+    const chain = typeof providers === 'function' ? providers(c) : providers;
+    const result = await authenticateRequest(chain, c.req.raw, c);
+
+    if (!result.ok) {
+      return c.json(unauthorizedBody(result.reason), 401);
+    }
+
+    c.set('userId', result.identity.userId);
+    c.set('authMethod', result.identity.method);
+    c.set('auth', result.identity);
+    await next();
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * AuthProvider implementations
+ */
+import { ClerkTokenError, verifyClerkJwt } from './clerk.js';
+import type { ClerkVerifyOptions } from './clerk.js';
+import { hashApiKey, isApiKey } from './api-keys.js';
+import { AuthError, getBearerToken, getCookie } from './provider.js';
+import type { AuthIdentity, AuthProvider } from './provider.js';
+import type { ApiKeyStore } from '../durable-objects/session-durable-object.js';
+
+/**
+ * Clerk session JWT (RS256, verified against JWKS or CLERK_JWT_KEY)
+ */
+export class ClerkJwtProvider implements AuthProvider {
+  readonly name = 'clerk';
+
+  constructor(private readonly options: ClerkVerifyOptions) {}
+
+  async authenticate(request: Request): Promise<AuthIdentity | null> {
+    const token = getBearerToken(request);
+    if (!token || isApiKey(token)) {
+      return null;
+    }
+
+    try {
+      const payload = await verifyClerkJwt(token, this.options);
+      return { userId: payload.sub, method: 'clerk', claims: payload };
+    } catch (error) {
+      if (error instanceof ClerkTokenError) {
+        throw new AuthError(error.reason, error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+export const CLERK_SESSION_COOKIE = '__session';
+
+/**
+ * Clerk session JWT from the `__session` cookie set by Clerk JS on the same origin
+ *
+ * Only consulted when the request has no Authorization header, so an explicit
+ * bearer credential always wins over the ambient cookie.
+ */
+export class ClerkCookieProvider implements AuthProvider {
+  readonly name = 'clerk_cookie';
+
+  constructor(private readonly options: ClerkVerifyOptions, private readonly cookieName: string = CLERK_SESSION_COOKIE) {}
+
+  async authenticate(request: Request): Promise<AuthIdentity | null> {
+    const token = getCookie(request, this.cookieName);
+    if (!token || request.headers.has('Authorization')) {
+      return null;
+    }
+
+    try {
+      const payload = await verifyClerkJwt(token, this.options);
+      return { userId: payload.sub, method: 'clerk', claims: payload, fromCookie: true };
+    } catch (error) {
+      if (error instanceof ClerkTokenError) {
+        throw new AuthError(error.reason, error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Personal API key (`Bearer ock_...`), looked up by hash
+ */
+export class ApiKeyProvider implements AuthProvider {
+  readonly name = 'api_key';
+
+  constructor(private readonly store: Pick<ApiKeyStore, 'verifyApiKey'>) {}
+
+  async authenticate(request: Request): Promise<AuthIdentity | null> {
+    const token = getBearerToken(request);
+    if (!token || !isApiKey(token)) {
+      return null;
+    }
+
+    const apiKey = await this.store.verifyApiKey(await hashApiKey(token));
+    if (!apiKey) {
+      throw new AuthError('invalid_api_key');
+    }
+
+    return {
+      userId: apiKey.userId,
+      method: 'api_key',
+      claims: { keyId: apiKey.keyId },
+      ...(apiKey.scopes ? { scopes: apiKey.scopes } : {}),
+    };
+  }
+}
+
+/**
+ * Locally issued HS256 JWT (auth/jwt.ts)
+ * @deprecated Use Clerk authentication; kept for the Node ApiApp only
+ */
+export class LocalJwtProvider implements AuthProvider {
+  readonly name = 'local_jwt';
+
+  constructor(private readonly secret: string) {}
+
+  async authenticate(request: Request): Promise<AuthIdentity | null> {
+    const token = getBearerToken(request);
+    if (!token || isApiKey(token)) {
+      return null;
+    }
+
+    // Dynamic import keeps jsonwebtoken out of the Workers bundle
+    const { decodeToken } = await import('./jwt.js');
+    let payload;
+    try {
+      payload = decodeToken(token, this.secret);
+    } catch {
+      throw new AuthError('invalid_token');
+    }
+
+    if (!payload.userId) {
+      throw new AuthError('no_user_id');
+    }
+    return { userId: payload.userId, method: 'local_jwt' };
+  }
+}
+
+export const DEV_USER_HEADER = 'X-Dev-User-Id';
+
+/**
+ * Development bypass: trusts a user id header. Only enable locally.
+ */
+export class DevBypassProvider implements AuthProvider {
+  readonly name = 'dev';
+
+  constructor(private readonly header: string = DEV_USER_HEADER) {}
+
+  async authenticate(request: Request): Promise<AuthIdentity | null> {
+    const userId = request.headers.get(this.header)?.trim();
+    if (!userId) {
+      return null;
+    }
+    return { userId, method: 'dev' };
+  }
+}
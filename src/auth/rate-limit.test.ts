@@ -0,0 +1,110 @@
+/**
+ * Rate Limit Tests
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import {
+  createRateLimitMiddleware,
+  DEFAULT_PROMPT_RATE_LIMIT,
+  isRateLimitConfig,
+  parseRateLimitConfig,
+  rateLimitHeaders,
+  takeToken,
+} from './rate-limit.js';
+import type { RateLimitDecision } from './rate-limit.js';
+import type { AuthVariables } from './provider.js';
+
+describe('takeToken', () => {
+  const config = { requestsPerMinute: 60, burst: 3 };
+
+  it('starts with a full bucket', () => {
+    const { bucket, decision } = takeToken(null, config, 1_000);
+
+    expect(bucket).toEqual({ tokens: 2, updatedAt: 1_000 });
+    expect(decision).toMatchObject({ allowed: true, limit: 3, remaining: 2, retryAfter: 0 });
+  });
+
+  it('rejects once the burst is used up and says when to retry', () => {
+    const { bucket, decision } = takeToken({ tokens: 0.25, updatedAt: 1_000 }, config, 1_000);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.remaining).toBe(0);
+    // 0.75 tokens missing at one token per second
+    expect(decision.retryAfter).toBe(1);
+    expect(bucket.tokens).toBe(0.25);
+  });
+
+  it('refills at the sustained rate, up to the burst', () => {
+    expect(takeToken({ tokens: 0, updatedAt: 0 }, config, 1_500).decision).toMatchObject({ allowed: true, remaining: 0 });
+    expect(takeToken({ tokens: 0, updatedAt: 0 }, config, 60_000).bucket.tokens).toBe(2);
+  });
+
+  it('reports when the bucket is full again', () => {
+    const { decision } = takeToken({ tokens: 1, updatedAt: 10_000 }, config, 10_000);
+    // Empty after this request; three tokens take three seconds
+    expect(decision.reset).toBe(13);
+  });
+});
+
+describe('parseRateLimitConfig', () => {
+  it('uses the defaults for missing or invalid values', () => {
+    expect(parseRateLimitConfig(undefined, undefined)).toEqual(DEFAULT_PROMPT_RATE_LIMIT);
+    expect(parseRateLimitConfig('abc', '0')).toEqual(DEFAULT_PROMPT_RATE_LIMIT);
+    expect(parseRateLimitConfig('30', undefined)).toEqual({ requestsPerMinute: 30, burst: DEFAULT_PROMPT_RATE_LIMIT.burst });
+  });
+});
+
+describe('isRateLimitConfig', () => {
+  it('requires positive integers within bounds', () => {
+    expect(isRateLimitConfig({ requestsPerMinute: 5, burst: 10 })).toBe(true);
+    expect(isRateLimitConfig({ requestsPerMinute: 1.5, burst: 10 })).toBe(false);
+    expect(isRateLimitConfig({ requestsPerMinute: 5 })).toBe(false);
+    expect(isRateLimitConfig({ requestsPerMinute: 5, burst: 1_000_000 })).toBe(false);
+    expect(isRateLimitConfig(null)).toBe(false);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('adds Retry-After only to rejections', () => {
+    const decision: RateLimitDecision = { allowed: true, limit: 5, remaining: 4, retryAfter: 0, reset: 100 };
+
+    expect(rateLimitHeaders(decision)).toEqual({ 'X-RateLimit-Limit': '5', 'X-RateLimit-Remaining': '4', 'X-RateLimit-Reset': '100' });
+    expect(rateLimitHeaders({ ...decision, allowed: false, remaining: 0, retryAfter: 7 })['Retry-After']).toBe('7');
+  });
+});
+
+describe('createRateLimitMiddleware', () => {
+  function createApp(decision: RateLimitDecision) {
+    const store = {
+      consumeRateLimit: vi.fn(async () => decision),
+      getRateLimitOverride: vi.fn(),
+      setRateLimitOverride: vi.fn(),
+    };
+    const app = new Hono<{ Variables: AuthVariables }>();
+    app.use(async (c, next) => {
+      c.set('userId', 'user_1');
+      await next();
+    });
+    app.use(createRateLimitMiddleware(() => store, () => DEFAULT_PROMPT_RATE_LIMIT));
+    app.get('/', (c) => c.text('ok'));
+    return { app, store };
+  }
+
+  it('passes allowed requests through with rate-limit headers', async () => {
+    const { app, store } = createApp({ allowed: true, limit: 20, remaining: 19, retryAfter: 0, reset: 100 });
+    const response = await app.request('/');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('19');
+    expect(store.consumeRateLimit).toHaveBeenCalledWith('user_1', DEFAULT_PROMPT_RATE_LIMIT);
+  });
+
+  it('rejects with 429 and Retry-After', async () => {
+    const { app } = createApp({ allowed: false, limit: 20, remaining: 0, retryAfter: 6, reset: 100 });
+    const response = await app.request('/');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('6');
+    expect(await response.json()).toEqual({ error: 'Too Many Requests', code: 'rate_limited', retryAfter: 6 });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Per-user rate limiting (token bucket)
+ *
+ * Each user has a bucket holding up to `burst` tokens that refills at
+ * `requestsPerMinute`; a request takes one token or is rejected with 429.
+ * Buckets live in the user's Durable Object shard, so concurrent requests of
+ * one user are serialized and never race on the token count. Admins may give
+ * a user limits other than the configured defaults.
+ */
+import type { Context, MiddlewareHandler } from 'hono';
+import type { AuthVariables } from './provider.js';
+import type { RateLimitStore } from '../durable-objects/session-durable-object.js';
+
+export interface RateLimitConfig {
+  /** Sustained rate: tokens added per minute */
+  requestsPerMinute: number;
+  /** Bucket size: requests allowed back to back after being idle */
+  burst: number;
+}
+
+export const DEFAULT_PROMPT_RATE_LIMIT: RateLimitConfig = { requestsPerMinute: 10, burst: 20 };
+
+// Upper bound for configured and overridden values
+export const MAX_RATE_LIMIT_VALUE = 10_000;
+
+/**
+ * Stored bucket state
+ */
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Outcome of taking a token
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the next token (0 when allowed) */
+  retryAfter: number;
+  /** Unix time (seconds) at which the bucket is full again */
+  reset: number;
+}
+
+function isLimitValue(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_RATE_LIMIT_VALUE;
+}
+
+export function isRateLimitConfig(value: unknown): value is RateLimitConfig {
+  const config = value as Partial<RateLimitConfig> | null;
+  return !!config && typeof config === 'object' && isLimitValue(config.requestsPerMinute) && isLimitValue(config.burst);
+}
+
+/**
+ * Read limits from environment variables, falling back per value to `fallback`
+ */
+export function parseRateLimitConfig(
+  requestsPerMinute: string | undefined,
+  burst: string | undefined,
+  fallback: RateLimitConfig = DEFAULT_PROMPT_RATE_LIMIT
+): RateLimitConfig {
+  const parse = (value: string | undefined, otherwise: number) => {
+    const parsed = Number(value);
+    return value && isLimitValue(parsed) ? parsed : otherwise;
+  };
+  return {
+    requestsPerMinute: parse(requestsPerMinute, fallback.requestsPerMinute),
+    burst: parse(burst, fallback.burst),
+  };
+}
+
+/**
+ * Refill a bucket up to `now` and try to take one token
+ *
+ * A missing bucket starts full.
+ */
+export function takeToken(
+  bucket: TokenBucket | null,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): { bucket: TokenBucket; decision: RateLimitDecision } {
+  const perMs = config.requestsPerMinute / 60_000;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const available = bucket ? Math.min(config.burst, bucket.tokens + elapsed * perMs) : config.burst;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: config.burst,
+      remaining: Math.floor(tokens),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / perMs / 1000),
+      reset: Math.ceil((now + (config.burst - tokens) / perMs) / 1000),
+    },
+  };
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.reset),
+    ...(decision.allowed ? {} : { 'Retry-After': String(decision.retryAfter) }),
+  };
+}
+
+/**
+ * Hono middleware taking one token per request from the caller's bucket
+ * (must run after createAuthMiddleware)
+ */
+export function createRateLimitMiddleware(
+  getStore: (userId: string) => RateLimitStore,
+  getDefaults: (c: Context) => RateLimitConfig
+): MiddlewareHandler<{ Variables: AuthVariables }> {
+  return async (c, next) => {
+    const userId = c.get('userId');
+    const decision = await getStore(userId).consumeRateLimit(userId, getDefaults(c));
+
+    for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+      c.header(name, value);
+    }
+    if (!decision.allowed) {
+      return c.json({ error: 'Too Many Requests', code: 'rate_limited', retryAfter: decision.retryAfter }, 429);
+    }
+    await next();
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Role Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { parseAdminUserIds, requireRole, resolveRole, roleFromClaims } from './roles.js';
+import type { UserRole } from './roles.js';
+
+describe('roles', () => {
+  describe('roleFromClaims', () => {
+    it('reads the role from public metadata claims', () => {
+      expect(roleFromClaims({ metadata: { role: 'admin' } })).toBe('admin');
+      expect(roleFromClaims({ public_metadata: { role: 'suspended' } })).toBe('suspended');
+    });
+
+    it('ignores missing or unknown roles', () => {
+      expect(roleFromClaims(undefined)).toBeNull();
+      expect(roleFromClaims({ metadata: { role: 'superuser' } })).toBeNull();
+      expect(roleFromClaims({ metadata: 'admin' })).toBeNull();
+    });
+  });
+
+  describe('resolveRole', () => {
+    it('defaults to member', () => {
+      expect(resolveRole({ storedRole: null, claimRole: null, bootstrapAdmin: false })).toBe('member');
+    });
+
+    it('grants admin from any source', () => {
+      expect(resolveRole({ storedRole: 'admin', claimRole: null, bootstrapAdmin: false })).toBe('admin');
+      expect(resolveRole({ storedRole: 'member', claimRole: 'admin', bootstrapAdmin: false })).toBe('admin');
+      expect(resolveRole({ storedRole: null, claimRole: null, bootstrapAdmin: true })).toBe('admin');
+    });
+
+    it('lets suspension override admin', () => {
+      expect(resolveRole({ storedRole: 'suspended', claimRole: 'admin', bootstrapAdmin: true })).toBe('suspended');
+    });
+  });
+
+  describe('parseAdminUserIds', () => {
+    it('splits and trims the list', () => {
+      expect(parseAdminUserIds(' user_a, user_b ,,')).toEqual(['user_a', 'user_b']);
+      expect(parseAdminUserIds(undefined)).toEqual([]);
+    });
+  });
+
+  describe('requireRole', () => {
+    function appWithRole(role: UserRole) {
+      const app = new Hono<{ Variables: { role: UserRole } }>();
+      app.use('*', async (c, next) => {
+        c.set('role', role);
+        await next();
+      });
+      app.get('/admin', requireRole('admin'), (c) => c.json({ ok: true }));
+      return app;
+    }
+
+    it('allows listed roles', async () => {
+      const response = await appWithRole('admin').request('/admin');
+      expect(response.status).toBe(200);
+    });
+
+    it('forbids other roles', async () => {
+      const response = await appWithRole('member').request('/admin');
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Forbidden', code: 'insufficient_role' });
+    });
+  });
+});
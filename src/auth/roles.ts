@@ -0,0 +1,73 @@
+/**
+ * Role-based access control
+ *
+ * A user's effective role combines the role stored in the Durable Object
+ * (set by admins), the `role` in Clerk public metadata (exposed to session
+ * tokens as `metadata` or `public_metadata` custom claims) and the
+ * ADMIN_USER_IDS bootstrap list. Suspension stored in the DO always wins.
+ */
+import type { MiddlewareHandler } from 'hono';
+
+export const USER_ROLES = ['admin', 'member', 'suspended'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Read `role` from Clerk public metadata claims, if the session token template exposes them
+ */
+export function roleFromClaims(claims: Record<string, unknown> | undefined): UserRole | null {
+  for (const key of ['metadata', 'public_metadata']) {
+    const metadata = claims?.[key];
+    if (metadata && typeof metadata === 'object') {
+      const role = (metadata as Record<string, unknown>).role;
+      if (isUserRole(role)) {
+        return role;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the comma-separated ADMIN_USER_IDS variable
+ */
+export function parseAdminUserIds(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+export interface RoleSources {
+  storedRole: UserRole | null;
+  claimRole: UserRole | null;
+  bootstrapAdmin: boolean;
+}
+
+/**
+ * Combine the role sources into the effective role
+ */
+export function resolveRole({ storedRole, claimRole, bootstrapAdmin }: RoleSources): UserRole {
+  if (storedRole === 'suspended' || claimRole === 'suspended') {
+    return 'suspended';
+  }
+  if (storedRole === 'admin' || claimRole === 'admin' || bootstrapAdmin) {
+    return 'admin';
+  }
+  return 'member';
+}
+
+/**
+ * Hono middleware allowing only the given roles (expects `role` on the context)
+ */
+export function requireRole(...roles: UserRole[]): MiddlewareHandler<{ Variables: { role: UserRole } }> {
+  return async (c, next) => {
+    if (!roles.includes(c.get('role'))) {
+      return c.json({ error: 'Forbidden', code: 'insufficient_role' }, 403);
+    }
+    await next();
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Scope Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { hasScope, parseScopes, requireScope } from './scopes.js';
+import type { AuthVariables } from './provider.js';
+
+describe('scopes', () => {
+  describe('parseScopes', () => {
+    it('treats omitted scopes as unrestricted', () => {
+      expect(parseScopes(undefined)).toEqual({ ok: true, scopes: null });
+    });
+
+    it('accepts arrays and space-separated strings, removing duplicates', () => {
+      expect(parseScopes(['sessions:read', 'sessions:read'])).toEqual({ ok: true, scopes: ['sessions:read'] });
+      expect(parseScopes('prompt:write sessions:read')).toEqual({ ok: true, scopes: ['prompt:write', 'sessions:read'] });
+    });
+
+    it('rejects unknown and empty scope lists', () => {
+      expect(parseScopes(['sessions:read', 'everything'])).toEqual({ ok: false, invalid: ['everything'] });
+      expect(parseScopes([])).toEqual({ ok: false, invalid: [] });
+      expect(parseScopes(42)).toEqual({ ok: false, invalid: [] });
+    });
+  });
+
+  describe('hasScope', () => {
+    it('grants everything to unrestricted credentials', () => {
+      expect(hasScope(undefined, 'sessions:delete')).toBe(true);
+      expect(hasScope(null, 'admin')).toBe(true);
+    });
+
+    it('requires any one of the listed scopes', () => {
+      expect(hasScope(['sessions:read'], 'sessions:read', 'sessions:write')).toBe(true);
+      expect(hasScope(['sessions:read'], 'sessions:delete')).toBe(false);
+    });
+  });
+
+  describe('requireScope', () => {
+    it('returns 403 with the required scopes', async () => {
+      const app = new Hono<{ Variables: AuthVariables }>();
+      app.use('*', async (c, next) => {
+        c.set('auth', { userId: 'user_1', method: 'api_key', scopes: ['sessions:read'] });
+        await next();
+      });
+      app.delete('/sessions/:id', requireScope('sessions:delete'), (c) => c.body(null, 204));
+
+      const response = await app.request('/sessions/abc', { method: 'DELETE' });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Forbidden', code: 'insufficient_scope', required: ['sessions:delete'] });
+    });
+  });
+});
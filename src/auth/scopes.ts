@@ -0,0 +1,75 @@
+/**
+ * Credential scopes
+ *
+ * API keys and device-flow tokens may be restricted to a subset of
+ * operations. A credential without scopes (Clerk sessions, unrestricted API
+ * keys) may do everything; a scoped credential may only call routes guarded by
+ * one of its scopes.
+ */
+import type { MiddlewareHandler } from 'hono';
+import type { AuthVariables } from './provider.js';
+
+export const API_SCOPES = [
+  'prompt:write',
+  'sessions:read',
+  'sessions:write',
+  'sessions:delete',
+  'usage:read',
+  'admin',
+] as const;
+export type ApiScope = typeof API_SCOPES[number];
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as readonly string[]).includes(value);
+}
+
+export type ParsedScopes =
+  | { ok: true; scopes: ApiScope[] | null }
+  | { ok: false; invalid: string[] };
+
+/**
+ * Validate requested scopes from an array (JSON) or a space-separated string (OAuth `scope`)
+ *
+ * Omitted scopes mean an unrestricted credential (`null`); an empty list is invalid
+ * because such a credential could not call anything.
+ */
+export function parseScopes(input: unknown): ParsedScopes {
+  if (input === undefined || input === null) {
+    return { ok: true, scopes: null };
+  }
+
+  const values = typeof input === 'string'
+    ? input.split(' ').filter(Boolean)
+    : Array.isArray(input) ? input : null;
+  if (!values || values.length === 0) {
+    return { ok: false, invalid: [] };
+  }
+
+  const invalid = values.filter(value => !isApiScope(value)).map(String);
+  if (invalid.length > 0) {
+    return { ok: false, invalid };
+  }
+  return { ok: true, scopes: Array.from(new Set(values as ApiScope[])) };
+}
+
+/**
+ * Whether granted scopes (null = unrestricted) include one of the required scopes
+ */
+export function hasScope(granted: readonly string[] | null | undefined, ...required: ApiScope[]): boolean {
+  if (granted === null || granted === undefined) {
+    return true;
+  }
+  return required.some(scope => granted.includes(scope));
+}
+
+/**
+ * Hono middleware allowing credentials that hold any of the given scopes
+ */
+export function requireScope(...scopes: ApiScope[]): MiddlewareHandler<{ Variables: AuthVariables }> {
+  return async (c, next) => {
+    if (!hasScope(c.get('auth')?.scopes, ...scopes)) {
+      return c.json({ error: 'Forbidden', code: 'insufficient_scope', required: scopes }, 403);
+    }
+    await next();
+  };
+}
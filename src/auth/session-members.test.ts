@@ -0,0 +1,21 @@
+/**
+ * Session Member Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { canWriteSession, isSessionMemberRole } from './session-members.js';
+
+describe('session members', () => {
+  it('recognizes member roles', () => {
+    expect(isSessionMemberRole('viewer')).toBe(true);
+    expect(isSessionMemberRole('editor')).toBe(true);
+    expect(isSessionMemberRole('owner')).toBe(false);
+    expect(isSessionMemberRole(undefined)).toBe(false);
+  });
+
+  it('lets owners and editors write, but not viewers', () => {
+    expect(canWriteSession({})).toBe(true);
+    expect(canWriteSession({ memberRole: null })).toBe(true);
+    expect(canWriteSession({ memberRole: 'editor' })).toBe(true);
+    expect(canWriteSession({ memberRole: 'viewer' })).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Per-session collaborators
+ *
+ * Besides its owner (or owning organization), a session can have invited
+ * members: viewers may read the conversation and editors may also continue
+ * it. Members are managed by whoever may delete the session; any member may
+ * leave on their own.
+ */
+
+export const SESSION_MEMBER_ROLES = ['viewer', 'editor'] as const;
+export type SessionMemberRole = typeof SESSION_MEMBER_ROLES[number];
+
+export function isSessionMemberRole(value: unknown): value is SessionMemberRole {
+  return typeof value === 'string' && (SESSION_MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether the caller may add messages to a session they can read
+ *
+ * `memberRole` is only set when access comes from an invitation.
+ */
+export function canWriteSession(session: { memberRole?: SessionMemberRole | null }): boolean {
+  return session.memberRole !== 'viewer';
+}
@@ -0,0 +1,32 @@
+/**
+ * Share Link Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { generateShareToken, hashShareToken, isShareLinkActive, SHARE_TOKEN_PREFIX } from './share-links.js';
+import { isApiKey } from './api-keys.js';
+
+describe('share links', () => {
+  it('generates unique URL-safe tokens that are not API keys', () => {
+    const token = generateShareToken();
+
+    expect(token.startsWith(SHARE_TOKEN_PREFIX)).toBe(true);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(token).not.toBe(generateShareToken());
+    expect(isApiKey(token)).toBe(false);
+  });
+
+  it('hashes tokens deterministically', async () => {
+    const token = generateShareToken();
+    expect(await hashShareToken(token)).toBe(await hashShareToken(token));
+    expect(await hashShareToken(token)).not.toContain(token);
+  });
+
+  it('treats revoked and expired links as inactive', () => {
+    const now = 1_000;
+
+    expect(isShareLinkActive({ expiresAt: null, revokedAt: null }, now)).toBe(true);
+    expect(isShareLinkActive({ expiresAt: now + 1, revokedAt: null }, now)).toBe(true);
+    expect(isShareLinkActive({ expiresAt: now, revokedAt: null }, now)).toBe(false);
+    expect(isShareLinkActive({ expiresAt: null, revokedAt: now - 1 }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Public read-only share links for conversations
+ *
+ * Anyone holding a share token can read one conversation without signing in.
+ * Tokens carry 256 bits of entropy and are stored only as SHA-256 hashes;
+ * links may expire, can be revoked, and are deleted together with their
+ * session.
+ */
+import { hashApiKey } from './api-keys.js';
+import { toBase64Url } from './encoding.js';
+
+export const SHARE_TOKEN_PREFIX = 'ocs_';
+
+export function generateShareToken(): string {
+  return `${SHARE_TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * Hash a share token for storage and lookup
+ */
+export function hashShareToken(token: string): Promise<string> {
+  return hashApiKey(token);
+}
+
+/**
+ * Whether a share link still grants access
+ */
+export function isShareLinkActive(link: { expiresAt: number | null; revokedAt: number | null }, now: number = Date.now()): boolean {
+  return link.revokedAt === null && (link.expiresAt === null || link.expiresAt > now);
+}
@@ -0,0 +1,82 @@
+/**
+ * Test helpers: locally generated RS256 keys for signing Clerk-like JWTs
+ *
+ * Only imported from *.test.ts files.
+ */
+import type { RsaPublicJwk } from './jwks.js';
+
+export interface TestSigner {
+  kid: string;
+  /** SPKI PEM, usable as CLERK_JWT_KEY */
+  publicKeyPem: string;
+  /** Public JWK including kid, for JWKS responses */
+  publicJwk: RsaPublicJwk & { kid: string };
+  sign(claims: Record<string, unknown>, header?: Record<string, unknown>): Promise<string>;
+}
+
+export const TEST_ISSUER = 'https://clerk.example.com';
+
+function toBase64Url(bytes: Uint8Array | ArrayBuffer): string {
+  return Buffer.from(bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes).toString('base64url');
+}
+
+function encodeSegment(value: unknown): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Generate a fresh RS256 key pair and a signer bound to it
+ */
+export async function createTestSigner(kid: string = 'test-key-1'): Promise<TestSigner> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  );
+
+  const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+  const base64 = Buffer.from(spki).toString('base64').match(/.{1,64}/g)!.join('\n');
+  const publicKeyPem = `-----BEGIN PUBLIC KEY-----\n${base64}\n-----END PUBLIC KEY-----`;
+  const { kty, n, e } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const publicJwk = { kty: kty!, n, e, kid, use: 'sig' };
+
+  return {
+    kid,
+    publicKeyPem,
+    publicJwk,
+    async sign(claims, header = {}) {
+      const signingInput = `${encodeSegment({ alg: 'RS256', typ: 'JWT', kid, ...header })}.${encodeSegment(claims)}`;
+      const signature = await crypto.subtle.sign(
+        'RSASSA-PKCS1-v1_5',
+        keyPair.privateKey,
+        new TextEncoder().encode(signingInput)
+      );
+      return `${signingInput}.${toBase64Url(signature)}`;
+    },
+  };
+}
+
+/**
+ * Sign a valid, unexpired session token for `sub`
+ */
+export function signTestToken(signer: TestSigner, sub: string, claims: Record<string, unknown> = {}): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return signer.sign({
+    sub,
+    iss: TEST_ISSUER,
+    iat: now,
+    nbf: now,
+    exp: now + 60,
+    ...claims,
+  });
+}
+
+/**
+ * Publishable key whose encoded frontend API matches TEST_ISSUER
+ */
+export const TEST_PUBLISHABLE_KEY = `pk_test_${Buffer.from(`${TEST_ISSUER.replace('https://', '')}$`).toString('base64')}`;
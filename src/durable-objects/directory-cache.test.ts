@@ -0,0 +1,64 @@
+/**
+ * Directory Cache Tests
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CachedDirectory, clearDirectoryCache, DIRECTORY_CACHE_TTL_MS, forgetDirectoryUser } from './directory-cache.js';
+
+describe('CachedDirectory', () => {
+  const directory = {
+    getUserRole: vi.fn(async (_userId: string) => null),
+    isUserInvited: vi.fn(async (userId: string) => userId === 'user_1'),
+    verifyApiKey: vi.fn(async (keyHash: string) => keyHash === 'hash_1' ? { userId: 'user_1', keyId: 'key_1', scopes: null } : null),
+  };
+  let cached: CachedDirectory;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.clearAllMocks();
+    clearDirectoryCache();
+    cached = new CachedDirectory(directory);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('asks the directory once per TTL, across instances', async () => {
+    expect(await cached.getUserRole('user_1')).toBeNull();
+    expect(await new CachedDirectory(directory).getUserRole('user_1')).toBeNull();
+    expect(directory.getUserRole).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(DIRECTORY_CACHE_TTL_MS);
+    await cached.getUserRole('user_1');
+    expect(directory.getUserRole).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches only positive invite and API key answers', async () => {
+    expect(await cached.isUserInvited('user_1')).toBe(true);
+    expect(await cached.isUserInvited('user_1')).toBe(true);
+    expect(await cached.isUserInvited('user_2')).toBe(false);
+    expect(await cached.isUserInvited('user_2')).toBe(false);
+    expect(directory.isUserInvited).toHaveBeenCalledTimes(3);
+
+    expect(await cached.verifyApiKey('hash_1')).toMatchObject({ keyId: 'key_1' });
+    expect(await cached.verifyApiKey('hash_1')).toMatchObject({ keyId: 'key_1' });
+    expect(await cached.verifyApiKey('unknown')).toBeNull();
+    expect(await cached.verifyApiKey('unknown')).toBeNull();
+    expect(directory.verifyApiKey).toHaveBeenCalledTimes(3);
+  });
+
+  it('forgets a user\'s role, invite and keys after a change', async () => {
+    await cached.getUserRole('user_1');
+    await cached.isUserInvited('user_1');
+    await cached.verifyApiKey('hash_1');
+
+    forgetDirectoryUser('user_1');
+    await cached.getUserRole('user_1');
+    await cached.isUserInvited('user_1');
+    await cached.verifyApiKey('hash_1');
+
+    expect(directory.getUserRole).toHaveBeenCalledTimes(2);
+    expect(directory.isUserInvited).toHaveBeenCalledTimes(2);
+    expect(directory.verifyApiKey).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Per-isolate cache of the directory lookups every /api request makes
+ *
+ * Each request needs the caller's stored role and invite status and, with an
+ * API key, the key itself; all of them live in the single directory object.
+ * The Worker class is created for every request, so the cache lives at module
+ * level (like the JWKS cache) and is shared by all requests an isolate serves.
+ *
+ * Entries expire after DIRECTORY_CACHE_TTL_MS. A change made through this
+ * isolate drops the user's entries at once (`forgetDirectoryUser`); other
+ * isolates pick it up when their entries expire, so a suspension, role
+ * change or revoked key takes effect everywhere within the TTL. Only positive
+ * invite and API-key answers are cached, so a redeemed invite or a new key
+ * works right away.
+ */
+import type { UserRole } from '../auth/roles.js';
+import type { ApiKeyStore, InviteStore, RoleStore } from './session-durable-object.js';
+
+// How long another isolate may act on a role, invite or API key after it changed
+export const DIRECTORY_CACHE_TTL_MS = 30 * 1000;
+// Per cache; the oldest entry makes room for a new one
+const DIRECTORY_CACHE_MAX_ENTRIES = 10_000;
+
+export type DirectoryLookups = Pick<RoleStore, 'getUserRole'> & Pick<InviteStore, 'isUserInvited'> & Pick<ApiKeyStore, 'verifyApiKey'>;
+
+type VerifiedApiKey = NonNullable<Awaited<ReturnType<ApiKeyStore['verifyApiKey']>>>;
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const roles = new Map<string, CacheEntry<UserRole | null>>();
+const invitedUsers = new Map<string, CacheEntry<true>>();
+// By key hash
+const apiKeys = new Map<string, CacheEntry<VerifiedApiKey>>();
+
+function read<T>(cache: Map<string, CacheEntry<T>>, key: string): CacheEntry<T> | undefined {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+function write<T>(cache: Map<string, CacheEntry<T>>, key: string, value: T): void {
+  cache.delete(key);
+  if (cache.size >= DIRECTORY_CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, { value, expiresAt: Date.now() + DIRECTORY_CACHE_TTL_MS });
+}
+
+/**
+ * The directory's per-request lookups, answered from the isolate's cache when possible
+ */
+export class CachedDirectory implements DirectoryLookups {
+  constructor(private readonly directory: DirectoryLookups) {}
+
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    const cached = read(roles, userId);
+    if (cached) {
+      return cached.value;
+    }
+
+    const role = await this.directory.getUserRole(userId);
+    write(roles, userId, role);
+    return role;
+  }
+
+  async isUserInvited(userId: string): Promise<boolean> {
+    if (read(invitedUsers, userId)) {
+      return true;
+    }
+
+    const invited = await this.directory.isUserInvited(userId);
+    if (invited) {
+      write(invitedUsers, userId, true);
+    }
+    return invited;
+  }
+
+  // The directory stamps `last_used_at` on lookup, so a key's last use is recorded to within the TTL
+  async verifyApiKey(keyHash: string): Promise<VerifiedApiKey | null> {
+    const cached = read(apiKeys, keyHash);
+    if (cached) {
+      return cached.value;
+    }
+
+    const apiKey = await this.directory.verifyApiKey(keyHash);
+    if (apiKey) {
+      write(apiKeys, keyHash, apiKey);
+    }
+    return apiKey;
+  }
+}
+
+/**
+ * Drop a user's cached role, invite status and API keys after changing them
+ */
+export function forgetDirectoryUser(userId: string): void {
+  roles.delete(userId);
+  invitedUsers.delete(userId);
+  for (const [keyHash, entry] of apiKeys) {
+    if (entry.value.userId === userId) {
+      apiKeys.delete(keyHash);
+    }
+  }
+}
+
+/**
+ * Drop everything (tests)
+ */
+export function clearDirectoryCache(): void {
+  roles.clear();
+  invitedUsers.clear();
+  apiKeys.clear();
+}
@@ -0,0 +1,120 @@
+/**
+ * Prompt Lock Tests
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_MAX_PROMPTS_IN_FLIGHT, parseIfMatch, parseMaxPromptsInFlight, PromptLockQueue } from './prompt-lock.js';
+
+describe('PromptLockQueue', () => {
+  let locks: PromptLockQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    locks = new PromptLockQueue(60_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants a free lock immediately', async () => {
+    const lockId = await locks.acquire('s1');
+
+    expect(lockId).toEqual(expect.any(String));
+    expect(locks.isLocked('s1')).toBe(true);
+    expect(locks.isLocked('s2')).toBe(false);
+  });
+
+  it('hands the lock to waiters in arrival order', async () => {
+    const first = (await locks.acquire('s1'))!;
+    const order: string[] = [];
+    const second = locks.acquire('s1', 10_000).then(id => { order.push('second'); return id!; });
+    const third = locks.acquire('s1', 10_000).then(id => { order.push('third'); return id!; });
+
+    locks.release('s1', first);
+    locks.release('s1', await second);
+    locks.release('s1', await third);
+
+    expect(order).toEqual(['second', 'third']);
+    expect(locks.isLocked('s1')).toBe(false);
+  });
+
+  it('gives up after the wait time', async () => {
+    await locks.acquire('s1');
+    const waiting = locks.acquire('s1', 5_000);
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(await waiting).toBeNull();
+    expect(await locks.acquire('s1', 0)).toBeNull();
+  });
+
+  it('expires leases that are never released', async () => {
+    const stale = (await locks.acquire('s1'))!;
+    const waiting = locks.acquire('s1', 120_000);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(await waiting).toEqual(expect.any(String));
+    expect(locks.release('s1', stale)).toBe(false);
+  });
+
+  it('keeps the lock while the holder renews it past the TTL', async () => {
+    const running = (await locks.acquire('s1'))!;
+    let granted = false;
+    const waiting = locks.acquire('s1', 200_000).then(id => { granted = true; return id!; });
+
+    for (let elapsed = 0; elapsed < 150_000; elapsed += 30_000) {
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(locks.renew('s1', running)).toBe('held');
+    }
+
+    expect(granted).toBe(false);
+    expect(locks.release('s1', running)).toBe(true);
+    expect(locks.renew('s1', running)).toBe('expired');
+    locks.release('s1', await waiting);
+  });
+
+  it('reports a cancellation to the holder\'s renewals only', async () => {
+    const running = (await locks.acquire('s1'))!;
+    const next = locks.acquire('s1', 10_000);
+
+    expect(locks.cancel('s1')).toBe(true);
+    expect(locks.renew('s1', running)).toBe('cancelled');
+    expect(locks.isLocked('s1')).toBe(true);
+
+    locks.release('s1', running);
+    const nextId = (await next)!;
+    expect(locks.renew('s1', nextId)).toBe('held');
+    locks.release('s1', nextId);
+
+    expect(locks.cancel('s1')).toBe(false);
+    expect(locks.renew('s1', running)).toBe('expired');
+  });
+});
+
+describe('parseIfMatch', () => {
+  it('accepts quoted, weak and bare message IDs', () => {
+    expect(parseIfMatch('"42"')).toBe(42);
+    expect(parseIfMatch('W/"42"')).toBe(42);
+    expect(parseIfMatch(' 7 ')).toBe(7);
+  });
+
+  it('treats a missing header and * as no precondition', () => {
+    expect(parseIfMatch(undefined)).toBeNull();
+    expect(parseIfMatch('*')).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(parseIfMatch('"abc"')).toBeUndefined();
+    expect(parseIfMatch('"1", "2"')).toBeUndefined();
+  });
+});
+
+describe('parseMaxPromptsInFlight', () => {
+  it('falls back to the default for missing or invalid values', () => {
+    expect(parseMaxPromptsInFlight('5')).toBe(5);
+    expect(parseMaxPromptsInFlight(undefined)).toBe(DEFAULT_MAX_PROMPTS_IN_FLIGHT);
+    expect(parseMaxPromptsInFlight('0')).toBe(DEFAULT_MAX_PROMPTS_IN_FLIGHT);
+    expect(parseMaxPromptsInFlight('1.5')).toBe(DEFAULT_MAX_PROMPTS_IN_FLIGHT);
+  });
+});
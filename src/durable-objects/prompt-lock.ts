@@ -0,0 +1,194 @@
+/**
+ * Per-session prompt locks
+ *
+ * A prompt adds the user message, reads the history, waits for the model and
+ * adds the reply; two prompts for one session running at once would
+ * interleave those steps. The Durable Object holding the session hands out
+ * one lock per session and queues further prompts in arrival order.
+ *
+ * The Worker running a prompt renews its lock (and the user's in-flight
+ * lease) every PROMPT_RENEW_INTERVAL_MS, however long the model takes, so
+ * only a lock whose Worker died without releasing it expires.
+ *
+ * Clients that would rather fail than wait send `If-Match` with the ID of the
+ * last message they have seen. The prompt holding a lock can be cancelled
+ * from another request: that only flags the holder, and the Worker running
+ * the prompt learns of it from its next renewal and stops its model call.
+ * Separately, each user may only have a few prompts in flight (waiting or
+ * running) across all sessions.
+ */
+
+// How long a lock outlives its last renewal
+export const PROMPT_LOCK_TTL_MS = 2 * 60 * 1000;
+// Longest a prompt waits in the queue before giving up
+export const PROMPT_LOCK_WAIT_MS = 30 * 1000;
+// How long a user's in-flight slot outlives its last renewal: queueing plus running
+export const PROMPT_LEASE_TTL_MS = PROMPT_LOCK_WAIT_MS + PROMPT_LOCK_TTL_MS;
+// How often the Worker renews the lock and lease of a prompt it is running, and so how late it notices a cancellation
+export const PROMPT_RENEW_INTERVAL_MS = 5 * 1000;
+
+export const DEFAULT_MAX_PROMPTS_IN_FLIGHT = 3;
+// Upper bound for the configured cap
+export const MAX_PROMPTS_IN_FLIGHT = 100;
+
+/**
+ * Read the per-user cap from an environment variable
+ */
+export function parseMaxPromptsInFlight(value: string | undefined): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_PROMPTS_IN_FLIGHT
+    ? parsed
+    : DEFAULT_MAX_PROMPTS_IN_FLIGHT;
+}
+
+/**
+ * Parse an `If-Match` header holding a message ID (`"42"`, `W/"42"` or `42`)
+ *
+ * @returns null without a header or for `*`; undefined if it is not a message ID
+ */
+export function parseIfMatch(header: string | undefined): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return null;
+  }
+  const match = /^(?:W\/)?"?(\d{1,15})"?$/.exec(value);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * What a renewal found: the lock is still held, held by a prompt that was cancelled, or lost
+ */
+export type PromptLockState = 'held' | 'cancelled' | 'expired';
+
+interface Waiter {
+  lockId: string;
+  grant: () => void;
+}
+
+interface Holder {
+  lockId: string;
+  timer: ReturnType<typeof setTimeout>;
+  cancelled: boolean;
+}
+
+/**
+ * Locks of the sessions one Durable Object holds
+ *
+ * Holders, waiters and cancellation flags live in the object's memory only.
+ * A Durable Object stays resident while requests wait on it, but when the
+ * runtime restarts it (a deploy, an eviction, a crash) everything here is
+ * lost: queued prompts fail with the RPC that was waiting, and the prompt
+ * that was running keeps going unlocked (its renewals report `expired`)
+ * and can no longer be cancelled.
+ */
+export class PromptLockQueue {
+  private holders = new Map<string, Holder>();
+  private waiting = new Map<string, Waiter[]>();
+
+  constructor(private readonly ttlMs: number = PROMPT_LOCK_TTL_MS) {}
+
+  isLocked(key: string): boolean {
+    return this.holders.has(key);
+  }
+
+  /**
+   * Take the lock, waiting behind earlier callers for up to `waitMs`
+   *
+   * @returns the lock ID to release with, or null on timeout
+   */
+  acquire(key: string, waitMs: number = PROMPT_LOCK_WAIT_MS): Promise<string | null> {
+    const lockId = crypto.randomUUID();
+    const queue = this.waiting.get(key) ?? [];
+
+    if (!this.holders.has(key) && queue.length === 0) {
+      this.hold(key, lockId);
+      return Promise.resolve(lockId);
+    }
+    if (waitMs <= 0) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const waiter: Waiter = {
+        lockId,
+        grant: () => {
+          clearTimeout(timeout);
+          resolve(lockId);
+        },
+      };
+      const timeout = setTimeout(() => {
+        this.dequeue(key, waiter);
+        resolve(null);
+      }, waitMs);
+
+      queue.push(waiter);
+      this.waiting.set(key, queue);
+    });
+  }
+
+  /**
+   * Push back the expiry of a held lock by another TTL
+   *
+   * A cancelled holder keeps the lock until it releases it, so it can still save what it has.
+   */
+  renew(key: string, lockId: string): PromptLockState {
+    const holder = this.holders.get(key);
+    if (!holder || holder.lockId !== lockId) {
+      return 'expired';
+    }
+    clearTimeout(holder.timer);
+    holder.timer = setTimeout(() => this.release(key, lockId), this.ttlMs);
+    return holder.cancelled ? 'cancelled' : 'held';
+  }
+
+  /**
+   * Flag the prompt holding the lock as cancelled (waiters are not affected)
+   *
+   * @returns false if no prompt holds the lock
+   */
+  cancel(key: string): boolean {
+    const holder = this.holders.get(key);
+    if (!holder) {
+      return false;
+    }
+    holder.cancelled = true;
+    return true;
+  }
+
+  /**
+   * Release a lock and hand it to the next waiter
+   *
+   * @returns false if `lockId` no longer holds the lock (e.g. its lease expired)
+   */
+  release(key: string, lockId: string): boolean {
+    const holder = this.holders.get(key);
+    if (!holder || holder.lockId !== lockId) {
+      return false;
+    }
+
+    clearTimeout(holder.timer);
+    this.holders.delete(key);
+
+    const next = this.waiting.get(key)?.[0];
+    if (next) {
+      this.dequeue(key, next);
+      this.hold(key, next.lockId);
+      next.grant();
+    }
+    return true;
+  }
+
+  private hold(key: string, lockId: string): void {
+    const timer = setTimeout(() => this.release(key, lockId), this.ttlMs);
+    this.holders.set(key, { lockId, timer, cancelled: false });
+  }
+
+  private dequeue(key: string, waiter: Waiter): void {
+    const queue = (this.waiting.get(key) ?? []).filter(w => w !== waiter);
+    if (queue.length > 0) {
+      this.waiting.set(key, queue);
+    } else {
+      this.waiting.delete(key);
+    }
+  }
+}
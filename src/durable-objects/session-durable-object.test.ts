@@ -0,0 +1,517 @@
+/**
+ * Session Store Tests
+ *
+ * Runs the real SessionDurableObject on SQLite (better-sqlite3 behind
+ * `ctx.storage.sql`) and the in-memory fallback against the same expectations.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemorySessionStore, SessionDurableObject } from '../worker-hono.js';
+import { createDurableObjectState } from '../test/sqlite-storage.js';
+import type { OrgMembership } from '../auth/organizations.js';
+
+const admin: OrgMembership = { orgId: 'org_1', role: 'admin' };
+const member: OrgMembership = { orgId: 'org_1', role: 'member' };
+
+function createDurableObject(state = createDurableObjectState()): SessionDurableObject {
+  return new SessionDurableObject(state, {});
+}
+
+describe.each([
+  ['SessionDurableObject', () => createDurableObject()],
+  ['InMemorySessionStore', () => new InMemorySessionStore()],
+] as const)('%s', (_name, createStore) => {
+  let store: SessionDurableObject | InMemorySessionStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sessions and messages', () => {
+    it('keeps personal sessions to their owner', async () => {
+      const session = await store.createSession('user_1', null, 'gpt-4o', 'Be brief');
+
+      expect(await store.getSession(session.id, 'user_1')).toMatchObject({ id: session.id, userId: 'user_1', orgId: null, model: 'gpt-4o', systemPrompt: 'Be brief' });
+      expect(await store.getSession(session.id, 'user_2')).toBeNull();
+      expect((await store.listUserSessions('user_1')).map(s => s.id)).toEqual([session.id]);
+      expect(await store.listUserSessions('user_2')).toEqual([]);
+    });
+
+    it('shares organization sessions with members and lets only admins delete them', async () => {
+      const session = await store.createSession('user_1', 'org_1');
+
+      expect(await store.getSession(session.id, 'user_2', member)).toMatchObject({ id: session.id, orgId: 'org_1' });
+      expect(await store.getSession(session.id, 'user_2')).toBeNull();
+      expect(await store.deleteSession(session.id, 'user_1', member)).toBe(false);
+      expect(await store.deleteSession(session.id, 'user_2', admin)).toBe(true);
+      expect(await store.getSession(session.id, 'user_1', member)).toBeNull();
+    });
+
+    it('stores messages in order with their author and flags', async () => {
+      const session = await store.createSession('user_1');
+      const first = await store.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+      const second = await store.addMessage(session.id, 'user_1', { role: 'assistant', content: 'Hel', aborted: true });
+      const third = await store.addMessage(session.id, 'user_1', { role: 'assistant', content: 'Stop', cancelled: true });
+
+      expect(second).toBeGreaterThan(first);
+      expect(await store.getConversationHistory(session.id, 'user_1')).toEqual([
+        { id: first, role: 'user', content: 'Hi', authorId: 'user_1' },
+        { id: second, role: 'assistant', content: 'Hel', authorId: null, aborted: true },
+        { id: third, role: 'assistant', content: 'Stop', authorId: null, cancelled: true },
+      ]);
+      expect(await store.getConversationHistory(session.id, 'user_2')).toEqual([]);
+      await expect(store.addMessage(session.id, 'user_2', { role: 'user', content: 'Hi' })).rejects.toThrow('Session not found or access denied');
+    });
+
+    it('deletes only the caller\'s own messages', async () => {
+      const session = await store.createSession('user_1');
+      const question = await store.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+      const answer = await store.addMessage(session.id, 'user_1', { role: 'assistant', content: 'Hello' });
+
+      expect(await store.deleteMessage(session.id, 'user_1', answer)).toBe(false);
+      expect(await store.deleteMessage(session.id, 'user_2', question)).toBe(false);
+      expect(await store.deleteMessage(session.id, 'user_1', question)).toBe(true);
+      expect((await store.getConversationHistory(session.id, 'user_1')).map(m => m.id)).toEqual([answer]);
+    });
+
+    it('drops the messages of a deleted session', async () => {
+      const session = await store.createSession('user_1');
+      await store.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+
+      expect(await store.deleteSession(session.id, 'user_2')).toBe(false);
+      expect(await store.deleteSession(session.id, 'user_1')).toBe(true);
+      expect(await store.getConversationHistory(session.id, 'user_1')).toEqual([]);
+    });
+
+    it('updates the model, system prompt and summary for writers only', async () => {
+      const session = await store.createSession('user_1');
+      const summary = { content: 'Earlier', throughMessageId: 3, updatedAt: 1000 };
+
+      expect(await store.setSessionModel(session.id, 'user_1', 'claude-3-5-haiku')).toMatchObject({ model: 'claude-3-5-haiku' });
+      expect(await store.setSessionSystemPrompt(session.id, 'user_1', 'Answer in French')).toMatchObject({ systemPrompt: 'Answer in French' });
+      expect(await store.setSessionModel(session.id, 'user_2', 'gpt-4o')).toBeNull();
+      expect(await store.setSessionSummary(session.id, 'user_1', summary)).toBe(true);
+      expect(await store.setSessionSummary(session.id, 'user_2', summary)).toBe(false);
+
+      expect(await store.getSession(session.id, 'user_1')).toMatchObject({ model: 'claude-3-5-haiku', systemPrompt: 'Answer in French' });
+      expect(await store.getSessionSummary(session.id, 'user_1')).toEqual(summary);
+      expect(await store.getSessionSummary(session.id, 'user_2')).toBeNull();
+    });
+  });
+
+  describe('session members', () => {
+    it('gives viewers read access and editors write access', async () => {
+      const session = await store.createSession('user_1');
+      await store.addSessionMember(session.id, 'user_1', { userId: 'viewer', role: 'viewer' });
+      await store.addSessionMember(session.id, 'user_1', { userId: 'editor', role: 'editor' });
+
+      expect(await store.getSession(session.id, 'viewer')).toMatchObject({ memberRole: 'viewer' });
+      await expect(store.addMessage(session.id, 'viewer', { role: 'user', content: 'Hi' })).rejects.toThrow();
+      expect(await store.addMessage(session.id, 'editor', { role: 'user', content: 'Hi' })).toEqual(expect.any(Number));
+      expect((await store.listSessionMembers(session.id, 'viewer'))!.map(m => [m.userId, m.role]).sort()).toEqual([
+        ['editor', 'editor'],
+        ['viewer', 'viewer'],
+      ]);
+    });
+
+    it('lets only the owner add members and lets members leave', async () => {
+      const session = await store.createSession('user_1');
+
+      expect(await store.addSessionMember(session.id, 'user_2', { userId: 'user_3', role: 'viewer' })).toBeNull();
+      expect(await store.addSessionMember(session.id, 'user_1', { userId: 'user_3', role: 'viewer' })).toMatchObject({ userId: 'user_3', role: 'viewer', addedBy: 'user_1' });
+      expect(await store.addSessionMember(session.id, 'user_1', { userId: 'user_3', role: 'editor' })).toMatchObject({ role: 'editor', addedBy: 'user_1' });
+      expect(await store.removeSessionMember(session.id, 'user_2', 'user_3')).toBe(false);
+      expect(await store.removeSessionMember(session.id, 'user_3', 'user_3')).toBe(true);
+      expect(await store.getSession(session.id, 'user_3')).toBeNull();
+      expect(await store.listSessionMembers(session.id, 'user_3')).toBeNull();
+    });
+  });
+
+  describe('share links', () => {
+    it('finds links by token hash and revokes them once', async () => {
+      const link = await store.createShareLink('user_1', { sessionId: 'session_1', orgId: null, tokenHash: 'hash_1', expiresAt: null });
+
+      expect(await store.getShareLink('hash_1')).toEqual(link);
+      expect(await store.getShareLink('hash_2')).toBeNull();
+      expect(await store.listShareLinks('session_1')).toEqual([link]);
+      expect(await store.revokeShareLink('session_2', link.id)).toBe(false);
+      expect(await store.revokeShareLink('session_1', link.id)).toBe(true);
+      expect(await store.revokeShareLink('session_1', link.id)).toBe(false);
+      expect(await store.getShareLink('hash_1')).toMatchObject({ revokedAt: expect.any(Number) });
+    });
+  });
+
+  describe('invites and roles', () => {
+    it('redeems a code up to its limit and keeps invited users on their first code', async () => {
+      await store.createInviteCode({ code: 'TEAM-2025', maxRedemptions: 1, expiresAt: null, createdBy: 'admin', notes: null });
+
+      expect(await store.createInviteCode({ code: 'TEAM-2025', maxRedemptions: null, expiresAt: null, createdBy: 'admin', notes: null })).toBeNull();
+      expect(await store.redeemInviteCode('user_1', 'a@example.com', 'team-2025')).toEqual({ ok: true, alreadyInvited: false });
+      expect(await store.redeemInviteCode('user_1', 'a@example.com', 'OTHER')).toEqual({ ok: true, alreadyInvited: true });
+      expect(await store.redeemInviteCode('user_2', 'b@example.com', 'TEAM-2025')).toEqual({ ok: false, reason: 'invalid_code' });
+      expect(await store.isUserInvited('user_1')).toBe(true);
+      expect(await store.isUserInvited('user_2')).toBe(false);
+      expect(await store.listInviteRedemptions('TEAM-2025')).toEqual([{ userId: 'user_1', email: 'a@example.com', redeemedAt: expect.any(Number) }]);
+      expect((await store.listInviteCodes()).find(c => c.code === 'TEAM-2025')).toMatchObject({ redemptionCount: 1 });
+    });
+
+    it('stops accepting revoked and expired codes', async () => {
+      await store.createInviteCode({ code: 'REVOKED', maxRedemptions: null, expiresAt: null, createdBy: 'admin', notes: null });
+      await store.createInviteCode({ code: 'EXPIRED', maxRedemptions: null, expiresAt: Date.now() - 1, createdBy: 'admin', notes: null });
+
+      expect(await store.revokeInviteCode('revoked')).toBe(true);
+      expect(await store.revokeInviteCode('REVOKED')).toBe(false);
+      expect(await store.checkInviteCode('REVOKED')).toBe(false);
+      expect(await store.checkInviteCode('EXPIRED')).toBe(false);
+    });
+
+    it('stores roles and lists known users', async () => {
+      await store.createInviteCode({ code: 'TEAM-2025', maxRedemptions: null, expiresAt: null, createdBy: 'admin', notes: null });
+      await store.redeemInviteCode('user_1', 'a@example.com', 'TEAM-2025');
+      await store.setUserRole('user_2', 'admin', 'admin');
+      await store.upsertUserProfile({ userId: 'user_2', email: null, name: null, metadataRole: 'suspended', updatedAt: 1000 });
+
+      expect(await store.getUserRole('user_2')).toBe('admin');
+      expect(await store.getUserRole('user_1')).toBeNull();
+      const users = await store.listUsers();
+      expect(users.find(u => u.userId === 'user_1')).toMatchObject({ email: 'a@example.com', inviteCode: 'TEAM-2025', storedRole: null, sessionCount: 0 });
+      expect(users.find(u => u.userId === 'user_2')).toMatchObject({ storedRole: 'admin', metadataRole: 'suspended', inviteCode: null });
+    });
+  });
+
+  describe('user profiles and purge', () => {
+    it('ignores out-of-order profile updates', async () => {
+      expect(await store.upsertUserProfile({ userId: 'user_1', email: 'new@example.com', name: 'New', metadataRole: 'admin', updatedAt: 2000 })).toBe(true);
+      expect(await store.upsertUserProfile({ userId: 'user_1', email: 'old@example.com', name: 'Old', metadataRole: null, updatedAt: 1000 })).toBe(false);
+      expect(await store.getUserProfile('user_1')).toEqual({ userId: 'user_1', email: 'new@example.com', name: 'New', metadataRole: 'admin', updatedAt: 2000 });
+    });
+
+    it('purges personal data but keeps organization sessions and the redeemed invite', async () => {
+      await store.createInviteCode({ code: 'TEAM-2025', maxRedemptions: 1, expiresAt: null, createdBy: 'admin', notes: null });
+      await store.redeemInviteCode('user_1', 'a@example.com', 'TEAM-2025');
+      const personal = await store.createSession('user_1');
+      await store.addMessage(personal.id, 'user_1', { role: 'user', content: 'Hi' });
+      await store.addMessage(personal.id, 'user_1', { role: 'assistant', content: 'Hello' });
+      const shared = await store.createSession('user_1', 'org_1');
+      await store.createApiKey('user_1', { label: 'CLI', keyHash: 'key_hash', prefix: 'oc_', expiresAt: null, scopes: null });
+
+      expect(await store.purgeUserData('user_1')).toEqual({ sessions: 1, messages: 2, apiKeys: 1 });
+      expect(await store.getSession(personal.id, 'user_1')).toBeNull();
+      expect(await store.getSession(shared.id, 'user_2', member)).not.toBeNull();
+      expect(await store.verifyApiKey('key_hash')).toBeNull();
+      expect(await store.isUserInvited('user_1')).toBe(true);
+      expect(await store.checkInviteCode('TEAM-2025')).toBe(false);
+      expect(await store.upsertUserProfile({ userId: 'user_1', email: 'a@example.com', name: null, metadataRole: null, updatedAt: Date.now() + 1000 })).toBe(false);
+      expect(await store.getUserProfile('user_1')).toBeNull();
+    });
+  });
+
+  describe('API keys and device login', () => {
+    it('verifies live keys only and records their last use', async () => {
+      const key = await store.createApiKey('user_1', { label: 'CLI', keyHash: 'key_hash', prefix: 'oc_', expiresAt: null, scopes: ['sessions:read'] });
+      await store.createApiKey('user_1', { label: 'Old', keyHash: 'expired_hash', prefix: 'oc_', expiresAt: Date.now() - 1, scopes: null });
+
+      expect(await store.verifyApiKey('key_hash')).toEqual({ userId: 'user_1', keyId: key.id, scopes: ['sessions:read'] });
+      expect(await store.verifyApiKey('expired_hash')).toBeNull();
+      expect((await store.listApiKeys('user_1')).find(k => k.id === key.id)).toMatchObject({ lastUsedAt: expect.any(Number) });
+      expect(await store.updateApiKeyLabel('user_2', key.id, 'Stolen')).toBeNull();
+      expect(await store.updateApiKeyLabel('user_1', key.id, 'Laptop')).toMatchObject({ label: 'Laptop' });
+      expect(await store.revokeApiKey('user_1', key.id)).toBe(true);
+      expect(await store.revokeApiKey('user_1', key.id)).toBe(false);
+      expect(await store.verifyApiKey('key_hash')).toBeNull();
+    });
+
+    it('approves a device login exactly once and slows down fast pollers', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: 1_000_000 });
+      await store.createDeviceAuthorization({ deviceCodeHash: 'device_hash', userCode: 'ABCD-EFGH', clientName: 'cli', scopes: ['prompt:write'], expiresAt: 1_000_000 + 600_000, interval: 5 });
+
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'pending' });
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'slow_down' });
+      vi.setSystemTime(1_000_000 + 9_000);
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'slow_down' });
+      vi.setSystemTime(1_000_000 + 24_000);
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'pending' });
+
+      expect(await store.getDeviceAuthorization('ABCD-EFGH')).toMatchObject({ status: 'pending', clientName: 'cli', userId: null });
+      expect(await store.decideDeviceAuthorization('ABCD-EFGH', 'user_1', true)).toBe(true);
+      expect(await store.decideDeviceAuthorization('ABCD-EFGH', 'user_2', false)).toBe(false);
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'approved', userId: 'user_1', clientName: 'cli', scopes: ['prompt:write'] });
+      expect(await store.pollDeviceAuthorization('device_hash')).toEqual({ status: 'not_found' });
+    });
+
+    it('reports denied and expired device logins', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: 1_000_000 });
+      await store.createDeviceAuthorization({ deviceCodeHash: 'denied_hash', userCode: 'DENY-DENY', clientName: null, scopes: null, expiresAt: 1_000_000 + 600_000, interval: 5 });
+      await store.createDeviceAuthorization({ deviceCodeHash: 'late_hash', userCode: 'LATE-LATE', clientName: null, scopes: null, expiresAt: 1_000_000 + 1_000, interval: 5 });
+
+      await store.decideDeviceAuthorization('DENY-DENY', 'user_1', false);
+      expect(await store.pollDeviceAuthorization('denied_hash')).toEqual({ status: 'denied' });
+      vi.setSystemTime(1_000_000 + 1_000);
+      expect(await store.decideDeviceAuthorization('LATE-LATE', 'user_1', true)).toBe(false);
+      expect(await store.pollDeviceAuthorization('late_hash')).toEqual({ status: 'expired' });
+      expect(await store.pollDeviceAuthorization('unknown_hash')).toEqual({ status: 'not_found' });
+    });
+
+    it('redeems a refresh token once and retires its access token', async () => {
+      const key = await store.createApiKey('user_1', { label: 'cli', keyHash: 'access_hash', prefix: 'oc_', expiresAt: Date.now() + 60_000, scopes: ['prompt:write'] });
+      await store.createRefreshToken('user_1', { tokenHash: 'refresh_hash', apiKeyId: key.id, clientName: 'cli', scopes: ['prompt:write'], expiresAt: Date.now() + 60_000 });
+
+      expect(await store.consumeRefreshToken('refresh_hash')).toEqual({ userId: 'user_1', clientName: 'cli', scopes: ['prompt:write'] });
+      expect(await store.consumeRefreshToken('refresh_hash')).toBeNull();
+      expect(await store.verifyApiKey('access_hash')).toBeNull();
+    });
+
+    it('refuses a refresh token whose access token was revoked', async () => {
+      const key = await store.createApiKey('user_1', { label: 'cli', keyHash: 'access_hash', prefix: 'oc_', expiresAt: null, scopes: null });
+      await store.createRefreshToken('user_1', { tokenHash: 'refresh_hash', apiKeyId: key.id, clientName: null, scopes: null, expiresAt: Date.now() + 60_000 });
+      await store.createRefreshToken('user_1', { tokenHash: 'expired_hash', apiKeyId: key.id, clientName: null, scopes: null, expiresAt: Date.now() - 1 });
+      await store.revokeApiKey('user_1', key.id);
+
+      expect(await store.consumeRefreshToken('refresh_hash')).toBeNull();
+      expect(await store.consumeRefreshToken('expired_hash')).toBeNull();
+    });
+  });
+
+  describe('rate limits, usage and quotas', () => {
+    it('spends the burst, then refuses until tokens refill', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: 1_000_000 });
+      const config = { requestsPerMinute: 60, burst: 2 };
+
+      expect(await store.consumeRateLimit('user_1', config)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(await store.consumeRateLimit('user_1', config)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await store.consumeRateLimit('user_1', config)).toMatchObject({ allowed: false, retryAfter: 1 });
+      expect(await store.consumeRateLimit('user_2', config)).toMatchObject({ allowed: true });
+      vi.setSystemTime(1_000_000 + 1_000);
+      expect(await store.consumeRateLimit('user_1', config)).toMatchObject({ allowed: true });
+    });
+
+    it('prefers a per-user override over the defaults', async () => {
+      await store.setRateLimitOverride('user_1', { requestsPerMinute: 1, burst: 1 }, 'admin');
+
+      expect(await store.getRateLimitOverride('user_1')).toEqual({ requestsPerMinute: 1, burst: 1 });
+      expect(await store.consumeRateLimit('user_1', { requestsPerMinute: 60, burst: 20 })).toMatchObject({ allowed: true, limit: 1 });
+      expect(await store.consumeRateLimit('user_1', { requestsPerMinute: 60, burst: 20 })).toMatchObject({ allowed: false });
+
+      await store.setRateLimitOverride('user_1', null, 'admin');
+      expect(await store.getRateLimitOverride('user_1')).toBeNull();
+    });
+
+    it('aggregates usage per day, session and model', async () => {
+      const day = Date.UTC(2025, 0, 15);
+      await store.recordUsage('user_1', { sessionId: 's1', model: 'gpt-4o', promptTokens: 10, completionTokens: 5, latencyMs: 100, createdAt: day + 1 });
+      await store.recordUsage('user_1', { sessionId: 's1', model: 'gpt-4o', promptTokens: 20, completionTokens: 15, latencyMs: 300, createdAt: day + 2 });
+      await store.recordUsage('user_2', { sessionId: 's2', model: 'gpt-4o', promptTokens: 99, completionTokens: 99, latencyMs: 1, createdAt: day + 3 });
+
+      expect(await store.listUsage('user_1', day, day + 86_400_000)).toEqual([
+        { day: '2025-01-15', sessionId: 's1', model: 'gpt-4o', requests: 2, promptTokens: 30, completionTokens: 20, latencyMs: 400 },
+      ]);
+    });
+
+    it('reports the plan, top-ups and usage within the period', async () => {
+      const from = Date.now() - 1000;
+      await store.setUserPlan('user_1', 'team', 'admin');
+      const topUp = await store.addQuotaTopUp('user_1', { tokens: 1000, requests: 10, note: 'Launch', grantedBy: 'admin' });
+      await store.recordUsage('user_1', { sessionId: 's1', model: 'gpt-4o', promptTokens: 10, completionTokens: 5, latencyMs: 100, createdAt: Date.now() });
+      await store.recordUsage('user_1', { sessionId: 's1', model: 'gpt-4o', promptTokens: 10, completionTokens: 5, latencyMs: 100, createdAt: from - 1 });
+
+      expect(await store.getQuotaState('user_1', from, Date.now() + 1000)).toEqual({
+        plan: 'team',
+        topUps: [topUp],
+        used: { tokens: 15, requests: 1 },
+      });
+
+      await store.setUserPlan('user_1', null, 'admin');
+      expect((await store.getQuotaState('user_1', from, Date.now() + 1000)).plan).toBeNull();
+    });
+  });
+
+  describe('prompt locks and leases', () => {
+    it('rejects a stale If-Match and a busy session', async () => {
+      const session = await store.createSession('user_1');
+      const messageId = await store.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+
+      expect(await store.acquirePromptLock(session.id, 'user_2', null)).toEqual({ ok: false, reason: 'not_found' });
+      expect(await store.acquirePromptLock(session.id, 'user_1', messageId - 1)).toEqual({ ok: false, reason: 'conflict', lastMessageId: messageId });
+      const held = await store.acquirePromptLock(session.id, 'user_1', messageId);
+      expect(held).toEqual({ ok: true, lockId: expect.any(String) });
+      expect(await store.acquirePromptLock(session.id, 'user_1', messageId)).toEqual({ ok: false, reason: 'conflict', lastMessageId: messageId });
+
+      await store.releasePromptLock(session.id, 'user_1', (held as { lockId: string }).lockId);
+      expect(await store.acquirePromptLock(session.id, 'user_1', messageId)).toMatchObject({ ok: true });
+    });
+
+    it('caps the prompts a user has in flight', async () => {
+      const first = await store.beginPrompt('user_1', 2);
+      const second = await store.beginPrompt('user_1', 2);
+
+      expect(await store.beginPrompt('user_1', 2)).toBeNull();
+      expect(await store.beginPrompt('user_2', 2)).toEqual(expect.any(String));
+      expect(await store.renewPrompt('user_1', first!)).toBe(true);
+      expect(await store.renewPrompt('user_2', first!)).toBe(false);
+      await store.endPrompt('user_1', second!);
+      expect(await store.renewPrompt('user_1', second!)).toBe(false);
+      expect(await store.beginPrompt('user_1', 2)).toEqual(expect.any(String));
+    });
+  });
+
+  describe('personas and models', () => {
+    it('keeps personas to their owner, up to the limit', async () => {
+      const persona = (await store.createPersona('user_1', { name: 'Reviewer', systemPrompt: 'Review code' }, 1))!;
+
+      expect(await store.createPersona('user_1', { name: 'Second', systemPrompt: 'x' }, 1)).toBeNull();
+      expect(await store.getPersona('user_2', persona.id)).toBeNull();
+      expect(await store.updatePersona('user_1', persona.id, { name: 'Critic' })).toMatchObject({ name: 'Critic', systemPrompt: 'Review code' });
+      expect(await store.deletePersona('user_2', persona.id)).toBe(false);
+      expect(await store.deletePersona('user_1', persona.id)).toBe(true);
+      expect(await store.listPersonas('user_1')).toEqual([]);
+    });
+
+    it('stores the allowed models', async () => {
+      expect(await store.getAllowedModels()).toBeNull();
+      await store.setAllowedModels(['gpt-4o'], 'admin');
+      expect(await store.getAllowedModels()).toEqual(['gpt-4o']);
+      await store.setAllowedModels(null, 'admin');
+      expect(await store.getAllowedModels()).toBeNull();
+    });
+  });
+});
+
+describe('SessionDurableObject storage', () => {
+  it('adds the columns later versions need to tables from the first release', async () => {
+    const state = createDurableObjectState();
+    state.storage.sql.exec('CREATE TABLE sessions (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, created_at INTEGER NOT NULL)');
+    state.storage.sql.exec('CREATE TABLE messages (id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT NOT NULL, role TEXT NOT NULL, content TEXT NOT NULL, created_at INTEGER NOT NULL, FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE)');
+    state.storage.sql.exec('CREATE TABLE api_keys (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, label TEXT NOT NULL, key_hash TEXT NOT NULL UNIQUE, key_prefix TEXT NOT NULL, created_at INTEGER NOT NULL, last_used_at INTEGER, expires_at INTEGER, revoked_at INTEGER)');
+    state.storage.sql.exec("INSERT INTO sessions VALUES ('old-session', 'user_1', 1000)");
+    state.storage.sql.exec("INSERT INTO messages (session_id, role, content, created_at) VALUES ('old-session', 'user', 'Hi', 1000)");
+    state.storage.sql.exec("INSERT INTO api_keys VALUES ('old-key', 'user_1', 'CLI', 'key_hash', 'oc_', 1000, NULL, NULL, NULL)");
+
+    const store = createDurableObject(state);
+
+    expect(await store.getSession('old-session', 'user_1')).toMatchObject({ id: 'old-session', orgId: null, model: null, systemPrompt: null });
+    expect(await store.getConversationHistory('old-session', 'user_1')).toEqual([{ id: 1, role: 'user', content: 'Hi', authorId: null }]);
+    expect(await store.verifyApiKey('key_hash')).toEqual({ userId: 'user_1', keyId: 'old-key', scopes: null });
+    expect(await store.setSessionModel('old-session', 'user_1', 'gpt-4o')).toMatchObject({ model: 'gpt-4o' });
+
+    // A restarted object runs the migrations again on the upgraded tables
+    expect(await createDurableObject(state).getSession('old-session', 'user_1')).toMatchObject({ model: 'gpt-4o' });
+  });
+
+  it('moves legacy sessions out of the directory into a shard', async () => {
+    const directory = createDurableObject();
+    const shard = createDurableObject();
+    const session = await directory.createSession('user_1');
+    await directory.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+    await directory.addMessage(session.id, 'user_1', { role: 'assistant', content: 'Hello' });
+    await directory.createSession('user_2', 'org_1');
+
+    const [exported] = await directory.exportLegacySessionsOf({ userId: 'user_1' });
+    expect(exported).toMatchObject({ id: session.id, userId: 'user_1', orgId: null });
+    expect(exported.messages.map(m => [m.role, m.content, m.authorId])).toEqual([['user', 'Hi', 'user_1'], ['assistant', 'Hello', null]]);
+    expect(await directory.exportLegacySessionsOf({ orgId: 'org_1' })).toHaveLength(1);
+
+    expect(await shard.importSessions([exported])).toBe(1);
+    expect(await shard.importSessions([exported])).toBe(0);
+    expect((await shard.getConversationHistory(session.id, 'user_1')).map(m => [m.id, m.content])).toEqual(exported.messages.map(m => [m.id, m.content]));
+
+    expect(await directory.completeLegacyExport([session.id])).toBe(1);
+    expect(await directory.exportLegacySessionsOf({ userId: 'user_1' })).toEqual([]);
+    expect((await directory.listUsers()).find(u => u.userId === 'user_1')).toMatchObject({ sessionCount: 1 });
+  });
+
+  it('keeps message ids and order when moving legacy sessions', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: 1000 });
+    const directory = createDurableObject();
+    const shard = createDurableObject();
+    const legacy = await directory.createSession('user_1');
+    // Written within the same millisecond, so only their ids order them
+    const ids = [
+      await directory.addMessage(legacy.id, 'user_1', { role: 'user', content: 'Hi' }),
+      await directory.addMessage(legacy.id, 'user_1', { role: 'assistant', content: 'Hello' }),
+    ];
+    vi.setSystemTime(2000);
+    ids.push(await directory.addMessage(legacy.id, 'user_1', { role: 'user', content: 'Again' }));
+    // The shard already used the first two ids for a session of its own
+    const own = await shard.createSession('user_1');
+    await shard.addMessage(own.id, 'user_1', { role: 'user', content: 'Mine' });
+    await shard.addMessage(own.id, 'user_1', { role: 'assistant', content: 'Yours' });
+    vi.useRealTimers();
+
+    const [exported] = await directory.exportLegacySessionsOf({ userId: 'user_1' });
+    expect(exported.messages.map(m => [m.id, m.content])).toEqual([[ids[0], 'Hi'], [ids[1], 'Hello'], [ids[2], 'Again']]);
+
+    await shard.importSessions([exported]);
+    const history = await shard.getConversationHistory(legacy.id, 'user_1');
+    expect(history.map(m => m.content)).toEqual(['Hi', 'Hello', 'Again']);
+    expect(history[2].id).toBe(ids[2]);
+    expect(history[0].id).toBeGreaterThan(ids[2]);
+    expect((await shard.getConversationHistory(own.id, 'user_1')).map(m => m.content)).toEqual(['Mine', 'Yours']);
+  });
+
+  it('remembers that a shard took over its legacy sessions across restarts', async () => {
+    const state = createDurableObjectState();
+    const shard = createDurableObject(state);
+    expect(await shard.isLegacyAdopted()).toBe(false);
+
+    await shard.markLegacyAdopted();
+    await shard.markLegacyAdopted();
+    expect(await createDurableObject(state).isLegacyAdopted()).toBe(true);
+  });
+
+  it('exports the oldest legacy sessions first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: 2000 });
+    const directory = createDurableObject();
+    const newer = await directory.createSession('user_1');
+    vi.setSystemTime(1000);
+    const older = await directory.createSession('user_2');
+    vi.useRealTimers();
+
+    expect((await directory.exportLegacySessions(1)).map(s => s.id)).toEqual([older.id]);
+    expect((await directory.exportLegacySessions(10)).map(s => s.id)).toEqual([older.id, newer.id]);
+  });
+
+  it('keeps pointers to sessions shared from other shards', async () => {
+    const shard = createDurableObject();
+    const session = { id: 'session_1', userId: 'owner', createdAt: 1000, orgId: null };
+    await shard.addSharedSession('user_1', { shard: 'user:owner', session, role: 'viewer' });
+    await shard.addSharedSession('user_1', { shard: 'user:owner', session, role: 'editor' });
+
+    expect(await shard.getSharedSession('user_1', 'session_1')).toMatchObject({ shard: 'user:owner', role: 'editor', session: { id: 'session_1', userId: 'owner' } });
+    expect(await shard.listSharedSessions('user_1')).toHaveLength(1);
+    expect(await shard.listSharedSessions('user_2')).toEqual([]);
+    await shard.removeSharedSession('user_1', 'session_1');
+    expect(await shard.getSharedSession('user_1', 'session_1')).toBeNull();
+  });
+
+  it('purges a user\'s sessions and per-user rows from a shard', async () => {
+    const shard = createDurableObject();
+    const session = await shard.createSession('user_1');
+    await shard.addMessage(session.id, 'user_1', { role: 'user', content: 'Hi' });
+    const orgSession = await shard.createSession('user_1', 'org_1');
+    await shard.createPersona('user_1', { name: 'Reviewer', systemPrompt: 'Review code' }, 10);
+    await shard.setUserPlan('user_1', 'team', 'admin');
+    await shard.recordUsage('user_1', { sessionId: session.id, model: 'gpt-4o', promptTokens: 1, completionTokens: 1, latencyMs: 1, createdAt: Date.now() });
+    await shard.addSharedSession('user_1', { shard: 'user:owner', session: { id: 'shared', userId: 'owner', createdAt: 1000, orgId: null }, role: 'viewer' });
+
+    expect(await shard.purgeSessions('user_1')).toEqual({ sessions: 1, messages: 1 });
+    expect(await shard.getSession(session.id, 'user_1')).toBeNull();
+    expect(await shard.getSession(orgSession.id, 'user_1', member)).not.toBeNull();
+    expect(await shard.listPersonas('user_1')).toEqual([]);
+    expect(await shard.getQuotaState('user_1', 0, Date.now() + 1000)).toEqual({ plan: null, topUps: [], used: { tokens: 0, requests: 0 } });
+    expect(await shard.listSharedSessions('user_1')).toEqual([]);
+  });
+
+  it('removes indexed sessions and their share links from the directory', async () => {
+    const directory = createDurableObject();
+    await directory.indexSession({ id: 'session_1', userId: 'user_1', createdAt: 1000, orgId: null });
+    await directory.createShareLink('user_1', { sessionId: 'session_1', orgId: null, tokenHash: 'hash_1', expiresAt: null });
+
+    expect((await directory.listUsers()).find(u => u.userId === 'user_1')).toMatchObject({ sessionCount: 1, lastSessionAt: 1000 });
+    await directory.unindexSession('session_1');
+    expect(await directory.listUsers()).toEqual([]);
+    expect(await directory.getShareLink('hash_1')).toBeNull();
+  });
+});
@@ -4,29 +4,516 @@
  * The SessionDurableObject class is defined in worker-hono.ts
  * This file exports the type interface for use in other modules
  */
+import type { UserRole } from '../auth/roles.js';
+import type { ApiScope } from '../auth/scopes.js';
+import type { OrgMembership } from '../auth/organizations.js';
+import type { SessionMemberRole } from '../auth/session-members.js';
+import type { RateLimitConfig, RateLimitDecision } from '../auth/rate-limit.js';
+import type { PlanId, QuotaState, QuotaTopUp } from '../auth/plans.js';
+import type { PromptLockState } from './prompt-lock.js';
 
 export interface SessionData {
   id: string;
+  /** The user who created the session */
   userId: string;
   createdAt: number;
+  /** Owning organization; null/absent for personal sessions */
+  orgId?: string | null;
+  /** Model used for prompts that do not name one; null/absent = the service default */
+  model?: string | null;
+  /** Sent to the model ahead of the history on every prompt; never stored as a message */
+  systemPrompt?: string | null;
+  /** Set when the caller can access the session only as an invited member */
+  memberRole?: SessionMemberRole | null;
 }
 
 export interface ConversationMessage {
+  /** Set by the store on read; increases with every message of a session */
+  id?: number;
   role: string;
   content: string;
+  /** User who wrote a user message (set by the store on read) */
+  authorId?: string | null;
+  /** Set on an assistant message cut short because the client disconnected while it streamed */
+  aborted?: boolean;
+  /** Set on an assistant message cut short because another request cancelled the prompt */
+  cancelled?: boolean;
+}
+
+/**
+ * Rolling summary standing in for a session's oldest messages when they no longer fit the model's context
+ */
+export interface SessionSummary {
+  content: string;
+  /** Messages up to and including this ID are covered by the summary */
+  throughMessageId: number;
+  updatedAt: number;
+}
+
+/**
+ * Token usage and latency of the model call behind one assistant message
+ */
+export interface ModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+export interface UsageRecord extends ModelUsage {
+  sessionId: string;
+  createdAt: number;
+}
+
+/**
+ * Usage of one user aggregated per UTC day, session and model
+ */
+export interface UsageRow {
+  /** YYYY-MM-DD (UTC) */
+  day: string;
+  sessionId: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Sum over all requests */
+  latencyMs: number;
+}
+
+/**
+ * A user invited into a session
+ */
+export interface SessionMember {
+  userId: string;
+  role: SessionMemberRole;
+  addedBy: string;
+  addedAt: number;
 }
 
 /**
  * RPC methods for SessionDurableObject
  * All methods return Promises since Durable Object communication is async
+ *
+ * `org` is the caller's active Clerk organization: it grants access to that
+ * organization's sessions (see auth/organizations.ts).
  */
 export interface SessionDurableObjectState {
-  createSession(userId: string): Promise<SessionData>;
-  getSession(sessionId: string, userId: string): Promise<SessionData | null>;
-  deleteSession(sessionId: string, userId: string): Promise<boolean>;
-  listUserSessions(userId: string): Promise<SessionData[]>;
-  addMessage(sessionId: string, userId: string, message: ConversationMessage): Promise<void>;
-  getConversationHistory(sessionId: string, userId: string): Promise<ConversationMessage[]>;
+  createSession(userId: string, orgId?: string | null, model?: string | null, systemPrompt?: string | null): Promise<SessionData>;
+  getSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionData | null>;
+  deleteSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean>;
+  /** The user's personal sessions plus, with an active organization, that organization's sessions */
+  listUserSessions(userId: string, org?: OrgMembership | null): Promise<SessionData[]>;
+  /** Requires write access; user messages are attributed to `userId`; @returns the new message's ID */
+  addMessage(sessionId: string, userId: string, message: ConversationMessage, org?: OrgMembership | null): Promise<number>;
+  /** Remove one of the caller's own messages (a prompt whose answer failed); requires write access */
+  deleteMessage(sessionId: string, userId: string, messageId: number, org?: OrgMembership | null): Promise<boolean>;
+  getConversationHistory(sessionId: string, userId: string, org?: OrgMembership | null): Promise<ConversationMessage[]>;
+  /** Change a session's default model (null = the service default); requires write access */
+  setSessionModel(sessionId: string, userId: string, model: string | null, org?: OrgMembership | null): Promise<SessionData | null>;
+  /** Change a session's system prompt (null removes it); requires write access */
+  setSessionSystemPrompt(sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null): Promise<SessionData | null>;
+  /** null if the session has no summary yet or the caller cannot access it */
+  getSessionSummary(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionSummary | null>;
+  /** Replace the session's summary; requires write access */
+  setSessionSummary(sessionId: string, userId: string, summary: SessionSummary, org?: OrgMembership | null): Promise<boolean>;
+  /**
+   * Wait (in arrival order) for exclusive use of a session for one prompt; requires write access
+   *
+   * With `ifMatch` the caller does not wait: unless the session is idle and
+   * its last message has that ID, the result is a `conflict`.
+   */
+  acquirePromptLock(sessionId: string, userId: string, ifMatch: number | null, org?: OrgMembership | null): Promise<PromptLockResult>;
+  releasePromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<void>;
+  /** Keep holding a lock while the prompt runs; reports whether the prompt was cancelled meanwhile or the lock was lost */
+  renewPromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<PromptLockState>;
+  /** Cancel the prompt holding the session's lock, seen on its next renewal; false if none is running or the caller lacks write access */
+  cancelPrompt(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean>;
+  /** Add or update a member; null unless the caller may manage the session */
+  addSessionMember(sessionId: string, userId: string, member: { userId: string; role: SessionMemberRole }, org?: OrgMembership | null): Promise<SessionMember | null>;
+  /** Managers may remove anyone; members may remove themselves */
+  removeSessionMember(sessionId: string, userId: string, memberId: string, org?: OrgMembership | null): Promise<boolean>;
+  /** null if the caller cannot access the session */
+  listSessionMembers(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionMember[] | null>;
+  /** Record the model usage of an assistant message against the user who sent the prompt */
+  recordUsage(userId: string, record: UsageRecord): Promise<void>;
+  /** A user's usage with `from` <= createdAt < `to` (ms) */
+  listUsage(userId: string, from: number, to: number): Promise<UsageRow[]>;
+}
+
+export type PromptLockResult =
+  | { ok: true; lockId: string }
+  | { ok: false; reason: 'not_found' | 'busy' }
+  | { ok: false; reason: 'conflict'; lastMessageId: number | null };
+
+/**
+ * A session and its messages as moved between Durable Objects
+ */
+export interface SessionExport extends SessionData {
+  orgId: string | null;
+  messages: Array<ConversationMessage & { createdAt: number }>;
+}
+
+/**
+ * RPC methods of a per-user or per-organization session shard
+ */
+export interface SessionShardStore extends SessionDurableObjectState {
+  /** Insert exported sessions, skipping ones already present; @returns sessions inserted */
+  importSessions(sessions: SessionExport[]): Promise<number>;
+  /** Whether this shard already took over its owner's sessions from the directory */
+  isLegacyAdopted(): Promise<boolean>;
+  markLegacyAdopted(): Promise<void>;
+  /** Delete a user's personal sessions, their messages, usage, quotas, rate limits, personas and the user's shared-session pointers */
+  purgeSessions(userId: string): Promise<Pick<UserDataPurgeResult, 'sessions' | 'messages'>>;
+  // Pointers, kept in the member's own shard, to sessions other shards share with them
+  addSharedSession(userId: string, ref: SharedSessionRef): Promise<void>;
+  removeSharedSession(userId: string, sessionId: string): Promise<void>;
+  getSharedSession(userId: string, sessionId: string): Promise<SharedSessionRef | null>;
+  listSharedSessions(userId: string): Promise<SharedSessionRef[]>;
+}
+
+/**
+ * Where a session shared with a user lives
+ */
+export interface SharedSessionRef {
+  /** Name of the shard holding the session */
+  shard: string;
+  session: SessionData;
+  role: SessionMemberRole;
+}
+
+/**
+ * RPC methods of the directory object that sits next to the session shards
+ *
+ * The directory indexes every session so cross-user admin queries do not
+ * have to visit each shard, and still holds the sessions written before
+ * storage was sharded until they are migrated.
+ */
+export interface SessionDirectoryStore {
+  indexSession(session: SessionData): Promise<void>;
+  unindexSession(sessionId: string): Promise<void>;
+  /** Oldest sessions still stored in the directory itself */
+  exportLegacySessions(limit: number): Promise<SessionExport[]>;
+  /** Legacy sessions belonging in one shard: a user's personal sessions or an organization's sessions */
+  exportLegacySessionsOf(owner: { userId: string } | { orgId: string }): Promise<SessionExport[]>;
+  /** Index exported sessions and delete them from the directory; @returns legacy sessions left */
+  completeLegacyExport(sessionIds: string[]): Promise<number>;
+}
+
+/**
+ * A read-only share link (the token itself is never stored)
+ */
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  /** Owning organization of the shared session, if any */
+  orgId: string | null;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number | null;
+  revokedAt: number | null;
+}
+
+export interface CreateShareLinkInput {
+  sessionId: string;
+  orgId: string | null;
+  tokenHash: string;
+  expiresAt: number | null;
+}
+
+/**
+ * RPC methods for share links (directory)
+ */
+export interface ShareLinkStore {
+  createShareLink(userId: string, input: CreateShareLinkInput): Promise<ShareLink>;
+  /** Look up a link by token hash, including revoked and expired ones */
+  getShareLink(tokenHash: string): Promise<ShareLink | null>;
+  listShareLinks(sessionId: string): Promise<ShareLink[]>;
+  revokeShareLink(sessionId: string, shareId: string): Promise<boolean>;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  label: string;
+  prefix: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  expiresAt: number | null;
+  revokedAt: number | null;
+  /** null = unrestricted */
+  scopes: ApiScope[] | null;
+}
+
+export interface CreateApiKeyInput {
+  label: string;
+  keyHash: string;
+  prefix: string;
+  expiresAt: number | null;
+  scopes: ApiScope[] | null;
+}
+
+/**
+ * RPC methods for personal API keys (only hashes are ever sent to the DO)
+ */
+export interface ApiKeyStore {
+  createApiKey(userId: string, input: CreateApiKeyInput): Promise<ApiKeyRecord>;
+  listApiKeys(userId: string): Promise<ApiKeyRecord[]>;
+  updateApiKeyLabel(userId: string, keyId: string, label: string): Promise<ApiKeyRecord | null>;
+  revokeApiKey(userId: string, keyId: string): Promise<boolean>;
+  /** Resolve an active key by hash and record its use */
+  verifyApiKey(keyHash: string): Promise<{ userId: string; keyId: string; scopes: ApiScope[] | null } | null>;
+}
+
+export type RedeemInviteResult =
+  | { ok: true; alreadyInvited: boolean }
+  | { ok: false; reason: 'invalid_code' };
+
+export interface InviteCodeRecord {
+  code: string;
+  maxRedemptions: number | null; // null = unlimited
+  redemptionCount: number;
+  expiresAt: number | null;
+  createdBy: string;
+  notes: string | null;
+  createdAt: number;
+  revokedAt: number | null;
+}
+
+export interface CreateInviteCodeInput {
+  code: string;
+  maxRedemptions: number | null;
+  expiresAt: number | null;
+  createdBy: string;
+  notes: string | null;
+}
+
+export interface InviteRedemption {
+  userId: string;
+  email: string;
+  redeemedAt: number;
+}
+
+/**
+ * RPC methods for invite-code gating and administration
+ */
+export interface InviteStore {
+  /** Whether the code exists, is not revoked/expired and has redemptions left */
+  checkInviteCode(inviteCode: string): Promise<boolean>;
+  /** Validate a code and bind it to the user in one step */
+  redeemInviteCode(userId: string, email: string, inviteCode: string): Promise<RedeemInviteResult>;
+  isUserInvited(userId: string): Promise<boolean>;
+  /** @returns null when the code already exists */
+  createInviteCode(input: CreateInviteCodeInput): Promise<InviteCodeRecord | null>;
+  listInviteCodes(): Promise<InviteCodeRecord[]>;
+  revokeInviteCode(inviteCode: string): Promise<boolean>;
+  listInviteRedemptions(inviteCode: string): Promise<InviteRedemption[]>;
+}
+
+/**
+ * A known user as seen by admins
+ */
+export interface UserSummary {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  /** Role set by an admin (null = derived from Clerk claims / defaults) */
+  storedRole: UserRole | null;
+  /** Role in Clerk public metadata as of the last webhook delivery */
+  metadataRole: UserRole | null;
+  inviteCode: string | null;
+  invitedAt: number | null;
+  sessionCount: number;
+  lastSessionAt: number | null;
+}
+
+/**
+ * RPC methods for per-user roles
+ */
+export interface RoleStore {
+  getUserRole(userId: string): Promise<UserRole | null>;
+  setUserRole(userId: string, role: UserRole, updatedBy: string): Promise<void>;
+  listUsers(): Promise<UserSummary[]>;
+}
+
+/**
+ * Local copy of a Clerk user, kept in sync by the Clerk webhook
+ */
+export interface UserProfile {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  /** `role` in Clerk public metadata, which also reaches the user's session token claims */
+  metadataRole: UserRole | null;
+  /** Clerk's `updated_at` (ms), used to drop out-of-order deliveries */
+  updatedAt: number;
+}
+
+/**
+ * Rows removed when a user is deleted in Clerk
+ */
+export interface UserDataPurgeResult {
+  sessions: number;
+  messages: number;
+  apiKeys: number;
+}
+
+/**
+ * RPC methods for the Clerk user lifecycle
+ */
+export interface UserProfileStore {
+  /** @returns false if the update is older than the stored profile or the user was deleted */
+  upsertUserProfile(profile: UserProfile): Promise<boolean>;
+  getUserProfile(userId: string): Promise<UserProfile | null>;
+  /** Delete every session, message, API key and role of a user and tombstone the profile */
+  purgeUserData(userId: string): Promise<UserDataPurgeResult>;
+}
+
+export type DeviceAuthorizationStatus = 'pending' | 'approved' | 'denied' | 'consumed';
+
+/**
+ * A pending CLI login (RFC 8628 device authorization)
+ */
+export interface DeviceAuthorization {
+  userCode: string;
+  clientName: string | null;
+  /** Scopes requested by the CLI (null = unrestricted) */
+  scopes: ApiScope[] | null;
+  status: DeviceAuthorizationStatus;
+  /** User who approved or denied the request */
+  userId: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CreateDeviceAuthorizationInput {
+  deviceCodeHash: string;
+  userCode: string;
+  clientName: string | null;
+  scopes: ApiScope[] | null;
+  expiresAt: number;
+  /** Minimum seconds between polls */
+  interval: number;
+}
+
+/**
+ * Outcome of a token-endpoint poll; `approved` is returned exactly once
+ */
+export type DevicePollResult =
+  | { status: 'approved'; userId: string; clientName: string | null; scopes: ApiScope[] | null }
+  | { status: 'pending' | 'slow_down' | 'denied' | 'expired' | 'not_found' };
+
+export interface CreateRefreshTokenInput {
+  tokenHash: string;
+  /** The access token (API key) issued alongside */
+  apiKeyId: string;
+  clientName: string | null;
+  scopes: ApiScope[] | null;
+  expiresAt: number;
+}
+
+/**
+ * What a redeemed refresh token grants: new tokens for the same user and scopes
+ */
+export interface RefreshTokenOwner {
+  userId: string;
+  clientName: string | null;
+  scopes: ApiScope[] | null;
+}
+
+/**
+ * RPC methods for the device authorization flow
+ */
+export interface DeviceAuthStore {
+  createDeviceAuthorization(input: CreateDeviceAuthorizationInput): Promise<void>;
+  getDeviceAuthorization(userCode: string): Promise<DeviceAuthorization | null>;
+  /** @returns false unless the request is pending and unexpired */
+  decideDeviceAuthorization(userCode: string, userId: string, approve: boolean): Promise<boolean>;
+  pollDeviceAuthorization(deviceCodeHash: string): Promise<DevicePollResult>;
+  createRefreshToken(userId: string, input: CreateRefreshTokenInput): Promise<void>;
+  /**
+   * Revoke a refresh token and delete its access token
+   * @returns the owner, or null if the token is unknown, expired, revoked or its access token was revoked
+   */
+  consumeRefreshToken(tokenHash: string): Promise<RefreshTokenOwner | null>;
+}
+
+/**
+ * RPC methods for per-user rate limiting (the user's shard)
+ */
+export interface RateLimitStore {
+  /** Take a token from the user's bucket, using their override or `defaults` */
+  consumeRateLimit(userId: string, defaults: RateLimitConfig): Promise<RateLimitDecision>;
+  getRateLimitOverride(userId: string): Promise<RateLimitConfig | null>;
+  /** Set (or with null, clear) a user's override */
+  setRateLimitOverride(userId: string, config: RateLimitConfig | null, updatedBy: string): Promise<void>;
+}
+
+export interface CreateQuotaTopUpInput {
+  tokens: number;
+  requests: number;
+  note: string | null;
+  grantedBy: string;
+}
+
+/**
+ * RPC methods for plans and monthly quotas (the user's shard, next to their usage)
+ */
+export interface QuotaStore {
+  /** Assign a plan; null returns the user to the default plan */
+  setUserPlan(userId: string, plan: PlanId | null, updatedBy: string): Promise<void>;
+  addQuotaTopUp(userId: string, input: CreateQuotaTopUpInput): Promise<QuotaTopUp>;
+  /** The user's plan plus top-ups and usage with `from` <= createdAt < `to` (ms) */
+  getQuotaState(userId: string, from: number, to: number): Promise<QuotaState>;
+}
+
+/**
+ * RPC methods capping how many prompts a user has in flight (the user's shard)
+ */
+export interface PromptLeaseStore {
+  /** Start a prompt unless the user already has `max` running; @returns a lease ID, or null */
+  beginPrompt(userId: string, max: number): Promise<string | null>;
+  /** Keep the lease while the prompt waits or runs; false if it already expired */
+  renewPrompt(userId: string, leaseId: string): Promise<boolean>;
+  endPrompt(userId: string, leaseId: string): Promise<void>;
+}
+
+/**
+ * A reusable system prompt saved by a user
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PersonaInput {
+  name: string;
+  systemPrompt: string;
+}
+
+/**
+ * RPC methods for a user's persona library (the user's shard)
+ */
+export interface PersonaStore {
+  listPersonas(userId: string): Promise<Persona[]>;
+  getPersona(userId: string, personaId: string): Promise<Persona | null>;
+  /** @returns null if the user already has `max` personas */
+  createPersona(userId: string, input: PersonaInput, max: number): Promise<Persona | null>;
+  /** Change the given fields; null if the persona does not exist */
+  updatePersona(userId: string, personaId: string, input: Partial<PersonaInput>): Promise<Persona | null>;
+  deletePersona(userId: string, personaId: string): Promise<boolean>;
+}
+
+/**
+ * RPC methods for the admin-managed model allowlist (directory)
+ */
+export interface ModelStore {
+  /** null when no allowlist has been configured */
+  getAllowedModels(): Promise<string[] | null>;
+  /** Replace the allowlist; null removes it */
+  setAllowedModels(models: string[] | null, updatedBy: string): Promise<void>;
 }
 
 // Note: The SessionDurableObject class implementation is in worker-hono.ts
@@ -0,0 +1,408 @@
+/**
+ * Session Router Tests
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { orgShardName, shardNameFor, ShardedSessionStore, userShardName } from './session-router.js';
+import { canAccessSession, canDeleteSession } from '../auth/organizations.js';
+import type { OrgMembership } from '../auth/organizations.js';
+import { canWriteSession } from '../auth/session-members.js';
+import type { SessionMemberRole } from '../auth/session-members.js';
+import type {
+  ConversationMessage,
+  PromptLockResult,
+  SessionData,
+  SessionDirectoryStore,
+  SessionExport,
+  SessionMember,
+  SessionShardStore,
+  SessionSummary,
+  SharedSessionRef,
+} from './session-durable-object.js';
+import type { PromptLockState } from './prompt-lock.js';
+
+function createShard() {
+  const sessions = new Map<string, SessionData>();
+  const messages = new Map<string, ConversationMessage[]>();
+  const members = new Map<string, Map<string, SessionMember>>();
+  const summaries = new Map<string, SessionSummary>();
+  const pointers = new Map<string, SharedSessionRef>();
+  let counter = 0;
+  let adopted = false;
+
+  const find = (sessionId: string, userId: string, org?: OrgMembership | null): SessionData | null => {
+    const session = sessions.get(sessionId);
+    if (!session) return null;
+    if (canAccessSession(session, userId, org)) return session;
+    const member = members.get(sessionId)?.get(userId);
+    return member ? { ...session, memberRole: member.role } : null;
+  };
+
+  const shard = {
+    createSession: vi.fn(async (userId: string, orgId: string | null = null, model: string | null = null, systemPrompt: string | null = null) => {
+      const session: SessionData = { id: `${orgId ?? userId}-${counter++}`, userId, createdAt: counter, orgId, model, systemPrompt };
+      sessions.set(session.id, session);
+      return session;
+    }),
+    getSession: vi.fn(async (sessionId: string, userId: string, org?: OrgMembership | null) => find(sessionId, userId, org)),
+    deleteSession: vi.fn(async (sessionId: string, userId: string, org?: OrgMembership | null) => {
+      const session = sessions.get(sessionId);
+      return !!session && canDeleteSession(session, userId, org) && sessions.delete(sessionId);
+    }),
+    listUserSessions: vi.fn(async (userId: string, org?: OrgMembership | null) =>
+      Array.from(sessions.values()).filter(s => canAccessSession(s, userId, org))
+    ),
+    addMessage: vi.fn(async (sessionId: string, _userId: string, message: ConversationMessage) => {
+      messages.set(sessionId, [...(messages.get(sessionId) ?? []), message]);
+      return counter++;
+    }),
+    getConversationHistory: vi.fn(async (sessionId: string) => messages.get(sessionId) ?? []),
+    deleteMessage: vi.fn(async (sessionId: string, userId: string, _messageId: number, org?: OrgMembership | null) => !!find(sessionId, userId, org)),
+    setSessionModel: vi.fn(async (sessionId: string, userId: string, model: string | null, org?: OrgMembership | null) => {
+      const session = find(sessionId, userId, org);
+      if (!session || !canWriteSession(session)) return null;
+      sessions.get(sessionId)!.model = model;
+      return { ...session, model };
+    }),
+    setSessionSystemPrompt: vi.fn(async (sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null) => {
+      const session = find(sessionId, userId, org);
+      if (!session || !canWriteSession(session)) return null;
+      sessions.get(sessionId)!.systemPrompt = systemPrompt;
+      return { ...session, systemPrompt };
+    }),
+    getSessionSummary: vi.fn(async (sessionId: string, userId: string, org?: OrgMembership | null) =>
+      find(sessionId, userId, org) ? summaries.get(sessionId) ?? null : null
+    ),
+    setSessionSummary: vi.fn(async (sessionId: string, userId: string, summary: SessionSummary, org?: OrgMembership | null) => {
+      const session = find(sessionId, userId, org);
+      return !!session && canWriteSession(session) && !!summaries.set(sessionId, summary);
+    }),
+    acquirePromptLock: vi.fn(async (): Promise<PromptLockResult> => ({ ok: true, lockId: 'lock-1' })),
+    releasePromptLock: vi.fn(async () => {}),
+    renewPromptLock: vi.fn(async (): Promise<PromptLockState> => 'held'),
+    cancelPrompt: vi.fn(async () => true),
+    addSessionMember: vi.fn(async (sessionId: string, userId: string, member: { userId: string; role: SessionMemberRole }, org?: OrgMembership | null) => {
+      const session = sessions.get(sessionId);
+      if (!session || !canDeleteSession(session, userId, org)) return null;
+      const record = { ...member, addedBy: userId, addedAt: counter++ };
+      members.set(sessionId, (members.get(sessionId) ?? new Map()).set(member.userId, record));
+      return record;
+    }),
+    removeSessionMember: vi.fn(async (sessionId: string, userId: string, memberId: string, org?: OrgMembership | null) => {
+      const session = sessions.get(sessionId);
+      if (!session || (memberId !== userId && !canDeleteSession(session, userId, org))) return false;
+      return members.get(sessionId)?.delete(memberId) ?? false;
+    }),
+    listSessionMembers: vi.fn(async (sessionId: string, userId: string, org?: OrgMembership | null) =>
+      find(sessionId, userId, org) ? Array.from(members.get(sessionId)?.values() ?? []) : null
+    ),
+    addSharedSession: vi.fn(async (userId: string, ref: SharedSessionRef) => {
+      pointers.set(`${userId}/${ref.session.id}`, ref);
+    }),
+    removeSharedSession: vi.fn(async (userId: string, sessionId: string) => {
+      pointers.delete(`${userId}/${sessionId}`);
+    }),
+    getSharedSession: vi.fn(async (userId: string, sessionId: string) => pointers.get(`${userId}/${sessionId}`) ?? null),
+    listSharedSessions: vi.fn(async (userId: string) =>
+      Array.from(pointers.entries()).filter(([key]) => key.startsWith(`${userId}/`)).map(([, ref]) => ref)
+    ),
+    importSessions: vi.fn(async (batch: SessionExport[]) => {
+      for (const { messages: _, ...session } of batch) {
+        sessions.set(session.id, session);
+      }
+      return batch.length;
+    }),
+    isLegacyAdopted: vi.fn(async () => adopted),
+    markLegacyAdopted: vi.fn(async () => {
+      adopted = true;
+    }),
+    purgeSessions: vi.fn(async () => ({ sessions: 0, messages: 0 })),
+    recordUsage: vi.fn(async () => {}),
+    listUsage: vi.fn(async () => []),
+  };
+  return shard satisfies SessionShardStore;
+}
+
+describe('ShardedSessionStore', () => {
+  let shards: Map<string, ReturnType<typeof createShard>>;
+  let directory: SessionDirectoryStore & {
+    exportLegacySessions: ReturnType<typeof vi.fn>;
+    exportLegacySessionsOf: ReturnType<typeof vi.fn>;
+    completeLegacyExport: ReturnType<typeof vi.fn>;
+  };
+  let store: ShardedSessionStore;
+
+  const shardFor = (name: string) => {
+    if (!shards.has(name)) shards.set(name, createShard());
+    return shards.get(name)!;
+  };
+
+  const team: OrgMembership = { orgId: 'org_team', role: 'member' };
+
+  beforeEach(() => {
+    shards = new Map();
+    directory = {
+      indexSession: vi.fn(async () => {}),
+      unindexSession: vi.fn(async () => {}),
+      exportLegacySessions: vi.fn(async () => []),
+      exportLegacySessionsOf: vi.fn(async () => []),
+      completeLegacyExport: vi.fn(async () => 0),
+    };
+    store = new ShardedSessionStore(shardFor, directory);
+  });
+
+  it('names shards after the owning user or organization', () => {
+    expect(shardNameFor({ userId: 'user_1', orgId: null })).toBe(userShardName('user_1'));
+    expect(shardNameFor({ userId: 'user_1', orgId: 'org_1' })).toBe(orgShardName('org_1'));
+    expect(userShardName('org_1')).not.toBe(orgShardName('org_1'));
+  });
+
+  it('creates sessions in the owner shard and indexes them in the directory', async () => {
+    const personal = await store.createSession('user_1');
+    const shared = await store.createSession('user_1', 'org_team');
+
+    expect(shards.get('user:user_1')?.createSession).toHaveBeenCalledTimes(1);
+    expect(shards.get('org:org_team')?.createSession).toHaveBeenCalledTimes(1);
+    expect(directory.indexSession).toHaveBeenCalledWith(personal);
+    expect(directory.indexSession).toHaveBeenCalledWith(shared);
+  });
+
+  it('finds org sessions in the organization shard and remembers where', async () => {
+    // Created elsewhere, so this store has not seen where it lives
+    const shared = await shardFor('org:org_team').createSession('user_1', 'org_team');
+
+    expect(await store.getSession(shared.id, 'user_2', team)).toEqual(shared);
+    await store.addMessage(shared.id, 'user_2', { role: 'user', content: 'Hi' }, team);
+
+    expect(shards.get('user:user_2')?.getSession).toHaveBeenCalledTimes(1);
+    expect(shards.get('org:org_team')?.getSession).toHaveBeenCalledTimes(2);
+    expect(await store.getConversationHistory(shared.id, 'user_2', team)).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('merges personal and org sessions, newest first', async () => {
+    await store.createSession('user_1');
+    await store.createSession('user_2', 'org_team');
+    await store.createSession('user_1');
+
+    const sessions = await store.listUserSessions('user_1', team);
+
+    expect(sessions).toHaveLength(3);
+    expect(sessions.map(s => s.createdAt)).toEqual([...sessions.map(s => s.createdAt)].sort((a, b) => b - a));
+  });
+
+  it('rejects messages for sessions the caller cannot reach', async () => {
+    const personal = await store.createSession('user_1');
+    await expect(store.addMessage(personal.id, 'user_2', { role: 'user', content: 'Hi' })).rejects.toThrow('Session not found or access denied');
+  });
+
+  it('unindexes deleted sessions', async () => {
+    const personal = await store.createSession('user_1');
+
+    expect(await store.deleteSession(personal.id, 'user_2')).toBe(false);
+    expect(await store.deleteSession(personal.id, 'user_1')).toBe(true);
+    expect(directory.unindexSession).toHaveBeenCalledWith(personal.id);
+  });
+
+  it('takes prompt locks in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team');
+
+    expect(await store.acquirePromptLock(shared.id, 'user_2', 4, team)).toEqual({ ok: true, lockId: 'lock-1' });
+    expect(await store.renewPromptLock(shared.id, 'user_2', 'lock-1', team)).toBe('held');
+    await store.releasePromptLock(shared.id, 'user_2', 'lock-1', team);
+
+    expect(shards.get('org:org_team')?.acquirePromptLock).toHaveBeenCalledWith(shared.id, 'user_2', 4, team);
+    expect(shards.get('org:org_team')?.renewPromptLock).toHaveBeenCalledWith(shared.id, 'user_2', 'lock-1', team);
+    expect(shards.get('org:org_team')?.releasePromptLock).toHaveBeenCalledWith(shared.id, 'user_2', 'lock-1', team);
+    expect(await store.renewPromptLock(shared.id, 'user_3', 'lock-1')).toBe('expired');
+    expect(await store.acquirePromptLock(shared.id, 'user_3', null)).toEqual({ ok: false, reason: 'not_found' });
+  });
+
+  it('cancels prompts in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team');
+
+    expect(await store.cancelPrompt(shared.id, 'user_2', team)).toBe(true);
+
+    expect(shards.get('org:org_team')?.cancelPrompt).toHaveBeenCalledWith(shared.id, 'user_2', team);
+    expect(await store.cancelPrompt(shared.id, 'user_3')).toBe(false);
+  });
+
+  it('rolls back messages in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team');
+
+    expect(await store.deleteMessage(shared.id, 'user_2', 7, team)).toBe(true);
+    expect(shards.get('org:org_team')?.deleteMessage).toHaveBeenCalledWith(shared.id, 'user_2', 7, team);
+    expect(await store.deleteMessage(shared.id, 'user_3', 7)).toBe(false);
+  });
+
+  it('changes the model in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team', 'kimi-k2');
+
+    expect(shards.get('org:org_team')?.createSession).toHaveBeenCalledWith('user_1', 'org_team', 'kimi-k2', null);
+    expect(await store.setSessionModel(shared.id, 'user_2', null, team)).toMatchObject({ id: shared.id, model: null });
+    expect(await store.setSessionModel(shared.id, 'user_3', 'kimi-k2')).toBeNull();
+  });
+
+  it('changes the system prompt in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team', null, 'You are a reviewer.');
+
+    expect(shared.systemPrompt).toBe('You are a reviewer.');
+    expect(await store.setSessionSystemPrompt(shared.id, 'user_2', 'Be terse.', team)).toMatchObject({ id: shared.id, systemPrompt: 'Be terse.' });
+    expect(shards.get('org:org_team')?.setSessionSystemPrompt).toHaveBeenCalledWith(shared.id, 'user_2', 'Be terse.', team);
+    expect(await store.setSessionSystemPrompt(shared.id, 'user_3', null)).toBeNull();
+  });
+
+  it('keeps the summary in the shard holding the session', async () => {
+    const shared = await store.createSession('user_1', 'org_team');
+    const summary = { content: 'Earlier: the user is Taro', throughMessageId: 4, updatedAt: 1 };
+
+    expect(await store.setSessionSummary(shared.id, 'user_2', summary, team)).toBe(true);
+    expect(shards.get('org:org_team')?.setSessionSummary).toHaveBeenCalledWith(shared.id, 'user_2', summary, team);
+    expect(await store.getSessionSummary(shared.id, 'user_1', team)).toEqual(summary);
+    expect(await store.getSessionSummary(shared.id, 'user_3')).toBeNull();
+    expect(await store.setSessionSummary(shared.id, 'user_3', summary)).toBe(false);
+  });
+
+  it('records usage in the shard of the user who sent the prompt', async () => {
+    const shared = await store.createSession('user_1', 'org_team');
+    const record = { sessionId: shared.id, model: 'glm-4.7-free', promptTokens: 10, completionTokens: 5, latencyMs: 100, createdAt: 1 };
+
+    await store.recordUsage('user_2', record);
+    await store.listUsage('user_2', 0, 10);
+
+    expect(shards.get('user:user_2')?.recordUsage).toHaveBeenCalledWith('user_2', record);
+    expect(shards.get('user:user_2')?.listUsage).toHaveBeenCalledWith('user_2', 0, 10);
+    expect(shards.get('org:org_team')?.recordUsage).not.toHaveBeenCalled();
+  });
+
+  describe('session members', () => {
+    it('finds a session shared with a member through the pointer in their own shard', async () => {
+      const personal = await store.createSession('user_1');
+      await store.addMessage(personal.id, 'user_1', { role: 'user', content: 'Hi' });
+
+      const member = await store.addSessionMember(personal.id, 'user_1', { userId: 'user_2', role: 'viewer' });
+      expect(member).toMatchObject({ userId: 'user_2', role: 'viewer', addedBy: 'user_1' });
+      expect(shards.get('user:user_2')?.addSharedSession).toHaveBeenCalledWith('user_2', {
+        shard: 'user:user_1',
+        session: personal,
+        role: 'viewer',
+      });
+
+      // A fresh router has no cached location
+      const other = new ShardedSessionStore(shardFor, directory);
+      expect(await other.getSession(personal.id, 'user_2')).toEqual({ ...personal, memberRole: 'viewer' });
+      expect(await other.getConversationHistory(personal.id, 'user_2')).toEqual([{ role: 'user', content: 'Hi' }]);
+    });
+
+    it('lists shared sessions alongside the user\'s own', async () => {
+      const mine = await store.createSession('user_2');
+      const theirs = await store.createSession('user_1');
+      await store.addSessionMember(theirs.id, 'user_1', { userId: 'user_2', role: 'editor' });
+
+      const sessions = await store.listUserSessions('user_2');
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.find(s => s.id === mine.id)?.memberRole).toBeUndefined();
+      expect(sessions.find(s => s.id === theirs.id)?.memberRole).toBe('editor');
+    });
+
+    it('does not let members invite others', async () => {
+      const personal = await store.createSession('user_1');
+      await store.addSessionMember(personal.id, 'user_1', { userId: 'user_2', role: 'editor' });
+
+      expect(await store.addSessionMember(personal.id, 'user_2', { userId: 'user_3', role: 'viewer' })).toBeNull();
+      expect(shards.get('user:user_3')?.addSharedSession).toBeUndefined();
+    });
+
+    it('drops the pointer when a member leaves or the session is deleted', async () => {
+      const first = await store.createSession('user_1');
+      const second = await store.createSession('user_1');
+      await store.addSessionMember(first.id, 'user_1', { userId: 'user_2', role: 'viewer' });
+      await store.addSessionMember(second.id, 'user_1', { userId: 'user_2', role: 'viewer' });
+
+      expect(await store.removeSessionMember(first.id, 'user_2', 'user_2')).toBe(true);
+      expect(await store.getSession(first.id, 'user_2')).toBeNull();
+
+      expect(await store.deleteSession(second.id, 'user_1')).toBe(true);
+      expect(await store.listUserSessions('user_2')).toEqual([]);
+    });
+  });
+
+  describe('migrateLegacySessions', () => {
+    it('imports each session into its shard before dropping it from the directory', async () => {
+      directory.exportLegacySessions.mockResolvedValueOnce([
+        { id: 'a', userId: 'user_1', createdAt: 1, orgId: null, messages: [] },
+        { id: 'b', userId: 'user_1', createdAt: 2, orgId: null, messages: [] },
+        { id: 'c', userId: 'user_2', createdAt: 3, orgId: 'org_team', messages: [] },
+      ]);
+      directory.completeLegacyExport.mockResolvedValueOnce(5);
+
+      expect(await store.migrateLegacySessions(3)).toEqual({ moved: 3, remaining: 5 });
+      expect(shards.get('user:user_1')?.importSessions).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'a' }),
+        expect.objectContaining({ id: 'b' }),
+      ]);
+      expect(shards.get('org:org_team')?.importSessions).toHaveBeenCalledTimes(1);
+      expect(directory.completeLegacyExport).toHaveBeenCalledWith(['a', 'b', 'c']);
+    });
+
+    it('keeps legacy sessions in the directory when a shard import fails', async () => {
+      directory.exportLegacySessions.mockResolvedValueOnce([{ id: 'a', userId: 'user_1', createdAt: 1, orgId: null, messages: [] }]);
+      store = new ShardedSessionStore(() => ({
+        ...createShard(),
+        importSessions: vi.fn(async () => { throw new Error('shard unavailable'); }),
+      }), directory);
+
+      await expect(store.migrateLegacySessions(10)).rejects.toThrow('shard unavailable');
+      expect(directory.completeLegacyExport).not.toHaveBeenCalled();
+    });
+
+    it('reports nothing left once the directory is empty', async () => {
+      expect(await store.migrateLegacySessions(10)).toEqual({ moved: 0, remaining: 0 });
+    });
+
+    const legacyOf = async (owner: { userId: string } | { orgId: string }) => 'orgId' in owner
+      ? [{ id: 'b', userId: 'user_2', createdAt: 2, orgId: 'org_team', messages: [] }]
+      : owner.userId === 'user_1' ? [{ id: 'a', userId: 'user_1', createdAt: 1, orgId: null, messages: [] }] : [];
+
+    it('moves the caller\'s own legacy sessions into their shards on first access', async () => {
+      directory.exportLegacySessionsOf.mockImplementation(legacyOf);
+
+      expect(await store.getSession('a', 'user_1')).toMatchObject({ id: 'a', userId: 'user_1' });
+      expect(directory.completeLegacyExport).toHaveBeenCalledWith(['a']);
+
+      // The shard remembers it took over, so misses no longer reach the directory
+      expect(await store.getSession('missing', 'user_1')).toBeNull();
+      expect(directory.exportLegacySessionsOf).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves other owners\' legacy sessions in the directory', async () => {
+      directory.exportLegacySessionsOf.mockImplementation(legacyOf);
+
+      expect(await store.getSession('a', 'user_2')).toBeNull();
+      expect(directory.exportLegacySessionsOf).toHaveBeenCalledWith({ userId: 'user_2' });
+      expect(directory.exportLegacySessionsOf).not.toHaveBeenCalledWith({ userId: 'user_1' });
+      expect(directory.completeLegacyExport).not.toHaveBeenCalled();
+      expect(shards.get('user:user_1')).toBeUndefined();
+    });
+
+    it('moves the caller\'s legacy sessions before listing them, once per shard across requests', async () => {
+      directory.exportLegacySessionsOf.mockImplementation(legacyOf);
+
+      expect((await store.listUserSessions('user_1', team)).map(session => session.id)).toEqual(['b', 'a']);
+      expect(directory.exportLegacySessionsOf).toHaveBeenCalledWith({ userId: 'user_1' });
+      expect(directory.exportLegacySessionsOf).toHaveBeenCalledWith({ orgId: 'org_team' });
+
+      // A later request has a new store; the shards themselves remember
+      await new ShardedSessionStore(shardFor, directory).listUserSessions('user_1', team);
+      expect(directory.exportLegacySessionsOf).toHaveBeenCalledTimes(2);
+    });
+
+    it('moves legacy sessions into a shard before creating one there', async () => {
+      directory.exportLegacySessionsOf.mockImplementation(legacyOf);
+
+      await store.createSession('user_1');
+      const shard = shards.get('user:user_1')!;
+      expect(shard.importSessions.mock.invocationCallOrder[0]).toBeLessThan(shard.createSession.mock.invocationCallOrder[0]);
+      expect(shard.markLegacyAdopted).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Session routing across per-user / per-organization Durable Objects
+ *
+ * Personal sessions live in the shard named after their owner and org
+ * sessions in the shard named after their organization, so one tenant's load
+ * never serializes behind another's. The directory object only sees session
+ * creation and deletion (to keep its index for admin queries) and the
+ * migration of sessions written before sharding. A shard takes over its
+ * owner's sessions from the directory the first time its owner uses it, and
+ * records that it did so, so the admin migration only has to sweep up
+ * sessions whose owners never came back. Sessions shared with a user are
+ * found through pointers kept in that user's own shard.
+ */
+import type { OrgMembership } from '../auth/organizations.js';
+import type { SessionMemberRole } from '../auth/session-members.js';
+import type {
+  ConversationMessage,
+  PromptLockResult,
+  SessionData,
+  SessionMember,
+  SessionDirectoryStore,
+  SessionDurableObjectState,
+  SessionExport,
+  SessionShardStore,
+  SessionSummary,
+  UsageRecord,
+  UsageRow,
+  UserDataPurgeResult,
+} from './session-durable-object.js';
+import type { PromptLockState } from './prompt-lock.js';
+
+// Prefixed so shard names can never collide with the directory or each other
+export function userShardName(userId: string): string {
+  return `user:${userId}`;
+}
+
+export function orgShardName(orgId: string): string {
+  return `org:${orgId}`;
+}
+
+export function shardNameFor(session: Pick<SessionData, 'userId' | 'orgId'>): string {
+  return session.orgId ? orgShardName(session.orgId) : userShardName(session.userId);
+}
+
+export interface LegacyMigrationResult {
+  moved: number;
+  remaining: number;
+}
+
+export class ShardedSessionStore implements SessionDurableObjectState {
+  // A session lives in exactly one shard, so a found location never goes stale
+  private locations = new Map<string, string>();
+
+  constructor(
+    private readonly getShard: (name: string) => SessionShardStore,
+    private readonly directory: SessionDirectoryStore
+  ) {}
+
+  async createSession(userId: string, orgId: string | null = null, model: string | null = null, systemPrompt: string | null = null): Promise<SessionData> {
+    // Before the shard numbers any messages of its own, so moved messages keep their IDs
+    await this.adoptLegacySessions(userId, orgId);
+    const session = await this.getShard(shardNameFor({ userId, orgId })).createSession(userId, orgId, model, systemPrompt);
+    await this.directory.indexSession(session);
+    this.locations.set(session.id, shardNameFor(session));
+    return session;
+  }
+
+  async getSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionData | null> {
+    return (await this.locate(sessionId, userId, org))?.session ?? null;
+  }
+
+  async deleteSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    const found = await this.locate(sessionId, userId, org);
+    if (!found) {
+      return false;
+    }
+
+    const members = await found.shard.listSessionMembers(sessionId, userId, org) ?? [];
+    if (!(await found.shard.deleteSession(sessionId, userId, org))) {
+      return false;
+    }
+
+    this.locations.delete(sessionId);
+    await this.directory.unindexSession(sessionId);
+    await this.forgetSharedSession(sessionId, members.map(member => member.userId));
+    return true;
+  }
+
+  async listUserSessions(userId: string, org?: OrgMembership | null): Promise<SessionData[]> {
+    await this.adoptCallerLegacySessions(userId, org);
+
+    const [shared, ...lists] = await Promise.all([
+      this.getShard(userShardName(userId)).listSharedSessions(userId),
+      ...this.candidateShards(userId, org).map(name => this.getShard(name).listUserSessions(userId, org)),
+    ]);
+
+    // A member of the owning organization sees the session as an org session, not as a member
+    const sessions = lists.flat();
+    const seen = new Set(sessions.map(session => session.id));
+    for (const ref of shared) {
+      if (!seen.has(ref.session.id)) {
+        sessions.push({ ...ref.session, memberRole: ref.role });
+      }
+    }
+    return sessions.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async addMessage(sessionId: string, userId: string, message: ConversationMessage, org?: OrgMembership | null): Promise<number> {
+    const found = await this.locate(sessionId, userId, org);
+    if (!found) {
+      throw new Error('Session not found or access denied');
+    }
+    return found.shard.addMessage(sessionId, userId, message, org);
+  }
+
+  async deleteMessage(sessionId: string, userId: string, messageId: number, org?: OrgMembership | null): Promise<boolean> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.deleteMessage(sessionId, userId, messageId, org) : false;
+  }
+
+  async getConversationHistory(sessionId: string, userId: string, org?: OrgMembership | null): Promise<ConversationMessage[]> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.getConversationHistory(sessionId, userId, org) : [];
+  }
+
+  async setSessionModel(sessionId: string, userId: string, model: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.setSessionModel(sessionId, userId, model, org) : null;
+  }
+
+  async setSessionSystemPrompt(sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.setSessionSystemPrompt(sessionId, userId, systemPrompt, org) : null;
+  }
+
+  async getSessionSummary(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionSummary | null> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.getSessionSummary(sessionId, userId, org) : null;
+  }
+
+  async setSessionSummary(sessionId: string, userId: string, summary: SessionSummary, org?: OrgMembership | null): Promise<boolean> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.setSessionSummary(sessionId, userId, summary, org) : false;
+  }
+
+  // The lock lives with the session, so prompts sent through different Workers still queue behind each other
+  async acquirePromptLock(sessionId: string, userId: string, ifMatch: number | null, org?: OrgMembership | null): Promise<PromptLockResult> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.acquirePromptLock(sessionId, userId, ifMatch, org) : { ok: false, reason: 'not_found' };
+  }
+
+  async releasePromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<void> {
+    const found = await this.locate(sessionId, userId, org);
+    if (found) {
+      await found.shard.releasePromptLock(sessionId, userId, lockId, org);
+    }
+  }
+
+  async renewPromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<PromptLockState> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.renewPromptLock(sessionId, userId, lockId, org) : 'expired';
+  }
+
+  async cancelPrompt(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.cancelPrompt(sessionId, userId, org) : false;
+  }
+
+  async addSessionMember(
+    sessionId: string,
+    userId: string,
+    member: { userId: string; role: SessionMemberRole },
+    org?: OrgMembership | null
+  ): Promise<SessionMember | null> {
+    const found = await this.locate(sessionId, userId, org);
+    const added = found && await found.shard.addSessionMember(sessionId, userId, member, org);
+    if (!found || !added) {
+      return null;
+    }
+
+    const { memberRole: _, ...session } = found.session;
+    await this.getShard(userShardName(member.userId)).addSharedSession(member.userId, { shard: found.name, session, role: added.role });
+    return added;
+  }
+
+  async removeSessionMember(sessionId: string, userId: string, memberId: string, org?: OrgMembership | null): Promise<boolean> {
+    const found = await this.locate(sessionId, userId, org);
+    if (!found || !(await found.shard.removeSessionMember(sessionId, userId, memberId, org))) {
+      return false;
+    }
+
+    await this.forgetSharedSession(sessionId, [memberId]);
+    if (memberId === userId) {
+      this.locations.delete(sessionId);
+    }
+    return true;
+  }
+
+  async listSessionMembers(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionMember[] | null> {
+    const found = await this.locate(sessionId, userId, org);
+    return found ? found.shard.listSessionMembers(sessionId, userId, org) : null;
+  }
+
+  // Usage is billed to the user who sent the prompt, so it is kept in their shard whichever session it was for
+  async recordUsage(userId: string, record: UsageRecord): Promise<void> {
+    await this.getShard(userShardName(userId)).recordUsage(userId, record);
+  }
+
+  async listUsage(userId: string, from: number, to: number): Promise<UsageRow[]> {
+    return this.getShard(userShardName(userId)).listUsage(userId, from, to);
+  }
+
+  /**
+   * Delete a user's personal sessions from their shard (org sessions stay with the organization)
+   *
+   * Also drops the user's memberships in other sessions and other members'
+   * pointers to the deleted sessions.
+   */
+  async purgeUserSessions(userId: string): Promise<Pick<UserDataPurgeResult, 'sessions' | 'messages'>> {
+    const shard = this.getShard(userShardName(userId));
+
+    for (const ref of await shard.listSharedSessions(userId)) {
+      await this.getShard(ref.shard).removeSessionMember(ref.session.id, userId, userId);
+    }
+    for (const session of await shard.listUserSessions(userId)) {
+      const members = await shard.listSessionMembers(session.id, userId) ?? [];
+      await this.forgetSharedSession(session.id, members.map(member => member.userId));
+    }
+
+    return shard.purgeSessions(userId);
+  }
+
+  /**
+   * Move up to `limit` sessions written before sharding from the directory into their shards
+   *
+   * Safe to re-run after a failure: shards skip sessions they already hold and
+   * the directory only drops sessions once every shard has accepted them.
+   */
+  async migrateLegacySessions(limit: number): Promise<LegacyMigrationResult> {
+    const batch = await this.directory.exportLegacySessions(limit);
+    if (batch.length === 0) {
+      return { moved: 0, remaining: 0 };
+    }
+
+    const remaining = await this.moveLegacySessions(batch);
+    return { moved: batch.length, remaining };
+  }
+
+  /**
+   * Move the legacy sessions of the caller's own shards (personal and organization) out of the directory
+   *
+   * @returns whether any session was moved
+   */
+  private async adoptCallerLegacySessions(userId: string, org?: OrgMembership | null): Promise<boolean> {
+    const moved = await this.adoptLegacySessions(userId, null);
+    return (org ? await this.adoptLegacySessions(userId, org.orgId) : false) || moved;
+  }
+
+  /**
+   * Move the legacy sessions belonging in one shard out of the directory, unless the shard already took them over
+   *
+   * The shard remembers the takeover, so the directory is asked once per shard
+   * rather than once per request.
+   */
+  private async adoptLegacySessions(userId: string, orgId: string | null): Promise<boolean> {
+    const shard = this.getShard(shardNameFor({ userId, orgId }));
+    if (await shard.isLegacyAdopted()) {
+      return false;
+    }
+
+    const sessions = await this.directory.exportLegacySessionsOf(orgId ? { orgId } : { userId });
+    if (sessions.length > 0) {
+      await this.moveLegacySessions(sessions);
+    }
+    await shard.markLegacyAdopted();
+    return sessions.length > 0;
+  }
+
+  /**
+   * Import sessions into their shards, then drop them from the directory
+   *
+   * @returns legacy sessions left in the directory
+   */
+  private async moveLegacySessions(batch: SessionExport[]): Promise<number> {
+    const byShard = new Map<string, SessionExport[]>();
+    for (const session of batch) {
+      const name = shardNameFor(session);
+      byShard.set(name, [...(byShard.get(name) ?? []), session]);
+    }
+    for (const [name, sessions] of byShard) {
+      await this.getShard(name).importSessions(sessions);
+    }
+
+    return this.directory.completeLegacyExport(batch.map(session => session.id));
+  }
+
+  private candidateShards(userId: string, org?: OrgMembership | null): string[] {
+    return org ? [userShardName(userId), orgShardName(org.orgId)] : [userShardName(userId)];
+  }
+
+  private async forgetSharedSession(sessionId: string, memberIds: string[]): Promise<void> {
+    await Promise.all(memberIds.map(memberId => this.getShard(userShardName(memberId)).removeSharedSession(memberId, sessionId)));
+  }
+
+  /**
+   * Find the shard holding a session the caller may access
+   *
+   * A miss in the caller's own shards may be a session written before sharding
+   * that is still in the directory: those shards take over their legacy
+   * sessions and are searched again. Sessions of other owners are left to
+   * their owners and the admin migration.
+   */
+  private async locate(
+    sessionId: string,
+    userId: string,
+    org?: OrgMembership | null
+  ): Promise<{ name: string; shard: SessionShardStore; session: SessionData } | null> {
+    const found = await this.find(sessionId, userId, org);
+    if (found || this.locations.has(sessionId) || !(await this.adoptCallerLegacySessions(userId, org))) {
+      return found;
+    }
+    return this.find(sessionId, userId, org);
+  }
+
+  private async find(
+    sessionId: string,
+    userId: string,
+    org?: OrgMembership | null
+  ): Promise<{ name: string; shard: SessionShardStore; session: SessionData } | null> {
+    const known = this.locations.get(sessionId);
+    const names = known ? [known] : this.candidateShards(userId, org);
+
+    if (!known) {
+      // Sessions shared with the caller live in someone else's shard
+      const ref = await this.getShard(userShardName(userId)).getSharedSession(userId, sessionId);
+      if (ref) {
+        names.push(ref.shard);
+      }
+    }
+
+    for (const name of names) {
+      const shard = this.getShard(name);
+      const session = await shard.getSession(sessionId, userId, org);
+      if (session) {
+        this.locations.set(sessionId, name);
+        return { name, shard, session };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONTEXT_OPTIONS,
+  estimateMessageTokens,
+  estimateTokens,
+  fitToBudget,
+  inputBudget,
+  parseContextConfig,
+  summaryRequest,
+} from './context-window';
+
+const turn = (id: number, role: string, content: string) => ({ id, role, content });
+
+describe('context-window', () => {
+  it('英数字は4文字、日本語は1文字を1トークンと見積もる', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('こんにちは')).toBe(5);
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateMessageTokens([{ role: 'user', content: 'abcd' }, { role: 'assistant', content: 'ok' }])).toBe(10);
+  });
+
+  it('応答の分としてコンテキストの1/4まで、最大4096トークンを空ける', () => {
+    expect(inputBudget(200_000)).toBe(195_904);
+    expect(inputBudget(8_192)).toBe(6_144);
+  });
+
+  it('環境変数を読み、不正な値は既定値にする', () => {
+    expect(parseContextConfig('truncate', '16000', ' Be concise. ')).toEqual({ strategy: 'truncate', maxTokens: 16_000, systemPrompt: 'Be concise.' });
+    expect(parseContextConfig('drop', '-1', '')).toEqual(DEFAULT_CONTEXT_OPTIONS);
+    expect(parseContextConfig(undefined, undefined, undefined)).toEqual(DEFAULT_CONTEXT_OPTIONS);
+  });
+
+  describe('fitToBudget', () => {
+    // 1メッセージ = 4 + 2 = 6 トークン
+    const history = [
+      turn(1, 'user', 'aaaaaaaa'),
+      turn(2, 'assistant', 'bbbbbbbb'),
+      turn(3, 'user', 'cccccccc'),
+      turn(4, 'assistant', 'dddddddd'),
+      turn(5, 'user', 'eeeeeeee'),
+    ];
+
+    it('収まる場合はすべて残す', () => {
+      expect(fitToBudget([], history, 30)).toEqual({ kept: history, dropped: [] });
+    });
+
+    it('古いメッセージから外し、残す履歴はプロンプトから始める', () => {
+      // 収まるのは新しい方から4件（24トークン）だが、アシスタントの応答から始まらないよう3件にする
+      expect(fitToBudget([], history, 29)).toEqual({ kept: history.slice(2), dropped: history.slice(0, 2) });
+    });
+
+    it('ピン留めしたメッセージの分も予算から引く', () => {
+      const pinned = [{ role: 'system', content: 'xxxxxxxx' }];
+      expect(fitToBudget(pinned, history, 24).kept).toEqual(history.slice(2));
+      expect(fitToBudget(pinned, history, 23).kept).toEqual(history.slice(4));
+    });
+
+    it('今回のプロンプトは予算を超えても残す', () => {
+      expect(fitToBudget([], history, 1)).toEqual({ kept: history.slice(4), dropped: history.slice(0, 4) });
+    });
+  });
+
+  it('要約のリクエストに前回の要約と外したメッセージを含める', () => {
+    const request = summaryRequest('The user is Taro.', [turn(3, 'user', 'I like tea'), turn(4, 'assistant', 'Noted')], 1_000);
+
+    expect(request.map(message => message.role)).toEqual(['system', 'system', 'user']);
+    expect(request[1].content).toContain('The user is Taro.');
+    expect(request[2].content).toBe('user: I like tea\n\nassistant: Noted');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * コンテキストウィンドウの管理
+ *
+ * 会話履歴をそのまま送ると長いセッションはいずれモデルのコンテキストを超えるため、
+ * トークン数を見積もって古いメッセージから外す。外したメッセージは strategy が summarize なら
+ * 要約してセッションに保存し、以降のプロンプトでは要約を送る。
+ * システムプロンプト、要約、最新のプロンプトは常に送る（ピン留め）。
+ */
+import type { ConversationMessage } from '../durable-objects/session-durable-object.js';
+import type { LLMMessage } from './llm-provider.js';
+
+/**
+ * 予算を超えたときの扱い
+ * - truncate: 古いメッセージを送らない
+ * - summarize: 古いメッセージを要約してセッションに保存し、要約を送る
+ */
+export type ContextStrategy = 'truncate' | 'summarize';
+
+export interface ContextOptions {
+  strategy: ContextStrategy;
+  /** モデルのコンテキストウィンドウより小さくしたい場合の上限（null はモデルのまま） */
+  maxTokens: number | null;
+  /** すべての会話の先頭に付けるシステムプロンプト */
+  systemPrompt: string | null;
+}
+
+export const DEFAULT_CONTEXT_OPTIONS: ContextOptions = {
+  strategy: 'summarize',
+  maxTokens: null,
+  systemPrompt: null,
+};
+
+// 応答のために空けておくトークン数の上限（AnthropicProvider の max_tokens と同じ）
+export const COMPLETION_RESERVE_TOKENS = 4096;
+
+// メッセージごとの区切り（role など）の分
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 環境変数（CONTEXT_STRATEGY / CONTEXT_MAX_TOKENS / SYSTEM_PROMPT）を読む（不正な値は既定値）
+ */
+export function parseContextConfig(
+  strategy: string | undefined,
+  maxTokens: string | undefined,
+  systemPrompt: string | undefined
+): ContextOptions {
+  const parsedMax = Number(maxTokens);
+  return {
+    strategy: strategy === 'truncate' || strategy === 'summarize' ? strategy : DEFAULT_CONTEXT_OPTIONS.strategy,
+    maxTokens: maxTokens && Number.isInteger(parsedMax) && parsedMax > 0 ? parsedMax : null,
+    systemPrompt: systemPrompt?.trim() || null,
+  };
+}
+
+/**
+ * テキストのトークン数の見積もり
+ * 英数字は4文字で1トークン、日本語などASCII以外は1文字1トークンとして多めに数える
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+export function estimateMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce((total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content), 0);
+}
+
+/**
+ * 入力に使えるトークン数（コンテキストウィンドウから応答の分を引く）
+ */
+export function inputBudget(contextTokens: number): number {
+  return contextTokens - Math.min(COMPLETION_RESERVE_TOKENS, Math.floor(contextTokens / 4));
+}
+
+/**
+ * pinned（常に送るメッセージ）の後に、予算に収まるだけ新しい方から turns を残す
+ * 最後のメッセージ（今回のプロンプト）は予算を超えても残す。
+ * 残す履歴がアシスタントの応答から始まらないよう、直前のプロンプトを外した応答も外す。
+ */
+export function fitToBudget(
+  pinned: LLMMessage[],
+  turns: ConversationMessage[],
+  budget: number
+): { kept: ConversationMessage[]; dropped: ConversationMessage[] } {
+  let remaining = budget - estimateMessageTokens(pinned);
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens([turns[start - 1]]);
+    if (start < turns.length && cost > remaining) {
+      break;
+    }
+    remaining -= cost;
+    start--;
+  }
+  while (start < turns.length - 1 && turns[start].role !== 'user') {
+    start++;
+  }
+  return { kept: turns.slice(start), dropped: turns.slice(0, start) };
+}
+
+/**
+ * これまでの要約を会話の先頭に付けるシステムメッセージ
+ */
+export function summaryMessage(summary: string): LLMMessage {
+  return { role: 'system', content: `Summary of the earlier conversation:\n${summary}` };
+}
+
+/**
+ * 外したメッセージ（と前回の要約）を要約させるリクエスト
+ * 要約の対象自体が予算を超える場合は、古い方を要約せずに捨てる
+ */
+export function summaryRequest(previous: string | null, dropped: ConversationMessage[], budget: number): LLMMessage[] {
+  const instruction: LLMMessage = {
+    role: 'system',
+    content: 'Summarize the conversation below so that it can replace it as context for continuing the conversation. '
+      + 'Keep names, facts, decisions, open questions and anything the user asked to remember. '
+      + 'Write the summary in the language of the conversation and reply with the summary only.',
+  };
+  const pinned = previous ? [instruction, summaryMessage(previous)] : [instruction];
+  const lines: ConversationMessage[] = dropped.map(message => ({ role: 'user', content: `${message.role}: ${message.content}` }));
+  const { kept } = fitToBudget(pinned, lines, budget);
+  return [...pinned, { role: 'user', content: kept.map(line => line.content).join('\n\n') }];
+}
@@ -0,0 +1,102 @@
+/**
+ * LLMプロバイダーの共通インターフェース
+ *
+ * モデルを呼び出すバックエンド（OpenCode Zen、OpenAI互換エンドポイント、Anthropic Messages、モック）は
+ * すべて LLMProvider を実装する。どのモデルをどのプロバイダーで呼ぶかは llm-providers.ts の
+ * LLMProviderRegistry が設定から決める。
+ */
+
+export const LLM_PROVIDER_IDS = ['opencode-zen', 'openai-compatible', 'anthropic', 'mock'] as const;
+
+export type LLMProviderId = typeof LLM_PROVIDER_IDS[number];
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+export interface LLMMessage {
+  role: string;
+  content: string;
+}
+
+/**
+ * モデルの応答と使用量
+ */
+export interface LLMCompletion {
+  text: string;
+  /** APIが返したモデル名（返さない場合は指定したモデル） */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMStreamOptions {
+  /** 応答の差分を受信するたびに呼ばれる */
+  onDelta: (text: string) => Promise<void> | void;
+  /** 中断されると読み取りをやめる */
+  signal?: AbortSignal;
+}
+
+/**
+ * 失敗の種類
+ * - rate_limited: 上流が 429 を返した
+ * - unavailable: 上流が 5xx を返した、または接続できなかった
+ * - timeout: 時間内に応答がなかった
+ * - bad_response: 上流がリクエストを拒否した（429 以外の 4xx）、または想定外のレスポンス形式
+ * - not_configured: モデルのプロバイダーが設定されていない
+ */
+export type LLMErrorCode = 'rate_limited' | 'unavailable' | 'timeout' | 'bad_response' | 'not_configured';
+
+export interface LLMProviderErrorDetails {
+  /** 上流のHTTPステータス */
+  status?: number | null;
+  /** 上流の Retry-After（ミリ秒） */
+  retryAfterMs?: number | null;
+}
+
+/**
+ * プロバイダーが応答を返せなかった
+ */
+export class LLMProviderError extends Error {
+  readonly status: number | null;
+  readonly retryAfterMs: number | null;
+
+  constructor(readonly provider: LLMProviderId, readonly code: LLMErrorCode, message: string, details: LLMProviderErrorDetails = {}) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = details.status ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+
+  /**
+   * 時間をおいて呼び直せば成功する可能性がある（429 と 5xx、接続エラー）
+   */
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'unavailable';
+  }
+}
+
+/**
+ * 上流のHTTPステータスから失敗の種類を決める
+ */
+export function errorCodeForStatus(status: number): LLMErrorCode {
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  return status >= 500 ? 'unavailable' : 'bad_response';
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  /**
+   * 応答全体を一度に受け取る
+   * @throws LLMProviderError 応答を得られなかった場合
+   */
+  complete(model: string, messages: LLMMessage[], signal?: AbortSignal): Promise<LLMCompletion>;
+  /**
+   * 応答を受信しながら onDelta に渡し、最後に応答全体を返す
+   * 中断された場合は途中までの応答を返すか例外を投げる（呼び出し側は signal で判断する）
+   * @throws LLMProviderError 応答を得られなかった場合
+   */
+  stream(model: string, messages: LLMMessage[], options: LLMStreamOptions): Promise<LLMCompletion>;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  AnthropicProvider,
+  LLMProviderRegistry,
+  MockProvider,
+  OpenAICompatibleProvider,
+  parseModelProviders,
+} from './llm-providers';
+import { LLMProviderError } from './llm-provider';
+
+function sse(events: unknown[]): Response {
+  return new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+describe('LLMプロバイダー', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('設定したベースURLの Chat Completions を呼び出す（APIキーがなければ Authorization を付けない）', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+        choices: [{ message: { content: 'hi' } }],
+        usage: { prompt_tokens: 3, completion_tokens: 1 },
+      }));
+
+      const completion = await new OpenAICompatibleProvider('http://localhost:11434/v1/').complete('llama3.2', [{ role: 'user', content: 'hello' }]);
+
+      expect(completion).toEqual({ text: 'hi', model: 'llama3.2', promptTokens: 3, completionTokens: 1 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init?.headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse(init?.body as string)).toMatchObject({ model: 'llama3.2', messages: [{ role: 'user', content: 'hello' }], stream: false });
+    });
+
+    it('HTTPエラーは LLMProviderError になる', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503, headers: { 'Retry-After': '2' } }));
+
+      const error = await new OpenAICompatibleProvider('http://localhost:11434/v1', 'key').complete('llama3.2', []).catch(e => e);
+
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error).toMatchObject({ provider: 'openai-compatible', code: 'unavailable', status: 503, retryAfterMs: 2_000, retryable: true });
+    });
+
+    it('429 はリトライでき、それ以外の 4xx と接続エラーを区別する', async () => {
+      const provider = new OpenAICompatibleProvider('http://localhost:11434/v1');
+      vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('slow down', { status: 429 }))
+        .mockResolvedValueOnce(new Response('bad request', { status: 400 }))
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      expect(await provider.complete('llama3.2', []).catch(e => e)).toMatchObject({ code: 'rate_limited', status: 429, retryable: true });
+      expect(await provider.complete('llama3.2', []).catch(e => e)).toMatchObject({ code: 'bad_response', status: 400, retryable: false });
+      expect(await provider.complete('llama3.2', []).catch(e => e)).toMatchObject({ code: 'unavailable', status: null, retryable: true });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('system メッセージを system に移して Messages API を呼び出す', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text: 'こんにちは' }],
+        usage: { input_tokens: 10, output_tokens: 2 },
+      }));
+
+      const completion = await new AnthropicProvider('sk-ant').complete('claude-sonnet-4-5', [
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: 'hello' },
+      ]);
+
+      expect(completion).toEqual({ text: 'こんにちは', model: 'claude-sonnet-4-5', promptTokens: 10, completionTokens: 2 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init?.headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+      expect(JSON.parse(init?.body as string)).toMatchObject({
+        system: 'You are terse.',
+        messages: [{ role: 'user', content: 'hello' }],
+        max_tokens: expect.any(Number),
+      });
+    });
+
+    it('ストリーミングのイベントから差分と使用量を読み取る', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(sse([
+        { type: 'message_start', message: { model: 'claude-sonnet-4-5', usage: { input_tokens: 8, output_tokens: 1 } } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+        { type: 'message_delta', usage: { output_tokens: 2 } },
+        { type: 'message_stop' },
+      ]));
+      const deltas: string[] = [];
+
+      const completion = await new AnthropicProvider('sk-ant').stream('claude-sonnet-4-5', [{ role: 'user', content: 'hi' }], {
+        onDelta: (delta) => { deltas.push(delta); },
+      });
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(completion).toEqual({ text: 'Hello', model: 'claude-sonnet-4-5', promptTokens: 8, completionTokens: 2 });
+    });
+  });
+
+  describe('MockProvider', () => {
+    it('最後のユーザーメッセージを返し、ストリーミングでも同じ応答になる', async () => {
+      const provider = new MockProvider();
+      const messages = [{ role: 'user', content: 'first' }, { role: 'assistant', content: 'ok' }, { role: 'user', content: 'second question' }];
+      const deltas: string[] = [];
+
+      const completion = await provider.complete('mock', messages);
+      const streamed = await provider.stream('mock', messages, { onDelta: (delta) => { deltas.push(delta); } });
+
+      expect(completion).toEqual({ text: '[mock:mock] second question', model: 'mock', promptTokens: 4, completionTokens: 3 });
+      expect(streamed).toEqual(completion);
+      expect(deltas).toEqual(['[mock:mock] ', 'second ', 'question']);
+    });
+  });
+
+  describe('LLMProviderRegistry', () => {
+    it('設定、カタログ、OpenCode Zen の順にプロバイダーを選ぶ', () => {
+      const registry = new LLMProviderRegistry({ apiKey: 'zen', modelProviders: { 'kimi-k2': 'mock' } });
+
+      expect(registry.providerIdFor('kimi-k2')).toBe('mock');
+      expect(registry.providerIdFor('claude-sonnet-4-5')).toBe('anthropic');
+      expect(registry.providerIdFor('not-in-catalog')).toBe('opencode-zen');
+      expect(new LLMProviderRegistry({ apiKey: 'zen', modelProviders: { '*': 'mock' } }).providerIdFor('glm-4.7-free')).toBe('mock');
+    });
+
+    it('設定されていないプロバイダーのモデルは使えない', () => {
+      const registry = new LLMProviderRegistry({ apiKey: 'zen' });
+      expect(registry.isAvailable('glm-4.7-free')).toBe(true);
+      expect(registry.isAvailable('claude-sonnet-4-5')).toBe(false);
+      expect(registry.isAvailable('llama3.2')).toBe(false);
+
+      const configured = new LLMProviderRegistry({ apiKey: 'zen', anthropicApiKey: 'sk-ant', openAICompatible: { baseUrl: 'http://localhost:11434/v1' } });
+      expect(configured.providerFor('claude-sonnet-4-5')?.id).toBe('anthropic');
+      expect(configured.providerFor('llama3.2')?.id).toBe('openai-compatible');
+    });
+  });
+
+  describe('parseModelProviders', () => {
+    it('知らないプロバイダーや不正なJSONは無視する', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(parseModelProviders('{"*": "mock", "kimi-k2": "unknown"}')).toEqual({ '*': 'mock' });
+      expect(parseModelProviders('not json')).toEqual({});
+      expect(parseModelProviders('["mock"]')).toEqual({});
+      expect(parseModelProviders(undefined)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * LLMProvider の実装と、モデルIDからプロバイダーを選ぶレジストリ
+ */
+import { errorCodeForStatus, isLLMProviderId, LLMProviderError } from './llm-provider.js';
+import type { LLMCompletion, LLMErrorCode, LLMMessage, LLMProvider, LLMProviderId, LLMStreamOptions } from './llm-provider.js';
+import { MODEL_CATALOG } from './models.js';
+import { parseRetryAfter } from './retry.js';
+import { readServerSentEvents } from './sse.js';
+
+export const OPENCODE_ZEN_BASE_URL = 'https://opencode.ai/zen/v1';
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+// Messages API では max_tokens が必須
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+/**
+ * Chat Completions APIのレスポンス（使う部分のみ）
+ */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * ストリーミング時の各イベント（usage は stream_options.include_usage を指定した最後のチャンクのみ）
+ */
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+/**
+ * Anthropic Messages APIのレスポンス（使う部分のみ）
+ */
+interface AnthropicMessage {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic Messages APIのストリーミングイベント（使う部分のみ）
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  message?: AnthropicMessage;
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * リクエストを送り、接続エラーとHTTPエラーを LLMProviderError にする（中断された場合はそのまま投げる）
+ */
+async function send(provider: LLMProviderId, url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw error;
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new LLMProviderError(provider, 'unavailable', `${provider} API request failed: ${reason}`);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new LLMProviderError(
+      provider,
+      errorCodeForStatus(response.status),
+      `${provider} API error: ${response.status} ${response.statusText} - ${errorText}`,
+      { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+    );
+  }
+  return response;
+}
+
+/**
+ * Anthropic のストリーミング中の error イベントの種類から失敗の種類を決める
+ */
+function anthropicErrorCode(type: string | undefined): LLMErrorCode {
+  if (type === 'rate_limit_error') {
+    return 'rate_limited';
+  }
+  return type === 'overloaded_error' || type === 'api_error' ? 'unavailable' : 'bad_response';
+}
+
+/**
+ * OpenAI互換の Chat Completions エンドポイント（例: ローカルの Ollama は http://localhost:11434/v1）
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private readonly endpoint: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly apiKey: string | null = null,
+    readonly id: LLMProviderId = 'openai-compatible'
+  ) {
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  async complete(model: string, messages: LLMMessage[], signal?: AbortSignal): Promise<LLMCompletion> {
+    const response = await this.post(model, messages, { stream: false }, signal);
+    const data = await response.json() as ChatCompletionResponse;
+
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LLMProviderError(this.id, 'bad_response', `Invalid response format from ${this.id}`);
+    }
+    return {
+      text,
+      model: typeof data.model === 'string' ? data.model : model,
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  async stream(model: string, messages: LLMMessage[], { onDelta, signal }: LLMStreamOptions): Promise<LLMCompletion> {
+    const response = await this.post(model, messages, { stream: true, stream_options: { include_usage: true } }, signal);
+    if (!response.body) {
+      throw new LLMProviderError(this.id, 'bad_response', `Empty response body from ${this.id}`);
+    }
+
+    let text = '';
+    let reportedModel = model;
+    let usage: ChatCompletionChunk['usage'] = null;
+    for await (const data of readServerSentEvents(response.body, signal)) {
+      if (data === '[DONE]') {
+        break;
+      }
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      reportedModel = typeof chunk.model === 'string' ? chunk.model : reportedModel;
+      usage = chunk.usage ?? usage;
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        await onDelta(delta);
+      }
+    }
+
+    return {
+      text,
+      model: reportedModel,
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+    };
+  }
+
+  private async post(model: string, messages: LLMMessage[], options: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return send(this.id, this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        ...options,
+      }),
+      signal,
+    });
+  }
+}
+
+/**
+ * OpenCode Zen（OpenAI互換の Chat Completions API）
+ */
+export class OpenCodeZenProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, baseUrl: string = OPENCODE_ZEN_BASE_URL) {
+    super(baseUrl, apiKey, 'opencode-zen');
+  }
+}
+
+/**
+ * Anthropic Messages API
+ * system メッセージは messages に入れられないため、連結して system に渡す
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  private readonly endpoint: string;
+
+  constructor(private readonly apiKey: string, baseUrl: string = ANTHROPIC_BASE_URL) {
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/messages`;
+  }
+
+  async complete(model: string, messages: LLMMessage[], signal?: AbortSignal): Promise<LLMCompletion> {
+    const response = await this.post(model, messages, false, signal);
+    const data = await response.json() as AnthropicMessage;
+
+    if (!Array.isArray(data.content)) {
+      throw new LLMProviderError(this.id, 'bad_response', `Invalid response format from ${this.id}`);
+    }
+    return {
+      text: data.content.filter(block => block.type === 'text').map(block => block.text ?? '').join(''),
+      model: typeof data.model === 'string' ? data.model : model,
+      promptTokens: data.usage?.input_tokens ?? 0,
+      completionTokens: data.usage?.output_tokens ?? 0,
+    };
+  }
+
+  async stream(model: string, messages: LLMMessage[], { onDelta, signal }: LLMStreamOptions): Promise<LLMCompletion> {
+    const response = await this.post(model, messages, true, signal);
+    if (!response.body) {
+      throw new LLMProviderError(this.id, 'bad_response', `Empty response body from ${this.id}`);
+    }
+
+    const completion: LLMCompletion = { text: '', model, promptTokens: 0, completionTokens: 0 };
+    for await (const data of readServerSentEvents(response.body, signal)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      if (event.type === 'message_start' && event.message) {
+        completion.model = event.message.model ?? model;
+        completion.promptTokens = event.message.usage?.input_tokens ?? 0;
+        completion.completionTokens = event.message.usage?.output_tokens ?? 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        completion.text += event.delta.text;
+        await onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        // output_tokens はそこまでの累計
+        completion.completionTokens = event.usage?.output_tokens ?? completion.completionTokens;
+      } else if (event.type === 'error') {
+        throw new LLMProviderError(this.id, anthropicErrorCode(event.error?.type), `${this.id} API error: ${event.error?.message ?? 'unknown error'}`);
+      } else if (event.type === 'message_stop') {
+        break;
+      }
+    }
+    return completion;
+  }
+
+  private async post(model: string, messages: LLMMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+
+    return send(this.id, this.endpoint, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        ...(system ? { system } : {}),
+        messages: messages
+          .filter(message => message.role !== 'system')
+          .map(({ role, content }) => ({ role, content })),
+        stream,
+      }),
+      signal,
+    });
+  }
+}
+
+/**
+ * オフラインでの開発・テスト用のモック
+ * 最後のユーザーメッセージをそのまま返す（同じ入力には常に同じ応答）。トークン数は空白区切りの語数で数える
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+
+  async complete(model: string, messages: LLMMessage[]): Promise<LLMCompletion> {
+    return this.reply(model, messages);
+  }
+
+  async stream(model: string, messages: LLMMessage[], { onDelta, signal }: LLMStreamOptions): Promise<LLMCompletion> {
+    const completion = this.reply(model, messages);
+
+    // 語ごとに差分として渡す
+    let text = '';
+    for (const delta of completion.text.split(/(?<=\s)/)) {
+      if (signal?.aborted) {
+        break;
+      }
+      text += delta;
+      await onDelta(delta);
+    }
+    return { ...completion, text };
+  }
+
+  private reply(model: string, messages: LLMMessage[]): LLMCompletion {
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const text = `[mock:${model}] ${prompt}`;
+    return {
+      text,
+      model,
+      promptTokens: countWords(messages.map(message => message.content).join(' ')),
+      completionTokens: countWords(text),
+    };
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export interface LLMProvidersConfig {
+  /** OpenCode Zen APIキー */
+  apiKey: string;
+  /** OpenAI互換エンドポイント（未設定なら openai-compatible のモデルは使えない） */
+  openAICompatible?: { baseUrl: string; apiKey?: string | null } | null;
+  /** 未設定なら anthropic のモデルは使えない */
+  anthropicApiKey?: string | null;
+  /** モデルIDごとのプロバイダー（'*' はすべてのモデル）。カタログの provider より優先する */
+  modelProviders?: Record<string, LLMProviderId>;
+}
+
+/**
+ * モデルIDから呼び出すプロバイダーを選ぶ
+ */
+export class LLMProviderRegistry {
+  private readonly providers = new Map<LLMProviderId, LLMProvider>();
+  private readonly modelProviders: Record<string, LLMProviderId>;
+
+  constructor(config: LLMProvidersConfig) {
+    this.providers.set('opencode-zen', new OpenCodeZenProvider(config.apiKey));
+    if (config.openAICompatible?.baseUrl) {
+      this.providers.set('openai-compatible', new OpenAICompatibleProvider(config.openAICompatible.baseUrl, config.openAICompatible.apiKey ?? null));
+    }
+    if (config.anthropicApiKey) {
+      this.providers.set('anthropic', new AnthropicProvider(config.anthropicApiKey));
+    }
+    this.providers.set('mock', new MockProvider());
+    this.modelProviders = config.modelProviders ?? {};
+  }
+
+  /**
+   * 設定（モデルID、'*' の順）、カタログ、OpenCode Zen の順に決める
+   */
+  providerIdFor(model: string): LLMProviderId {
+    return this.modelProviders[model]
+      ?? this.modelProviders['*']
+      ?? MODEL_CATALOG.find(entry => entry.id === model)?.provider
+      ?? 'opencode-zen';
+  }
+
+  /**
+   * プロバイダーが設定されていなければ null
+   */
+  providerFor(model: string): LLMProvider | null {
+    return this.providers.get(this.providerIdFor(model)) ?? null;
+  }
+
+  isAvailable(model: string): boolean {
+    return this.providerFor(model) !== null;
+  }
+}
+
+/**
+ * MODEL_PROVIDERS（例: `{"*": "mock"}`、`{"llama3.2": "openai-compatible"}`）を読む
+ * JSONとして読めない場合や知らないプロバイダーは無視する
+ */
+export function parseModelProviders(value: string | undefined): Record<string, LLMProviderId> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    console.warn('[LLM] MODEL_PROVIDERS is not valid JSON, ignoring it');
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.warn('[LLM] MODEL_PROVIDERS must be an object of model ID to provider, ignoring it');
+    return {};
+  }
+
+  const result: Record<string, LLMProviderId> = {};
+  for (const [model, provider] of Object.entries(parsed)) {
+    if (isLLMProviderId(provider)) {
+      result[model] = provider;
+    } else {
+      console.warn(`[LLM] Unknown provider for ${model} in MODEL_PROVIDERS: ${String(provider)}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { allowedModelIds, contextTokensFor, DEFAULT_CONTEXT_TOKENS, DEFAULT_MODEL, isKnownModel, MODEL_CATALOG, parseModelAllowlist } from './models';
+
+describe('models', () => {
+  it('既定モデルは無料でカタログに載っている', () => {
+    expect(MODEL_CATALOG.find(model => model.id === DEFAULT_MODEL)?.free).toBe(true);
+    expect(isKnownModel('kimi-k2')).toBe(true);
+    expect(isKnownModel('gpt-unknown')).toBe(false);
+  });
+
+  it('カタログにないモデルのコンテキストウィンドウは既定値にする', () => {
+    expect(contextTokensFor('claude-sonnet-4-5')).toBe(200_000);
+    expect(contextTokensFor('gpt-unknown')).toBe(DEFAULT_CONTEXT_TOKENS);
+  });
+
+  it('許可リストが未設定なら無料モデルのみ許可する', () => {
+    expect(allowedModelIds(null)).toEqual(MODEL_CATALOG.filter(model => model.free).map(model => model.id));
+    expect(allowedModelIds([DEFAULT_MODEL, 'kimi-k2'])).toEqual([DEFAULT_MODEL, 'kimi-k2']);
+  });
+
+  describe('parseModelAllowlist', () => {
+    it('カタログにあるモデルのみ受け付け、重複を除く', () => {
+      expect(parseModelAllowlist([DEFAULT_MODEL, 'kimi-k2', 'kimi-k2'])).toEqual({ ok: true, models: [DEFAULT_MODEL, 'kimi-k2'] });
+      expect(parseModelAllowlist([DEFAULT_MODEL, 'gpt-unknown'])).toEqual({ ok: false, error: 'Unknown models: gpt-unknown' });
+    });
+
+    it('空のリストや既定モデルを含まないリストは受け付けない', () => {
+      expect(parseModelAllowlist([]).ok).toBe(false);
+      expect(parseModelAllowlist('kimi-k2').ok).toBe(false);
+      expect(parseModelAllowlist(['kimi-k2']).ok).toBe(false);
+    });
+  });
+});
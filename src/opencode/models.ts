@@ -0,0 +1,117 @@
+/**
+ * 利用できるモデルの一覧
+ *
+ * 各モデルは provider のプロバイダーで呼び出す（MODEL_PROVIDERS で変更できる、llm-providers.ts を参照）。
+ * 管理者が許可リストを設定していない場合は無料モデルだけを使える。
+ */
+import type { LLMProviderId } from './llm-provider.js';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  /** 利用料がかからないか（OpenCode Zen の無料モデルやローカルのモデル） */
+  free: boolean;
+  /** 既定で呼び出すプロバイダー */
+  provider: LLMProviderId;
+  /** コンテキストウィンドウ（入力と出力を合わせたトークン数） */
+  contextTokens: number;
+}
+
+// モデルを指定しない場合（セッションの既定もない場合）に使う
+export const DEFAULT_MODEL = 'glm-4.7-free';
+
+export const MODEL_CATALOG: readonly ModelInfo[] = [
+  {
+    id: 'glm-4.7-free',
+    name: 'GLM 4.7',
+    description: 'General-purpose model from Z.ai, free on OpenCode Zen',
+    free: true,
+    provider: 'opencode-zen',
+    contextTokens: 200_000,
+  },
+  {
+    id: 'kimi-k2',
+    name: 'Kimi K2',
+    description: 'Moonshot AI model with strong coding and tool use',
+    free: false,
+    provider: 'opencode-zen',
+    contextTokens: 131_072,
+  },
+  {
+    id: 'qwen3-coder',
+    name: 'Qwen3 Coder',
+    description: 'Alibaba model specialised in code generation',
+    free: false,
+    provider: 'opencode-zen',
+    contextTokens: 262_144,
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    description: 'Anthropic model for coding and long-form reasoning (needs ANTHROPIC_API_KEY)',
+    free: false,
+    provider: 'anthropic',
+    contextTokens: 200_000,
+  },
+  {
+    id: 'llama3.2',
+    name: 'Llama 3.2 (local)',
+    description: 'Meta model served by a local OpenAI-compatible server such as Ollama (needs OPENAI_COMPATIBLE_BASE_URL)',
+    free: true,
+    provider: 'openai-compatible',
+    contextTokens: 131_072,
+  },
+  {
+    id: 'mock',
+    name: 'Mock',
+    description: 'Deterministic echo model for offline development and tests',
+    free: false,
+    provider: 'mock',
+    contextTokens: 8_192,
+  },
+];
+
+// カタログにないモデル（MODEL_PROVIDERS で追加したものなど）のコンテキストウィンドウ
+export const DEFAULT_CONTEXT_TOKENS = 32_768;
+
+/**
+ * モデルのコンテキストウィンドウ（トークン数）
+ */
+export function contextTokensFor(model: string): number {
+  return MODEL_CATALOG.find(info => info.id === model)?.contextTokens ?? DEFAULT_CONTEXT_TOKENS;
+}
+
+export function isKnownModel(value: unknown): value is string {
+  return typeof value === 'string' && MODEL_CATALOG.some(model => model.id === value);
+}
+
+/**
+ * 許可されたモデルのID（configured が null なら無料モデルすべて）
+ */
+export function allowedModelIds(configured: string[] | null): string[] {
+  return configured ?? MODEL_CATALOG.filter(model => model.free).map(model => model.id);
+}
+
+export type ModelAllowlist =
+  | { ok: true; models: string[] }
+  | { ok: false; error: string };
+
+/**
+ * 管理者が送った許可リストを検証する
+ * 既定モデルを外すとモデルを指定しないプロンプトがすべて失敗するため、必ず含める
+ */
+export function parseModelAllowlist(input: unknown): ModelAllowlist {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'models must be a non-empty array of model IDs' };
+  }
+
+  const unknown = input.filter(id => !isKnownModel(id));
+  if (unknown.length > 0) {
+    return { ok: false, error: `Unknown models: ${unknown.map(String).join(', ')}` };
+  }
+  if (!input.includes(DEFAULT_MODEL)) {
+    return { ok: false, error: `models must include the default model ${DEFAULT_MODEL}` };
+  }
+  return { ok: true, models: Array.from(new Set(input as string[])) };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OpenCodeService } from './opencode-client';
+import { LLMProviderError } from './llm-provider';
 import type { SessionDurableObjectState } from '../durable-objects/session-durable-object';
 
 // Mock the SessionDurableObjectState
@@ -10,6 +11,20 @@ const mockSessionDurableObject: SessionDurableObjectState = {
   listUserSessions: vi.fn(),
   addMessage: vi.fn(),
   getConversationHistory: vi.fn(),
+  setSessionModel: vi.fn(),
+  setSessionSystemPrompt: vi.fn(),
+  deleteMessage: vi.fn(),
+  getSessionSummary: vi.fn(),
+  setSessionSummary: vi.fn(),
+  acquirePromptLock: vi.fn(),
+  releasePromptLock: vi.fn(),
+  renewPromptLock: vi.fn(),
+  cancelPrompt: vi.fn(),
+  addSessionMember: vi.fn(),
+  removeSessionMember: vi.fn(),
+  listSessionMembers: vi.fn(),
+  recordUsage: vi.fn(),
+  listUsage: vi.fn(),
 };
 
 vi.mock('@opencode-ai/sdk', () => {
@@ -41,7 +56,7 @@ describe('OpenCodeService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     service = new OpenCodeService(
-      { apiKey: 'test-api-key' },
+      { apiKey: 'test-api-key', retry: { baseDelayMs: 0 } },
       mockSessionDurableObject
     );
   });
@@ -62,7 +77,7 @@ describe('OpenCodeService', () => {
 
       // Assert
       expect(session).toEqual(expectedSession);
-      expect(mockSessionDurableObject.createSession).toHaveBeenCalledWith(userId);
+      expect(mockSessionDurableObject.createSession).toHaveBeenCalledWith(userId, undefined, undefined, undefined);
     });
 
     it('ユーザーIDごとにセッションを分離できる', async () => {
@@ -90,22 +105,206 @@ describe('OpenCodeService', () => {
       const userId = 'user-123';
       const session = { id: 'session-123', userId, createdAt: Date.now() };
       vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
-      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValue(undefined);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValue(2);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ choices: [{ message: { content: 'Hi!' } }] }));
       const prompt = 'Hello, OpenCode!';
 
       // Act
       const response = await service.sendPrompt(session.id, userId, prompt);
+      fetchMock.mockRestore();
 
       // Assert
-      expect(response).toHaveProperty('text');
-      expect(typeof response.text).toBe('string');
+      expect(response.text).toBe('Hi!');
+      expect(response.messageId).toBe(2);
       expect(mockSessionDurableObject.addMessage).toHaveBeenCalledWith(
         session.id,
         userId,
-        { role: 'user', content: prompt }
+        { role: 'user', content: prompt },
+        undefined
       );
     });
 
+    it('APIの使用量をプロンプトを送ったユーザーに記録する', async () => {
+      // Arrange
+      const userId = 'user-123';
+      const session = { id: 'session-123', userId, createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+        model: 'glm-4.7-free',
+        choices: [{ message: { content: 'こんにちは' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      }));
+
+      // Act
+      const response = await service.sendPrompt(session.id, userId, 'Hello');
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response.usage).toMatchObject({ model: 'glm-4.7-free', promptTokens: 12, completionTokens: 3 });
+      expect(mockSessionDurableObject.recordUsage).toHaveBeenCalledWith(userId, expect.objectContaining({
+        sessionId: session.id,
+        model: 'glm-4.7-free',
+        promptTokens: 12,
+        completionTokens: 3,
+        latencyMs: expect.any(Number),
+      }));
+    });
+
+    it('指定したモデル、なければセッションの既定モデルで呼び出す', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now(), model: 'kimi-k2' };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      await service.sendPrompt(session.id, session.userId, 'Hello');
+      await service.sendPrompt(session.id, session.userId, 'Hello', null, 'qwen3-coder');
+      const models = fetchMock.mock.calls.map(([, init]) => JSON.parse(init?.body as string).model);
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(models).toEqual(['kimi-k2', 'qwen3-coder']);
+    });
+
+    it('API呼び出しに失敗した場合はプロンプトを取り消してエラーを投げ、使用量を記録しない', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValue(9);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('bad request', { status: 400 }));
+
+      // Act
+      const error = await service.sendPrompt(session.id, session.userId, 'Hello').catch(e => e);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert: 400 はリトライしない
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error).toMatchObject({ code: 'bad_response', status: 400, provider: 'opencode-zen' });
+      expect(attempts).toBe(1);
+      expect(mockSessionDurableObject.addMessage).toHaveBeenCalledTimes(1);
+      expect(mockSessionDurableObject.deleteMessage).toHaveBeenCalledWith(session.id, session.userId, 9, undefined);
+      expect(mockSessionDurableObject.recordUsage).not.toHaveBeenCalled();
+    });
+
+    it('429 と 5xx はリトライし、Retry-After に従う', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      const response = await service.sendPrompt(session.id, session.userId, 'Hello');
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response.text).toBe('ok');
+      expect(attempts).toBe(3);
+      expect(mockSessionDurableObject.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('リトライしても失敗した場合や Retry-After が長すぎる場合はエラーを投げる', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('unavailable', { status: 502 }));
+
+      // Act
+      const unavailable = await service.sendPrompt(session.id, session.userId, 'Hello').catch(e => e);
+      const calls = fetchMock.mock.calls.length;
+      fetchMock.mockImplementation(async () => new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+      const limited = await service.sendPrompt(session.id, session.userId, 'Hello').catch(e => e);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(unavailable).toMatchObject({ code: 'unavailable', status: 502 });
+      expect(calls).toBe(3);
+      expect(limited).toMatchObject({ code: 'rate_limited', retryAfterMs: 3_600_000 });
+      expect(attempts).toBe(4);
+    });
+
+    it('時間内に応答がなければ timeout になる', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+      }));
+      const impatient = new OpenCodeService({ apiKey: 'test-api-key', timeoutMs: 10 }, mockSessionDurableObject);
+
+      // Act
+      const error = await impatient.sendPrompt(session.id, session.userId, 'Hello').catch(e => e);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert: タイムアウトはリトライしない
+      expect(error).toMatchObject({ code: 'timeout', provider: 'opencode-zen' });
+      expect(attempts).toBe(1);
+      expect(mockSessionDurableObject.deleteMessage).toHaveBeenCalled();
+    });
+
+    it('取り消された場合はプロンプトを残し、空の応答を cancelled として保存する', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+      const cancellation = new AbortController();
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+        cancellation.abort();
+      }));
+
+      // Act
+      const response = await service.sendPrompt(session.id, session.userId, 'Hello', null, undefined, cancellation.signal);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response).toEqual({ text: '', messageId: 2, usage: null, cancelled: true });
+      expect(attempts).toBe(1);
+      expect(mockSessionDurableObject.addMessage).toHaveBeenLastCalledWith(
+        session.id,
+        session.userId,
+        { role: 'assistant', content: '', cancelled: true },
+        null
+      );
+      expect(mockSessionDurableObject.deleteMessage).not.toHaveBeenCalled();
+      expect(mockSessionDurableObject.recordUsage).not.toHaveBeenCalled();
+    });
+
+    it('空のまま取り消された応答はモデルに送らない', async () => {
+      // Arrange
+      const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([
+        { id: 1, role: 'user', content: 'Hello' },
+        { id: 2, role: 'assistant', content: '', cancelled: true },
+        { id: 3, role: 'user', content: 'Hello again' },
+      ]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ choices: [{ message: { content: 'Hi!' } }] }));
+
+      // Act
+      await service.sendPrompt(session.id, session.userId, 'Hello again');
+      const request = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(request.messages).toEqual([{ role: 'user', content: 'Hello' }, { role: 'user', content: 'Hello again' }]);
+    });
+
     it('存在しないセッションでエラーになる', async () => {
       // Arrange
       vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(null);
@@ -132,6 +331,307 @@ describe('OpenCodeService', () => {
     });
   });
 
+  describe('コンテキストウィンドウ', () => {
+    const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+    // 1メッセージ = 27トークン（最後が今回のプロンプト）
+    const history = [1, 2, 3, 4, 5, 6, 7].map(id => ({ id, role: id % 2 === 1 ? 'user' : 'assistant', content: `message${id} ${'x'.repeat(80)}` }));
+    const contents = (ids: number[]) => ids.map(id => history[id - 1].content);
+    const sentMessages = (fetchMock: { mock: { calls: unknown[][] } }, call: number) =>
+      JSON.parse((fetchMock.mock.calls[call][1] as RequestInit).body as string).messages as Array<{ role: string; content: string }>;
+
+    // 入力の予算は 200 - 50 = 150 トークン、システムプロンプトは7トークン
+    const createService = (strategy: 'truncate' | 'summarize') => new OpenCodeService(
+      { apiKey: 'test-api-key', retry: { baseDelayMs: 0 }, context: { strategy, maxTokens: 200, systemPrompt: 'Be brief.' } },
+      mockSessionDurableObject
+    );
+
+    beforeEach(() => {
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue(history);
+    });
+
+    it('収まらない古いメッセージを外し、システムプロンプトは常に送る（truncate）', async () => {
+      // Arrange
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      await createService('truncate').sendPrompt(session.id, session.userId, history[6].content);
+      const calls = fetchMock.mock.calls.length;
+      const messages = sentMessages(fetchMock, 0);
+      fetchMock.mockRestore();
+
+      // Assert: 収まるのは新しい方から6件だが、アシスタントの応答から始まらないよう5件にする
+      expect(calls).toBe(1);
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        ...history.slice(2).map(({ role, content }) => ({ role, content })),
+      ]);
+      expect(mockSessionDurableObject.setSessionSummary).not.toHaveBeenCalled();
+    });
+
+    it('外したメッセージを要約してセッションに保存し、要約を送る（summarize）', async () => {
+      // Arrange
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'Earlier turns' } }], usage: { prompt_tokens: 30, completion_tokens: 3 } }))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }], usage: { prompt_tokens: 40, completion_tokens: 1 } }));
+
+      // Act
+      const response = await createService('summarize').sendPrompt(session.id, session.userId, history[6].content);
+      const summaryRequest = sentMessages(fetchMock, 0);
+      const messages = sentMessages(fetchMock, 1);
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response.text).toBe('ok');
+      expect(summaryRequest.at(-1)?.content).toBe(`user: ${history[0].content}\n\nassistant: ${history[1].content}`);
+      expect(mockSessionDurableObject.setSessionSummary).toHaveBeenCalledWith(
+        session.id, session.userId, { content: 'Earlier turns', throughMessageId: 2, updatedAt: expect.any(Number) }, undefined
+      );
+      expect(messages.slice(0, 2)).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'system', content: 'Summary of the earlier conversation:\nEarlier turns' },
+      ]);
+      expect(messages.at(-1)).toEqual({ role: 'user', content: history[6].content });
+      expect(messages.map(m => m.content)).not.toContain(history[1].content);
+      // 要約の使用量もプロンプトを送ったユーザーに記録する
+      expect(mockSessionDurableObject.recordUsage).toHaveBeenCalledTimes(2);
+    });
+
+    it('セッションのシステムプロンプトをサービス全体のものの後に付けて送る', async () => {
+      // Arrange
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue({ ...session, systemPrompt: 'Talk like a pirate.' });
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([{ id: 1, role: 'user', content: 'Hello' }]);
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      await createService('truncate').sendPrompt(session.id, session.userId, 'Hello');
+      const messages = sentMessages(fetchMock, 0);
+      fetchMock.mockRestore();
+
+      // Assert: システムプロンプトはメッセージとして保存しない
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'system', content: 'Talk like a pirate.' },
+        { role: 'user', content: 'Hello' },
+      ]);
+      expect(vi.mocked(mockSessionDurableObject.addMessage).mock.calls.map(([, , message]) => message.role)).toEqual(['user', 'assistant']);
+    });
+
+    it('保存済みの要約より後のメッセージだけを送る', async () => {
+      // Arrange
+      vi.mocked(mockSessionDurableObject.getSessionSummary).mockResolvedValueOnce({ content: 'Earlier turns', throughMessageId: 4, updatedAt: 1 });
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      await service.sendPrompt(session.id, session.userId, history[6].content);
+      const calls = fetchMock.mock.calls.length;
+      const messages = sentMessages(fetchMock, 0);
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(calls).toBe(1);
+      expect(messages.map(m => m.content)).toEqual(['Summary of the earlier conversation:\nEarlier turns', ...contents([5, 6, 7])]);
+    });
+
+    it('要約に失敗した場合は古いメッセージを外すだけにする', async () => {
+      // Arrange
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchMock = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('bad request', { status: 400 }))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }] }));
+
+      // Act
+      const response = await createService('summarize').sendPrompt(session.id, session.userId, history[6].content);
+      const messages = sentMessages(fetchMock, 1);
+      fetchMock.mockRestore();
+      warn.mockRestore();
+
+      // Assert
+      expect(response.text).toBe('ok');
+      expect(mockSessionDurableObject.setSessionSummary).not.toHaveBeenCalled();
+      expect(messages.map(m => m.content)).toEqual(['Be brief.', ...contents([3, 4, 5, 6, 7])]);
+    });
+
+    it('要約中に取り消された場合は要約をやめ、空の応答を cancelled として保存する', async () => {
+      // Arrange
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValueOnce(8).mockResolvedValueOnce(9);
+      const cancellation = new AbortController();
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+        cancellation.abort();
+      }));
+
+      // Act
+      const response = await createService('summarize').sendPrompt(session.id, session.userId, history[6].content, null, undefined, cancellation.signal);
+      const calls = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert: 要約の呼び出しだけで終わり、プロンプトへの応答は求めない
+      expect(response).toEqual({ text: '', messageId: 9, usage: null, cancelled: true });
+      expect(calls).toBe(1);
+      expect(mockSessionDurableObject.setSessionSummary).not.toHaveBeenCalled();
+      expect(mockSessionDurableObject.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('ストリーミングでも要約中に取り消された場合は空の応答を cancelled として保存する', async () => {
+      // Arrange
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValueOnce(8).mockResolvedValueOnce(9);
+      const cancellation = new AbortController();
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+        cancellation.abort();
+      }));
+      const onDelta = vi.fn();
+
+      // Act
+      const response = await createService('summarize').streamPrompt(session.id, session.userId, history[6].content, null, {
+        cancelSignal: cancellation.signal,
+        onDelta,
+      });
+      const calls = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response).toEqual({ text: '', messageId: 9, usage: null, aborted: false, cancelled: true });
+      expect(calls).toBe(1);
+      expect(onDelta).not.toHaveBeenCalled();
+      expect(mockSessionDurableObject.deleteMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamPrompt', () => {
+    const session = { id: 'session-123', userId: 'user-123', createdAt: Date.now() };
+    const event = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+
+    beforeEach(() => {
+      vi.mocked(mockSessionDurableObject.getSession).mockResolvedValue(session);
+      vi.mocked(mockSessionDurableObject.getConversationHistory).mockResolvedValue([]);
+      vi.mocked(mockSessionDurableObject.addMessage).mockResolvedValue(5);
+    });
+
+    it('差分を順に渡し、受信し終えた応答を保存する', async () => {
+      // Arrange
+      const body = [
+        event({ model: 'glm-4.7-free', choices: [{ delta: { content: 'こん' } }] }),
+        event({ model: 'glm-4.7-free', choices: [{ delta: { content: 'にちは' } }] }),
+        event({ model: 'glm-4.7-free', choices: [], usage: { prompt_tokens: 8, completion_tokens: 2 } }),
+        'data: [DONE]\n\n',
+      ].join('');
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }));
+      const deltas: string[] = [];
+
+      // Act
+      const response = await service.streamPrompt(session.id, session.userId, 'Hello', undefined, { onDelta: text => { deltas.push(text); } });
+      const request = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(request).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+      expect(deltas).toEqual(['こん', 'にちは']);
+      expect(response).toMatchObject({ text: 'こんにちは', messageId: 5, aborted: false, usage: { promptTokens: 8, completionTokens: 2 } });
+      expect(mockSessionDurableObject.addMessage).toHaveBeenLastCalledWith(
+        session.id,
+        session.userId,
+        { role: 'assistant', content: 'こんにちは' },
+        undefined
+      );
+      expect(mockSessionDurableObject.recordUsage).toHaveBeenCalledWith(session.userId, expect.objectContaining({ promptTokens: 8 }));
+    });
+
+    it('切断された場合は途中までの応答を aborted として保存する', async () => {
+      // Arrange: 最初の差分の後は何も届かない
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(event({ choices: [{ delta: { content: '途中' } }] })));
+        },
+      });
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body));
+      const disconnected = new AbortController();
+
+      // Act
+      const response = await service.streamPrompt(session.id, session.userId, 'Hello', undefined, {
+        signal: disconnected.signal,
+        onDelta: () => disconnected.abort(),
+      });
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response).toMatchObject({ text: '途中', aborted: true, usage: null });
+      expect(mockSessionDurableObject.addMessage).toHaveBeenLastCalledWith(
+        session.id,
+        session.userId,
+        { role: 'assistant', content: '途中', aborted: true },
+        undefined
+      );
+      expect(mockSessionDurableObject.recordUsage).not.toHaveBeenCalled();
+    });
+
+    it('取り消された場合は途中までの応答を cancelled として保存する', async () => {
+      // Arrange: 最初の差分の後は何も届かない
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(event({ choices: [{ delta: { content: '途中' } }] })));
+        },
+      });
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body));
+      const disconnected = new AbortController();
+      const cancellation = new AbortController();
+
+      // Act
+      const response = await service.streamPrompt(session.id, session.userId, 'Hello', undefined, {
+        signal: disconnected.signal,
+        cancelSignal: cancellation.signal,
+        onDelta: () => cancellation.abort(),
+      });
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(response).toMatchObject({ text: '途中', aborted: false, cancelled: true, usage: null });
+      expect(mockSessionDurableObject.addMessage).toHaveBeenLastCalledWith(
+        session.id,
+        session.userId,
+        { role: 'assistant', content: '途中', cancelled: true },
+        undefined
+      );
+      expect(mockSessionDurableObject.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('API呼び出しに失敗した場合は何も保存せずエラーを投げる', async () => {
+      // Arrange
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('unavailable', { status: 503 }));
+      const deltas: string[] = [];
+
+      // Act
+      const error = await service.streamPrompt(session.id, session.userId, 'Hello', undefined, { onDelta: text => { deltas.push(text); } }).catch(e => e);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(error).toMatchObject({ code: 'unavailable', status: 503 });
+      expect(attempts).toBe(3);
+      expect(deltas).toEqual([]);
+      expect(mockSessionDurableObject.addMessage).toHaveBeenCalledTimes(1);
+      expect(mockSessionDurableObject.deleteMessage).toHaveBeenCalledWith(session.id, session.userId, 5, undefined);
+    });
+
+    it('差分を受け取った後に失敗した場合はリトライしない', async () => {
+      // Arrange
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(
+        event({ choices: [{ delta: { content: '途中' } }] }) + 'data: {not json}\n\n'
+      ));
+
+      // Act
+      const error = await service.streamPrompt(session.id, session.userId, 'Hello', undefined, { onDelta: () => {} }).catch(e => e);
+      const attempts = fetchMock.mock.calls.length;
+      fetchMock.mockRestore();
+
+      // Assert
+      expect(error).toMatchObject({ code: 'bad_response' });
+      expect(attempts).toBe(1);
+      expect(mockSessionDurableObject.addMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getSession', () => {
     it('存在するセッションを取得できる', async () => {
       // Arrange
@@ -145,7 +645,7 @@ describe('OpenCodeService', () => {
       // Assert
       expect(retrieved).toBeDefined();
       expect(retrieved?.id).toBe(expected.id);
-      expect(mockSessionDurableObject.getSession).toHaveBeenCalledWith(expected.id, userId);
+      expect(mockSessionDurableObject.getSession).toHaveBeenCalledWith(expected.id, userId, undefined);
     });
 
     it('存在しないセッションでundefinedを返す', async () => {
@@ -173,7 +673,7 @@ describe('OpenCodeService', () => {
 
       // Assert
       expect(result).toBe(true);
-      expect(mockSessionDurableObject.deleteSession).toHaveBeenCalledWith(session.id, userId);
+      expect(mockSessionDurableObject.deleteSession).toHaveBeenCalledWith(session.id, userId, undefined);
     });
 
     it('存在しないセッションは削除できない', async () => {
@@ -186,7 +686,7 @@ describe('OpenCodeService', () => {
 
       // Assert
       expect(result).toBe(false);
-      expect(mockSessionDurableObject.deleteSession).toHaveBeenCalledWith('non-existent', 'user-123');
+      expect(mockSessionDurableObject.deleteSession).toHaveBeenCalledWith('non-existent', 'user-123', undefined);
     });
   });
 
@@ -206,7 +706,19 @@ describe('OpenCodeService', () => {
       // Assert
       expect(result).toHaveLength(2);
       expect(result).toEqual(sessions);
-      expect(mockSessionDurableObject.listUserSessions).toHaveBeenCalledWith(userId);
+      expect(mockSessionDurableObject.listUserSessions).toHaveBeenCalledWith(userId, undefined);
+    });
+
+    it('アクティブな組織を渡して組織のセッションも取得できる', async () => {
+      // Arrange
+      const org = { orgId: 'org_1', role: 'member' as const };
+      vi.mocked(mockSessionDurableObject.listUserSessions).mockResolvedValue([]);
+
+      // Act
+      await service.listUserSessions('user-123', org);
+
+      // Assert
+      expect(mockSessionDurableObject.listUserSessions).toHaveBeenCalledWith('user-123', org);
     });
   });
 });
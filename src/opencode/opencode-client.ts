@@ -1,142 +1,524 @@
-import type { SessionDurableObjectState } from '../durable-objects/session-durable-object.js';
+import type {
+  ConversationMessage,
+  ModelUsage,
+  PromptLockResult,
+  SessionDurableObjectState,
+  SessionMember,
+  UsageRow,
+} from '../durable-objects/session-durable-object.js';
+import type { PromptLockState } from '../durable-objects/prompt-lock.js';
+import type { OrgMembership } from '../auth/organizations.js';
+import type { SessionMemberRole } from '../auth/session-members.js';
+import { contextTokensFor, DEFAULT_MODEL } from './models.js';
+import { LLMProviderRegistry } from './llm-providers.js';
+import type { LLMProvidersConfig } from './llm-providers.js';
+import { LLMProviderError } from './llm-provider.js';
+import type { LLMCompletion, LLMMessage, LLMProvider } from './llm-provider.js';
+import { AttemptTimeout, backoffDelay, DEFAULT_LLM_TIMEOUT_MS, DEFAULT_RETRY_OPTIONS, withRetries } from './retry.js';
+import type { RetryOptions } from './retry.js';
+import { DEFAULT_CONTEXT_OPTIONS, fitToBudget, inputBudget, summaryMessage, summaryRequest } from './context-window.js';
+import type { ContextOptions } from './context-window.js';
 
 export interface OpenCodeSession {
   id: string;
   userId: string;
   createdAt: number;
+  /** 組織セッションの場合は組織ID */
+  orgId?: string | null;
+  /** メンバーとして招待されたセッションの場合はそのロール */
+  memberRole?: SessionMemberRole | null;
+  /** プロンプトでモデルを指定しない場合に使うモデル（null はサービスの既定） */
+  model?: string | null;
+  /** 会話履歴の前に付けて送るシステムプロンプト（メッセージとしては保存しない） */
+  systemPrompt?: string | null;
 }
 
-export interface OpenCodeConfig {
-  apiKey: string;
+/**
+ * OpenCode Zen のAPIキーと、ほかのプロバイダーの設定（llm-providers.ts を参照）
+ */
+export interface OpenCodeConfig extends LLMProvidersConfig {
+  /** 上流APIのリトライ（省略した項目は DEFAULT_RETRY_OPTIONS） */
+  retry?: Partial<RetryOptions>;
+  /** 1回の呼び出しを待つ時間（ストリーミングでは差分が届くたびに計り直す） */
+  timeoutMs?: number;
+  /** 会話履歴がコンテキストに収まらない場合の扱い（省略した項目は DEFAULT_CONTEXT_OPTIONS） */
+  context?: Partial<ContextOptions>;
 }
 
 export interface PromptResponse {
   text: string;
+  /** アシスタントのメッセージID（次のプロンプトの If-Match に使える） */
+  messageId: number;
+  /** クライアントが切断した場合、取り消された場合は null */
+  usage: ModelUsage | null;
+  /** 別のリクエストで取り消されたため、そこまでの応答を cancelled として保存した */
+  cancelled: boolean;
+}
+
+export interface StreamedPromptResponse extends PromptResponse {
+  /** クライアントが切断したため途中までの応答を保存した */
+  aborted: boolean;
+}
+
+// プロンプトを追加したセッションの会話
+interface Conversation {
+  /** 追加したプロンプトのID（失敗した場合に取り消す） */
+  messageId: number;
+  history: ConversationMessage[];
+  model: string;
+  systemPrompt: string | null;
+}
+
+export interface StreamPromptOptions {
+  /** 省略時はセッションの既定モデル */
+  model?: string;
+  /** 応答の差分を受信するたびに呼ばれる */
+  onDelta: (text: string) => Promise<void> | void;
+  /** クライアントの切断で中断される */
+  signal?: AbortSignal;
+  /** プロンプトの取り消し（POST /api/sessions/:id/cancel）で中断される */
+  cancelSignal?: AbortSignal;
 }
 
 /**
- * OpenCode Zen APIと通信するクライアント
+ * モデルを呼び出して会話を進めるサービス
  * ユーザーごとにリクエストを分離して管理する
  *
- * Durable Objectsを使用してセッションを永続化
+ * Durable Objectsを使用してセッションを永続化し、モデルはモデルIDごとに選んだプロバイダーで呼び出す
  */
 export class OpenCodeService {
-  private apiKey: string;
   private sessionDurableObject: SessionDurableObjectState;
-  // OpenCode Zenのエンドポイントとデフォルトモデル（無料モデルを使用）
-  private readonly apiEndpoint = 'https://opencode.ai/zen/v1/chat/completions';
-  private readonly defaultModel = 'glm-4.7-free'; // 無料のGLMモデル
+  private readonly providers: LLMProviderRegistry;
+  private readonly retry: RetryOptions;
+  private readonly timeoutMs: number;
+  private readonly context: ContextOptions;
+  // デフォルトモデル（無料モデルを使用、models.ts を参照）
+  private readonly defaultModel = DEFAULT_MODEL;
 
   constructor(config: OpenCodeConfig, sessionDurableObject: SessionDurableObjectState) {
-    this.apiKey = config.apiKey;
+    this.providers = new LLMProviderRegistry(config);
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+    this.context = { ...DEFAULT_CONTEXT_OPTIONS, ...config.context };
     this.sessionDurableObject = sessionDurableObject;
   }
 
+  /**
+   * モデルを呼び出すプロバイダーが設定されているか
+   */
+  isModelAvailable(model: string): boolean {
+    return this.providers.isAvailable(model);
+  }
+
   /**
    * 新しいセッションを作成する
+   * orgIdを指定すると組織のメンバー全員で共有するセッションになる
+   * modelを指定するとそのセッションの既定モデルになる
+   * systemPromptを指定するとすべてのプロンプトで会話履歴の前に送られる（personas.ts を参照）
+   */
+  async createSession(userId: string, orgId?: string | null, model?: string | null, systemPrompt?: string | null): Promise<OpenCodeSession> {
+    return await this.sessionDurableObject.createSession(userId, orgId, model, systemPrompt);
+  }
+
+  /**
+   * セッションの既定モデルを変更する（null でサービスの既定に戻す）
+   */
+  async setSessionModel(sessionId: string, userId: string, model: string | null, org?: OrgMembership | null): Promise<OpenCodeSession | null> {
+    return await this.sessionDurableObject.setSessionModel(sessionId, userId, model, org);
+  }
+
+  /**
+   * セッションのシステムプロンプトを変更する（null で削除）
+   */
+  async setSessionSystemPrompt(sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null): Promise<OpenCodeSession | null> {
+    return await this.sessionDurableObject.setSessionSystemPrompt(sessionId, userId, systemPrompt, org);
+  }
+
+  /**
+   * プロンプトを送信する
+   * modelを省略した場合はセッションの既定モデルを使う
+   * cancelSignal で取り消された場合は空の応答を cancelled として保存する（プロンプトは履歴に残す）
+   * @throws LLMProviderError リトライしても応答を得られなかった場合（ユーザーのメッセージは取り消す）
+   */
+  async sendPrompt(
+    sessionId: string,
+    userId: string,
+    prompt: string,
+    org?: OrgMembership | null,
+    model?: string,
+    cancelSignal?: AbortSignal
+  ): Promise<PromptResponse> {
+    const conversation = await this.addUserMessage(sessionId, userId, prompt, org);
+    const actualModel = model ?? conversation.model;
+
+    // モデルを呼び出す
+    let completion: { text: string; usage: ModelUsage };
+    try {
+      const messages = await this.buildContext(sessionId, userId, conversation, actualModel, org, cancelSignal);
+      completion = await this.callModel(messages, actualModel, cancelSignal);
+    } catch (error) {
+      if (cancelSignal?.aborted) {
+        const messageId = await this.saveAssistantMessage(sessionId, userId, { role: 'assistant', content: '', cancelled: true }, null, org);
+        return { text: '', messageId, usage: null, cancelled: true };
+      }
+      await this.rollbackUserMessage(sessionId, userId, conversation.messageId, org);
+      throw error;
+    }
+
+    const { text, usage } = completion;
+    const messageId = await this.saveAssistantMessage(sessionId, userId, { role: 'assistant', content: text }, usage, org);
+    return { text, messageId, usage, cancelled: false };
+  }
+
+  /**
+   * プロンプトを送信し、応答を受信しながら onDelta に渡す
+   * 応答は受信し終えてから保存する。クライアントが切断した場合は途中までを aborted、
+   * cancelSignal で取り消された場合は cancelled として保存する
+   * @throws LLMProviderError 応答を得られなかった場合（途中まで受信していても保存せず、ユーザーのメッセージも取り消す）
    */
-  async createSession(userId: string): Promise<OpenCodeSession> {
-    return await this.sessionDurableObject.createSession(userId);
+  async streamPrompt(
+    sessionId: string,
+    userId: string,
+    prompt: string,
+    org: OrgMembership | null | undefined,
+    options: StreamPromptOptions
+  ): Promise<StreamedPromptResponse> {
+    const conversation = await this.addUserMessage(sessionId, userId, prompt, org);
+
+    const model = options.model ?? conversation.model;
+
+    const signals = [options.signal, options.cancelSignal].filter((signal): signal is AbortSignal => !!signal);
+    const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+    let streamed: { text: string; usage: ModelUsage | null; aborted: boolean };
+    try {
+      const messages = await this.buildContext(sessionId, userId, conversation, model, org, signal);
+      streamed = await this.streamModel(messages, model, { ...options, signal });
+    } catch (error) {
+      // 要約中に切断・取り消しされた場合は、何も受信しないうちに中断されたものとして扱う
+      if (signal?.aborted) {
+        streamed = { text: '', usage: null, aborted: true };
+      } else {
+        await this.rollbackUserMessage(sessionId, userId, conversation.messageId, org);
+        throw error;
+      }
+    }
+
+    const { text, usage } = streamed;
+    // 取り消しと切断が重なった場合は取り消しとして扱う
+    const cancelled = streamed.aborted && !!options.cancelSignal?.aborted;
+    const aborted = streamed.aborted && !cancelled;
+    const message: ConversationMessage = { role: 'assistant', content: text };
+    if (cancelled) {
+      message.cancelled = true;
+    } else if (aborted) {
+      message.aborted = true;
+    }
+    const messageId = await this.saveAssistantMessage(sessionId, userId, message, usage, org);
+    return { text, messageId, usage, aborted, cancelled };
   }
 
   /**
-   * プロンプトを送信する（OpenCode Zen API）
+   * ユーザーのメッセージを追加し、そのID、APIに送る会話履歴、セッションの既定モデルとシステムプロンプトを返す
    */
-  async sendPrompt(sessionId: string, userId: string, prompt: string): Promise<PromptResponse> {
-    const session = await this.sessionDurableObject.getSession(sessionId, userId);
+  private async addUserMessage(
+    sessionId: string,
+    userId: string,
+    prompt: string,
+    org?: OrgMembership | null
+  ): Promise<Conversation> {
+    const session = await this.sessionDurableObject.getSession(sessionId, userId, org);
 
     if (!session) {
       throw new Error('Session not found or access denied');
     }
 
     // ユーザーのメッセージを追加
-    await this.sessionDurableObject.addMessage(sessionId, userId, { role: 'user', content: prompt });
+    const messageId = await this.sessionDurableObject.addMessage(sessionId, userId, { role: 'user', content: prompt }, org);
 
     // 会話履歴を取得
-    const conversationHistory = await this.sessionDurableObject.getConversationHistory(sessionId, userId);
+    const history = await this.sessionDurableObject.getConversationHistory(sessionId, userId, org);
+    return { messageId, history, model: session.model ?? this.defaultModel, systemPrompt: session.systemPrompt ?? null };
+  }
+
+  /**
+   * モデルに送るメッセージを組み立てる（context-window.ts を参照）
+   * システムプロンプト（サービス全体、セッションの順）と要約を先頭に付け、コンテキストに収まらない古いメッセージは外す。
+   * summarize の場合、外したメッセージは前回の要約と合わせて要約し直してセッションに保存する
+   * （要約に失敗した場合は外すだけにする。signal で中断された場合は例外を投げる）
+   */
+  private async buildContext(
+    sessionId: string,
+    userId: string,
+    { history, systemPrompt }: Conversation,
+    model: string,
+    org?: OrgMembership | null,
+    signal?: AbortSignal
+  ): Promise<LLMMessage[]> {
+    const budget = inputBudget(Math.min(contextTokensFor(model), this.context.maxTokens ?? Infinity));
+    const system: LLMMessage[] = [this.context.systemPrompt, systemPrompt]
+      .filter((content): content is string => !!content)
+      .map(content => ({ role: 'system', content }));
 
-    // OpenCode Zen APIを呼び出す
-    const response = await this.callOpenCodeAPI(conversationHistory);
+    let summary = await this.sessionDurableObject.getSessionSummary(sessionId, userId, org);
+    const turns = summary ? history.filter(message => (message.id ?? 0) > summary!.throughMessageId) : history;
+    const pinned = () => summary ? [...system, summaryMessage(summary.content)] : system;
 
-    // アシスタントのメッセージを追加
-    await this.sessionDurableObject.addMessage(sessionId, userId, { role: 'assistant', content: response });
+    let { kept, dropped } = fitToBudget(pinned(), turns, budget);
+    const throughMessageId = dropped.at(-1)?.id;
+    if (this.context.strategy === 'summarize' && throughMessageId !== undefined) {
+      try {
+        const { text, usage } = await this.callModel(summaryRequest(summary?.content ?? null, dropped, budget), model, signal);
+        await this.sessionDurableObject.recordUsage(userId, { ...usage, sessionId, createdAt: Date.now() });
+        summary = { content: text, throughMessageId, updatedAt: Date.now() };
+        await this.sessionDurableObject.setSessionSummary(sessionId, userId, summary, org);
+        // 要約が長くなった分、さらに外す必要があることもある（次回の要約に含まれる）
+        ({ kept } = fitToBudget(pinned(), kept, budget));
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        console.warn('Failed to summarize older messages, dropping them instead:', error instanceof Error ? error.message : error);
+      }
+    }
 
-    return { text: response };
+    // 何も受信しないうちに取り消された応答は空のまま保存されているので送らない
+    return [...pinned(), ...kept].filter(({ content }) => content).map(({ role, content }) => ({ role, content }));
   }
 
   /**
-   * OpenCode Zen APIを呼び出す
+   * 応答を得られなかったプロンプトを履歴から取り除く（次のプロンプトの文脈に残さない）
    */
-  private async callOpenCodeAPI(messages: Array<{role: string, content: string}>): Promise<string> {
+  private async rollbackUserMessage(sessionId: string, userId: string, messageId: number, org?: OrgMembership | null): Promise<void> {
     try {
-      const requestBody = {
-        model: this.defaultModel,
-        messages: messages.map(msg => ({
-          role: msg.role,
-          content: msg.content
+      await this.sessionDurableObject.deleteMessage(sessionId, userId, messageId, org);
+    } catch (error) {
+      console.error('Failed to roll back the prompt:', error);
+    }
+  }
+
+  /**
+   * アシスタントのメッセージを追加し、使用量をプロンプトを送ったユーザーに記録する
+   */
+  private async saveAssistantMessage(
+    sessionId: string,
+    userId: string,
+    message: ConversationMessage,
+    usage: ModelUsage | null,
+    org?: OrgMembership | null
+  ): Promise<number> {
+    const messageId = await this.sessionDurableObject.addMessage(sessionId, userId, message, org);
+
+    if (usage) {
+      await this.sessionDurableObject.recordUsage(userId, { ...usage, sessionId, createdAt: Date.now() });
+    }
+    return messageId;
+  }
+
+  /**
+   * モデルを呼び出す（429 と 5xx はリトライする）
+   * 成功した場合は使用量（トークン数）とレイテンシも返す。signal で中断された場合は例外を投げる
+   */
+  private async callModel(messages: LLMMessage[], model: string, signal?: AbortSignal): Promise<{ text: string; usage: ModelUsage }> {
+    const startedAt = Date.now();
+    const completion = await withRetries(
+      () => this.attempt(model, signal, (provider, timeout) => provider.complete(model, messages, timeout.signal)),
+      (error, attempt) => this.retryDelay(error, attempt),
+      signal
+    );
+    return { text: completion.text, usage: toModelUsage(completion, startedAt) };
+  }
+
+  /**
+   * モデルをストリーミングで呼び出す
+   * リトライは差分を受け取る前に失敗した場合のみ（クライアントに送った応答は取り消せないため）
+   */
+  private async streamModel(
+    messages: LLMMessage[],
+    model: string,
+    { onDelta, signal }: StreamPromptOptions
+  ): Promise<{ text: string; usage: ModelUsage | null; aborted: boolean }> {
+    const startedAt = Date.now();
+    // 切断時にも途中までの応答を残せるよう、受け取った差分をここでも連結する
+    let text = '';
+
+    try {
+      const completion = await withRetries(
+        () => this.attempt(model, signal, (provider, timeout) => provider.stream(model, messages, {
+          signal: timeout.signal,
+          onDelta: async (delta) => {
+            timeout.touch();
+            text += delta;
+            await onDelta(delta);
+          },
         })),
-        stream: false
-      };
-
-      const response = await fetch(this.apiEndpoint, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenCode API error: ${response.status} ${response.statusText} - ${errorText}`);
+        (error, attempt) => text ? null : this.retryDelay(error, attempt),
+        signal
+      );
+      if (!signal?.aborted) {
+        return { text, usage: toModelUsage(completion, startedAt), aborted: false };
       }
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
 
-      const data = await response.json();
+    // 切断された場合は usage が届かないので記録しない
+    return { text, usage: null, aborted: true };
+  }
 
-      // レスポンスからテキストを抽出
-      if (data.choices && data.choices.length > 0) {
-        return data.choices[0].message.content;
-      }
+  /**
+   * 1回分の呼び出し（タイムアウト付き）
+   * 時間切れや想定外の例外は LLMProviderError にする。signal（クライアントの切断や取り消し）で中断された場合はそのまま投げる
+   */
+  private async attempt(
+    model: string,
+    signal: AbortSignal | undefined,
+    run: (provider: LLMProvider, timeout: AttemptTimeout) => Promise<LLMCompletion>
+  ): Promise<LLMCompletion> {
+    const provider = this.providers.providerFor(model);
+    if (!provider) {
+      const providerId = this.providers.providerIdFor(model);
+      throw new LLMProviderError(providerId, 'not_configured', `No provider is configured for model ${model} (${providerId})`);
+    }
 
-      throw new Error('Invalid response format from OpenCode API');
+    const timeout = new AttemptTimeout(this.timeoutMs, signal);
+    const timedOut = () => new LLMProviderError(provider.id, 'timeout', `${provider.id} did not respond within ${this.timeoutMs}ms`);
+    try {
+      const completion = await run(provider, timeout);
+      // ストリーミングは中断されると途中までの応答を返すことがある
+      if (timeout.timedOut) {
+        throw timedOut();
+      }
+      return completion;
     } catch (error) {
-      // エラーハンドリング: API呼び出し失敗時はフォールバック
-      console.error('OpenCode API call failed:', error);
-
-      // フォールバック: エラーメッセージを返す
-      if (error instanceof Error) {
-        return `[エラー] API呼び出しに失敗しました: ${error.message}`;
+      if (error instanceof LLMProviderError || signal?.aborted) {
+        throw error;
+      }
+      if (timeout.timedOut) {
+        throw timedOut();
       }
-      return '[エラー] 不明なエラーが発生しました';
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new LLMProviderError(provider.id, 'bad_response', `Invalid response from ${provider.id}: ${reason}`);
+    } finally {
+      timeout.clear();
     }
   }
 
+  /**
+   * attempt 回目（0始まり）の失敗の後に待つ時間（リトライしない場合は null）
+   * Retry-After が返された場合はそれに従う
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (!(error instanceof LLMProviderError) || !error.retryable || attempt + 1 >= this.retry.maxAttempts) {
+      return null;
+    }
+    if (error.retryAfterMs !== null && error.retryAfterMs > this.retry.maxDelayMs) {
+      return null;
+    }
+    console.warn(`${error.provider} call failed, retrying:`, error.message);
+    return error.retryAfterMs ?? backoffDelay(attempt, this.retry);
+  }
+
   /**
    * セッションを取得する
    */
-  async getSession(sessionId: string, userId: string): Promise<OpenCodeSession | undefined> {
-    return await this.sessionDurableObject.getSession(sessionId, userId) || undefined;
+  async getSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<OpenCodeSession | undefined> {
+    return await this.sessionDurableObject.getSession(sessionId, userId, org) || undefined;
   }
 
   /**
    * セッションを削除する
+   * 組織セッションは組織の管理者のみ削除できる
    */
-  async deleteSession(sessionId: string, userId: string): Promise<boolean> {
-    return await this.sessionDurableObject.deleteSession(sessionId, userId);
+  async deleteSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    return await this.sessionDurableObject.deleteSession(sessionId, userId, org);
   }
 
   /**
-   * ユーザーの全セッションを取得する
+   * ユーザーの全セッションを取得する（アクティブな組織のセッションを含む）
    */
-  async listUserSessions(userId: string): Promise<OpenCodeSession[]> {
-    return await this.sessionDurableObject.listUserSessions(userId);
+  async listUserSessions(userId: string, org?: OrgMembership | null): Promise<OpenCodeSession[]> {
+    return await this.sessionDurableObject.listUserSessions(userId, org);
   }
 
   /**
    * セッションの会話履歴を取得する
    */
-  async getConversationHistory(sessionId: string, userId: string): Promise<Array<{role: string, content: string}>> {
-    return await this.sessionDurableObject.getConversationHistory(sessionId, userId);
+  async getConversationHistory(sessionId: string, userId: string, org?: OrgMembership | null): Promise<ConversationMessage[]> {
+    return await this.sessionDurableObject.getConversationHistory(sessionId, userId, org);
   }
+
+  /**
+   * セッションのプロンプト用ロックを取得する（先着順に待つ）
+   * ifMatch を指定した場合は待たず、最後のメッセージIDが一致しなければ conflict を返す
+   */
+  async acquirePromptLock(sessionId: string, userId: string, ifMatch: number | null, org?: OrgMembership | null): Promise<PromptLockResult> {
+    return await this.sessionDurableObject.acquirePromptLock(sessionId, userId, ifMatch, org);
+  }
+
+  /**
+   * セッションのプロンプト用ロックを解放する
+   */
+  async releasePromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<void> {
+    await this.sessionDurableObject.releasePromptLock(sessionId, userId, lockId, org);
+  }
+
+  /**
+   * プロンプトの実行中にロックを延長する（取り消されていれば 'cancelled'、期限切れで既に解放されていれば 'expired'）
+   */
+  async renewPromptLock(sessionId: string, userId: string, lockId: string, org?: OrgMembership | null): Promise<PromptLockState> {
+    return await this.sessionDurableObject.renewPromptLock(sessionId, userId, lockId, org);
+  }
+
+  /**
+   * セッションで応答を待っているプロンプトを取り消す（実行中のプロンプトは次のロック延長で気付く。なければ false）
+   */
+  async cancelPrompt(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    return await this.sessionDurableObject.cancelPrompt(sessionId, userId, org);
+  }
+
+  /**
+   * ユーザーの使用量（日付・セッション・モデル単位の集計行）を取得する
+   */
+  async listUsage(userId: string, from: number, to: number): Promise<UsageRow[]> {
+    return await this.sessionDurableObject.listUsage(userId, from, to);
+  }
+
+  /**
+   * セッションにメンバーを招待する（既存メンバーの場合はロールを変更する）
+   * セッションを削除できるユーザーのみ招待できる
+   */
+  async addSessionMember(
+    sessionId: string,
+    userId: string,
+    member: { userId: string; role: SessionMemberRole },
+    org?: OrgMembership | null
+  ): Promise<SessionMember | null> {
+    return await this.sessionDurableObject.addSessionMember(sessionId, userId, member, org);
+  }
+
+  /**
+   * セッションからメンバーを外す（メンバー自身は退出できる）
+   */
+  async removeSessionMember(sessionId: string, userId: string, memberId: string, org?: OrgMembership | null): Promise<boolean> {
+    return await this.sessionDurableObject.removeSessionMember(sessionId, userId, memberId, org);
+  }
+
+  /**
+   * セッションのメンバー一覧を取得する
+   */
+  async listSessionMembers(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionMember[] | null> {
+    return await this.sessionDurableObject.listSessionMembers(sessionId, userId, org);
+  }
+}
+
+function toModelUsage(completion: LLMCompletion, startedAt: number): ModelUsage {
+  return {
+    model: completion.model,
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens,
+    latencyMs: Date.now() - startedAt,
+  };
 }
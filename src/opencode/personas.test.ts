@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SYSTEM_PROMPT_LENGTH, parsePersonaInput, parseSystemPrompt } from './personas';
+
+describe('personas', () => {
+  it('システムプロンプトは前後の空白を除き、空なら null にする', () => {
+    expect(parseSystemPrompt('  You are a reviewer.  ')).toEqual({ ok: true, systemPrompt: 'You are a reviewer.' });
+    expect(parseSystemPrompt('   ')).toEqual({ ok: true, systemPrompt: null });
+    expect(parseSystemPrompt(null)).toEqual({ ok: true, systemPrompt: null });
+    expect(parseSystemPrompt(42).ok).toBe(false);
+    expect(parseSystemPrompt('x'.repeat(MAX_SYSTEM_PROMPT_LENGTH + 1)).ok).toBe(false);
+  });
+
+  it('作成には名前とシステムプロンプトが必要', () => {
+    expect(parsePersonaInput({ name: ' Reviewer ', systemPrompt: 'Review code.' })).toEqual({
+      ok: true,
+      persona: { name: 'Reviewer', systemPrompt: 'Review code.' },
+    });
+    expect(parsePersonaInput({ name: 'Reviewer' }).ok).toBe(false);
+    expect(parsePersonaInput({ name: '', systemPrompt: 'Review code.' }).ok).toBe(false);
+    expect(parsePersonaInput({ name: 'Reviewer', systemPrompt: '  ' }).ok).toBe(false);
+  });
+
+  it('変更は指定した項目だけを検証する', () => {
+    expect(parsePersonaInput({ systemPrompt: 'Be terse.' }, true)).toEqual({ ok: true, persona: { systemPrompt: 'Be terse.' } });
+    expect(parsePersonaInput({}, true)).toEqual({ ok: false, error: 'name or systemPrompt is required' });
+    expect(parsePersonaInput({ name: 'x'.repeat(101) }, true).ok).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * システムプロンプトとペルソナ
+ *
+ * セッションのシステムプロンプトはメッセージとしては保存せず、プロンプトのたびに
+ * OpenCodeService が会話履歴の前に付けて送る。ペルソナはユーザーが保存した再利用できる
+ * システムプロンプトで、セッションの作成時に指定するとその内容がセッションにコピーされる
+ * （後からペルソナを編集しても既存のセッションは変わらない）。
+ */
+import type { PersonaInput } from '../durable-objects/session-durable-object.js';
+
+export const MAX_PERSONA_NAME_LENGTH = 100;
+export const MAX_SYSTEM_PROMPT_LENGTH = 8_000;
+// 1ユーザーが保存できるペルソナの数
+export const MAX_PERSONAS_PER_USER = 50;
+
+export type SystemPromptInput =
+  | { ok: true; systemPrompt: string | null }
+  | { ok: false; error: string };
+
+/**
+ * セッションのシステムプロンプトを検証する（null や空文字はシステムプロンプトなし）
+ */
+export function parseSystemPrompt(input: unknown): SystemPromptInput {
+  if (input === null || input === undefined) {
+    return { ok: true, systemPrompt: null };
+  }
+  if (typeof input !== 'string' || input.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return { ok: false, error: `systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` };
+  }
+  return { ok: true, systemPrompt: input.trim() || null };
+}
+
+export type ParsedPersona<T> =
+  | { ok: true; persona: T }
+  | { ok: false; error: string };
+
+/**
+ * ペルソナの作成（partial なら変更）のリクエストを検証する
+ */
+export function parsePersonaInput(input: unknown, partial: true): ParsedPersona<Partial<PersonaInput>>;
+export function parsePersonaInput(input: unknown, partial?: false): ParsedPersona<PersonaInput>;
+export function parsePersonaInput(input: unknown, partial = false): ParsedPersona<Partial<PersonaInput>> {
+  const { name, systemPrompt } = (input ?? {}) as { name?: unknown; systemPrompt?: unknown };
+  const persona: Partial<PersonaInput> = {};
+
+  if (name !== undefined || !partial) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_PERSONA_NAME_LENGTH) {
+      return { ok: false, error: `name must be 1-${MAX_PERSONA_NAME_LENGTH} characters` };
+    }
+    persona.name = trimmed;
+  }
+  if (systemPrompt !== undefined || !partial) {
+    const parsed = typeof systemPrompt === 'string' ? parseSystemPrompt(systemPrompt) : null;
+    if (!parsed?.ok || !parsed.systemPrompt) {
+      return { ok: false, error: `systemPrompt must be 1-${MAX_SYSTEM_PROMPT_LENGTH} characters` };
+    }
+    persona.systemPrompt = parsed.systemPrompt;
+  }
+  if (Object.keys(persona).length === 0) {
+    return { ok: false, error: 'name or systemPrompt is required' };
+  }
+  return { ok: true, persona };
+}
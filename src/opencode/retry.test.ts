@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AttemptTimeout, backoffDelay, DEFAULT_RETRY_OPTIONS, parseRetryAfter, parseUpstreamConfig, withRetries } from './retry';
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('待ち時間は試行ごとに倍になり、上限で頭打ちになる（jitter は 0〜上限）', () => {
+    const options = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+    expect([0, 1, 2, 3, 4].map(attempt => backoffDelay(attempt, options, () => 1))).toEqual([100, 200, 400, 800, 1_000]);
+    expect(backoffDelay(3, options, () => 0.5)).toBe(400);
+    expect(backoffDelay(3, options, () => 0)).toBe(0);
+  });
+
+  it('Retry-After の秒数とHTTP日付を読む', () => {
+    const now = Date.parse('2026-03-01T00:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3_000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('Sat, 28 Feb 2026 00:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('環境変数の試行回数とタイムアウトを読み、不正な値は既定値にする', () => {
+    expect(parseUpstreamConfig('5', '30000')).toEqual({ retry: { maxAttempts: 5 }, timeoutMs: 30_000 });
+    expect(parseUpstreamConfig('0', 'abc')).toEqual({ retry: { maxAttempts: DEFAULT_RETRY_OPTIONS.maxAttempts }, timeoutMs: 60_000 });
+  });
+
+  describe('withRetries', () => {
+    it('retryDelay が null を返すまで呼び直す', async () => {
+      const run = vi.fn()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockResolvedValueOnce('ok');
+
+      expect(await withRetries(run, () => 0)).toBe('ok');
+      expect(run.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+
+      const failing = vi.fn().mockRejectedValue(new Error('always'));
+      await expect(withRetries(failing, (_error, attempt) => attempt < 1 ? 0 : null)).rejects.toThrow('always');
+      expect(failing).toHaveBeenCalledTimes(2);
+    });
+
+    it('待っている間に中断されたらリトライしない', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const run = vi.fn().mockRejectedValue(new Error('unavailable'));
+
+      const result = withRetries(run, () => 10_000, controller.signal).catch(e => e);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      expect(await result).toEqual(new Error('unavailable'));
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('AttemptTimeout', () => {
+    it('時間切れで signal を中断し、touch() で計り直す', async () => {
+      vi.useFakeTimers();
+      const timeout = new AttemptTimeout(1_000);
+
+      await vi.advanceTimersByTimeAsync(800);
+      timeout.touch();
+      await vi.advanceTimersByTimeAsync(800);
+      expect(timeout.signal.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(timeout.signal.aborted).toBe(true);
+      expect(timeout.timedOut).toBe(true);
+    });
+
+    it('親の signal の中断は時間切れとして扱わない', () => {
+      const parent = new AbortController();
+      const timeout = new AttemptTimeout(1_000, parent.signal);
+
+      parent.abort();
+
+      expect(timeout.signal.aborted).toBe(true);
+      expect(timeout.timedOut).toBe(false);
+      timeout.clear();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * 上流APIの呼び出しのリトライとタイムアウト
+ */
+
+export interface RetryOptions {
+  /** 最初の呼び出しを含む最大の試行回数 */
+  maxAttempts: number;
+  /** 1回目のリトライまでの待ち時間の上限（以降は倍々に増える） */
+  baseDelayMs: number;
+  /** 待ち時間の上限。これより長い Retry-After が返された場合はリトライしない */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+// 1回の呼び出しを待つ時間（ストリーミングでは差分を受け取るたびに計り直す）
+export const DEFAULT_LLM_TIMEOUT_MS = 60_000;
+
+/**
+ * 環境変数（LLM_MAX_ATTEMPTS / LLM_TIMEOUT_MS）から試行回数とタイムアウトを読む（正の整数でなければ既定値）
+ */
+export function parseUpstreamConfig(
+  maxAttempts: string | undefined,
+  timeoutMs: string | undefined
+): { retry: Partial<RetryOptions>; timeoutMs: number } {
+  const parse = (value: string | undefined, otherwise: number) => {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed >= 1 ? parsed : otherwise;
+  };
+  return {
+    retry: { maxAttempts: parse(maxAttempts, DEFAULT_RETRY_OPTIONS.maxAttempts) },
+    timeoutMs: parse(timeoutMs, DEFAULT_LLM_TIMEOUT_MS),
+  };
+}
+
+/**
+ * attempt 回目（0始まり）の失敗の後に待つ時間（指数バックオフ + full jitter）
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  return Math.round(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Retry-After ヘッダー（秒数またはHTTP日付）をミリ秒にする
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * 失敗したら retryDelay が返す時間だけ待って呼び直す（null ならそのエラーを投げる）
+ * signal が中断された場合はリトライしない
+ */
+export async function withRetries<T>(
+  run: (attempt: number) => Promise<T>,
+  retryDelay: (error: unknown, attempt: number) => number | null,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const delay = signal?.aborted ? null : retryDelay(error, attempt);
+      if (delay === null) {
+        throw error;
+      }
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * 1回の呼び出しのタイムアウト
+ * 時間切れか親の signal（クライアントの切断）の中断で signal を中断する
+ */
+export class AttemptTimeout {
+  private readonly controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private expired = false;
+
+  constructor(private readonly timeoutMs: number, private readonly parent?: AbortSignal) {
+    if (parent?.aborted) {
+      this.controller.abort();
+    }
+    parent?.addEventListener('abort', this.onParentAbort);
+    this.touch();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** 時間切れで中断された */
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * 計測をやり直す（応答が届いている間は時間切れにしない）
+   */
+  touch(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.expired = true;
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  private readonly onParentAbort = () => {
+    this.controller.abort();
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { readServerSentEvents } from './sse';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(events: AsyncIterable<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const data of events) {
+    result.push(data);
+  }
+  return result;
+}
+
+describe('readServerSentEvents', () => {
+  it('チャンクをまたいだイベントを組み立てる', async () => {
+    const body = streamOf(['data: {"a":', '1}\n\nda', 'ta: [DONE]\n\n']);
+    expect(await collect(readServerSentEvents(body))).toEqual(['{"a":1}', '[DONE]']);
+    expect(await collect(readServerSentEvents(streamOf(['data: a\r', '\ndata: b\r\n\r\n'])))).toEqual(['a\nb']);
+  });
+
+  it('コメントや他のフィールドを無視し、複数行の data を改行で連結する', async () => {
+    const body = streamOf([': keep-alive\r\n\r\nevent: message\r\ndata: one\r\ndata:two\r\nid: 1\r\n\r\n']);
+    expect(await collect(readServerSentEvents(body))).toEqual(['one\ntwo']);
+  });
+
+  it('最後の空行がなくても末尾のイベントを返す', async () => {
+    expect(await collect(readServerSentEvents(streamOf(['data: last'])))).toEqual(['last']);
+  });
+
+  it('中断されると読み取りをやめる', async () => {
+    const controller = new AbortController();
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        stream.enqueue(encoder.encode('data: first\n\n'));
+      },
+    });
+
+    const received: string[] = [];
+    for await (const data of readServerSentEvents(body, controller.signal)) {
+      received.push(data);
+      controller.abort();
+    }
+    expect(received).toEqual(['first']);
+  });
+});
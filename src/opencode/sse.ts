@@ -0,0 +1,53 @@
+/**
+ * Server-Sent Events の読み取り
+ *
+ * OpenCode Zen API の `stream: true` のレスポンスをイベントごとの data に分解する。
+ * event / id / retry フィールドは使わないので読み捨てる。
+ */
+
+/**
+ * レスポンスボディからイベントの data（複数行は改行で連結）を順に返す
+ * signal が中断されると読み取りをやめて終了する
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel);
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // 最後の行は次のチャンクに続く可能性がある（末尾の \r は次の \n と組になるかもしれない）
+      const carry = !done && buffer.endsWith('\r');
+      const lines = (carry ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+      buffer = done ? '' : (lines.pop() ?? '') + (carry ? '\r' : '');
+      if (done) {
+        lines.push('');
+      }
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) {
+            yield data.join('\n');
+            data = [];
+          }
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
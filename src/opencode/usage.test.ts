@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_USAGE_DAYS, parseUsageRange, summarizeUsage } from './usage';
+import type { UsageRow } from '../durable-objects/session-durable-object';
+
+const NOW = Date.parse('2026-03-15T12:00:00Z');
+
+describe('parseUsageRange', () => {
+  it('指定がなければ今日までの30日間になる', () => {
+    expect(parseUsageRange(undefined, undefined, NOW)).toEqual({
+      ok: true,
+      from: '2026-02-14',
+      to: '2026-03-15',
+      fromMs: Date.parse('2026-02-14T00:00:00Z'),
+      toMs: Date.parse('2026-03-16T00:00:00Z'),
+    });
+  });
+
+  it('to の日を含む', () => {
+    const range = parseUsageRange('2026-03-01', '2026-03-01', NOW);
+    expect(range).toMatchObject({ ok: true, fromMs: Date.parse('2026-03-01T00:00:00Z'), toMs: Date.parse('2026-03-02T00:00:00Z') });
+  });
+
+  it('不正な日付や範囲はエラーになる', () => {
+    expect(parseUsageRange('2026/03/01', undefined, NOW).ok).toBe(false);
+    expect(parseUsageRange('2026-02-30', undefined, NOW).ok).toBe(false);
+    expect(parseUsageRange('2026-03-10', '2026-03-01', NOW).ok).toBe(false);
+    expect(parseUsageRange('2024-01-01', '2026-03-01', NOW)).toEqual({ ok: false, error: `The range must not exceed ${MAX_USAGE_DAYS} days` });
+  });
+});
+
+describe('summarizeUsage', () => {
+  const row = (day: string, sessionId: string, model: string, promptTokens: number, completionTokens: number): UsageRow => ({
+    day, sessionId, model, requests: 1, promptTokens, completionTokens, latencyMs: 200,
+  });
+
+  it('日別・セッション別・モデル別に合計する', () => {
+    const summary = summarizeUsage([
+      row('2026-03-02', 's1', 'glm-4.7-free', 100, 50),
+      row('2026-03-01', 's1', 'glm-4.7-free', 10, 5),
+      row('2026-03-02', 's2', 'big-model', 1000, 500),
+    ], '2026-03-01', '2026-03-02');
+
+    expect(summary.totals).toEqual({ requests: 3, promptTokens: 1110, completionTokens: 555, totalTokens: 1665, averageLatencyMs: 200 });
+    expect(summary.byDay.map(d => [d.day, d.totalTokens])).toEqual([['2026-03-01', 15], ['2026-03-02', 1650]]);
+    expect(summary.bySession.map(s => [s.sessionId, s.requests])).toEqual([['s2', 1], ['s1', 2]]);
+    expect(summary.byModel.map(m => m.model)).toEqual(['big-model', 'glm-4.7-free']);
+  });
+
+  it('使用量がなければ0を返す', () => {
+    expect(summarizeUsage([], '2026-03-01', '2026-03-01')).toEqual({
+      from: '2026-03-01',
+      to: '2026-03-01',
+      totals: { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, averageLatencyMs: 0 },
+      byDay: [],
+      bySession: [],
+      byModel: [],
+    });
+  });
+});
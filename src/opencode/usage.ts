@@ -0,0 +1,113 @@
+import type { UsageRow } from '../durable-objects/session-durable-object.js';
+
+/**
+ * トークン使用量の集計
+ *
+ * 使用量はプロンプトを送ったユーザーごとに記録され、UTCの日付・セッション・モデル単位で
+ * 集計された行から日別・セッション別・モデル別の合計を作る。
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 期間を指定しない場合は直近30日
+export const DEFAULT_USAGE_DAYS = 30;
+// 一度に集計できる最大日数
+export const MAX_USAGE_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** 1リクエストあたりの平均レイテンシ（ミリ秒） */
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  /** YYYY-MM-DD（両端を含む） */
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  bySession: Array<UsageTotals & { sessionId: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+}
+
+export type UsageRange =
+  | { ok: true; from: string; to: string; fromMs: number; toMs: number }
+  | { ok: false; error: string };
+
+function toDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function parseDay(value: string): number | null {
+  if (!DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  // 2026-02-30 のような存在しない日付を弾く
+  return Number.isNaN(ms) || toDay(ms) !== value ? null : ms;
+}
+
+/**
+ * クエリの from / to（YYYY-MM-DD, UTC, 両端を含む）を検証する
+ */
+export function parseUsageRange(from: string | undefined, to: string | undefined, now: number = Date.now()): UsageRange {
+  const toStart = to ? parseDay(to) : parseDay(toDay(now));
+  if (toStart === null) {
+    return { ok: false, error: 'to must be a date (YYYY-MM-DD)' };
+  }
+
+  const fromStart = from ? parseDay(from) : toStart - (DEFAULT_USAGE_DAYS - 1) * DAY_MS;
+  if (fromStart === null) {
+    return { ok: false, error: 'from must be a date (YYYY-MM-DD)' };
+  }
+  if (fromStart > toStart) {
+    return { ok: false, error: 'from must not be after to' };
+  }
+  if ((toStart - fromStart) / DAY_MS + 1 > MAX_USAGE_DAYS) {
+    return { ok: false, error: `The range must not exceed ${MAX_USAGE_DAYS} days` };
+  }
+
+  return { ok: true, from: toDay(fromStart), to: toDay(toStart), fromMs: fromStart, toMs: toStart + DAY_MS };
+}
+
+function sumRows(rows: UsageRow[]): UsageTotals {
+  const requests = rows.reduce((sum, row) => sum + row.requests, 0);
+  const promptTokens = rows.reduce((sum, row) => sum + row.promptTokens, 0);
+  const completionTokens = rows.reduce((sum, row) => sum + row.completionTokens, 0);
+  const latencyMs = rows.reduce((sum, row) => sum + row.latencyMs, 0);
+  return {
+    requests,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    averageLatencyMs: requests > 0 ? Math.round(latencyMs / requests) : 0,
+  };
+}
+
+function groupBy<K extends 'day' | 'sessionId' | 'model'>(rows: UsageRow[], key: K): Array<UsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageRow[]>();
+  for (const row of rows) {
+    groups.set(row[key], [...(groups.get(row[key]) ?? []), row]);
+  }
+  return Array.from(groups, ([value, group]) => ({ [key]: value, ...sumRows(group) }) as UsageTotals & Record<K, string>);
+}
+
+/**
+ * 集計行を日別（古い順）・セッション別・モデル別（トークン数の多い順）にまとめる
+ */
+export function summarizeUsage(rows: UsageRow[], from: string, to: string): UsageSummary {
+  const byTokens = (a: UsageTotals, b: UsageTotals) => b.totalTokens - a.totalTokens;
+  return {
+    from,
+    to,
+    totals: sumRows(rows),
+    byDay: groupBy(rows, 'day').sort((a, b) => a.day.localeCompare(b.day)),
+    bySession: groupBy(rows, 'sessionId').sort(byTokens),
+    byModel: groupBy(rows, 'model').sort(byTokens),
+  };
+}
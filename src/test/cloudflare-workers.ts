@@ -0,0 +1,9 @@
+/**
+ * Stand-in for the `cloudflare:workers` runtime module under vitest (aliased in vitest.config.ts)
+ *
+ * Only what the Worker imports is provided; tests hand the Durable Objects
+ * mock storage and bindings themselves.
+ */
+export class DurableObject<Env = unknown> {
+  constructor(protected readonly ctx: unknown, protected readonly env: Env) {}
+}
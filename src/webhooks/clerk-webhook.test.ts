@@ -0,0 +1,88 @@
+/**
+ * Clerk Webhook Event Tests
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { ClerkWebhookPayloadError, handleClerkWebhookEvent, parseClerkWebhookEvent, profileFromClerkUser } from './clerk-webhook.js';
+
+function createStore() {
+  return {
+    upsertUserProfile: vi.fn().mockResolvedValue(true),
+    getUserProfile: vi.fn().mockResolvedValue(null),
+    purgeUserData: vi.fn().mockResolvedValue({ sessions: 2, messages: 5, apiKeys: 1 }),
+  };
+}
+
+describe('profileFromClerkUser', () => {
+  it('uses the primary email address and full name', () => {
+    const profile = profileFromClerkUser({
+      id: 'user_1',
+      email_addresses: [
+        { id: 'idn_other', email_address: 'old@example.com' },
+        { id: 'idn_primary', email_address: 'hanako@example.com' },
+      ],
+      primary_email_address_id: 'idn_primary',
+      first_name: 'Hanako',
+      last_name: 'Yamada',
+      updated_at: 1700000000000,
+    });
+
+    expect(profile).toEqual({ userId: 'user_1', email: 'hanako@example.com', name: 'Hanako Yamada', metadataRole: null, updatedAt: 1700000000000 });
+  });
+
+  it('keeps the role from public metadata', () => {
+    expect(profileFromClerkUser({ id: 'user_1', public_metadata: { role: 'admin' } }).metadataRole).toBe('admin');
+    expect(profileFromClerkUser({ id: 'user_1', public_metadata: { role: 'owner' } }).metadataRole).toBeNull();
+  });
+
+  it('falls back to the username', () => {
+    const profile = profileFromClerkUser({ id: 'user_1', username: 'hanako', updated_at: 1 });
+
+    expect(profile.name).toBe('hanako');
+    expect(profile.email).toBeNull();
+  });
+});
+
+describe('handleClerkWebhookEvent', () => {
+  it('upserts profiles on user.created and user.updated', async () => {
+    const store = createStore();
+
+    const result = await handleClerkWebhookEvent({ type: 'user.updated', data: { id: 'user_1', updated_at: 1 } }, store);
+
+    expect(result).toEqual({ action: 'upserted', userId: 'user_1' });
+    expect(store.upsertUserProfile).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user_1' }));
+  });
+
+  it('reports out-of-order updates as stale', async () => {
+    const store = createStore();
+    store.upsertUserProfile.mockResolvedValue(false);
+
+    const result = await handleClerkWebhookEvent({ type: 'user.updated', data: { id: 'user_1', updated_at: 1 } }, store);
+
+    expect(result.action).toBe('stale');
+  });
+
+  it('purges data on user.deleted', async () => {
+    const store = createStore();
+
+    const result = await handleClerkWebhookEvent({ type: 'user.deleted', data: { id: 'user_1', deleted: true } }, store);
+
+    expect(result).toEqual({ action: 'deleted', userId: 'user_1', purged: { sessions: 2, messages: 5, apiKeys: 1 } });
+    expect(store.purgeUserData).toHaveBeenCalledWith('user_1');
+  });
+
+  it('ignores other event types', async () => {
+    const store = createStore();
+
+    const result = await handleClerkWebhookEvent({ type: 'session.created', data: { id: 'sess_1' } }, store);
+
+    expect(result).toEqual({ action: 'ignored', type: 'session.created' });
+    expect(store.upsertUserProfile).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseClerkWebhookEvent', () => {
+  it('rejects bodies that are not Clerk events', () => {
+    expect(() => parseClerkWebhookEvent('not json')).toThrow(ClerkWebhookPayloadError);
+    expect(() => parseClerkWebhookEvent('{"data": {}}')).toThrow(ClerkWebhookPayloadError);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Clerk webhook events
+ *
+ * Keeps the local user profile in sync with Clerk and purges a user's data
+ * when the account is deleted. Signature verification happens before this
+ * module sees the event (see svix.ts).
+ */
+import type { UserDataPurgeResult, UserProfile, UserProfileStore } from '../durable-objects/session-durable-object.js';
+import { roleFromClaims } from '../auth/roles.js';
+
+interface ClerkEmailAddress {
+  id: string;
+  email_address: string;
+}
+
+/**
+ * The subset of Clerk's User object used here
+ */
+export interface ClerkUserData {
+  id: string;
+  email_addresses?: ClerkEmailAddress[];
+  primary_email_address_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  username?: string | null;
+  public_metadata?: Record<string, unknown>;
+  updated_at?: number;
+  deleted?: boolean;
+}
+
+export interface ClerkWebhookEvent {
+  type: string;
+  object?: string;
+  data: ClerkUserData;
+}
+
+export type ClerkWebhookResult =
+  | { action: 'upserted'; userId: string }
+  | { action: 'stale'; userId: string }
+  | { action: 'deleted'; userId: string; purged: UserDataPurgeResult }
+  | { action: 'ignored'; type: string };
+
+export class ClerkWebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClerkWebhookPayloadError';
+  }
+}
+
+/**
+ * Parse a (verified) webhook body
+ * @throws ClerkWebhookPayloadError when the body is not a Clerk event
+ */
+export function parseClerkWebhookEvent(body: string): ClerkWebhookEvent {
+  let event: unknown;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    throw new ClerkWebhookPayloadError('Body is not valid JSON');
+  }
+
+  const candidate = event as Partial<ClerkWebhookEvent> | null;
+  if (!candidate || typeof candidate.type !== 'string' || !candidate.data || typeof candidate.data !== 'object') {
+    throw new ClerkWebhookPayloadError('Missing event type or data');
+  }
+  return candidate as ClerkWebhookEvent;
+}
+
+/**
+ * Map a Clerk user to the stored profile
+ */
+export function profileFromClerkUser(user: ClerkUserData): UserProfile {
+  const primaryEmail = user.email_addresses?.find(e => e.id === user.primary_email_address_id)
+    ?? user.email_addresses?.[0];
+  const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ');
+
+  return {
+    userId: user.id,
+    email: primaryEmail?.email_address ?? null,
+    name: fullName || user.username || null,
+    metadataRole: roleFromClaims({ public_metadata: user.public_metadata }),
+    updatedAt: user.updated_at ?? Date.now(),
+  };
+}
+
+/**
+ * Apply a user lifecycle event to the store
+ */
+export async function handleClerkWebhookEvent(
+  event: ClerkWebhookEvent,
+  store: UserProfileStore
+): Promise<ClerkWebhookResult> {
+  const userId = event.data.id;
+
+  switch (event.type) {
+    case 'user.created':
+    case 'user.updated': {
+      if (!userId) {
+        throw new ClerkWebhookPayloadError('User event without id');
+      }
+      const applied = await store.upsertUserProfile(profileFromClerkUser(event.data));
+      return { action: applied ? 'upserted' : 'stale', userId };
+    }
+
+    case 'user.deleted': {
+      if (!userId) {
+        throw new ClerkWebhookPayloadError('User event without id');
+      }
+      const purged = await store.purgeUserData(userId);
+      return { action: 'deleted', userId, purged };
+    }
+
+    default:
+      return { action: 'ignored', type: event.type };
+  }
+}
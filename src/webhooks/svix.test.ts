@@ -0,0 +1,65 @@
+/**
+ * Svix Signature Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { signSvixPayload, verifySvixSignature, WebhookVerificationError } from './svix.js';
+
+const SECRET = `whsec_${btoa('test-webhook-signing-secret')}`;
+const NOW = 1_760_000_000;
+
+async function signedHeaders(payload: string, timestamp: number = NOW, secret: string = SECRET) {
+  return {
+    id: 'msg_test',
+    timestamp: String(timestamp),
+    signature: `v1,${await signSvixPayload(secret, 'msg_test', timestamp, payload)}`,
+  };
+}
+
+async function reason(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(WebhookVerificationError);
+    return (error as WebhookVerificationError).reason;
+  }
+  return undefined;
+}
+
+describe('verifySvixSignature', () => {
+  const payload = JSON.stringify({ type: 'user.created', data: { id: 'user_1' } });
+
+  it('accepts a correctly signed payload', async () => {
+    await expect(verifySvixSignature(payload, await signedHeaders(payload), SECRET, { now: NOW })).resolves.toBeUndefined();
+  });
+
+  it('accepts any matching signature in the header', async () => {
+    const headers = await signedHeaders(payload);
+    headers.signature = `v1,b2xkLXNpZ25hdHVyZQ== ${headers.signature}`;
+
+    await expect(verifySvixSignature(payload, headers, SECRET, { now: NOW })).resolves.toBeUndefined();
+  });
+
+  it('rejects a modified payload', async () => {
+    const headers = await signedHeaders(payload);
+    expect(await reason(verifySvixSignature(payload.replace('user_1', 'user_2'), headers, SECRET, { now: NOW })))
+      .toBe('invalid_signature');
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    const headers = await signedHeaders(payload, NOW, `whsec_${btoa('other-secret')}`);
+    expect(await reason(verifySvixSignature(payload, headers, SECRET, { now: NOW }))).toBe('invalid_signature');
+  });
+
+  it('rejects stale or future timestamps', async () => {
+    const stale = await signedHeaders(payload, NOW - 600);
+    const future = await signedHeaders(payload, NOW + 600);
+
+    expect(await reason(verifySvixSignature(payload, stale, SECRET, { now: NOW }))).toBe('timestamp_out_of_range');
+    expect(await reason(verifySvixSignature(payload, future, SECRET, { now: NOW }))).toBe('timestamp_out_of_range');
+  });
+
+  it('rejects deliveries without Svix headers', async () => {
+    const headers = { id: null, timestamp: null, signature: null };
+    expect(await reason(verifySvixSignature(payload, headers, SECRET, { now: NOW }))).toBe('missing_headers');
+  });
+});
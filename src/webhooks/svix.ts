@@ -0,0 +1,117 @@
+/**
+ * Svix webhook signatures
+ *
+ * Clerk delivers webhooks through Svix. Each request carries `svix-id`,
+ * `svix-timestamp` and `svix-signature` headers; the signature is an
+ * HMAC-SHA256 over `${id}.${timestamp}.${body}` keyed with the base64 part of
+ * the `whsec_...` signing secret. See https://docs.svix.com/receiving/verifying-payloads/how-manual
+ */
+import { base64ToBytes, bytesToBase64 } from '../auth/encoding.js';
+
+const SECRET_PREFIX = 'whsec_';
+
+// Reject deliveries whose timestamp is further than this from now (replay protection)
+const DEFAULT_TOLERANCE_IN_SECONDS = 5 * 60;
+
+export type WebhookVerificationErrorReason =
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'timestamp_out_of_range'
+  | 'invalid_signature';
+
+export class WebhookVerificationError extends Error {
+  constructor(readonly reason: WebhookVerificationErrorReason, message?: string) {
+    super(message ?? reason);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface SvixHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+export interface VerifySvixOptions {
+  toleranceInSeconds?: number;
+  /** Current time in seconds (for tests) */
+  now?: number;
+}
+
+/**
+ * Read the Svix headers from a request
+ */
+export function getSvixHeaders(headers: Headers): SvixHeaders {
+  return {
+    id: headers.get('svix-id'),
+    timestamp: headers.get('svix-timestamp'),
+    signature: headers.get('svix-signature'),
+  };
+}
+
+async function importSecret(secret: string): Promise<CryptoKey> {
+  const encoded = secret.startsWith(SECRET_PREFIX) ? secret.substring(SECRET_PREFIX.length) : secret;
+  return crypto.subtle.importKey('raw', base64ToBytes(encoded), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+/**
+ * Compute the base64 signature Svix sends as `v1,<signature>`
+ */
+export async function signSvixPayload(secret: string, id: string, timestamp: number | string, payload: string): Promise<string> {
+  const key = await importSecret(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${payload}`));
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+// Constant-time comparison so signature checks do not leak timing information
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify a webhook delivery against the signing secret
+ *
+ * @param payload the raw request body, exactly as received
+ * @throws WebhookVerificationError when the delivery is not authentic
+ */
+export async function verifySvixSignature(
+  payload: string,
+  headers: SvixHeaders,
+  secret: string,
+  options: VerifySvixOptions = {}
+): Promise<void> {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    throw new WebhookVerificationError('missing_headers');
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt)) {
+    throw new WebhookVerificationError('invalid_timestamp');
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceInSeconds ?? DEFAULT_TOLERANCE_IN_SECONDS;
+  if (Math.abs(now - sentAt) > tolerance) {
+    throw new WebhookVerificationError('timestamp_out_of_range');
+  }
+
+  const expected = await signSvixPayload(secret, id, timestamp, payload);
+
+  // The header may list several space-separated signatures during secret rotation
+  const matched = signature.split(' ').some(entry => {
+    const [version, value] = entry.split(',', 2);
+    return version === 'v1' && value !== undefined && timingSafeEqual(value, expected);
+  });
+
+  if (!matched) {
+    throw new WebhookVerificationError('invalid_signature');
+  }
+}
@@ -1,9 +1,18 @@
 /**
  * Hono-based Worker Tests
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
 import { Worker, SessionDurableObject } from './worker-hono.js';
 import type { Env } from './worker-hono.js';
+import { createTestSigner, signTestToken, TEST_PUBLISHABLE_KEY } from './auth/test-keys.js';
+import type { TestSigner } from './auth/test-keys.js';
+import { signSvixPayload } from './webhooks/svix.js';
+import { PLAN_QUOTAS } from './auth/plans.js';
+import { PROMPT_LOCK_TTL_MS, PROMPT_LOCK_WAIT_MS, PROMPT_RENEW_INTERVAL_MS } from './durable-objects/prompt-lock.js';
+import { createDurableObjectNamespace } from './test/sqlite-storage.js';
+import { clearDirectoryCache } from './durable-objects/directory-cache.js';
+
+const WEBHOOK_SECRET = `whsec_${btoa('test-webhook-signing-secret')}`;
 
 // The SessionDurableObject is now defined in worker-hono.ts, so no need to mock it separately
 
@@ -11,68 +20,48 @@ import type { Env } from './worker-hono.js';
 describe('Hono-based Worker', () => {
   let worker: Worker;
   let env: Env;
-  let mockSessionsDO: any;
-
-  beforeEach(() => {
-    // Create a mock Durable Object namespace with session storage
-    const sessions = new Map<string, { id: string; userId: string; createdAt: number }>();
-    const messages = new Map<string, Array<{ role: string; content: string }>>();
-
-    mockSessionsDO = {
-      get: vi.fn().mockReturnValue({
-        createSession: vi.fn().mockImplementation(async (userId: string) => {
-          const session = {
-            id: `test-session-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
-            userId,
-            createdAt: Date.now(),
-          };
-          sessions.set(session.id, session);
-          messages.set(session.id, []);
-          return session;
-        }),
-        getSession: vi.fn().mockImplementation(async (sessionId: string, userId: string) => {
-          const session = sessions.get(sessionId);
-          if (session && session.userId === userId) {
-            return session;
-          }
-          return null;
-        }),
-        deleteSession: vi.fn().mockImplementation(async (sessionId: string, userId: string) => {
-          const session = sessions.get(sessionId);
-          if (session && session.userId === userId) {
-            sessions.delete(sessionId);
-            messages.delete(sessionId);
-            return true;
-          }
-          return false;
-        }),
-        listUserSessions: vi.fn().mockImplementation(async (userId: string) => {
-          return Array.from(sessions.values()).filter(s => s.userId === userId);
-        }),
-        addMessage: vi.fn().mockImplementation(async (sessionId: string, userId: string, message: { role: string; content: string }) => {
-          const session = sessions.get(sessionId);
-          if (!session || session.userId !== userId) {
-            throw new Error('Session not found or access denied');
-          }
-          const history = messages.get(sessionId) || [];
-          history.push(message);
-          messages.set(sessionId, history);
-        }),
-        getConversationHistory: vi.fn().mockImplementation(async (sessionId: string, userId: string) => {
-          const session = sessions.get(sessionId);
-          if (!session || session.userId !== userId) {
-            return [];
-          }
-          return messages.get(sessionId) || [];
-        }),
-      }),
-    };
+  let namespace: ReturnType<typeof createDurableObjectNamespace<SessionDurableObject>>;
+  let shards: Map<string, any>;
+  // Its sessions table holds the sessions written before storage was sharded
+  let directory: SessionDurableObject;
+  let signer: TestSigner;
+
+  // Sign a real RS256 token verified against CLERK_JWT_KEY
+  const createMockToken = (sub: string, claims: Record<string, unknown> = {}) => signTestToken(signer, sub, claims);
+
+  beforeAll(async () => {
+    signer = await createTestSigner();
+  });
+
+  beforeEach(async () => {
+    clearDirectoryCache();
+    // Real Durable Objects on in-memory SQLite; every RPC method is spied on so tests can assert on calls
+    namespace = createDurableObjectNamespace(state => {
+      const object = new SessionDurableObject(state, {});
+      for (const [name, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(SessionDurableObject.prototype))) {
+        if (name !== 'constructor' && typeof descriptor.value === 'function') {
+          vi.spyOn(object as any, name);
+        }
+      }
+      return object;
+    });
+    shards = namespace.objects;
+    directory = namespace.get({ name: SessionDurableObject.id });
+
+    // Users that already redeemed an invite code
+    await directory.createInviteCode({ code: 'FRIENDS-2025', maxRedemptions: null, expiresAt: null, createdBy: 'system', notes: null });
+    for (const userId of ['user_123', 'user_other', 'user_dev']) {
+      await directory.registerInvitedUser(userId, '', 'FRIENDS-2025');
+    }
 
     env = {
-      SESSIONS: mockSessionsDO,
+      SESSIONS: namespace,
       OPENCODE_API_KEY: 'test-api-key',
       CLERK_SECRET_KEY: 'test-clerk-secret',
-      CLERK_PUBLISHABLE_KEY: 'pk_test_123456',
+      CLERK_PUBLISHABLE_KEY: TEST_PUBLISHABLE_KEY,
+      CLERK_JWT_KEY: signer.publicKeyPem,
+      ADMIN_USER_IDS: 'user_admin',
+      CLERK_WEBHOOK_SECRET: WEBHOOK_SECRET,
     };
 
     worker = new Worker(env);
@@ -112,6 +101,77 @@ describe('Hono-based Worker', () => {
       const text = await response.text();
       expect(text).toContain('OpenCode');
     });
+
+    it('does not embed invitation codes in the page', async () => {
+      const response = await worker.fetch(new Request('http://localhost/'), env);
+      const text = await response.text();
+
+      expect(text).not.toContain('FRIENDS-2025');
+      expect(text).not.toContain('VALID_CODES');
+    });
+  });
+
+  describe('GET /api/verify-invite', () => {
+    it('checks codes on the server', async () => {
+      const valid = await worker.fetch(new Request('http://localhost/api/verify-invite?code=friends-2025'), env);
+      const invalid = await worker.fetch(new Request('http://localhost/api/verify-invite?code=NOPE'), env);
+
+      expect((await valid.json() as { valid: boolean }).valid).toBe(true);
+      expect((await invalid.json() as { valid: boolean }).valid).toBe(false);
+    });
+  });
+
+  describe('invite gating', () => {
+    it('rejects authenticated users who have not redeemed a code', async () => {
+      const token = await createMockToken('user_new');
+      const response = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe('invite_required');
+    });
+
+    it('rejects invalid codes on redemption', async () => {
+      const token = await createMockToken('user_new');
+      const response = await worker.fetch(new Request('http://localhost/api/invites/redeem', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: 'WRONG-CODE' }),
+      }), env);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('grants access after redeeming a valid code', async () => {
+      const token = await createMockToken('user_new');
+      const redeem = await worker.fetch(new Request('http://localhost/api/invites/redeem', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: 'friends-2025' }),
+      }), env);
+      expect(redeem.status).toBe(200);
+
+      const status = await worker.fetch(new Request('http://localhost/api/invites/status', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      expect(await status.json()).toEqual({ invited: true });
+
+      const response = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      expect(response.status).toBe(200);
+    });
+
+    it('requires authentication to redeem', async () => {
+      const response = await worker.fetch(new Request('http://localhost/api/invites/redeem', {
+        method: 'POST',
+        body: JSON.stringify({ code: 'FRIENDS-2025' }),
+      }), env);
+
+      expect(response.status).toBe(401);
+    });
   });
 
   describe('POST /api/prompt', () => {
@@ -125,8 +185,38 @@ describe('Hono-based Worker', () => {
       expect(response.status).toBe(401);
     });
 
+    it('rejects tokens with a forged signature', async () => {
+      const attacker = await createTestSigner();
+      const forgedToken = await signTestToken(attacker, 'user_123');
+      const request = new Request('http://localhost/api/prompt', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${forgedToken}` },
+        body: JSON.stringify({ prompt: 'test' }),
+      });
+      const response = await worker.fetch(request, env);
+      const data = await response.json() as { debug: string };
+
+      expect(response.status).toBe(401);
+      expect(data.debug).toBe('invalid_signature');
+    });
+
+    it('rejects expired tokens', async () => {
+      const expiredToken = await createMockToken('user_123', { exp: 1000000000 });
+      const request = new Request('http://localhost/api/prompt', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${expiredToken}` },
+        body: JSON.stringify({ prompt: 'test' }),
+      });
+      const response = await worker.fetch(request, env);
+      const data = await response.json() as { debug: string };
+
+      expect(response.status).toBe(401);
+      expect(data.debug).toBe('token_expired');
+    });
+
     it('executes prompt with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: 'ok' } }] })));
+      const validToken = await createMockToken('user_123');
       const request = new Request('http://localhost/api/prompt', {
         method: 'POST',
         headers: {
@@ -141,6 +231,7 @@ describe('Hono-based Worker', () => {
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
+      vi.unstubAllGlobals();
     });
   });
 
@@ -153,7 +244,7 @@ describe('Hono-based Worker', () => {
     });
 
     it('returns sessions list with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await createMockToken('user_123');
       const request = new Request('http://localhost/api/sessions', {
         headers: { 'Authorization': `Bearer ${validToken}` },
       });
@@ -167,7 +258,7 @@ describe('Hono-based Worker', () => {
 
   describe('POST /api/sessions', () => {
     it('creates new session with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await createMockToken('user_123');
       const request = new Request('http://localhost/api/sessions', {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${validToken}` },
@@ -184,7 +275,7 @@ describe('Hono-based Worker', () => {
   describe('DELETE /api/sessions/:id', () => {
     it('deletes session with valid auth', async () => {
       // First create a session
-      const createToken = createMockToken('user_123');
+      const createToken = await createMockToken('user_123');
       const createRequest = new Request('http://localhost/api/sessions', {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${createToken}` },
@@ -193,7 +284,7 @@ describe('Hono-based Worker', () => {
       const createdSession = await createResponse.json();
 
       // Then delete it
-      const deleteToken = createMockToken('user_123');
+      const deleteToken = await createMockToken('user_123');
       const deleteRequest = new Request(`http://localhost/api/sessions/${createdSession.id}`, {
         method: 'DELETE',
         headers: { 'Authorization': `Bearer ${deleteToken}` },
@@ -204,26 +295,1939 @@ describe('Hono-based Worker', () => {
     });
   });
 
-  describe('404 Not Found', () => {
-    it('returns 404 for unknown routes', async () => {
-      const request = new Request('http://localhost/unknown-route');
-      const response = await worker.fetch(request, env);
+  describe('organization sessions', () => {
+    const ORG_MEMBER = { org_id: 'org_team', org_role: 'org:member' };
+    const ORG_ADMIN = { org_id: 'org_team', org_role: 'org:admin' };
 
-      expect(response.status).toBe(404);
+    async function request(path: string, sub: string, claims: Record<string, unknown>, init: RequestInit = {}) {
+      const token = await createMockToken(sub, claims);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    async function createOrgSession(sub: string = 'user_123') {
+      const response = await request('/sessions', sub, ORG_MEMBER, { method: 'POST', body: JSON.stringify({ visibility: 'org' }) });
+      expect(response.status).toBe(201);
+      return await response.json() as { id: string; orgId: string | null };
+    }
+
+    it('creates org-owned sessions for the active organization', async () => {
+      const session = await createOrgSession();
+      expect(session.orgId).toBe('org_team');
+    });
+
+    it('requires an active organization for org sessions', async () => {
+      const response = await request('/sessions', 'user_123', {}, { method: 'POST', body: JSON.stringify({ visibility: 'org' }) });
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe('org_required');
+    });
+
+    it('lets other org members list and continue org sessions', async () => {
+      const session = await createOrgSession();
+      await request('/sessions', 'user_other', ORG_MEMBER, { method: 'POST' });
+
+      const list = await request('/sessions', 'user_other', ORG_MEMBER);
+      const data = await list.json() as { sessions: Array<{ id: string }> };
+      expect(data.sessions.map(s => s.id)).toContain(session.id);
+      expect(data.sessions).toHaveLength(2);
+
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: 'ok' } }] })));
+      const prompt = await request('/prompt', 'user_other', ORG_MEMBER, {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'Hello', sessionId: session.id }),
+      });
+      vi.unstubAllGlobals();
+      expect(prompt.status).toBe(200);
+    });
+
+    it('hides org sessions from users outside the organization', async () => {
+      const session = await createOrgSession();
+
+      const list = await request('/sessions', 'user_other', { org_id: 'org_elsewhere' });
+      const data = await list.json() as { sessions: Array<{ id: string }> };
+      expect(data.sessions).toHaveLength(0);
+
+      const prompt = await request('/prompt', 'user_other', {}, {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'Hello', sessionId: session.id }),
+      });
+      expect(prompt.status).toBe(404);
+    });
+
+    it('only lets org admins delete org sessions', async () => {
+      const session = await createOrgSession();
+
+      const byMember = await request(`/sessions/${session.id}`, 'user_123', ORG_MEMBER, { method: 'DELETE' });
+      expect(byMember.status).toBe(403);
+      expect((await byMember.json() as { code: string }).code).toBe('org_admin_required');
+
+      const byAdmin = await request(`/sessions/${session.id}`, 'user_other', ORG_ADMIN, { method: 'DELETE' });
+      expect(byAdmin.status).toBe(204);
+    });
+
+    it('keeps personal sessions private from org members', async () => {
+      const personal = await request('/sessions', 'user_123', ORG_MEMBER, { method: 'POST' });
+      const { id } = await personal.json() as { id: string };
+
+      const byAdmin = await request(`/sessions/${id}`, 'user_other', ORG_ADMIN, { method: 'DELETE' });
+      expect(byAdmin.status).toBe(404);
     });
   });
-});
 
-// Helper to create mock JWT token
-function createMockToken(sub: string): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
-  const payload = Buffer.from(
-    JSON.stringify({
-      sub,
-      iss: 'https://clerk.example.com',
-      exp: 9999999999,
-      iat: 1234567890,
-    })
-  ).toString('base64url');
-  return `${header}.${payload}.signature`;
-}
+  describe('sharded session storage', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}, claims: Record<string, unknown> = {}) {
+      const token = await createMockToken(sub, claims);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    it('stores sessions in the owner\'s shard', async () => {
+      await request('/sessions', 'user_123', { method: 'POST' });
+
+      expect(shards.get('user:user_123').createSession).toHaveBeenCalled();
+      expect(shards.has('user:user_other')).toBe(false);
+
+      const others = await request('/sessions', 'user_other');
+      expect((await others.json() as { sessions: unknown[] }).sessions).toEqual([]);
+    });
+
+    it('stores org sessions in the organization\'s shard', async () => {
+      const claims = { org_id: 'org_team', org_role: 'org:member' };
+      await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ visibility: 'org' }) }, claims);
+
+      expect(shards.get('org:org_team').createSession).toHaveBeenCalledWith('user_123', 'org_team', null, null);
+    });
+
+    it('keeps the directory index for admin user counts', async () => {
+      const created = await request('/sessions', 'user_123', { method: 'POST' });
+      const { id } = await created.json() as { id: string };
+      const sessionCount = async () => {
+        const users = await request('/admin/users', 'user_admin');
+        const data = await users.json() as { users: Array<{ userId: string; sessionCount: number }> };
+        return data.users.find(u => u.userId === 'user_123')?.sessionCount;
+      };
+
+      expect(await sessionCount()).toBe(1);
+      await request(`/sessions/${id}`, 'user_123', { method: 'DELETE' });
+      expect(await sessionCount()).toBe(0);
+    });
+
+    it('migrates sessions written before sharding into their shards', async () => {
+      await directory.importSessions([{
+        id: 'legacy-1',
+        userId: 'user_123',
+        createdAt: 1,
+        orgId: null,
+        messages: [{ role: 'user', content: 'Hi', createdAt: 1 }],
+      }]);
+
+      const response = await request('/admin/storage/migrate', 'user_admin', { method: 'POST', body: JSON.stringify({ limit: 10 }) });
+      expect(await response.json()).toEqual({ moved: 1, remaining: 0 });
+
+      const list = await request('/sessions', 'user_123');
+      expect((await list.json() as { sessions: Array<{ id: string }> }).sessions.map(s => s.id)).toEqual(['legacy-1']);
+
+      const again = await request('/admin/storage/migrate', 'user_admin', { method: 'POST' });
+      expect(await again.json()).toEqual({ moved: 0, remaining: 0 });
+    });
+
+    it('keeps sessions written before sharding reachable without the migration', async () => {
+      await directory.importSessions([
+        { id: 'legacy-1', userId: 'user_123', createdAt: 1, orgId: null, messages: [{ role: 'user', content: 'Hi', createdAt: 1 }] },
+        { id: 'legacy-2', userId: 'user_123', createdAt: 2, orgId: null, messages: [] },
+      ]);
+
+      // Someone else asking for the id leaves it where it is
+      expect((await request('/sessions/legacy-1/messages', 'user_other')).status).toBe(404);
+      expect(await directory.exportLegacySessions(10)).toHaveLength(2);
+
+      const history = await request('/sessions/legacy-1/messages', 'user_123');
+      expect(history.status).toBe(200);
+      expect((await history.json() as { messages: Array<{ content: string }> }).messages.map(m => m.content)).toEqual(['Hi']);
+
+      const list = await request('/sessions', 'user_123');
+      expect((await list.json() as { sessions: Array<{ id: string }> }).sessions.map(s => s.id)).toEqual(['legacy-2', 'legacy-1']);
+      expect(await directory.exportLegacySessions(10)).toEqual([]);
+    });
+
+    it('validates the migration batch size', async () => {
+      const response = await request('/admin/storage/migrate', 'user_admin', { method: 'POST', body: JSON.stringify({ limit: 0 }) });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('share links', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}, claims: Record<string, unknown> = {}) {
+      const token = await createMockToken(sub, claims);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    async function createConversation(sub: string = 'user_123') {
+      const created = await request('/sessions', sub, { method: 'POST' });
+      const { id } = await created.json() as { id: string };
+      await namespace.get({ name: `user:${sub}` }).addMessage(id, sub, { role: 'user', content: '<b>Hello</b>' });
+      await namespace.get({ name: `user:${sub}` }).addMessage(id, sub, { role: 'assistant', content: 'Hi there' });
+      return id;
+    }
+
+    async function share(sessionId: string, body: Record<string, unknown> = {}, sub: string = 'user_123') {
+      return request(`/sessions/${sessionId}/share`, sub, { method: 'POST', body: JSON.stringify(body) });
+    }
+
+    const open = (url: string, headers: Record<string, string> = {}) => worker.fetch(new Request(url, { headers }), env);
+
+    it('serves the conversation as JSON without owner details', async () => {
+      const sessionId = await createConversation();
+      const response = await share(sessionId);
+      const link = await response.json() as { token: string; url: string };
+
+      expect(response.status).toBe(201);
+      expect(link.url).toBe(`http://localhost/s/${link.token}`);
+
+      const shared = await open(link.url, { 'Accept': 'application/json' });
+      const data = await shared.json() as Record<string, unknown>;
+
+      expect(shared.status).toBe(200);
+      expect(shared.headers.get('Cache-Control')).toBe('no-store');
+      expect(data.messages).toEqual([
+        { role: 'user', content: '<b>Hello</b>' },
+        { role: 'assistant', content: 'Hi there' },
+      ]);
+      expect(JSON.stringify(data)).not.toContain('user_123');
+      expect(JSON.stringify(data)).not.toContain(sessionId);
+    });
+
+    it('renders escaped HTML by default', async () => {
+      const { url } = await (await share(await createConversation())).json() as { url: string };
+      const response = await open(url);
+      const html = await response.text();
+
+      expect(response.headers.get('Content-Type')).toContain('text/html');
+      expect(html).toContain('&lt;b&gt;Hello&lt;/b&gt;');
+      expect(html).not.toContain('<b>Hello</b>');
+      expect(html).not.toContain('user_123');
+    });
+
+    it('returns 404 for unknown, revoked and deleted-session links', async () => {
+      expect((await open('http://localhost/s/ocs_unknown')).status).toBe(404);
+
+      const sessionId = await createConversation();
+      const { id, url } = await (await share(sessionId)).json() as { id: string; url: string };
+      const revoke = await request(`/sessions/${sessionId}/shares/${id}`, 'user_123', { method: 'DELETE' });
+      expect(revoke.status).toBe(204);
+      expect((await open(url)).status).toBe(404);
+
+      const { url: second } = await (await share(sessionId)).json() as { url: string };
+      await request(`/sessions/${sessionId}`, 'user_123', { method: 'DELETE' });
+      expect((await open(second)).status).toBe(404);
+    });
+
+    it('expires links after expiresInDays', async () => {
+      const sessionId = await createConversation();
+      const { url, expiresAt } = await (await share(sessionId, { expiresInDays: 1 })).json() as { url: string; expiresAt: number };
+
+      expect(expiresAt).toBeGreaterThan(Date.now());
+      vi.useFakeTimers({ now: expiresAt + 1, toFake: ['Date'] });
+      try {
+        expect((await open(url)).status).toBe(404);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('validates expiresInDays', async () => {
+      const response = await share(await createConversation(), { expiresInDays: -1 });
+      expect(response.status).toBe(400);
+    });
+
+    it('only lets users who can read the session share it', async () => {
+      const sessionId = await createConversation();
+
+      expect((await share(sessionId, {}, 'user_other')).status).toBe(404);
+      expect((await request(`/sessions/${sessionId}/shares`, 'user_other')).status).toBe(404);
+    });
+
+    it('lists share links without their tokens', async () => {
+      const sessionId = await createConversation();
+      await share(sessionId);
+
+      const response = await request(`/sessions/${sessionId}/shares`, 'user_123');
+      const data = await response.json() as { shares: Array<Record<string, unknown>> };
+
+      expect(data.shares).toHaveLength(1);
+      expect(data.shares[0]).not.toHaveProperty('token');
+      expect(data.shares[0]).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('session members', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    const invite = (sessionId: string, body: Record<string, unknown>, sub: string = 'user_123') =>
+      request(`/sessions/${sessionId}/members`, sub, { method: 'POST', body: JSON.stringify(body) });
+
+    const prompt = (sessionId: string, sub: string) =>
+      request('/prompt', sub, { method: 'POST', body: JSON.stringify({ prompt: `from ${sub}`, sessionId }) });
+
+    async function createSession() {
+      const response = await request('/sessions', 'user_123', { method: 'POST' });
+      return (await response.json() as { id: string }).id;
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: 'ok' } }] })));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('lets viewers read the session but not continue it', async () => {
+      const sessionId = await createSession();
+      const response = await invite(sessionId, { userId: 'user_other', role: 'viewer' });
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({ userId: 'user_other', role: 'viewer', addedBy: 'user_123' });
+
+      const list = await (await request('/sessions', 'user_other')).json() as { sessions: Array<{ id: string; memberRole?: string }> };
+      expect(list.sessions).toEqual([expect.objectContaining({ id: sessionId, memberRole: 'viewer' })]);
+      expect((await request(`/sessions/${sessionId}/messages`, 'user_other')).status).toBe(200);
+
+      const denied = await prompt(sessionId, 'user_other');
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ code: 'read_only_session' });
+      expect((await request(`/sessions/${sessionId}/share`, 'user_other', { method: 'POST' })).status).toBe(403);
+
+      // Nor take down the owner's public links
+      const share = await (await request(`/sessions/${sessionId}/share`, 'user_123', { method: 'POST' })).json() as { id: string };
+      const revoke = await request(`/sessions/${sessionId}/shares/${share.id}`, 'user_other', { method: 'DELETE' });
+      expect(revoke.status).toBe(403);
+      expect(await revoke.json()).toMatchObject({ code: 'read_only_session' });
+      expect(await (await request(`/sessions/${sessionId}/shares`, 'user_123')).json()).toMatchObject({ shares: [{ id: share.id, revokedAt: null }] });
+    });
+
+    it('lets editors continue the session and attributes each message to its author', async () => {
+      const sessionId = await createSession();
+      await invite(sessionId, { userId: 'user_other', role: 'editor' });
+
+      expect((await prompt(sessionId, 'user_123')).status).toBe(200);
+      expect((await prompt(sessionId, 'user_other')).status).toBe(200);
+
+      const response = await request(`/sessions/${sessionId}/messages`, 'user_123');
+      const { messages } = await response.json() as { messages: Array<{ id: number; role: string; content: string; authorId: string | null }> };
+      expect(messages).toEqual([
+        { id: expect.any(Number), role: 'user', content: 'from user_123', authorId: 'user_123' },
+        { id: expect.any(Number), role: 'assistant', content: 'ok', authorId: null },
+        { id: expect.any(Number), role: 'user', content: 'from user_other', authorId: 'user_other' },
+        { id: expect.any(Number), role: 'assistant', content: 'ok', authorId: null },
+      ]);
+    });
+
+    it('only lets the owner manage members and delete the session', async () => {
+      const sessionId = await createSession();
+      await invite(sessionId, { userId: 'user_other', role: 'editor' });
+
+      const denied = await invite(sessionId, { userId: 'user_dev', role: 'viewer' }, 'user_other');
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ code: 'session_owner_required' });
+
+      const deleted = await request(`/sessions/${sessionId}`, 'user_other', { method: 'DELETE' });
+      expect(deleted.status).toBe(403);
+      expect(await deleted.json()).toMatchObject({ code: 'session_owner_required' });
+
+      expect((await invite(sessionId, { userId: 'user_other', role: 'viewer' }, 'user_dev')).status).toBe(404);
+    });
+
+    it('validates invitations', async () => {
+      const sessionId = await createSession();
+
+      expect((await invite(sessionId, { userId: 'user_other', role: 'owner' })).status).toBe(400);
+      expect((await invite(sessionId, { role: 'viewer' })).status).toBe(400);
+      expect((await invite(sessionId, { userId: 'user_123', role: 'viewer' })).status).toBe(400);
+
+      const unknown = await invite(sessionId, { userId: 'user_nobody', role: 'viewer' });
+      expect(unknown.status).toBe(404);
+      expect(await unknown.json()).toMatchObject({ code: 'user_not_found' });
+    });
+
+    it('removes members and lets members leave', async () => {
+      const sessionId = await createSession();
+      await invite(sessionId, { userId: 'user_other', role: 'viewer' });
+      await invite(sessionId, { userId: 'user_dev', role: 'editor' });
+
+      const listed = await (await request(`/sessions/${sessionId}/members`, 'user_other')).json() as { members: Array<{ userId: string }> };
+      expect(listed.members.map(m => m.userId)).toEqual(['user_other', 'user_dev']);
+
+      expect((await request(`/sessions/${sessionId}/members/user_dev`, 'user_other', { method: 'DELETE' })).status).toBe(404);
+      expect((await request(`/sessions/${sessionId}/members/user_other`, 'user_other', { method: 'DELETE' })).status).toBe(204);
+      expect((await request(`/sessions/${sessionId}/messages`, 'user_other')).status).toBe(404);
+
+      expect((await request(`/sessions/${sessionId}/members/user_dev`, 'user_123', { method: 'DELETE' })).status).toBe(204);
+      expect(await (await request('/sessions', 'user_dev')).json()).toEqual({ sessions: [] });
+    });
+  });
+
+  describe('GET /api/usage', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+        model: 'glm-4.7-free',
+        choices: [{ message: { content: 'ok' } }],
+        usage: { prompt_tokens: 20, completion_tokens: 7 },
+      })));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('reports the tokens used by each prompt per day, session and model', async () => {
+      const first = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+      const { sessionId, usage } = await first.json() as { sessionId: string; usage: Record<string, unknown> };
+      expect(usage).toMatchObject({ model: 'glm-4.7-free', promptTokens: 20, completionTokens: 7 });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'again', sessionId }) });
+
+      const response = await request('/usage', 'user_123');
+      const report = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(report.totals).toMatchObject({ requests: 2, promptTokens: 40, completionTokens: 14, totalTokens: 54 });
+      expect(report.bySession).toEqual([expect.objectContaining({ sessionId, requests: 2 })]);
+      expect(report.byModel).toEqual([expect.objectContaining({ model: 'glm-4.7-free' })]);
+      expect(report.byDay).toEqual([expect.objectContaining({ day: new Date().toISOString().slice(0, 10) })]);
+
+      const other = await (await request('/usage', 'user_other')).json() as any;
+      expect(other.totals.requests).toBe(0);
+    });
+
+    it('filters by date range', async () => {
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+
+      const response = await request('/usage?from=2020-01-01&to=2020-01-31', 'user_123');
+      const report = await response.json() as any;
+
+      expect(report).toMatchObject({ from: '2020-01-01', to: '2020-01-31' });
+      expect(report.totals.requests).toBe(0);
+      expect((await request('/usage?from=yesterday', 'user_123')).status).toBe(400);
+    });
+
+    it('lets admins see the usage of any user', async () => {
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+
+      const response = await request('/admin/users/user_123/usage', 'user_admin');
+      expect(await response.json()).toMatchObject({ userId: 'user_123', totals: { requests: 1 } });
+      expect((await request('/admin/users/user_123/usage', 'user_other')).status).toBe(403);
+    });
+  });
+
+  describe('plans and quotas', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    const prompt = () => request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+
+    // Record usage as if earlier prompts this month had used it
+    const useTokens = (tokens: number, requests: number = 1) => {
+      const shard = namespace.get({ name: 'user:user_123' });
+      return Promise.all(Array.from({ length: requests }, (_, i) => shard.recordUsage('user_123', {
+        sessionId: 'earlier',
+        model: 'glm-4.7-free',
+        promptTokens: i === 0 ? tokens : 0,
+        completionTokens: 0,
+        latencyMs: 100,
+        createdAt: Date.now(),
+      })));
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: 'ok' } }], usage: { prompt_tokens: 1, completion_tokens: 1 } })));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('reports the caller\'s plan and remaining quota', async () => {
+      await useTokens(1000);
+
+      const response = await request('/quota', 'user_123');
+      expect(await response.json()).toMatchObject({
+        plan: 'free',
+        limits: PLAN_QUOTAS.free,
+        used: { tokens: 1000, requests: 1 },
+        exceeded: false,
+      });
+    });
+
+    it('rejects prompts with 429 quota_exceeded before calling the model', async () => {
+      await useTokens(PLAN_QUOTAS.free.tokens);
+
+      const response = await prompt();
+      const data = await response.json() as Record<string, any>;
+
+      expect(response.status).toBe(429);
+      expect(data).toMatchObject({ code: 'quota_exceeded', plan: 'free', limits: PLAN_QUOTAS.free });
+      expect(new Date(data.resetsAt).getUTCDate()).toBe(1);
+      expect(fetch).not.toHaveBeenCalled();
+      expect(shards.get('user:user_123').createSession).not.toHaveBeenCalled();
+    });
+
+    it('lets admins move users to another plan', async () => {
+      await useTokens(PLAN_QUOTAS.free.tokens);
+
+      const response = await request('/admin/users/user_123/plan', 'user_admin', { method: 'PUT', body: JSON.stringify({ plan: 'team' }) });
+      expect(await response.json()).toMatchObject({ userId: 'user_123', plan: 'team', exceeded: false });
+      expect((await prompt()).status).toBe(200);
+
+      const invalid = await request('/admin/users/user_123/plan', 'user_admin', { method: 'PUT', body: JSON.stringify({ plan: 'unlimited' }) });
+      expect(invalid.status).toBe(400);
+    });
+
+    it('lets admins grant one-off top-ups', async () => {
+      await useTokens(PLAN_QUOTAS.free.tokens);
+
+      const response = await request('/admin/users/user_123/top-ups', 'user_admin', {
+        method: 'POST',
+        body: JSON.stringify({ tokens: 10_000, note: 'Hackathon' }),
+      });
+      const topUp = await response.json() as Record<string, any>;
+
+      expect(response.status).toBe(201);
+      expect(topUp).toMatchObject({ tokens: 10_000, requests: 0, note: 'Hackathon', grantedBy: 'user_admin' });
+      expect(topUp.quota.limits.tokens).toBe(PLAN_QUOTAS.free.tokens + 10_000);
+      expect((await prompt()).status).toBe(200);
+    });
+
+    it('validates top-ups and keeps quota management admin-only', async () => {
+      const topUp = (body: Record<string, unknown>, sub: string = 'user_admin') =>
+        request('/admin/users/user_123/top-ups', sub, { method: 'POST', body: JSON.stringify(body) });
+
+      expect((await topUp({})).status).toBe(400);
+      expect((await topUp({ tokens: -5 })).status).toBe(400);
+      expect((await topUp({ tokens: 1.5 })).status).toBe(400);
+      expect((await topUp({ tokens: 5, note: 42 })).status).toBe(400);
+      expect((await topUp({ tokens: 5 }, 'user_123')).status).toBe(403);
+    });
+  });
+
+  describe('overlapping prompts', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}, headers: Record<string, string> = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', ...headers },
+      }), env);
+    }
+
+    const prompt = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+      request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify(body) }, headers);
+
+    // The first model call waits until `answerFirst` is called
+    let answerFirst: () => void;
+    let modelCalls: number;
+
+    beforeEach(() => {
+      const firstAnswered = new Promise<void>(resolve => { answerFirst = resolve; });
+      modelCalls = 0;
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        const call = ++modelCalls;
+        if (call === 1) await firstAnswered;
+        return Response.json({ choices: [{ message: { content: `answer ${call}` } }] });
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    async function createSession() {
+      const response = await request('/sessions', 'user_123', { method: 'POST' });
+      return (await response.json() as { id: string }).id;
+    }
+
+    it('processes prompts for one session in arrival order', async () => {
+      const sessionId = await createSession();
+      const shard = shards.get('user:user_123');
+
+      const first = prompt({ prompt: 'one', sessionId });
+      await vi.waitFor(() => expect(modelCalls).toBe(1));
+      const second = prompt({ prompt: 'two', sessionId });
+      await vi.waitFor(() => expect(shard.acquirePromptLock).toHaveBeenCalledTimes(2));
+
+      // The second prompt waits for the lock instead of writing into the first one's history
+      expect(modelCalls).toBe(1);
+      answerFirst();
+      expect((await first).status).toBe(200);
+      expect((await second).status).toBe(200);
+
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`, 'user_123')).json() as { messages: Array<{ content: string }> };
+      expect(messages.map(m => m.content)).toEqual(['one', 'answer 1', 'two', 'answer 2']);
+      expect(shard.releasePromptLock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects prompts whose If-Match is not the last message', async () => {
+      answerFirst();
+      const sessionId = await createSession();
+      const first = await prompt({ prompt: 'one', sessionId });
+      const { messageId } = await first.json() as { messageId: number };
+      expect(first.headers.get('ETag')).toBe(`"${messageId}"`);
+
+      const history = await request(`/sessions/${sessionId}/messages`, 'user_123');
+      expect(history.headers.get('ETag')).toBe(`"${messageId}"`);
+
+      const stale = await prompt({ prompt: 'two', sessionId }, { 'If-Match': `"${messageId - 1}"` });
+      expect(stale.status).toBe(409);
+      expect(await stale.json()).toMatchObject({ code: 'message_conflict', lastMessageId: messageId });
+
+      expect((await prompt({ prompt: 'two', sessionId }, { 'If-Match': `"${messageId}"` })).status).toBe(200);
+      expect((await prompt({ prompt: 'three', sessionId }, { 'If-Match': 'latest' })).status).toBe(400);
+    });
+
+    it('rejects If-Match while another prompt is running', async () => {
+      const sessionId = await createSession();
+      const first = prompt({ prompt: 'one', sessionId });
+      await vi.waitFor(() => expect(modelCalls).toBe(1));
+
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`, 'user_123')).json() as { messages: Array<{ id: number }> };
+      const conflict = await prompt({ prompt: 'two', sessionId }, { 'If-Match': `"${messages[0].id}"` });
+      expect(conflict.status).toBe(409);
+
+      answerFirst();
+      expect((await first).status).toBe(200);
+    });
+
+    it('keeps the session locked while a prompt outlives the lock TTL', async () => {
+      // A slow model rather than a stuck one: its calls do not time out
+      env = { ...env, LLM_TIMEOUT_MS: String(10 * 60 * 1000) };
+      worker = new Worker(env);
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+      try {
+        const sessionId = await createSession();
+        const shard = shards.get('user:user_123');
+        const first = prompt({ prompt: 'one', sessionId });
+        await vi.waitFor(() => expect(modelCalls).toBe(1));
+        await vi.advanceTimersByTimeAsync(PROMPT_LOCK_TTL_MS + PROMPT_LOCK_WAIT_MS);
+
+        expect(shard.renewPromptLock).toHaveBeenCalled();
+        expect(shard.renewPrompt).toHaveBeenCalled();
+        const { messages } = await (await request(`/sessions/${sessionId}/messages`, 'user_123')).json() as { messages: Array<{ id: number }> };
+        const conflict = await prompt({ prompt: 'two', sessionId }, { 'If-Match': `"${messages[0].id}"` });
+        expect(conflict.status).toBe(409);
+
+        answerFirst();
+        expect((await first).status).toBe(200);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('caps the prompts a user has in flight', async () => {
+      env.PROMPT_MAX_IN_FLIGHT = '1';
+      const first = prompt({ prompt: 'one' });
+      await vi.waitFor(() => expect(modelCalls).toBe(1));
+
+      const limited = await prompt({ prompt: 'two' });
+      expect(limited.status).toBe(429);
+      expect(await limited.json()).toMatchObject({ code: 'too_many_prompts' });
+
+      answerFirst();
+      expect((await first).status).toBe(200);
+      expect((await prompt({ prompt: 'three' })).status).toBe(200);
+    });
+
+    it('drops a new session whose lock cannot be taken instead of prompting unlocked', async () => {
+      answerFirst();
+      const shard = namespace.get({ name: 'user:user_123' });
+      vi.mocked(shard.acquirePromptLock).mockResolvedValueOnce({ ok: false, reason: 'busy' });
+
+      const response = await prompt({ prompt: 'one' });
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ code: 'session_unavailable' });
+      expect(modelCalls).toBe(0);
+      expect(shard.endPrompt).toHaveBeenCalled();
+
+      const { sessions } = await (await request('/sessions', 'user_123')).json() as { sessions: unknown[] };
+      expect(sessions).toEqual([]);
+    });
+
+    it('cancels the running prompt from another request', async () => {
+      // The model never answers; the call ends only when it is aborted
+      vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+      })));
+      const sessionId = await createSession();
+      const cancel = () => request(`/sessions/${sessionId}/cancel`, 'user_123', { method: 'POST' });
+
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      try {
+        const running = prompt({ prompt: 'one', sessionId });
+        await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+        const cancelled = await cancel();
+        expect(cancelled.status).toBe(202);
+
+        // The prompt learns of the cancellation when it next renews its lock
+        await vi.advanceTimersByTimeAsync(PROMPT_RENEW_INTERVAL_MS);
+        const response = await running;
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ success: true, response: '', cancelled: true });
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`, 'user_123')).json() as { messages: unknown[] };
+      expect(messages).toMatchObject([{ role: 'user', content: 'one' }, { role: 'assistant', content: '', cancelled: true }]);
+
+      const idle = await cancel();
+      expect(idle.status).toBe(409);
+      expect(await idle.json()).toMatchObject({ code: 'no_prompt_in_flight' });
+      expect((await request('/sessions/missing/cancel', 'user_123', { method: 'POST' })).status).toBe(404);
+    });
+  });
+
+  describe('streamed prompts', () => {
+    async function request(path: string, init: RequestInit = {}, headers: Record<string, string> = {}) {
+      const token = await createMockToken('user_123');
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', ...headers },
+      }), env);
+    }
+
+    const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    // [event, parsed data] pairs of an SSE body
+    const parseEvents = (text: string) => text.trim().split('\n\n').map(block => {
+      const event = /^event: (.*)$/m.exec(block)?.[1];
+      const data = block.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+      return [event, JSON.parse(data)] as const;
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('relays the answer as Server-Sent Events and saves it once complete', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(
+        chunk('Hel') + chunk('lo') + `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } })}\n\ndata: [DONE]\n\n`,
+        { headers: { 'Content-Type': 'text/event-stream' } }
+      )));
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) }, { 'Accept': 'text/event-stream' });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+      const events = parseEvents(await response.text());
+      const sessionId = (events[0][1] as { sessionId: string }).sessionId;
+      expect(events).toEqual([
+        ['start', { sessionId }],
+        ['delta', { text: 'Hel' }],
+        ['delta', { text: 'lo' }],
+        ['done', { sessionId, messageId: expect.any(Number), usage: expect.objectContaining({ promptTokens: 4, completionTokens: 2 }), aborted: false, cancelled: false }],
+      ]);
+
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`)).json() as { messages: Array<{ role: string; content: string }> };
+      expect(messages.map(m => [m.role, m.content])).toEqual([['user', 'hi'], ['assistant', 'Hello']]);
+    });
+
+    it('saves a partial answer marked aborted when the client disconnects', async () => {
+      const encoder = new TextEncoder();
+      let upstreamCancelled = false;
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(chunk('Par')));
+        },
+        cancel() {
+          upstreamCancelled = true;
+        },
+      }))));
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', stream: true }) });
+      const reader = response.body!.getReader();
+      let received = '';
+      while (!received.includes('event: delta')) {
+        received += new TextDecoder().decode((await reader.read()).value);
+      }
+      await reader.cancel();
+
+      const shard = shards.get('user:user_123');
+      await vi.waitFor(() => expect(shard.endPrompt).toHaveBeenCalled());
+      expect(upstreamCancelled).toBe(true);
+
+      const sessionId = (parseEvents(received)[0][1] as { sessionId: string }).sessionId;
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`)).json() as { messages: unknown[] };
+      expect(messages[1]).toMatchObject({ role: 'assistant', content: 'Par', aborted: true });
+    });
+
+    it('saves a partial answer marked cancelled when another request cancels the prompt', async () => {
+      const encoder = new TextEncoder();
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(chunk('Par')));
+        },
+      }))));
+
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', stream: true }) });
+      const reader = response.body!.getReader();
+      let received = '';
+      let sessionId: string;
+      try {
+        while (!received.includes('event: delta')) {
+          received += new TextDecoder().decode((await reader.read()).value);
+        }
+
+        // A prompt that started a new session can be cancelled as soon as the client knows the session
+        sessionId = (parseEvents(received)[0][1] as { sessionId: string }).sessionId;
+        expect((await request(`/sessions/${sessionId}/cancel`, { method: 'POST' })).status).toBe(202);
+        await vi.advanceTimersByTimeAsync(PROMPT_RENEW_INTERVAL_MS);
+
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          received += new TextDecoder().decode(chunk.value);
+        }
+      } finally {
+        vi.useRealTimers();
+      }
+      expect(parseEvents(received).at(-1)).toEqual(['done', { sessionId, messageId: expect.any(Number), usage: null, aborted: false, cancelled: true }]);
+
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`)).json() as { messages: unknown[] };
+      expect(messages[1]).toMatchObject({ role: 'assistant', content: 'Par', cancelled: true });
+    });
+  });
+
+  describe('upstream failures', () => {
+    async function request(path: string, init: RequestInit = {}, headers: Record<string, string> = {}) {
+      const token = await createMockToken('user_123');
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', ...headers },
+      }), env);
+    }
+
+    async function createSession() {
+      const response = await request('/sessions', { method: 'POST' });
+      return (await response.json() as { id: string }).id;
+    }
+
+    async function history(sessionId: string) {
+      const { messages } = await (await request(`/sessions/${sessionId}/messages`)).json() as { messages: unknown[] };
+      return messages;
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('retries a rate-limited call honoring Retry-After', async () => {
+      const upstream = vi.fn()
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }] }));
+      vi.stubGlobal('fetch', upstream);
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ success: true, response: 'ok' });
+      expect(upstream).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns 503 with Retry-After and keeps no messages once retries are exhausted', async () => {
+      env = { ...env, LLM_MAX_ATTEMPTS: '2' };
+      worker = new Worker(env);
+      const upstream = vi.fn(async () => new Response('overloaded', { status: 503, headers: { 'Retry-After': '0' } }));
+      vi.stubGlobal('fetch', upstream);
+      const sessionId = await createSession();
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId }) });
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get('Retry-After')).toBe('0');
+      expect(await response.json()).toMatchObject({ success: false, code: 'upstream_unavailable', provider: 'opencode-zen' });
+      expect(upstream).toHaveBeenCalledTimes(2);
+      expect(await history(sessionId)).toEqual([]);
+    });
+
+    it('returns 502 without retrying when the upstream rejects the request', async () => {
+      const upstream = vi.fn(async () => new Response('bad request', { status: 400 }));
+      vi.stubGlobal('fetch', upstream);
+      const sessionId = await createSession();
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId }) });
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({ code: 'upstream_bad_response' });
+      expect(upstream).toHaveBeenCalledTimes(1);
+      expect(await history(sessionId)).toEqual([]);
+    });
+
+    it('returns 504 when the upstream does not answer in time', async () => {
+      env = { ...env, LLM_MAX_ATTEMPTS: '1', LLM_TIMEOUT_MS: '10' };
+      worker = new Worker(env);
+      vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      })));
+      const sessionId = await createSession();
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId }) });
+
+      expect(response.status).toBe(504);
+      expect(await response.json()).toMatchObject({ code: 'upstream_timeout' });
+      expect(await history(sessionId)).toEqual([]);
+    });
+
+    it('sends a coded error event and rolls back a failed streamed prompt', async () => {
+      env = { ...env, LLM_MAX_ATTEMPTS: '1' };
+      worker = new Worker(env);
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('overloaded', { status: 503 })));
+      const sessionId = await createSession();
+
+      const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId }) }, { 'Accept': 'text/event-stream' });
+      const body = await response.text();
+
+      expect(body).toContain('event: error');
+      expect(body).toContain('"code":"upstream_unavailable"');
+      expect(await history(sessionId)).toEqual([]);
+    });
+  });
+
+  describe('context window', () => {
+    async function request(path: string, init: RequestInit = {}) {
+      const token = await createMockToken('user_123');
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    // Messages of each upstream request body
+    let upstreamMessages: Array<Array<{ role: string; content: string }>>;
+
+    beforeEach(() => {
+      upstreamMessages = [];
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        upstreamMessages.push(JSON.parse(init.body as string).messages);
+        return Response.json({ choices: [{ message: { content: 'ok' } }] });
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('summarizes turns that no longer fit and keeps the system prompt pinned', async () => {
+      // Input budget of 150 tokens: the third prompt pushes the first turn out
+      env = { ...env, CONTEXT_MAX_TOKENS: '200', SYSTEM_PROMPT: 'Be brief.' };
+      worker = new Worker(env);
+      const longPrompt = (n: number) => `${n} ${'x'.repeat(200)}`;
+
+      const first = await (await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: longPrompt(1) }) })).json() as { sessionId: string };
+      for (const n of [2, 3]) {
+        const response = await request('/prompt', { method: 'POST', body: JSON.stringify({ prompt: longPrompt(n), sessionId: first.sessionId }) });
+        expect(response.status).toBe(200);
+      }
+
+      expect(upstreamMessages).toHaveLength(4);
+      expect(upstreamMessages[2][0].content).toMatch(/^Summarize the conversation/);
+      const last = upstreamMessages[3];
+      expect(last.slice(0, 2)).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'system', content: 'Summary of the earlier conversation:\nok' },
+      ]);
+      expect(last.map(m => m.content)).not.toContain(longPrompt(1));
+      expect(last.at(-1)).toEqual({ role: 'user', content: longPrompt(3) });
+      expect(shards.get('user:user_123').setSessionSummary).toHaveBeenCalledWith(
+        first.sessionId, 'user_123', expect.objectContaining({ content: 'ok' }), null
+      );
+
+      // The full history is still there for the client
+      const { messages } = await (await request(`/sessions/${first.sessionId}/messages`)).json() as { messages: unknown[] };
+      expect(messages).toHaveLength(6);
+    });
+  });
+
+  describe('system prompts and personas', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    const createPersona = async (sub: string, body: Record<string, unknown>) =>
+      (await request('/personas', sub, { method: 'POST', body: JSON.stringify(body) })).json() as Promise<{ id: string }>;
+
+    // Messages of each upstream request body
+    let upstreamMessages: Array<Array<{ role: string; content: string }>>;
+
+    beforeEach(() => {
+      upstreamMessages = [];
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        upstreamMessages.push(JSON.parse(init.body as string).messages);
+        return Response.json({ choices: [{ message: { content: 'ok' } }] });
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('manages a per-user persona library', async () => {
+      const persona = await createPersona('user_123', { name: 'Reviewer', systemPrompt: 'You review code.' });
+      expect(persona).toMatchObject({ id: expect.any(String), name: 'Reviewer', systemPrompt: 'You review code.' });
+
+      const patched = await request(`/personas/${persona.id}`, 'user_123', { method: 'PATCH', body: JSON.stringify({ systemPrompt: 'You review code tersely.' }) });
+      expect(await patched.json()).toMatchObject({ name: 'Reviewer', systemPrompt: 'You review code tersely.' });
+
+      const list = await (await request('/personas', 'user_123')).json() as { personas: unknown[] };
+      expect(list.personas).toHaveLength(1);
+      expect((await (await request('/personas', 'user_other')).json() as { personas: unknown[] }).personas).toEqual([]);
+      expect((await request(`/personas/${persona.id}`, 'user_other')).status).toBe(404);
+
+      const invalid = await request('/personas', 'user_123', { method: 'POST', body: JSON.stringify({ name: 'No prompt' }) });
+      expect(invalid.status).toBe(400);
+
+      expect((await request(`/personas/${persona.id}`, 'user_123', { method: 'DELETE' })).status).toBe(204);
+      expect((await request(`/personas/${persona.id}`, 'user_123')).status).toBe(404);
+    });
+
+    it('sends the session system prompt ahead of the history without storing it as a message', async () => {
+      const persona = await createPersona('user_123', { name: 'Pirate', systemPrompt: 'Talk like a pirate.' });
+      const created = await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ personaId: persona.id }) });
+      const session = await created.json() as { id: string; systemPrompt: string };
+      expect(created.status).toBe(201);
+      expect(session.systemPrompt).toBe('Talk like a pirate.');
+
+      // Editing the persona later does not change sessions started from it
+      await request(`/personas/${persona.id}`, 'user_123', { method: 'PATCH', body: JSON.stringify({ systemPrompt: 'Talk like a robot.' }) });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'Hello', sessionId: session.id }) });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'Again', sessionId: session.id }) });
+
+      expect(upstreamMessages[1]).toEqual([
+        { role: 'system', content: 'Talk like a pirate.' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: 'Again' },
+      ]);
+      const { messages } = await (await request(`/sessions/${session.id}/messages`, 'user_123')).json() as { messages: Array<{ role: string }> };
+      expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    });
+
+    it('sets the system prompt of new and existing sessions', async () => {
+      const prompt = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'Hi', systemPrompt: 'Answer in French.' }) });
+      const { sessionId } = await prompt.json() as { sessionId: string };
+      expect(upstreamMessages[0][0]).toEqual({ role: 'system', content: 'Answer in French.' });
+
+      const patched = await request(`/sessions/${sessionId}`, 'user_123', { method: 'PATCH', body: JSON.stringify({ systemPrompt: null }) });
+      expect(await patched.json()).toMatchObject({ id: sessionId, systemPrompt: null });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'Hi again', sessionId }) });
+      expect(upstreamMessages[1][0].role).toBe('user');
+    });
+
+    it('rejects unknown personas and conflicting fields', async () => {
+      const unknown = await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ personaId: 'persona-missing' }) });
+      expect(unknown.status).toBe(400);
+      expect(await unknown.json()).toMatchObject({ code: 'unknown_persona' });
+
+      // Personas are private to the user who saved them
+      const other = await createPersona('user_other', { name: 'Mine', systemPrompt: 'Secret.' });
+      expect((await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ personaId: other.id }) })).status).toBe(400);
+
+      const both = await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ personaId: other.id, systemPrompt: 'x' }) });
+      expect(both.status).toBe(400);
+      expect(upstreamMessages).toHaveLength(0);
+    });
+  });
+
+  describe('model selection', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    // Model named in each upstream request body
+    let upstreamModels: string[];
+
+    beforeEach(() => {
+      upstreamModels = [];
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        upstreamModels.push(JSON.parse(init.body as string).model);
+        return Response.json({ choices: [{ message: { content: 'ok' } }] });
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const allowModels = (models: string[]) =>
+      request('/admin/models', 'user_admin', { method: 'PUT', body: JSON.stringify({ models }) });
+
+    it('lists only free models until an admin allows more', async () => {
+      const before = await (await request('/models', 'user_123')).json() as { default: string; models: Array<{ id: string; free: boolean }> };
+      expect(before.default).toBe('glm-4.7-free');
+      expect(before.models.map(m => m.id)).toEqual(['glm-4.7-free']);
+
+      expect((await allowModels(['glm-4.7-free', 'kimi-k2'])).status).toBe(200);
+
+      const after = await (await request('/models', 'user_123')).json() as { models: Array<{ id: string; description: string; free: boolean }> };
+      expect(after.models).toEqual([
+        expect.objectContaining({ id: 'glm-4.7-free', free: true }),
+        expect.objectContaining({ id: 'kimi-k2', free: false, description: expect.any(String) }),
+      ]);
+    });
+
+    it('lets only admins change the allowlist, and validates it', async () => {
+      expect((await request('/admin/models', 'user_123', { method: 'PUT', body: JSON.stringify({ models: ['glm-4.7-free'] }) })).status).toBe(403);
+      expect((await allowModels(['kimi-k2'])).status).toBe(400);
+      expect((await allowModels(['glm-4.7-free', 'gpt-unknown'])).status).toBe(400);
+
+      await allowModels(['glm-4.7-free', 'kimi-k2']);
+      const { configured, models } = await (await request('/admin/models', 'user_admin')).json() as { configured: boolean; models: Array<{ id: string; allowed: boolean }> };
+      expect(configured).toBe(true);
+      expect(models.filter(m => m.allowed).map(m => m.id)).toEqual(['glm-4.7-free', 'kimi-k2']);
+
+      expect((await request('/admin/models', 'user_admin', { method: 'DELETE' })).status).toBe(204);
+      expect((await (await request('/admin/models', 'user_admin')).json() as { configured: boolean }).configured).toBe(false);
+    });
+
+    it('uses the requested model, then the session default', async () => {
+      await allowModels(['glm-4.7-free', 'kimi-k2', 'qwen3-coder']);
+
+      const created = await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ model: 'kimi-k2' }) });
+      expect(created.status).toBe(201);
+      const session = await created.json() as { id: string; model: string };
+      expect(session.model).toBe('kimi-k2');
+
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId: session.id }) });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId: session.id, model: 'qwen3-coder' }) });
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+      expect(upstreamModels).toEqual(['kimi-k2', 'qwen3-coder', 'glm-4.7-free']);
+    });
+
+    it('changes the session default with PATCH /api/sessions/:id', async () => {
+      await allowModels(['glm-4.7-free', 'kimi-k2']);
+      const { id } = await (await request('/sessions', 'user_123', { method: 'POST' })).json() as { id: string };
+
+      const patched = await request(`/sessions/${id}`, 'user_123', { method: 'PATCH', body: JSON.stringify({ model: 'kimi-k2' }) });
+      expect(patched.status).toBe(200);
+      expect(await patched.json()).toMatchObject({ id, model: 'kimi-k2' });
+      expect((await request(`/sessions/${id}`, 'user_other', { method: 'PATCH', body: JSON.stringify({ model: null }) })).status).toBe(404);
+      expect((await request(`/sessions/${id}`, 'user_123', { method: 'PATCH', body: JSON.stringify({}) })).status).toBe(400);
+
+      await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId: id }) });
+      expect(upstreamModels).toEqual(['kimi-k2']);
+    });
+
+    it('rejects unknown models and models outside the allowlist', async () => {
+      const unknown = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', model: 'gpt-unknown' }) });
+      expect(unknown.status).toBe(400);
+      expect(await unknown.json()).toMatchObject({ code: 'unknown_model' });
+
+      const paid = await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ model: 'kimi-k2' }) });
+      expect(paid.status).toBe(400);
+      expect(await paid.json()).toMatchObject({ code: 'model_not_allowed' });
+
+      // A session whose default was later removed from the allowlist
+      await allowModels(['glm-4.7-free', 'kimi-k2']);
+      const { id } = await (await request('/sessions', 'user_123', { method: 'POST', body: JSON.stringify({ model: 'kimi-k2' }) })).json() as { id: string };
+      await allowModels(['glm-4.7-free']);
+      const stale = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', sessionId: id }) });
+      expect(stale.status).toBe(400);
+      expect(await stale.json()).toMatchObject({ code: 'model_not_allowed' });
+      expect(upstreamModels).toEqual([]);
+    });
+
+    it('hides allowed models whose provider is not configured', async () => {
+      await allowModels(['glm-4.7-free', 'claude-sonnet-4-5']);
+
+      const { models } = await (await request('/admin/models', 'user_admin')).json() as { models: Array<{ id: string; allowed: boolean; available: boolean }> };
+      expect(models.find(m => m.id === 'claude-sonnet-4-5')).toMatchObject({ allowed: true, available: false });
+      expect((await (await request('/models', 'user_123')).json() as { models: Array<{ id: string }> }).models.map(m => m.id)).toEqual(['glm-4.7-free']);
+
+      const prompt = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hi', model: 'claude-sonnet-4-5' }) });
+      expect(prompt.status).toBe(400);
+      expect(await prompt.json()).toMatchObject({ code: 'model_not_allowed' });
+    });
+
+    it('answers offline when MODEL_PROVIDERS routes every model to the mock provider', async () => {
+      env = { ...env, MODEL_PROVIDERS: '{"*": "mock"}' };
+      worker = new Worker(env);
+
+      const response = await request('/prompt', 'user_123', { method: 'POST', body: JSON.stringify({ prompt: 'hello there' }) });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        response: '[mock:glm-4.7-free] hello there',
+        usage: expect.objectContaining({ model: 'glm-4.7-free', promptTokens: 2 }),
+      });
+      expect(upstreamModels).toEqual([]);
+    });
+  });
+
+  describe('prompt rate limiting', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}) {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    const prompt = (sub: string = 'user_123') =>
+      request('/prompt', sub, { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+
+    beforeEach(() => {
+      env.PROMPT_RATE_LIMIT_PER_MINUTE = '1';
+      env.PROMPT_RATE_LIMIT_BURST = '2';
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: 'ok' } }] })));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('allows the burst, then answers 429 with Retry-After', async () => {
+      const first = await prompt();
+      expect(first.status).toBe(200);
+      expect(first.headers.get('X-RateLimit-Limit')).toBe('2');
+      expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+      expect(Number(first.headers.get('X-RateLimit-Reset'))).toBeGreaterThan(Date.now() / 1000);
+
+      expect((await prompt()).status).toBe(200);
+
+      const limited = await prompt();
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+      expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(await limited.json()).toMatchObject({ code: 'rate_limited' });
+    });
+
+    it('keeps a bucket per user in their own shard', async () => {
+      await prompt();
+      await prompt();
+
+      expect((await prompt('user_other')).status).toBe(200);
+      expect(shards.get('user:user_123').consumeRateLimit).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not limit other routes', async () => {
+      await prompt();
+      await prompt();
+
+      expect((await request('/sessions', 'user_123')).status).toBe(200);
+    });
+
+    it('lets admins override limits per user', async () => {
+      const put = await request('/admin/users/user_123/rate-limit', 'user_admin', {
+        method: 'PUT',
+        body: JSON.stringify({ requestsPerMinute: 60, burst: 5 }),
+      });
+      expect(put.status).toBe(200);
+
+      const current = await request('/admin/users/user_123/rate-limit', 'user_admin');
+      expect(await current.json()).toEqual({ userId: 'user_123', rateLimit: { requestsPerMinute: 60, burst: 5 }, override: true });
+      expect((await prompt()).headers.get('X-RateLimit-Limit')).toBe('5');
+
+      expect((await request('/admin/users/user_123/rate-limit', 'user_admin', { method: 'DELETE' })).status).toBe(204);
+      const reset = await request('/admin/users/user_123/rate-limit', 'user_admin');
+      expect(await reset.json()).toEqual({ userId: 'user_123', rateLimit: { requestsPerMinute: 1, burst: 2 }, override: false });
+    });
+
+    it('validates overrides and keeps them admin-only', async () => {
+      const invalid = await request('/admin/users/user_123/rate-limit', 'user_admin', {
+        method: 'PUT',
+        body: JSON.stringify({ requestsPerMinute: 0, burst: 5 }),
+      });
+      expect(invalid.status).toBe(400);
+
+      const forbidden = await request('/admin/users/user_123/rate-limit', 'user_123', {
+        method: 'PUT',
+        body: JSON.stringify({ requestsPerMinute: 1000, burst: 1000 }),
+      });
+      expect(forbidden.status).toBe(403);
+    });
+  });
+
+  describe('cookie sessions', () => {
+    async function cookieRequest(path: string, init: RequestInit = {}, headers: Record<string, string> = {}) {
+      const token = await createMockToken('user_123');
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Cookie': `__session=${token}`, ...headers },
+      }), env);
+    }
+
+    it('authenticates reads with the Clerk __session cookie', async () => {
+      const response = await cookieRequest('/sessions');
+      expect(response.status).toBe(200);
+    });
+
+    it('allows state-changing requests from the same origin', async () => {
+      const response = await cookieRequest('/sessions', { method: 'POST' }, { 'Origin': 'http://localhost' });
+      expect(response.status).toBe(201);
+    });
+
+    it('rejects cross-origin and origin-less state-changing requests', async () => {
+      const crossOrigin = await cookieRequest('/prompt', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'hi' }),
+      }, { 'Origin': 'https://evil.example', 'Content-Type': 'application/json' });
+      const noOrigin = await cookieRequest('/sessions/some-id', { method: 'DELETE' });
+
+      expect(crossOrigin.status).toBe(403);
+      expect((await crossOrigin.json() as { code: string }).code).toBe('csrf_origin_mismatch');
+      expect(noOrigin.status).toBe(403);
+    });
+
+    it('allows origins listed in CLERK_AUTHORIZED_PARTIES', async () => {
+      env.CLERK_AUTHORIZED_PARTIES = 'https://chat.example.com';
+      const response = await cookieRequest('/sessions', { method: 'POST' }, { 'Origin': 'https://chat.example.com' });
+      expect(response.status).toBe(201);
+    });
+
+    it('rejects an invalid cookie', async () => {
+      const response = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Cookie': '__session=not-a-jwt' },
+      }), env);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('dev auth bypass', () => {
+    it('is ignored unless DEV_AUTH_BYPASS is enabled', async () => {
+      const request = new Request('http://localhost/api/sessions', {
+        headers: { 'X-Dev-User-Id': 'user_dev' },
+      });
+      const response = await worker.fetch(request, env);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('trusts X-Dev-User-Id when enabled', async () => {
+      const devEnv = { ...env, DEV_AUTH_BYPASS: 'true' };
+      const devWorker = new Worker(devEnv);
+      const request = new Request('http://localhost/api/sessions', {
+        method: 'POST',
+        headers: { 'X-Dev-User-Id': 'user_dev' },
+      });
+      const response = await devWorker.fetch(request, devEnv);
+      const data = await response.json() as { userId: string };
+
+      expect(response.status).toBe(201);
+      expect(data.userId).toBe('user_dev');
+    });
+  });
+
+  describe('admin invite codes', () => {
+    async function adminRequest(path: string, init: RequestInit = {}, sub: string = 'user_admin') {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api/admin${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    async function verify(code: string) {
+      const response = await worker.fetch(new Request(`http://localhost/api/verify-invite?code=${code}`), env);
+      return (await response.json() as { valid: boolean }).valid;
+    }
+
+    it('is forbidden for non-admins', async () => {
+      const response = await adminRequest('/invites', {}, 'user_123');
+      expect(response.status).toBe(403);
+    });
+
+    it('creates a code that stops working after its last redemption', async () => {
+      const create = await adminRequest('/invites', {
+        method: 'POST',
+        body: JSON.stringify({ code: 'one-shot', maxRedemptions: 1, notes: 'for Hanako' }),
+      });
+      const created = await create.json() as any;
+
+      expect(create.status).toBe(201);
+      expect(created.code).toBe('ONE-SHOT');
+      expect(created.createdBy).toBe('user_admin');
+      expect(await verify('ONE-SHOT')).toBe(true);
+
+      const token = await createMockToken('user_hanako');
+      const redeem = await worker.fetch(new Request('http://localhost/api/invites/redeem', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ code: 'one-shot' }),
+      }), env);
+      expect(redeem.status).toBe(200);
+      expect(await verify('ONE-SHOT')).toBe(false);
+
+      const redemptions = await adminRequest('/invites/ONE-SHOT/redemptions');
+      const data = await redemptions.json() as { redemptions: Array<{ userId: string }> };
+      expect(data.redemptions.map(r => r.userId)).toEqual(['user_hanako']);
+    });
+
+    it('generates a code when none is given', async () => {
+      const response = await adminRequest('/invites', { method: 'POST', body: JSON.stringify({}) });
+      const created = await response.json() as { code: string };
+
+      expect(response.status).toBe(201);
+      expect(created.code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    });
+
+    it('rejects duplicates and malformed input', async () => {
+      const duplicate = await adminRequest('/invites', { method: 'POST', body: JSON.stringify({ code: 'FRIENDS-2025' }) });
+      const badLimit = await adminRequest('/invites', { method: 'POST', body: JSON.stringify({ maxRedemptions: 0 }) });
+      const badDate = await adminRequest('/invites', { method: 'POST', body: JSON.stringify({ expiresAt: 'someday' }) });
+
+      expect(duplicate.status).toBe(409);
+      expect(badLimit.status).toBe(400);
+      expect(badDate.status).toBe(400);
+    });
+
+    it('does not accept expired codes', async () => {
+      await adminRequest('/invites', {
+        method: 'POST',
+        body: JSON.stringify({ code: 'OLD-CODE', expiresAt: '2020-01-01T00:00:00Z' }),
+      });
+      expect(await verify('OLD-CODE')).toBe(false);
+    });
+
+    it('revokes codes', async () => {
+      const revoke = await adminRequest('/invites/friends-2025', { method: 'DELETE' });
+      expect(revoke.status).toBe(204);
+      expect(await verify('FRIENDS-2025')).toBe(false);
+
+      const list = await adminRequest('/invites');
+      const data = await list.json() as { invites: Array<{ code: string; revokedAt: number | null }> };
+      expect(data.invites.find(i => i.code === 'FRIENDS-2025')?.revokedAt).not.toBeNull();
+    });
+  });
+
+  describe('roles', () => {
+    async function request(path: string, sub: string, init: RequestInit = {}, claims: Record<string, unknown> = {}) {
+      const token = await createMockToken(sub, claims);
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    it('lists users with their effective role', async () => {
+      await request('/sessions', 'user_123', { method: 'POST' });
+
+      const response = await request('/admin/users', 'user_admin');
+      const data = await response.json() as { users: Array<{ userId: string; role: string; sessionCount: number }> };
+
+      expect(response.status).toBe(200);
+      expect(data.users.find(u => u.userId === 'user_123')).toMatchObject({ role: 'member', sessionCount: 1 });
+    });
+
+    it('forbids members from /api/admin', async () => {
+      const response = await request('/admin/users', 'user_123');
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe('insufficient_role');
+    });
+
+    it('grants admin from the Clerk metadata claim', async () => {
+      const response = await request('/admin/users', 'user_claim', {}, { metadata: { role: 'admin' } });
+      expect(response.status).toBe(200);
+    });
+
+    it('checks roles and invites in the directory once per cache period', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await request('/sessions', 'user_123')).status).toBe(200);
+      }
+      expect(directory.getUserRole).toHaveBeenCalledTimes(1);
+      expect(directory.isUserInvited).toHaveBeenCalledTimes(1);
+    });
+
+    it('locks out suspended users until reactivated', async () => {
+      // Cached as a member before the suspension
+      expect((await request('/sessions', 'user_123')).status).toBe(200);
+      const suspend = await request('/admin/users/user_123/suspend', 'user_admin', { method: 'POST' });
+      expect(suspend.status).toBe(200);
+
+      const blocked = await request('/sessions', 'user_123');
+      expect(blocked.status).toBe(403);
+      expect((await blocked.json() as { code: string }).code).toBe('account_suspended');
+
+      const reactivate = await request('/admin/users/user_123/reactivate', 'user_admin', { method: 'POST' });
+      expect(reactivate.status).toBe(200);
+      expect((await request('/sessions', 'user_123')).status).toBe(200);
+    });
+
+    it('suspension overrides an admin claim', async () => {
+      await request('/admin/users/user_claim/suspend', 'user_admin', { method: 'POST' });
+
+      const response = await request('/admin/users', 'user_claim', {}, { metadata: { role: 'admin' } });
+      expect(response.status).toBe(403);
+    });
+
+    it('prevents admins from suspending themselves', async () => {
+      const response = await request('/admin/users/user_admin/suspend', 'user_admin', { method: 'POST' });
+      expect(response.status).toBe(400);
+    });
+
+    it('validates role assignments', async () => {
+      const bad = await request('/admin/users/user_123/role', 'user_admin', { method: 'PUT', body: JSON.stringify({ role: 'owner' }) });
+      const promote = await request('/admin/users/user_123/role', 'user_admin', { method: 'PUT', body: JSON.stringify({ role: 'admin' }) });
+
+      expect(bad.status).toBe(400);
+      expect(promote.status).toBe(200);
+      expect((await request('/admin/users', 'user_123')).status).toBe(200);
+    });
+
+    it('refuses to demote an admin listed in ADMIN_USER_IDS', async () => {
+      env.ADMIN_USER_IDS = 'user_admin,user_123';
+
+      const demote = await request('/admin/users/user_123/role', 'user_admin', { method: 'PUT', body: JSON.stringify({ role: 'member' }) });
+      expect(demote.status).toBe(409);
+      expect(await demote.json()).toMatchObject({ code: 'role_from_config', role: 'admin' });
+
+      const suspend = await request('/admin/users/user_123/role', 'user_admin', { method: 'PUT', body: JSON.stringify({ role: 'suspended' }) });
+      expect(suspend.status).toBe(200);
+      const reactivate = await request('/admin/users/user_123/reactivate', 'user_admin', { method: 'POST' });
+      expect(await reactivate.json()).toEqual({ userId: 'user_123', role: 'admin' });
+    });
+
+    it('reports and keeps the role from the synced Clerk metadata', async () => {
+      await directory.upsertUserProfile({ userId: 'user_123', email: null, name: null, metadataRole: 'admin', updatedAt: 1 });
+
+      const users = await request('/admin/users', 'user_admin');
+      const data = await users.json() as { users: Array<{ userId: string; role: string; metadataRole: string | null }> };
+      expect(data.users.find(u => u.userId === 'user_123')).toMatchObject({ role: 'admin', metadataRole: 'admin' });
+
+      const demote = await request('/admin/users/user_123/role', 'user_admin', { method: 'PUT', body: JSON.stringify({ role: 'member' }) });
+      expect(demote.status).toBe(409);
+      expect(await demote.json()).toMatchObject({ code: 'role_from_config', role: 'admin' });
+    });
+  });
+
+  describe('POST /webhooks/clerk', () => {
+    async function deliver(event: unknown, secret: string = WEBHOOK_SECRET) {
+      const payload = JSON.stringify(event);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = await signSvixPayload(secret, 'msg_test', timestamp, payload);
+      return worker.fetch(new Request('http://localhost/webhooks/clerk', {
+        method: 'POST',
+        headers: { 'svix-id': 'msg_test', 'svix-timestamp': String(timestamp), 'svix-signature': `v1,${signature}` },
+        body: payload,
+      }), env);
+    }
+
+    const userEvent = (type: string, id: string, updatedAt: number = Date.now()) => ({
+      type,
+      data: {
+        id,
+        email_addresses: [{ id: 'idn_1', email_address: `${id}@example.com` }],
+        primary_email_address_id: 'idn_1',
+        first_name: 'Taro',
+        last_name: 'Yamada',
+        updated_at: updatedAt,
+      },
+    });
+
+    async function adminUsers() {
+      const token = await createMockToken('user_admin');
+      const response = await worker.fetch(new Request('http://localhost/api/admin/users', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      return (await response.json() as { users: Array<{ userId: string; email: string | null; name: string | null }> }).users;
+    }
+
+    it('stores the profile on user.created', async () => {
+      const response = await deliver(userEvent('user.created', 'user_123'));
+
+      expect(response.status).toBe(200);
+      expect((await adminUsers()).find(u => u.userId === 'user_123')).toMatchObject({
+        email: 'user_123@example.com',
+        name: 'Taro Yamada',
+      });
+    });
+
+    it('ignores updates older than the stored profile', async () => {
+      await deliver(userEvent('user.updated', 'user_123', 2000));
+      const response = await deliver(userEvent('user.updated', 'user_123', 1000));
+
+      expect((await response.json() as { action: string }).action).toBe('stale');
+    });
+
+    it('purges sessions, messages and API keys on user.deleted', async () => {
+      const token = await createMockToken('user_123');
+      const headers = { 'Authorization': `Bearer ${token}` };
+      await worker.fetch(new Request('http://localhost/api/sessions', { method: 'POST', headers }), env);
+      await worker.fetch(new Request('http://localhost/api/keys', { method: 'POST', headers, body: JSON.stringify({ label: 'ci' }) }), env);
+
+      const response = await deliver({ type: 'user.deleted', data: { id: 'user_123', deleted: true } });
+      const result = await response.json() as { action: string; purged: { sessions: number; apiKeys: number } };
+
+      expect(result.action).toBe('deleted');
+      expect(result.purged).toMatchObject({ sessions: 1, apiKeys: 1 });
+
+      const sessions = await worker.fetch(new Request('http://localhost/api/sessions', { headers }), env);
+      expect((await sessions.json() as { sessions: unknown[] }).sessions).toEqual([]);
+
+      // A late update must not bring the profile back
+      await deliver(userEvent('user.updated', 'user_123'));
+      expect((await adminUsers()).find(u => u.userId === 'user_123')?.email).toBeNull();
+    });
+
+    it('rejects deliveries with an invalid signature', async () => {
+      const response = await deliver(userEvent('user.created', 'user_evil'), `whsec_${btoa('wrong-secret')}`);
+      expect(response.status).toBe(401);
+    });
+
+    it('is unavailable until CLERK_WEBHOOK_SECRET is set', async () => {
+      delete env.CLERK_WEBHOOK_SECRET;
+      const response = await deliver(userEvent('user.created', 'user_123'));
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('device authorization flow', () => {
+    async function startLogin() {
+      const response = await worker.fetch(new Request('http://localhost/auth/device', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'client_name=laptop',
+      }), env);
+      return response.json() as Promise<{ device_code: string; user_code: string; verification_uri_complete: string; interval: number }>;
+    }
+
+    async function poll(params: Record<string, string>) {
+      return worker.fetch(new Request('http://localhost/auth/device/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(params).toString(),
+      }), env);
+    }
+
+    const pollDevice = (deviceCode: string) => poll({ grant_type: 'urn:ietf:params:oauth:grant-type:device_code', device_code: deviceCode });
+
+    async function decide(userCode: string, action: 'approve' | 'deny', sub: string = 'user_123') {
+      const token = await createMockToken(sub);
+      return worker.fetch(new Request(`http://localhost/api/device/${userCode}/${action}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+    }
+
+    async function errorOf(response: Response) {
+      return (await response.json() as { error: string }).error;
+    }
+
+    it('starts a login with a user code and verification URL', async () => {
+      const login = await startLogin();
+
+      expect(login.user_code).toMatch(/^[A-Z]{4}-[A-Z]{4}$/);
+      expect(login.verification_uri_complete).toBe(`http://localhost/device?user_code=${login.user_code}`);
+      expect(login.interval).toBe(5);
+    });
+
+    it('serves the approval page with the user code filled in', async () => {
+      const login = await startLogin();
+      const response = await worker.fetch(new Request(login.verification_uri_complete), env);
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain(`value="${login.user_code}"`);
+    });
+
+    it('issues working credentials once the user approves', async () => {
+      const login = await startLogin();
+
+      expect(await errorOf(await pollDevice(login.device_code))).toBe('authorization_pending');
+      expect(await errorOf(await pollDevice(login.device_code))).toBe('slow_down');
+
+      const token = await createMockToken('user_123');
+      const info = await worker.fetch(new Request(`http://localhost/api/device/${login.user_code.toLowerCase()}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      expect((await info.json() as { clientName: string }).clientName).toBe('laptop');
+      expect((await decide(login.user_code, 'approve')).status).toBe(200);
+
+      const response = await pollDevice(login.device_code);
+      const tokens = await response.json() as { access_token: string; refresh_token: string; token_type: string };
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+      expect(tokens.token_type).toBe('Bearer');
+
+      const sessions = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+      }), env);
+      expect(sessions.status).toBe(200);
+
+      // The device code is single use
+      expect(await errorOf(await pollDevice(login.device_code))).toBe('invalid_grant');
+    });
+
+    it('rotates refresh tokens', async () => {
+      const login = await startLogin();
+      await decide(login.user_code, 'approve');
+      const first = await (await pollDevice(login.device_code)).json() as { access_token: string; refresh_token: string };
+
+      const refreshed = await poll({ grant_type: 'refresh_token', refresh_token: first.refresh_token });
+      const second = await refreshed.json() as { access_token: string };
+      expect(refreshed.status).toBe(200);
+      expect(second.access_token).not.toBe(first.access_token);
+
+      const oldAccess = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Authorization': `Bearer ${first.access_token}` },
+      }), env);
+      expect(oldAccess.status).toBe(401);
+      expect(await errorOf(await poll({ grant_type: 'refresh_token', refresh_token: first.refresh_token }))).toBe('invalid_grant');
+    });
+
+    it('reports denied logins', async () => {
+      const login = await startLogin();
+      await decide(login.user_code, 'deny');
+
+      expect(await errorOf(await pollDevice(login.device_code))).toBe('access_denied');
+    });
+
+    it('only lets invited users approve with a Clerk session', async () => {
+      const login = await startLogin();
+
+      expect((await decide(login.user_code, 'approve', 'user_stranger')).status).toBe(403);
+      expect(await errorOf(await pollDevice(login.device_code))).toBe('authorization_pending');
+    });
+
+    it('rejects unknown grant types', async () => {
+      expect(await errorOf(await poll({ grant_type: 'password' }))).toBe('unsupported_grant_type');
+    });
+  });
+
+  describe('API keys', () => {
+    async function createKey(sub: string, body: Record<string, unknown> = { label: 'ci' }) {
+      const token = await createMockToken(sub);
+      const response = await worker.fetch(new Request('http://localhost/api/keys', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }), env);
+      return { response, data: await response.json() as any };
+    }
+
+    it('creates a key and returns the secret once', async () => {
+      const { response, data } = await createKey('user_123');
+
+      expect(response.status).toBe(201);
+      expect(data.key).toMatch(/^ock_/);
+      expect(data.label).toBe('ci');
+      expect(data.key.startsWith(data.prefix)).toBe(true);
+
+      const token = await createMockToken('user_123');
+      const listResponse = await worker.fetch(new Request('http://localhost/api/keys', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      const list = await listResponse.json() as { keys: any[] };
+
+      expect(list.keys).toHaveLength(1);
+      expect(list.keys[0].key).toBeUndefined();
+      expect(list.keys[0].keyHash).toBeUndefined();
+    });
+
+    it('authenticates API requests as the key owner', async () => {
+      const { data } = await createKey('user_123');
+
+      const response = await worker.fetch(new Request('http://localhost/api/sessions', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${data.key}` },
+      }), env);
+      const session = await response.json() as { userId: string };
+
+      expect(response.status).toBe(201);
+      expect(session.userId).toBe('user_123');
+    });
+
+    it('rejects unknown and revoked keys', async () => {
+      const { data } = await createKey('user_123');
+      const token = await createMockToken('user_123');
+      // Cached as valid before the revocation
+      const used = await worker.fetch(new Request('http://localhost/api/sessions', {
+        headers: { 'Authorization': `Bearer ${data.key}` },
+      }), env);
+      expect(used.status).toBe(200);
+
+      const revokeResponse = await worker.fetch(new Request(`http://localhost/api/keys/${data.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+      expect(revokeResponse.status).toBe(204);
+
+      for (const key of [data.key, 'ock_not-a-real-key']) {
+        const response = await worker.fetch(new Request('http://localhost/api/sessions', {
+          headers: { 'Authorization': `Bearer ${key}` },
+        }), env);
+        const body = await response.json() as { debug: string };
+        expect(response.status).toBe(401);
+        expect(body.debug).toBe('invalid_api_key');
+      }
+    });
+
+    it('relabels a key', async () => {
+      const { data } = await createKey('user_123');
+      const token = await createMockToken('user_123');
+
+      const response = await worker.fetch(new Request(`http://localhost/api/keys/${data.id}`, {
+        method: 'PATCH',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: 'nightly cron' }),
+      }), env);
+      const updated = await response.json() as { label: string };
+
+      expect(response.status).toBe(200);
+      expect(updated.label).toBe('nightly cron');
+    });
+
+    it("cannot revoke another user's key", async () => {
+      const { data } = await createKey('user_123');
+      const otherToken = await createMockToken('user_other');
+
+      const response = await worker.fetch(new Request(`http://localhost/api/keys/${data.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${otherToken}` },
+      }), env);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('does not allow managing keys with an API key', async () => {
+      const { data } = await createKey('user_123');
+
+      const response = await worker.fetch(new Request('http://localhost/api/keys', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${data.key}` },
+        body: JSON.stringify({ label: 'escalation' }),
+      }), env);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('validates expiresInDays', async () => {
+      const { response } = await createKey('user_123', { label: 'ci', expiresInDays: -1 });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('scopes', () => {
+    async function createScopedKey(scopes: unknown, sub: string = 'user_123') {
+      const token = await createMockToken(sub);
+      const response = await worker.fetch(new Request('http://localhost/api/keys', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: 'dashboard', scopes }),
+      }), env);
+      return { response, data: await response.json() as any };
+    }
+
+    function withKey(key: string, path: string, init: RequestInit = {}) {
+      return worker.fetch(new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${key}`, 'Content-Type': 'application/json' },
+      }), env);
+    }
+
+    it('lets a read-only key list sessions but not prompt or delete', async () => {
+      const { data } = await createScopedKey(['sessions:read']);
+      expect(data.scopes).toEqual(['sessions:read']);
+
+      const list = await withKey(data.key, '/sessions');
+      const prompt = await withKey(data.key, '/prompt', { method: 'POST', body: JSON.stringify({ prompt: 'hi' }) });
+      const remove = await withKey(data.key, '/sessions/some-id', { method: 'DELETE' });
+
+      expect(list.status).toBe(200);
+      expect(prompt.status).toBe(403);
+      expect(await prompt.json()).toMatchObject({ code: 'insufficient_scope', required: ['prompt:write'] });
+      expect(remove.status).toBe(403);
+    });
+
+    it('keeps keys without scopes unrestricted', async () => {
+      const { data } = await createScopedKey(undefined);
+
+      expect(data.scopes).toBeNull();
+      expect((await withKey(data.key, '/sessions', { method: 'POST' })).status).toBe(201);
+    });
+
+    it('requires the admin scope for admin routes', async () => {
+      const { data } = await createScopedKey(['sessions:read'], 'user_admin');
+      expect((await withKey(data.key, '/admin/users')).status).toBe(403);
+    });
+
+    it('rejects unknown or empty scope lists', async () => {
+      const unknown = await createScopedKey(['sessions:read', 'billing:write']);
+      const empty = await createScopedKey([]);
+
+      expect(unknown.response.status).toBe(400);
+      expect(unknown.data.invalid).toEqual(['billing:write']);
+      expect(empty.response.status).toBe(400);
+    });
+
+    it('carries the OAuth scope parameter through the device flow', async () => {
+      const start = await worker.fetch(new Request('http://localhost/auth/device', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'scope=sessions:read',
+      }), env);
+      const login = await start.json() as { device_code: string; user_code: string };
+
+      const token = await createMockToken('user_123');
+      await worker.fetch(new Request(`http://localhost/api/device/${login.user_code}/approve`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      }), env);
+
+      const response = await worker.fetch(new Request('http://localhost/auth/device/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: `grant_type=${encodeURIComponent('urn:ietf:params:oauth:grant-type:device_code')}&device_code=${login.device_code}`,
+      }), env);
+      const tokens = await response.json() as { access_token: string; scope: string };
+
+      expect(tokens.scope).toBe('sessions:read');
+      expect((await withKey(tokens.access_token, '/sessions', { method: 'POST' })).status).toBe(403);
+    });
+  });
+
+  describe('404 Not Found', () => {
+    it('returns 404 for unknown routes', async () => {
+      const request = new Request('http://localhost/unknown-route');
+      const response = await worker.fetch(request, env);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
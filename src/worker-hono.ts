@@ -6,8 +6,108 @@
  */
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { verifyClerkToken } from './auth/clerk.js';
+import { streamSSE } from 'hono/streaming';
+import { clerkOptionsFromEnv } from './auth/clerk.js';
+import { generateApiKey, hashApiKey } from './auth/api-keys.js';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  DEVICE_CODE_GRANT_TYPE,
+  DEVICE_CODE_TTL_SECONDS,
+  DEVICE_POLL_INTERVAL_SECONDS,
+  generateDeviceCode,
+  generateRefreshToken,
+  generateUserCode,
+  hashDeviceSecret,
+  normalizeUserCode,
+  readOAuthParams,
+  REFRESH_TOKEN_GRANT_TYPE,
+  REFRESH_TOKEN_TTL_SECONDS,
+  USER_CODE_PATTERN,
+} from './auth/device-flow.js';
+import type { DeviceTokenErrorCode } from './auth/device-flow.js';
+import {
+  generateInviteCode,
+  INVITE_CODE_PATTERN,
+  isInviteCodeUsable,
+  normalizeInviteCode,
+} from './auth/invite-codes.js';
+import { isUserRole, parseAdminUserIds, requireRole, resolveRole, roleFromClaims } from './auth/roles.js';
+import type { UserRole } from './auth/roles.js';
+import { createAuthMiddleware, getCookie } from './auth/provider.js';
+import type { AuthProvider, AuthVariables } from './auth/provider.js';
+import { ApiKeyProvider, ClerkCookieProvider, ClerkJwtProvider, CLERK_SESSION_COOKIE, DevBypassProvider } from './auth/providers.js';
+import { createCsrfMiddleware } from './auth/csrf.js';
+import { isApiScope, parseScopes, requireScope } from './auth/scopes.js';
+import { canAccessSession, canDeleteSession, orgFromClaims } from './auth/organizations.js';
+import type { OrgMembership } from './auth/organizations.js';
+import { generateShareToken, hashShareToken, isShareLinkActive } from './auth/share-links.js';
+import { canWriteSession, isSessionMemberRole, SESSION_MEMBER_ROLES } from './auth/session-members.js';
+import type { SessionMemberRole } from './auth/session-members.js';
+import type { ApiScope } from './auth/scopes.js';
+import { createRateLimitMiddleware, isRateLimitConfig, MAX_RATE_LIMIT_VALUE, parseRateLimitConfig, takeToken } from './auth/rate-limit.js';
+import type { RateLimitConfig, RateLimitDecision, TokenBucket } from './auth/rate-limit.js';
+import { evaluateQuota, isPlanId, PLAN_IDS, quotaPeriod } from './auth/plans.js';
+import type { PlanId, QuotaState, QuotaStatus, QuotaTopUp } from './auth/plans.js';
 import { OpenCodeService } from './opencode/opencode-client.js';
+import type { OpenCodeSession } from './opencode/opencode-client.js';
+import { parseUsageRange, summarizeUsage } from './opencode/usage.js';
+import { allowedModelIds, DEFAULT_MODEL, isKnownModel, MODEL_CATALOG, parseModelAllowlist } from './opencode/models.js';
+import { parseModelProviders } from './opencode/llm-providers.js';
+import { LLMProviderError } from './opencode/llm-provider.js';
+import { parseUpstreamConfig } from './opencode/retry.js';
+import { parseContextConfig } from './opencode/context-window.js';
+import { MAX_PERSONAS_PER_USER, parsePersonaInput, parseSystemPrompt } from './opencode/personas.js';
+import { ShardedSessionStore, userShardName } from './durable-objects/session-router.js';
+import { CachedDirectory, forgetDirectoryUser } from './durable-objects/directory-cache.js';
+import type { DirectoryLookups } from './durable-objects/directory-cache.js';
+import { parseIfMatch, parseMaxPromptsInFlight, PROMPT_LEASE_TTL_MS, PROMPT_RENEW_INTERVAL_MS, PromptLockQueue } from './durable-objects/prompt-lock.js';
+import type { PromptLockState } from './durable-objects/prompt-lock.js';
+import { ClerkWebhookPayloadError, handleClerkWebhookEvent, parseClerkWebhookEvent } from './webhooks/clerk-webhook.js';
+import { getSvixHeaders, verifySvixSignature, WebhookVerificationError } from './webhooks/svix.js';
+import type {
+  ApiKeyRecord,
+  ApiKeyStore,
+  CreateApiKeyInput,
+  CreateDeviceAuthorizationInput,
+  CreateRefreshTokenInput,
+  DeviceAuthorization,
+  DeviceAuthStore,
+  DevicePollResult,
+  CreateInviteCodeInput,
+  InviteCodeRecord,
+  InviteRedemption,
+  InviteStore,
+  ModelStore,
+  Persona,
+  PersonaInput,
+  PersonaStore,
+  PromptLeaseStore,
+  PromptLockResult,
+  RedeemInviteResult,
+  RefreshTokenOwner,
+  RoleStore,
+  SessionData,
+  SessionDirectoryStore,
+  SessionDurableObjectState,
+  SessionExport,
+  SessionShardStore,
+  SessionMember,
+  SessionSummary,
+  SharedSessionRef,
+  ConversationMessage,
+  CreateQuotaTopUpInput,
+  QuotaStore,
+  UsageRecord,
+  UsageRow,
+  CreateShareLinkInput,
+  RateLimitStore,
+  ShareLink,
+  ShareLinkStore,
+  UserDataPurgeResult,
+  UserProfile,
+  UserProfileStore,
+  UserSummary,
+} from './durable-objects/session-durable-object.js';
 import { DurableObject } from 'cloudflare:workers';
 
 /**
@@ -17,30 +117,186 @@ export interface Env {
   OPENCODE_API_KEY: string;
   CLERK_SECRET_KEY: string;
   CLERK_PUBLISHABLE_KEY: string;
+  CLERK_JWT_KEY?: string; // PEM public key for networkless JWT verification
+  CLERK_AUTHORIZED_PARTIES?: string; // Comma-separated origins accepted in `azp`
+  DEV_AUTH_BYPASS?: string; // "true" trusts X-Dev-User-Id (local development only)
+  ADMIN_USER_IDS?: string; // Comma-separated Clerk user IDs that are always admins
+  CLERK_WEBHOOK_SECRET?: string; // whsec_... signing secret of the Clerk webhook endpoint
+  PROMPT_RATE_LIMIT_PER_MINUTE?: string; // Sustained /api/prompt requests per user per minute (default 10)
+  PROMPT_RATE_LIMIT_BURST?: string; // /api/prompt requests a user may send back to back (default 20)
+  PROMPT_MAX_IN_FLIGHT?: string; // Prompts a user may have waiting or running at once (default 3)
+  OPENAI_COMPATIBLE_BASE_URL?: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  OPENAI_COMPATIBLE_API_KEY?: string; // Bearer token for OPENAI_COMPATIBLE_BASE_URL, if it needs one
+  ANTHROPIC_API_KEY?: string; // Enables models served by the Anthropic Messages API
+  MODEL_PROVIDERS?: string; // JSON map of model ID ("*" for all) to provider, e.g. {"*":"mock"} for offline development
+  LLM_MAX_ATTEMPTS?: string; // Calls per prompt when the provider answers 429/5xx, including the first (default 3)
+  LLM_TIMEOUT_MS?: string; // How long to wait for the provider (for streams: between chunks) before giving up (default 60000)
+  CONTEXT_STRATEGY?: string; // What to do with history that no longer fits the model's context: summarize (default) or truncate
+  CONTEXT_MAX_TOKENS?: string; // Cap on the context sent to any model, below the model's own window
+  SYSTEM_PROMPT?: string; // Sent first in every conversation, never dropped from the context
   SESSIONS: any; // DurableObjectNamespace - using any to avoid type issues
 }
 
 /**
- * Valid invitation codes for registration
- * Add your codes here to control who can sign up
+ * Variables stored in Hono context
  */
-const INVITATION_CODES = [
-  'FRIENDS-2025',
-  'TARO-FRIENDS',
-  'HANAKO-2025',
-  'DEMO-ACCESS',
-  'TEST-CODE-2025',
-  'EARLY-ADOPTER',
-  'BETA-TESTER',
-  'INVITE-ONLY',
-];
+type Variables = AuthVariables & {
+  role: UserRole;
+  /** Active Clerk organization of the caller, if any */
+  org: OrgMembership | null;
+};
 
 /**
- * Variables stored in Hono context
+ * Everything the Worker needs from the session store (Durable Object or in-memory)
  */
-type Variables = {
-  userId: string;
-};
+type SessionStore = SessionDurableObjectState
+  & ApiKeyStore
+  & InviteStore
+  & RoleStore
+  & UserProfileStore
+  & DeviceAuthStore
+  & ShareLinkStore
+  & RateLimitStore
+  & QuotaStore
+  & PromptLeaseStore
+  & PersonaStore
+  & ModelStore;
+
+// Upper bound for user-supplied API key labels
+const MAX_API_KEY_LABEL_LENGTH = 100;
+
+// Upper bound for the client name a CLI sends with a device authorization
+const MAX_DEVICE_CLIENT_NAME_LENGTH = 64;
+
+// Upper bound for the admin note on a quota top-up
+const MAX_TOP_UP_NOTE_LENGTH = 200;
+
+/**
+ * A conversation as served on a public share link (no user or session IDs)
+ */
+interface SharedConversation {
+  createdAt: number;
+  expiresAt: number | null;
+  messages: Array<{ role: string; content: string }>;
+}
+
+// Sessions moved per call of the storage migration endpoint
+const DEFAULT_MIGRATION_BATCH_SIZE = 100;
+const MAX_MIGRATION_BATCH_SIZE = 500;
+
+/**
+ * Map a sessions row
+ */
+function toSessionData(row: any): SessionData & { orgId: string | null } {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    createdAt: row.created_at as number,
+    orgId: (row.org_id as string | null) ?? null,
+    model: (row.model as string | null) ?? null,
+    systemPrompt: (row.system_prompt as string | null) ?? null,
+  };
+}
+
+/**
+ * Map a personas row
+ */
+function toPersona(row: any): Persona {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    systemPrompt: row.system_prompt as string,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+/**
+ * Map a session_members row
+ */
+function toSessionMember(row: any): SessionMember {
+  return {
+    userId: row.user_id as string,
+    role: row.role as SessionMemberRole,
+    addedBy: row.added_by as string,
+    addedAt: row.added_at as number,
+  };
+}
+
+/**
+ * Map a shared_sessions row
+ */
+function toSharedSessionRef(row: any): SharedSessionRef {
+  return {
+    shard: row.shard as string,
+    session: {
+      id: row.session_id as string,
+      userId: row.owner_id as string,
+      createdAt: row.created_at as number,
+      orgId: (row.org_id as string | null) ?? null,
+    },
+    role: row.role as SessionMemberRole,
+  };
+}
+
+/**
+ * Map a share_links row
+ */
+function toShareLink(row: any): ShareLink {
+  return {
+    id: row.id as string,
+    sessionId: row.session_id as string,
+    orgId: (row.org_id as string | null) ?? null,
+    createdBy: row.created_by as string,
+    createdAt: row.created_at as number,
+    expiresAt: (row.expires_at as number | null) ?? null,
+    revokedAt: (row.revoked_at as number | null) ?? null,
+  };
+}
+
+/**
+ * Map an invite_codes row (joined with its redemption count)
+ */
+function toInviteCodeRecord(row: any): InviteCodeRecord {
+  return {
+    code: row.code as string,
+    maxRedemptions: (row.max_redemptions as number | null) ?? null,
+    redemptionCount: (row.redemption_count as number) ?? 0,
+    expiresAt: (row.expires_at as number | null) ?? null,
+    createdBy: row.created_by as string,
+    notes: (row.notes as string | null) ?? null,
+    createdAt: row.created_at as number,
+    revokedAt: (row.revoked_at as number | null) ?? null,
+  };
+}
+
+/**
+ * Map an api_keys row to its public representation (never includes the hash)
+ */
+function toApiKeyRecord(row: any): ApiKeyRecord {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    label: row.label as string,
+    prefix: row.key_prefix as string,
+    createdAt: row.created_at as number,
+    lastUsedAt: (row.last_used_at as number | null) ?? null,
+    expiresAt: (row.expires_at as number | null) ?? null,
+    revokedAt: (row.revoked_at as number | null) ?? null,
+    scopes: scopesFromColumn(row.scopes),
+  };
+}
+
+/**
+ * Scopes are stored space-separated; NULL means an unrestricted credential
+ */
+function scopesToColumn(scopes: ApiScope[] | null): string | null {
+  return scopes ? scopes.join(' ') : null;
+}
+
+function scopesFromColumn(value: unknown): ApiScope[] | null {
+  return typeof value === 'string' ? value.split(' ').filter(isApiScope) : null;
+}
 
 /**
  * Hono app with Cloudflare Workers bindings
@@ -271,7 +527,7 @@ function createHomePage(publishableKey: string): string {
         type="text"
         id="inviteCode"
         class="invite-input"
-        placeholder="招待コードを入力（例: FRIENDS-2025）"
+        placeholder="招待コードを入力"
         autocomplete="off"
       >
       <div class="invite-hint">招待コードをお持ちでない方は、管理者にお問い合わせください</div>
@@ -292,9 +548,6 @@ function createHomePage(publishableKey: string): string {
   </div>
 
   <script>
-    // 有効な招待コードリスト（サーバー側と同じもの）
-    const VALID_CODES = ${JSON.stringify(INVITATION_CODES)};
-
     const inviteCodeInput = document.getElementById('inviteCode');
     const inviteError = document.getElementById('inviteError');
     const authContainer = document.getElementById('authContainer');
@@ -305,32 +558,68 @@ function createHomePage(publishableKey: string): string {
 
     let clerk = null;
     let inviteCodeValid = false;
+    let verifyTimer = null;
 
-    // 招待コード検証
+    // 招待コード検証（サーバー側で判定。コード一覧はブラウザに渡さない）
     inviteCodeInput.addEventListener('input', function() {
       const code = this.value.trim().toUpperCase();
+      clearTimeout(verifyTimer);
 
-      if (VALID_CODES.includes(code)) {
-        this.classList.remove('invalid');
-        this.classList.add('valid');
-        inviteError.classList.remove('show');
-        inviteCodeValid = true;
-        unlockSignUp();
-      } else if (code.length > 0) {
-        this.classList.remove('valid');
-        this.classList.add('invalid');
-        inviteError.textContent = '❌ 無効な招待コードです: ' + code;
-        inviteError.classList.add('show');
-        inviteCodeValid = false;
-        lockSignUp();
-      } else {
+      if (code.length === 0) {
         this.classList.remove('valid', 'invalid');
         inviteError.classList.remove('show');
         inviteCodeValid = false;
         lockSignUp();
+        return;
       }
+
+      verifyTimer = setTimeout(async () => {
+        let valid = false;
+        try {
+          const res = await fetch('/api/verify-invite?code=' + encodeURIComponent(code));
+          valid = (await res.json()).valid === true;
+        } catch (error) {
+          console.error('Invite verification error:', error);
+        }
+
+        // 入力が変わっていたら結果を捨てる
+        if (inviteCodeInput.value.trim().toUpperCase() !== code) return;
+
+        if (valid) {
+          inviteCodeInput.classList.remove('invalid');
+          inviteCodeInput.classList.add('valid');
+          inviteError.classList.remove('show');
+          inviteCodeValid = true;
+          unlockSignUp();
+        } else {
+          inviteCodeInput.classList.remove('valid');
+          inviteCodeInput.classList.add('invalid');
+          inviteError.textContent = '❌ 無効な招待コードです: ' + code;
+          inviteError.classList.add('show');
+          inviteCodeValid = false;
+          lockSignUp();
+        }
+      }, 300);
     });
 
+    // サインイン済みユーザーに招待コードを紐付ける（招待済みなら何もしない）
+    async function redeemInvite(token) {
+      const code = inviteCodeInput.value.trim().toUpperCase();
+      const headers = { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' };
+
+      if (!code) {
+        const status = await fetch('/api/invites/status', { headers });
+        return (await status.json()).invited === true;
+      }
+
+      const res = await fetch('/api/invites/redeem', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ code }),
+      });
+      return res.ok;
+    }
+
     function lockSignUp() {
       signInBtn.classList.add('hidden');
       getTokenBtn.classList.add('hidden');
@@ -350,17 +639,14 @@ function createHomePage(publishableKey: string): string {
 
         if (clerk.user) {
           authContainer.innerHTML = '<div class="signed-in-as">✓ Signed in as: ' + (clerk.user.primaryEmailAddress?.emailAddress || clerk.user.id) + '</div>';
-          if (inviteCodeValid) {
-            getTokenBtn.classList.remove('hidden');
-          }
+          // 招待済みかどうかはトークン取得時にサーバーが判定する
+          getTokenBtn.classList.remove('hidden');
         }
 
         clerk.addListener((resources) => {
           if (resources.user) {
             authContainer.innerHTML = '<div class="signed-in-as">✓ Signed in as: ' + (resources.user.primaryEmailAddress?.emailAddress || resources.user.id) + '</div>';
-            if (inviteCodeValid) {
-              getTokenBtn.classList.remove('hidden');
-            }
+            getTokenBtn.classList.remove('hidden');
           }
         });
       } catch (error) {
@@ -408,7 +694,11 @@ function createHomePage(publishableKey: string): string {
       try {
         const token = await clerk?.session?.getToken({ template: 'session' });
 
-        if (token) {
+        if (token && !(await redeemInvite(token))) {
+          tokenBox.textContent = '招待コードが登録されていません。有効な招待コードを入力してから再度お試しください。';
+          tokenSection.classList.add('show');
+          getTokenBtn.textContent = 'Get My Token';
+        } else if (token) {
           tokenBox.textContent = token;
           tokenSection.classList.add('show');
           getTokenBtn.textContent = '✓ Token Ready!';
@@ -440,65 +730,985 @@ function createHomePage(publishableKey: string): string {
 `;
 }
 
+/**
+ * CLI login approval page (device authorization flow)
+ */
+function createDevicePage(publishableKey: string, userCode: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>OpenCode - CLIログイン</title>
+  <!-- Clerk JS SDK -->
+  <script
+    async
+    crossorigin="anonymous"
+    data-clerk-publishable-key="${publishableKey}"
+    src="https://cdn.jsdelivr.net/npm/@clerk/clerk-js@5/dist/clerk.browser.js"
+  ></script>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      background: linear-gradient(135deg, #1e3a8a 0%, #7c3aed 100%);
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 20px;
+    }
+    .container {
+      background: white;
+      border-radius: 16px;
+      padding: 40px;
+      max-width: 500px;
+      width: 100%;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+    }
+    .logo {
+      font-size: 28px;
+      font-weight: bold;
+      color: #1e3a8a;
+      margin-bottom: 8px;
+      text-align: center;
+    }
+    .tagline {
+      color: #6b7280;
+      text-align: center;
+      margin-bottom: 30px;
+      font-size: 14px;
+    }
+    .code-input {
+      width: 100%;
+      padding: 12px 16px;
+      border: 2px solid #d1d5db;
+      border-radius: 8px;
+      font-size: 24px;
+      font-family: monospace;
+      letter-spacing: 4px;
+      text-align: center;
+      text-transform: uppercase;
+      margin-bottom: 16px;
+    }
+    .message {
+      font-size: 14px;
+      color: #374151;
+      text-align: center;
+      margin-bottom: 16px;
+      line-height: 1.5;
+    }
+    .message.error { color: #ef4444; }
+    .message.success { color: #10b981; font-weight: 600; }
+    .btn {
+      display: block;
+      width: 100%;
+      padding: 14px 24px;
+      background: #1e3a8a;
+      color: white;
+      border: none;
+      border-radius: 8px;
+      font-size: 16px;
+      font-weight: 600;
+      cursor: pointer;
+      margin-bottom: 12px;
+    }
+    .btn:disabled { background: #9ca3af; cursor: not-allowed; }
+    .btn-secondary { background: #6b7280; }
+    .hidden { display: none; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="logo">OpenCode 🤖</div>
+    <div class="tagline">CLIログインの承認</div>
+    <input type="text" id="userCode" class="code-input" placeholder="XXXX-XXXX" value="${userCode}" autocomplete="off">
+    <div id="message" class="message">認証を読み込み中...</div>
+    <button id="signInBtn" class="btn hidden">Sign In</button>
+    <button id="checkBtn" class="btn hidden">コードを確認</button>
+    <button id="approveBtn" class="btn hidden">承認する</button>
+    <button id="denyBtn" class="btn btn-secondary hidden">拒否する</button>
+  </div>
+  <script>
+    const userCodeInput = document.getElementById('userCode');
+    const message = document.getElementById('message');
+    const signInBtn = document.getElementById('signInBtn');
+    const checkBtn = document.getElementById('checkBtn');
+    const approveBtn = document.getElementById('approveBtn');
+    const denyBtn = document.getElementById('denyBtn');
+    let clerk = null;
+
+    function show(text, kind) {
+      message.textContent = text;
+      message.className = 'message' + (kind ? ' ' + kind : '');
+    }
+
+    // 承認APIの呼び出し（Clerkのセッショントークンが必要）
+    async function callApi(path, method) {
+      const token = await clerk.session.getToken();
+      const res = await fetch('/api/device/' + encodeURIComponent(userCodeInput.value.trim()) + path, {
+        method: method || 'GET',
+        headers: { 'Authorization': 'Bearer ' + token },
+      });
+      const body = await res.json().catch(() => ({}));
+      if (body.code === 'invite_required') {
+        throw new Error('招待コードが登録されていません。トップページで招待コードを登録してください。');
+      }
+      if (!res.ok) {
+        throw new Error(body.error || 'エラーが発生しました');
+      }
+      return body;
+    }
+
+    function showSignedIn() {
+      signInBtn.classList.add('hidden');
+      checkBtn.classList.remove('hidden');
+      show('✓ Signed in as: ' + (clerk.user.primaryEmailAddress?.emailAddress || clerk.user.id) + '。CLIに表示されたコードを確認してください。');
+    }
+
+    checkBtn.addEventListener('click', async () => {
+      try {
+        const info = await callApi('');
+        checkBtn.classList.add('hidden');
+        approveBtn.classList.remove('hidden');
+        denyBtn.classList.remove('hidden');
+        userCodeInput.disabled = true;
+        const access = info.scopes ? info.scopes.join(', ') : 'すべての操作';
+        show((info.clientName ? '「' + info.clientName + '」' : 'CLI') + ' があなたのアカウントへのアクセス（' + access + '）を求めています。心当たりがある場合のみ承認してください。');
+      } catch (error) {
+        show('❌ ' + error.message, 'error');
+      }
+    });
+
+    async function decide(action) {
+      approveBtn.disabled = true;
+      denyBtn.disabled = true;
+      try {
+        await callApi('/' + action, 'POST');
+        approveBtn.classList.add('hidden');
+        denyBtn.classList.add('hidden');
+        show(action === 'approve' ? '✓ 承認しました。CLIに戻ってください。' : 'ログインを拒否しました。', 'success');
+      } catch (error) {
+        show('❌ ' + error.message, 'error');
+        approveBtn.disabled = false;
+        denyBtn.disabled = false;
+      }
+    }
+    approveBtn.addEventListener('click', () => decide('approve'));
+    denyBtn.addEventListener('click', () => decide('deny'));
+    signInBtn.addEventListener('click', () => clerk.openSignIn());
+
+    // Wait for Clerk script to load
+    const checkClerk = setInterval(async () => {
+      if (!window.Clerk) return;
+      clearInterval(checkClerk);
+      try {
+        clerk = window.Clerk;
+        await clerk.load();
+        if (clerk.user) {
+          showSignedIn();
+        } else {
+          signInBtn.classList.remove('hidden');
+          show('承認するにはサインインしてください。');
+        }
+        clerk.addListener((resources) => {
+          if (resources.user) showSignedIn();
+        });
+      } catch (error) {
+        console.error('Clerk init error:', error);
+        show('認証の読み込みに失敗しました: ' + error.message, 'error');
+      }
+    }, 100);
+  </script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Read-only view of a shared conversation
+ */
+function createSharePage(shared: SharedConversation): string {
+  const messages = shared.messages.map(message => `
+    <div class="message ${message.role === 'user' ? 'user' : 'assistant'}">
+      <div class="role">${message.role === 'user' ? 'ユーザー' : 'AI'}</div>
+      <div class="content">${escapeHtml(message.content)}</div>
+    </div>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>OpenCode - 共有された会話</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      background: linear-gradient(135deg, #1e3a8a 0%, #7c3aed 100%);
+      min-height: 100vh;
+      padding: 20px;
+    }
+    .container {
+      background: white;
+      border-radius: 16px;
+      padding: 40px;
+      max-width: 800px;
+      margin: 0 auto;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+    }
+    .logo {
+      font-size: 28px;
+      font-weight: bold;
+      color: #1e3a8a;
+      margin-bottom: 8px;
+      text-align: center;
+    }
+    .tagline {
+      color: #6b7280;
+      text-align: center;
+      margin-bottom: 30px;
+      font-size: 14px;
+    }
+    .message {
+      border-radius: 12px;
+      padding: 16px;
+      margin-bottom: 12px;
+    }
+    .message.user { background: #eff6ff; }
+    .message.assistant { background: #f5f3ff; }
+    .role {
+      font-size: 12px;
+      font-weight: bold;
+      color: #6b7280;
+      margin-bottom: 6px;
+    }
+    .content {
+      white-space: pre-wrap;
+      word-break: break-word;
+      color: #111827;
+      line-height: 1.6;
+    }
+    .empty {
+      color: #6b7280;
+      text-align: center;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="logo">OpenCode</div>
+    <div class="tagline">共有された会話（読み取り専用）</div>
+    ${messages || '<p class="empty">まだメッセージがありません</p>'}
+  </div>
+</body>
+</html>
+`;
+}
+
 /**
  * In-memory session store for local development fallback
  * Used when SESSIONS binding is not available (e.g., local dev without --remote)
  */
-class InMemorySessionStore {
-  private sessions = new Map<string, { id: string; userId: string; createdAt: number }>();
-  private messages = new Map<string, Array<{ role: string; content: string }>>();
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionData & { orgId: string | null }>();
+  private messages = new Map<string, ConversationMessage[]>();
+  private summaries = new Map<string, SessionSummary>();
+  private personas = new Map<string, Persona & { userId: string }>();
+  private members = new Map<string, Map<string, SessionMember>>();
+  private apiKeys = new Map<string, ApiKeyRecord & { keyHash: string }>();
+  private invitedUsers = new Map<string, { email: string; inviteCode: string; createdAt: number }>();
+  private inviteCodes = new Map<string, Omit<InviteCodeRecord, 'redemptionCount'>>();
+  private userRoles = new Map<string, UserRole>();
+  private userProfiles = new Map<string, UserProfile & { deletedAt: number | null }>();
+  private deviceAuthorizations = new Map<string, DeviceAuthorization & { interval: number; lastPolledAt: number | null }>();
+  private refreshTokens = new Map<string, CreateRefreshTokenInput & { userId: string; revokedAt: number | null }>();
+  private shareLinks = new Map<string, ShareLink & { tokenHash: string }>();
+  private rateLimitBuckets = new Map<string, TokenBucket>();
+  private rateLimitOverrides = new Map<string, RateLimitConfig>();
+  private usage: Array<UsageRecord & { userId: string }> = [];
+  private userPlans = new Map<string, PlanId>();
+  private allowedModels: string[] | null = null;
+  private quotaTopUps: Array<QuotaTopUp & { userId: string }> = [];
+  private promptLocks = new PromptLockQueue();
+  private promptLeases = new Map<string, { userId: string; expiresAt: number }>();
   private sessionCounter = 0;
+  private messageCounter = 0;
 
-  async createSession(userId: string): Promise<{ id: string; userId: string; createdAt: number }> {
+  async createSession(userId: string, orgId: string | null = null, model: string | null = null, systemPrompt: string | null = null): Promise<SessionData> {
     const session = {
       id: `opencode-${Date.now()}-${this.sessionCounter++}`,
       userId,
       createdAt: Date.now(),
+      orgId,
+      model,
+      systemPrompt,
     };
     this.sessions.set(session.id, session);
     this.messages.set(session.id, []);
     return session;
   }
 
-  async getSession(sessionId: string, userId: string): Promise<{ id: string; userId: string; createdAt: number } | null> {
+  async getSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionData | null> {
     const session = this.sessions.get(sessionId);
-    if (session && session.userId === userId) {
+    if (session && canAccessSession(session, userId, org)) {
       return session;
     }
+    const member = this.members.get(sessionId)?.get(userId);
+    if (session && member) {
+      return { ...session, memberRole: member.role };
+    }
     return null;
   }
 
-  async deleteSession(sessionId: string, userId: string): Promise<boolean> {
+  async deleteSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
     const session = this.sessions.get(sessionId);
-    if (session && session.userId === userId) {
+    if (session && canDeleteSession(session, userId, org)) {
       this.sessions.delete(sessionId);
       this.messages.delete(sessionId);
+      this.summaries.delete(sessionId);
+      this.members.delete(sessionId);
+      for (const link of Array.from(this.shareLinks.values())) {
+        if (link.sessionId === sessionId) {
+          this.shareLinks.delete(link.id);
+        }
+      }
       return true;
     }
     return false;
   }
 
-  async listUserSessions(userId: string): Promise<Array<{ id: string; userId: string; createdAt: number }>> {
-    return Array.from(this.sessions.values()).filter(s => s.userId === userId);
+  async createShareLink(userId: string, input: CreateShareLinkInput): Promise<ShareLink> {
+    const link = {
+      id: `share-${Date.now()}-${this.shareLinks.size}`,
+      sessionId: input.sessionId,
+      orgId: input.orgId,
+      createdBy: userId,
+      createdAt: Date.now(),
+      expiresAt: input.expiresAt,
+      revokedAt: null,
+    };
+    this.shareLinks.set(link.id, { ...link, tokenHash: input.tokenHash });
+    return link;
   }
 
-  async addMessage(sessionId: string, userId: string, message: { role: string; content: string }): Promise<void> {
-    const session = this.sessions.get(sessionId);
-    if (!session || session.userId !== userId) {
+  async getShareLink(tokenHash: string): Promise<ShareLink | null> {
+    const link = Array.from(this.shareLinks.values()).find(l => l.tokenHash === tokenHash);
+    if (!link) {
+      return null;
+    }
+    const { tokenHash: _, ...record } = link;
+    return record;
+  }
+
+  async listShareLinks(sessionId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.sessionId === sessionId)
+      .map(({ tokenHash: _, ...record }) => record);
+  }
+
+  async revokeShareLink(sessionId: string, shareId: string): Promise<boolean> {
+    const link = this.shareLinks.get(shareId);
+    if (!link || link.sessionId !== sessionId || link.revokedAt !== null) {
+      return false;
+    }
+    link.revokedAt = Date.now();
+    return true;
+  }
+
+  async listUserSessions(userId: string, org?: OrgMembership | null): Promise<SessionData[]> {
+    const sessions = await Promise.all(Array.from(this.sessions.keys(), id => this.getSession(id, userId, org)));
+    return sessions.filter((s): s is SessionData => s !== null);
+  }
+
+  async addMessage(sessionId: string, userId: string, message: ConversationMessage, org?: OrgMembership | null): Promise<number> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
       throw new Error('Session not found or access denied');
     }
+    const id = ++this.messageCounter;
     const history = this.messages.get(sessionId) || [];
-    history.push(message);
+    history.push({
+      id,
+      role: message.role,
+      content: message.content,
+      authorId: message.role === 'user' ? userId : null,
+      ...(message.aborted ? { aborted: true } : {}),
+      ...(message.cancelled ? { cancelled: true } : {}),
+    });
     this.messages.set(sessionId, history);
+    return id;
   }
 
-  async getConversationHistory(sessionId: string, userId: string): Promise<Array<{ role: string; content: string }>> {
-    const session = this.sessions.get(sessionId);
-    if (!session || session.userId !== userId) {
+  async deleteMessage(sessionId: string, userId: string, messageId: number, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    const history = this.messages.get(sessionId);
+    const index = history?.findIndex(m => m.id === messageId && m.authorId === userId) ?? -1;
+    if (!session || !canWriteSession(session) || !history || index === -1) {
+      return false;
+    }
+    history.splice(index, 1);
+    return true;
+  }
+
+  async getConversationHistory(sessionId: string, userId: string, org?: OrgMembership | null): Promise<ConversationMessage[]> {
+    if (!(await this.getSession(sessionId, userId, org))) {
       return [];
     }
     return this.messages.get(sessionId) || [];
   }
+
+  async setSessionModel(sessionId: string, userId: string, model: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    const stored = this.sessions.get(sessionId);
+    if (!session || !stored || !canWriteSession(session)) {
+      return null;
+    }
+    stored.model = model;
+    return { ...session, model };
+  }
+
+  async setSessionSystemPrompt(sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    const stored = this.sessions.get(sessionId);
+    if (!session || !stored || !canWriteSession(session)) {
+      return null;
+    }
+    stored.systemPrompt = systemPrompt;
+    return { ...session, systemPrompt };
+  }
+
+  async getSessionSummary(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionSummary | null> {
+    return (await this.getSession(sessionId, userId, org)) ? this.summaries.get(sessionId) ?? null : null;
+  }
+
+  async setSessionSummary(sessionId: string, userId: string, summary: SessionSummary, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return false;
+    }
+    this.summaries.set(sessionId, summary);
+    return true;
+  }
+
+  async listPersonas(userId: string): Promise<Persona[]> {
+    return Array.from(this.personas.values())
+      .filter(persona => persona.userId === userId)
+      .map(({ userId: _owner, ...persona }) => persona);
+  }
+
+  async getPersona(userId: string, personaId: string): Promise<Persona | null> {
+    const persona = this.personas.get(personaId);
+    if (!persona || persona.userId !== userId) {
+      return null;
+    }
+    const { userId: _owner, ...record } = persona;
+    return record;
+  }
+
+  async createPersona(userId: string, input: PersonaInput, max: number): Promise<Persona | null> {
+    if ((await this.listPersonas(userId)).length >= max) {
+      return null;
+    }
+    const now = Date.now();
+    const persona = { id: `persona-${now}-${this.sessionCounter++}`, ...input, createdAt: now, updatedAt: now };
+    this.personas.set(persona.id, { ...persona, userId });
+    return persona;
+  }
+
+  async updatePersona(userId: string, personaId: string, input: Partial<PersonaInput>): Promise<Persona | null> {
+    const persona = this.personas.get(personaId);
+    if (!persona || persona.userId !== userId) {
+      return null;
+    }
+    Object.assign(persona, input, { updatedAt: Date.now() });
+    return this.getPersona(userId, personaId);
+  }
+
+  async deletePersona(userId: string, personaId: string): Promise<boolean> {
+    return (await this.getPersona(userId, personaId)) !== null && this.personas.delete(personaId);
+  }
+
+  async getAllowedModels(): Promise<string[] | null> {
+    return this.allowedModels;
+  }
+
+  async setAllowedModels(models: string[] | null, _updatedBy: string): Promise<void> {
+    this.allowedModels = models;
+  }
+
+  async acquirePromptLock(sessionId: string, userId: string, ifMatch: number | null, org?: OrgMembership | null): Promise<PromptLockResult> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (ifMatch !== null) {
+      const lastMessageId = this.messages.get(sessionId)?.at(-1)?.id ?? null;
+      if (this.promptLocks.isLocked(sessionId) || lastMessageId !== ifMatch) {
+        return { ok: false, reason: 'conflict', lastMessageId };
+      }
+    }
+
+    const lockId = await this.promptLocks.acquire(sessionId);
+    return lockId ? { ok: true, lockId } : { ok: false, reason: 'busy' };
+  }
+
+  async releasePromptLock(sessionId: string, _userId: string, lockId: string): Promise<void> {
+    this.promptLocks.release(sessionId, lockId);
+  }
+
+  async renewPromptLock(sessionId: string, _userId: string, lockId: string): Promise<PromptLockState> {
+    return this.promptLocks.renew(sessionId, lockId);
+  }
+
+  async cancelPrompt(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    return !!session && canWriteSession(session) && this.promptLocks.cancel(sessionId);
+  }
+
+  async beginPrompt(userId: string, max: number): Promise<string | null> {
+    const now = Date.now();
+    const inFlight = Array.from(this.promptLeases.values()).filter(lease => lease.userId === userId && lease.expiresAt > now);
+    if (inFlight.length >= max) {
+      return null;
+    }
+    const leaseId = `lease-${now}-${Math.random().toString(36).substring(2, 11)}`;
+    this.promptLeases.set(leaseId, { userId, expiresAt: now + PROMPT_LEASE_TTL_MS });
+    return leaseId;
+  }
+
+  async renewPrompt(userId: string, leaseId: string): Promise<boolean> {
+    const lease = this.promptLeases.get(leaseId);
+    if (lease?.userId !== userId || lease.expiresAt <= Date.now()) {
+      return false;
+    }
+    lease.expiresAt = Date.now() + PROMPT_LEASE_TTL_MS;
+    return true;
+  }
+
+  async endPrompt(userId: string, leaseId: string): Promise<void> {
+    if (this.promptLeases.get(leaseId)?.userId === userId) {
+      this.promptLeases.delete(leaseId);
+    }
+  }
+
+  async addSessionMember(
+    sessionId: string,
+    userId: string,
+    member: { userId: string; role: SessionMemberRole },
+    org?: OrgMembership | null
+  ): Promise<SessionMember | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !canDeleteSession(session, userId, org)) {
+      return null;
+    }
+    const members = this.members.get(sessionId) ?? new Map<string, SessionMember>();
+    const existing = members.get(member.userId);
+    const record = { userId: member.userId, role: member.role, addedBy: existing?.addedBy ?? userId, addedAt: existing?.addedAt ?? Date.now() };
+    members.set(member.userId, record);
+    this.members.set(sessionId, members);
+    return record;
+  }
+
+  async removeSessionMember(sessionId: string, userId: string, memberId: string, org?: OrgMembership | null): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || (memberId !== userId && !canDeleteSession(session, userId, org))) {
+      return false;
+    }
+    return this.members.get(sessionId)?.delete(memberId) ?? false;
+  }
+
+  async listSessionMembers(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionMember[] | null> {
+    if (!(await this.getSession(sessionId, userId, org))) {
+      return null;
+    }
+    return Array.from(this.members.get(sessionId)?.values() ?? []);
+  }
+
+  private getInviteCode(inviteCode: string): InviteCodeRecord | null {
+    const record = this.inviteCodes.get(normalizeInviteCode(inviteCode));
+    if (!record) {
+      return null;
+    }
+    const redemptionCount = Array.from(this.invitedUsers.values()).filter(u => u.inviteCode === record.code).length;
+    return { ...record, redemptionCount };
+  }
+
+  async checkInviteCode(inviteCode: string): Promise<boolean> {
+    const record = this.getInviteCode(inviteCode);
+    return record !== null && isInviteCodeUsable(record);
+  }
+
+  async redeemInviteCode(userId: string, email: string, inviteCode: string): Promise<RedeemInviteResult> {
+    if (this.invitedUsers.has(userId)) {
+      return { ok: true, alreadyInvited: true };
+    }
+    if (!(await this.checkInviteCode(inviteCode))) {
+      return { ok: false, reason: 'invalid_code' };
+    }
+    this.invitedUsers.set(userId, { email, inviteCode: normalizeInviteCode(inviteCode), createdAt: Date.now() });
+    return { ok: true, alreadyInvited: false };
+  }
+
+  async createInviteCode(input: CreateInviteCodeInput): Promise<InviteCodeRecord | null> {
+    if (this.inviteCodes.has(input.code)) {
+      return null;
+    }
+    const record = { ...input, createdAt: Date.now(), revokedAt: null };
+    this.inviteCodes.set(input.code, record);
+    return { ...record, redemptionCount: 0 };
+  }
+
+  async listInviteCodes(): Promise<InviteCodeRecord[]> {
+    return Array.from(this.inviteCodes.keys()).map(code => this.getInviteCode(code)!);
+  }
+
+  async revokeInviteCode(inviteCode: string): Promise<boolean> {
+    const record = this.inviteCodes.get(normalizeInviteCode(inviteCode));
+    if (!record || record.revokedAt !== null) {
+      return false;
+    }
+    record.revokedAt = Date.now();
+    return true;
+  }
+
+  async listInviteRedemptions(inviteCode: string): Promise<InviteRedemption[]> {
+    const code = normalizeInviteCode(inviteCode);
+    return Array.from(this.invitedUsers.entries())
+      .filter(([, u]) => u.inviteCode === code)
+      .map(([userId, u]) => ({ userId, email: u.email, redeemedAt: u.createdAt }));
+  }
+
+  async isUserInvited(userId: string): Promise<boolean> {
+    return this.invitedUsers.has(userId);
+  }
+
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    return this.userRoles.get(userId) ?? null;
+  }
+
+  async setUserRole(userId: string, role: UserRole, _updatedBy: string): Promise<void> {
+    this.userRoles.set(userId, role);
+  }
+
+  async listUsers(): Promise<UserSummary[]> {
+    const userIds = new Set([
+      ...this.invitedUsers.keys(),
+      ...this.userRoles.keys(),
+      ...Array.from(this.sessions.values(), s => s.userId),
+    ]);
+    return Array.from(userIds, userId => {
+      const invite = this.invitedUsers.get(userId);
+      const profile = this.userProfiles.get(userId);
+      const sessions = Array.from(this.sessions.values()).filter(s => s.userId === userId);
+      return {
+        userId,
+        email: profile?.email || invite?.email || null,
+        name: profile?.name ?? null,
+        storedRole: this.userRoles.get(userId) ?? null,
+        metadataRole: profile?.metadataRole ?? null,
+        inviteCode: invite?.inviteCode ?? null,
+        invitedAt: invite?.createdAt ?? null,
+        sessionCount: sessions.length,
+        lastSessionAt: sessions.length > 0 ? Math.max(...sessions.map(s => s.createdAt)) : null,
+      };
+    });
+  }
+
+  async upsertUserProfile(profile: UserProfile): Promise<boolean> {
+    const existing = this.userProfiles.get(profile.userId);
+    if (existing && (existing.deletedAt !== null || existing.updatedAt > profile.updatedAt)) {
+      return false;
+    }
+    this.userProfiles.set(profile.userId, { ...profile, deletedAt: null });
+    return true;
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    const profile = this.userProfiles.get(userId);
+    if (!profile || profile.deletedAt !== null) {
+      return null;
+    }
+    const { deletedAt, ...rest } = profile;
+    return rest;
+  }
+
+  async purgeUserData(userId: string): Promise<UserDataPurgeResult> {
+    const result = { sessions: 0, messages: 0, apiKeys: 0 };
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && session.orgId === null) {
+        result.sessions++;
+        result.messages += this.messages.get(session.id)?.length ?? 0;
+        this.sessions.delete(session.id);
+        this.messages.delete(session.id);
+        this.summaries.delete(session.id);
+        this.members.delete(session.id);
+      }
+    }
+    for (const members of this.members.values()) {
+      members.delete(userId);
+    }
+    for (const key of Array.from(this.apiKeys.values())) {
+      if (key.userId === userId) {
+        result.apiKeys++;
+        this.apiKeys.delete(key.id);
+      }
+    }
+    for (const [hash, token] of Array.from(this.refreshTokens.entries())) {
+      if (token.userId === userId) {
+        this.refreshTokens.delete(hash);
+      }
+    }
+    for (const link of Array.from(this.shareLinks.values())) {
+      if (link.createdBy === userId) {
+        this.shareLinks.delete(link.id);
+      }
+    }
+    this.rateLimitBuckets.delete(userId);
+    this.rateLimitOverrides.delete(userId);
+    this.usage = this.usage.filter(record => record.userId !== userId);
+    this.userPlans.delete(userId);
+    this.quotaTopUps = this.quotaTopUps.filter(topUp => topUp.userId !== userId);
+    for (const [personaId, persona] of Array.from(this.personas.entries())) {
+      if (persona.userId === userId) {
+        this.personas.delete(personaId);
+      }
+    }
+    for (const [leaseId, lease] of Array.from(this.promptLeases.entries())) {
+      if (lease.userId === userId) {
+        this.promptLeases.delete(leaseId);
+      }
+    }
+    this.userRoles.delete(userId);
+    const invite = this.invitedUsers.get(userId);
+    if (invite) {
+      invite.email = '';
+    }
+    this.userProfiles.set(userId, { userId, email: null, name: null, metadataRole: null, updatedAt: Date.now(), deletedAt: Date.now() });
+    return result;
+  }
+
+  async recordUsage(userId: string, record: UsageRecord): Promise<void> {
+    this.usage.push({ ...record, userId });
+  }
+
+  async listUsage(userId: string, from: number, to: number): Promise<UsageRow[]> {
+    const rows = new Map<string, UsageRow>();
+    for (const record of this.usage) {
+      if (record.userId !== userId || record.createdAt < from || record.createdAt >= to) {
+        continue;
+      }
+      const day = new Date(record.createdAt).toISOString().slice(0, 10);
+      const key = `${day}/${record.sessionId}/${record.model}`;
+      const row = rows.get(key) ?? { day, sessionId: record.sessionId, model: record.model, requests: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0 };
+      row.requests++;
+      row.promptTokens += record.promptTokens;
+      row.completionTokens += record.completionTokens;
+      row.latencyMs += record.latencyMs;
+      rows.set(key, row);
+    }
+    return Array.from(rows.values());
+  }
+
+  async setUserPlan(userId: string, plan: PlanId | null, _updatedBy: string): Promise<void> {
+    if (plan) {
+      this.userPlans.set(userId, plan);
+    } else {
+      this.userPlans.delete(userId);
+    }
+  }
+
+  async addQuotaTopUp(userId: string, input: CreateQuotaTopUpInput): Promise<QuotaTopUp> {
+    const topUp = {
+      id: `topup-${Date.now()}-${this.quotaTopUps.length}`,
+      tokens: input.tokens,
+      requests: input.requests,
+      grantedBy: input.grantedBy,
+      note: input.note,
+      createdAt: Date.now(),
+    };
+    this.quotaTopUps.push({ ...topUp, userId });
+    return topUp;
+  }
+
+  async getQuotaState(userId: string, from: number, to: number): Promise<QuotaState> {
+    const inRange = (createdAt: number) => createdAt >= from && createdAt < to;
+    const usage = this.usage.filter(record => record.userId === userId && inRange(record.createdAt));
+    return {
+      plan: this.userPlans.get(userId) ?? null,
+      topUps: this.quotaTopUps
+        .filter(topUp => topUp.userId === userId && inRange(topUp.createdAt))
+        .map(({ userId: _, ...topUp }) => topUp),
+      used: {
+        tokens: usage.reduce((sum, record) => sum + record.promptTokens + record.completionTokens, 0),
+        requests: usage.length,
+      },
+    };
+  }
+
+  async consumeRateLimit(userId: string, defaults: RateLimitConfig): Promise<RateLimitDecision> {
+    const config = this.rateLimitOverrides.get(userId) ?? defaults;
+    const { bucket, decision } = takeToken(this.rateLimitBuckets.get(userId) ?? null, config);
+    this.rateLimitBuckets.set(userId, bucket);
+    return decision;
+  }
+
+  async getRateLimitOverride(userId: string): Promise<RateLimitConfig | null> {
+    return this.rateLimitOverrides.get(userId) ?? null;
+  }
+
+  async setRateLimitOverride(userId: string, config: RateLimitConfig | null, _updatedBy: string): Promise<void> {
+    if (config) {
+      this.rateLimitOverrides.set(userId, config);
+    } else {
+      this.rateLimitOverrides.delete(userId);
+    }
+  }
+
+  async createDeviceAuthorization(input: CreateDeviceAuthorizationInput): Promise<void> {
+    this.deviceAuthorizations.set(input.deviceCodeHash, {
+      userCode: input.userCode,
+      clientName: input.clientName,
+      scopes: input.scopes,
+      status: 'pending',
+      userId: null,
+      createdAt: Date.now(),
+      expiresAt: input.expiresAt,
+      interval: input.interval,
+      lastPolledAt: null,
+    });
+  }
+
+  async getDeviceAuthorization(userCode: string): Promise<DeviceAuthorization | null> {
+    const record = Array.from(this.deviceAuthorizations.values()).find(d => d.userCode === userCode);
+    if (!record) {
+      return null;
+    }
+    const { interval, lastPolledAt, ...authorization } = record;
+    return authorization;
+  }
+
+  async decideDeviceAuthorization(userCode: string, userId: string, approve: boolean): Promise<boolean> {
+    const record = Array.from(this.deviceAuthorizations.values()).find(d => d.userCode === userCode);
+    if (!record || record.status !== 'pending' || record.expiresAt <= Date.now()) {
+      return false;
+    }
+    record.status = approve ? 'approved' : 'denied';
+    record.userId = userId;
+    return true;
+  }
+
+  async pollDeviceAuthorization(deviceCodeHash: string): Promise<DevicePollResult> {
+    const record = this.deviceAuthorizations.get(deviceCodeHash);
+    const now = Date.now();
+    if (!record || record.status === 'consumed') {
+      return { status: 'not_found' };
+    }
+    if (record.expiresAt <= now) {
+      return { status: 'expired' };
+    }
+    if (record.status === 'denied') {
+      return { status: 'denied' };
+    }
+    if (record.status === 'approved') {
+      record.status = 'consumed';
+      return { status: 'approved', userId: record.userId!, clientName: record.clientName, scopes: record.scopes };
+    }
+
+    const tooFast = record.lastPolledAt !== null && now - record.lastPolledAt < record.interval * 1000;
+    record.lastPolledAt = now;
+    if (tooFast) {
+      record.interval += 5;
+      return { status: 'slow_down' };
+    }
+    return { status: 'pending' };
+  }
+
+  async createRefreshToken(userId: string, input: CreateRefreshTokenInput): Promise<void> {
+    this.refreshTokens.set(input.tokenHash, { ...input, userId, revokedAt: null });
+  }
+
+  async consumeRefreshToken(tokenHash: string): Promise<RefreshTokenOwner | null> {
+    const token = this.refreshTokens.get(tokenHash);
+    if (!token || token.revokedAt !== null || token.expiresAt <= Date.now()) {
+      return null;
+    }
+    token.revokedAt = Date.now();
+
+    const accessToken = this.apiKeys.get(token.apiKeyId);
+    this.apiKeys.delete(token.apiKeyId);
+    if (!accessToken || accessToken.revokedAt !== null) {
+      return null;
+    }
+    return { userId: token.userId, clientName: token.clientName, scopes: token.scopes };
+  }
+
+  async createApiKey(userId: string, input: CreateApiKeyInput): Promise<ApiKeyRecord> {
+    const record = {
+      id: `key-${Date.now()}-${this.sessionCounter++}`,
+      userId,
+      label: input.label,
+      prefix: input.prefix,
+      createdAt: Date.now(),
+      lastUsedAt: null,
+      expiresAt: input.expiresAt,
+      revokedAt: null,
+      scopes: input.scopes,
+      keyHash: input.keyHash,
+    };
+    this.apiKeys.set(record.id, record);
+    const { keyHash, ...publicRecord } = record;
+    return publicRecord;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(k => k.userId === userId)
+      .map(({ keyHash, ...publicRecord }) => publicRecord);
+  }
+
+  async updateApiKeyLabel(userId: string, keyId: string, label: string): Promise<ApiKeyRecord | null> {
+    const record = this.apiKeys.get(keyId);
+    if (!record || record.userId !== userId) {
+      return null;
+    }
+    record.label = label;
+    const { keyHash, ...publicRecord } = record;
+    return publicRecord;
+  }
+
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    const record = this.apiKeys.get(keyId);
+    if (!record || record.userId !== userId || record.revokedAt !== null) {
+      return false;
+    }
+    record.revokedAt = Date.now();
+    return true;
+  }
+
+  async verifyApiKey(keyHash: string): Promise<{ userId: string; keyId: string; scopes: ApiScope[] | null } | null> {
+    const now = Date.now();
+    for (const record of this.apiKeys.values()) {
+      if (record.keyHash === keyHash && record.revokedAt === null && (record.expiresAt === null || record.expiresAt > now)) {
+        record.lastUsedAt = now;
+        return { userId: record.userId, keyId: record.id, scopes: record.scopes };
+      }
+    }
+    return null;
+  }
 }
 
 /**
@@ -506,13 +1716,16 @@ class InMemorySessionStore {
  *
  * Stores sessions and conversation history in SQLite database
  */
-export class SessionDurableObject extends DurableObject {
-  // Unique ID for this Durable Object (singleton pattern)
+export class SessionDurableObject extends DurableObject implements SessionStore, SessionShardStore, SessionDirectoryStore, RateLimitStore, QuotaStore, PromptLeaseStore, PersonaStore, ModelStore {
+  // Name of the directory instance; sessions live in per-user / per-org shards (see session-router.ts)
   static readonly id = 'SESSION_DURABLE_OBJECT';
 
   // Flag to track if DB has been initialized
   private dbInitialized = false;
 
+  // One prompt at a time per session held by this shard
+  private promptLocks = new PromptLockQueue();
+
   constructor(state: any, env: any) {
     super(state, env);
   }
@@ -541,405 +1754,2694 @@ export class SessionDurableObject extends DurableObject {
     sql.exec('CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)');
     sql.exec('CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id)');
     sql.exec('CREATE INDEX IF NOT EXISTS idx_invited_users_email ON invited_users(email)');
+    sql.exec('CREATE TABLE IF NOT EXISTS invite_codes (code TEXT PRIMARY KEY, max_redemptions INTEGER, expires_at INTEGER, created_by TEXT NOT NULL, notes TEXT, created_at INTEGER NOT NULL, revoked_at INTEGER)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_invited_users_invite_code ON invited_users(invite_code)');
+    sql.exec('CREATE TABLE IF NOT EXISTS user_roles (user_id TEXT PRIMARY KEY, role TEXT NOT NULL, updated_by TEXT NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS api_keys (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, label TEXT NOT NULL, key_hash TEXT NOT NULL UNIQUE, key_prefix TEXT NOT NULL, created_at INTEGER NOT NULL, last_used_at INTEGER, expires_at INTEGER, revoked_at INTEGER)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS device_authorizations (device_code_hash TEXT PRIMARY KEY, user_code TEXT NOT NULL UNIQUE, client_name TEXT, status TEXT NOT NULL, user_id TEXT, interval INTEGER NOT NULL, last_polled_at INTEGER, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS refresh_tokens (token_hash TEXT PRIMARY KEY, user_id TEXT NOT NULL, api_key_id TEXT NOT NULL, client_name TEXT, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL, revoked_at INTEGER)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS user_profiles (user_id TEXT PRIMARY KEY, email TEXT, name TEXT, updated_at INTEGER NOT NULL, deleted_at INTEGER)');
+    sql.exec('CREATE TABLE IF NOT EXISTS session_index (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, org_id TEXT, created_at INTEGER NOT NULL)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_session_index_user_id ON session_index(user_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS share_links (id TEXT PRIMARY KEY, token_hash TEXT NOT NULL UNIQUE, session_id TEXT NOT NULL, org_id TEXT, created_by TEXT NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER, revoked_at INTEGER)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_share_links_session_id ON share_links(session_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS model_usage (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id TEXT NOT NULL, session_id TEXT NOT NULL, model TEXT NOT NULL, prompt_tokens INTEGER NOT NULL, completion_tokens INTEGER NOT NULL, latency_ms INTEGER NOT NULL, created_at INTEGER NOT NULL)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_model_usage_user_created ON model_usage(user_id, created_at)');
+    sql.exec('CREATE TABLE IF NOT EXISTS user_plans (user_id TEXT PRIMARY KEY, plan TEXT NOT NULL, updated_by TEXT NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS quota_top_ups (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, tokens INTEGER NOT NULL, requests INTEGER NOT NULL, granted_by TEXT NOT NULL, note TEXT, created_at INTEGER NOT NULL)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_quota_top_ups_user_created ON quota_top_ups(user_id, created_at)');
+    sql.exec('CREATE TABLE IF NOT EXISTS personas (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL, system_prompt TEXT NOT NULL, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_personas_user_id ON personas(user_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS allowed_models (model TEXT PRIMARY KEY, updated_by TEXT NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS prompt_leases (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, expires_at INTEGER NOT NULL)');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_prompt_leases_user_id ON prompt_leases(user_id)');
+    sql.exec('CREATE TABLE IF NOT EXISTS rate_limits (user_id TEXT PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS rate_limit_overrides (user_id TEXT PRIMARY KEY, requests_per_minute INTEGER NOT NULL, burst INTEGER NOT NULL, updated_by TEXT NOT NULL, updated_at INTEGER NOT NULL)');
+    sql.exec('CREATE TABLE IF NOT EXISTS session_members (session_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL, added_by TEXT NOT NULL, added_at INTEGER NOT NULL, PRIMARY KEY (session_id, user_id))');
+    sql.exec('CREATE TABLE IF NOT EXISTS shared_sessions (user_id TEXT NOT NULL, session_id TEXT NOT NULL, shard TEXT NOT NULL, owner_id TEXT NOT NULL, org_id TEXT, created_at INTEGER NOT NULL, role TEXT NOT NULL, PRIMARY KEY (user_id, session_id))');
+    sql.exec('CREATE TABLE IF NOT EXISTS legacy_adoption (id INTEGER PRIMARY KEY CHECK (id = 1), adopted_at INTEGER NOT NULL)');
+
+    // Columns added after the tables were first deployed
+    this.addColumnIfMissing('api_keys', 'scopes', 'TEXT');
+    this.addColumnIfMissing('device_authorizations', 'scopes', 'TEXT');
+    this.addColumnIfMissing('refresh_tokens', 'scopes', 'TEXT');
+    this.addColumnIfMissing('sessions', 'org_id', 'TEXT');
+    this.addColumnIfMissing('messages', 'author_id', 'TEXT');
+    this.addColumnIfMissing('messages', 'aborted', 'INTEGER');
+    this.addColumnIfMissing('messages', 'cancelled', 'INTEGER');
+    this.addColumnIfMissing('sessions', 'model', 'TEXT');
+    this.addColumnIfMissing('sessions', 'summary', 'TEXT');
+    this.addColumnIfMissing('sessions', 'summary_through', 'INTEGER');
+    this.addColumnIfMissing('sessions', 'summary_updated_at', 'INTEGER');
+    this.addColumnIfMissing('sessions', 'system_prompt', 'TEXT');
+    this.addColumnIfMissing('user_profiles', 'metadata_role', 'TEXT');
+    sql.exec('CREATE INDEX IF NOT EXISTS idx_sessions_org_id ON sessions(org_id)');
 
     this.dbInitialized = true;
   }
 
   /**
-   * Check if an invite code is valid and not already used
+   * SQLite has no ADD COLUMN IF NOT EXISTS, so check table_info first
    */
-  async checkInviteCode(inviteCode: string): Promise<boolean> {
-    this.initDB();
-    const upperCode = inviteCode.toUpperCase();
-
-    // Check if code is in the valid list
-    if (!INVITATION_CODES.includes(upperCode)) {
-      return false;
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray();
+    if (!columns.some((c: any) => c.name === column)) {
+      this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
     }
-
-    // Check if code has been used (optional - you may want to allow reuse)
-    // For now, we'll allow code reuse
-    return true;
   }
 
   /**
-   * Register a user as invited (after they sign up)
+   * Check if an invite code is valid and not already used
    */
-  async registerInvitedUser(userId: string, email: string, inviteCode: string): Promise<void> {
-    this.initDB();
-
-    try {
-      this.sql.exec(
-        'INSERT OR IGNORE INTO invited_users (id, email, invite_code, created_at) VALUES (?, ?, ?, ?)',
-        userId, email, inviteCode.toUpperCase(), Date.now()
-      );
-    } catch (error) {
-      console.error('[SessionDurableObject] Failed to register invited user:', error);
-    }
+  async checkInviteCode(inviteCode: string): Promise<boolean> {
+    const record = await this.getInviteCode(inviteCode);
+    return record !== null && isInviteCodeUsable(record);
   }
 
   /**
-   * Check if a user was invited (for API access control)
+   * Load an invite code with its current redemption count
    */
-  async isUserInvited(userId: string, email?: string): Promise<boolean> {
+  private async getInviteCode(inviteCode: string): Promise<InviteCodeRecord | null> {
     this.initDB();
 
-    // For now, we'll allow any user who has completed Clerk signup
-    // In production, you'd want to check the invited_users table
-    // This is a simplified version since Clerk handles the signup
-    return true;
+    const results = this.sql.exec(
+      'SELECT c.*, (SELECT COUNT(*) FROM invited_users u WHERE u.invite_code = c.code) AS redemption_count FROM invite_codes c WHERE c.code = ?',
+      normalizeInviteCode(inviteCode)
+    ).toArray();
+
+    return results.length > 0 ? toInviteCodeRecord(results[0]) : null;
   }
 
   /**
-   * Create a new session
+   * Create an invite code (admin)
    */
-  async createSession(userId: string): Promise<{ id: string; userId: string; createdAt: number }> {
+  async createInviteCode(input: CreateInviteCodeInput): Promise<InviteCodeRecord | null> {
     this.initDB();
 
-    const sessionId = `opencode-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     const createdAt = Date.now();
+    const cursor = this.sql.exec(
+      'INSERT OR IGNORE INTO invite_codes (code, max_redemptions, expires_at, created_by, notes, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      input.code, input.maxRedemptions, input.expiresAt, input.createdBy, input.notes, createdAt
+    );
+
+    if (cursor.rowsWritten === 0) {
+      return null;
+    }
+
+    return { ...input, redemptionCount: 0, createdAt, revokedAt: null };
+  }
+
+  /**
+   * List all invite codes with redemption counts (admin)
+   */
+  async listInviteCodes(): Promise<InviteCodeRecord[]> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'SELECT c.*, (SELECT COUNT(*) FROM invited_users u WHERE u.invite_code = c.code) AS redemption_count FROM invite_codes c ORDER BY c.created_at DESC'
+    );
+
+    return cursor.toArray().map(toInviteCodeRecord);
+  }
+
+  /**
+   * Revoke an invite code; users who already redeemed it keep access (admin)
+   */
+  async revokeInviteCode(inviteCode: string): Promise<boolean> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'UPDATE invite_codes SET revoked_at = ? WHERE code = ? AND revoked_at IS NULL',
+      Date.now(), normalizeInviteCode(inviteCode)
+    );
+
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * List the users who redeemed a code (admin)
+   */
+  async listInviteRedemptions(inviteCode: string): Promise<InviteRedemption[]> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'SELECT id, email, created_at FROM invited_users WHERE invite_code = ? ORDER BY created_at ASC',
+      normalizeInviteCode(inviteCode)
+    );
+
+    return cursor.toArray().map((row: any) => ({
+      userId: row.id as string,
+      email: row.email as string,
+      redeemedAt: row.created_at as number,
+    }));
+  }
+
+  /**
+   * Register a user as invited (after they sign up)
+   */
+  async registerInvitedUser(userId: string, email: string, inviteCode: string): Promise<void> {
+    this.initDB();
+
+    try {
+      this.sql.exec(
+        'INSERT OR IGNORE INTO invited_users (id, email, invite_code, created_at) VALUES (?, ?, ?, ?)',
+        userId, email, normalizeInviteCode(inviteCode), Date.now()
+      );
+    } catch (error) {
+      console.error('[SessionDurableObject] Failed to register invited user:', error);
+    }
+  }
+
+  /**
+   * Bind an invite code to a Clerk user
+   *
+   * Users who were already invited keep their original code.
+   */
+  async redeemInviteCode(userId: string, email: string, inviteCode: string): Promise<RedeemInviteResult> {
+    if (await this.isUserInvited(userId)) {
+      return { ok: true, alreadyInvited: true };
+    }
+
+    if (!(await this.checkInviteCode(inviteCode))) {
+      return { ok: false, reason: 'invalid_code' };
+    }
+
+    await this.registerInvitedUser(userId, email, inviteCode);
+    return { ok: true, alreadyInvited: false };
+  }
+
+  /**
+   * Check if a user was invited (for API access control)
+   */
+  async isUserInvited(userId: string): Promise<boolean> {
+    this.initDB();
+
+    const results = this.sql.exec(
+      'SELECT 1 FROM invited_users WHERE id = ? LIMIT 1',
+      userId
+    ).toArray();
+
+    return results.length > 0;
+  }
+
+  /**
+   * A user's saved personas (the user's shard), oldest first
+   */
+  async listPersonas(userId: string): Promise<Persona[]> {
+    this.initDB();
+
+    return this.sql.exec(
+      'SELECT id, name, system_prompt, created_at, updated_at FROM personas WHERE user_id = ? ORDER BY created_at ASC, id ASC',
+      userId
+    ).toArray().map(toPersona);
+  }
+
+  async getPersona(userId: string, personaId: string): Promise<Persona | null> {
+    this.initDB();
+
+    const [row] = this.sql.exec(
+      'SELECT id, name, system_prompt, created_at, updated_at FROM personas WHERE id = ? AND user_id = ?',
+      personaId, userId
+    ).toArray();
+    return row ? toPersona(row) : null;
+  }
+
+  async createPersona(userId: string, input: PersonaInput, max: number): Promise<Persona | null> {
+    this.initDB();
+
+    const [{ count }] = this.sql.exec('SELECT COUNT(*) AS count FROM personas WHERE user_id = ?', userId).toArray();
+    if ((count as number) >= max) {
+      return null;
+    }
+
+    const now = Date.now();
+    const persona = { id: `persona-${now}-${Math.random().toString(36).substring(2, 11)}`, ...input, createdAt: now, updatedAt: now };
+    this.sql.exec(
+      'INSERT INTO personas (id, user_id, name, system_prompt, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      persona.id, userId, persona.name, persona.systemPrompt, now, now
+    );
+    return persona;
+  }
+
+  async updatePersona(userId: string, personaId: string, input: Partial<PersonaInput>): Promise<Persona | null> {
+    this.initDB();
+
+    const persona = await this.getPersona(userId, personaId);
+    if (!persona) {
+      return null;
+    }
+
+    const updated = { ...persona, ...input, updatedAt: Date.now() };
+    this.sql.exec(
+      'UPDATE personas SET name = ?, system_prompt = ?, updated_at = ? WHERE id = ? AND user_id = ?',
+      updated.name, updated.systemPrompt, updated.updatedAt, personaId, userId
+    );
+    return updated;
+  }
+
+  async deletePersona(userId: string, personaId: string): Promise<boolean> {
+    this.initDB();
+
+    return this.sql.exec('DELETE FROM personas WHERE id = ? AND user_id = ?', personaId, userId).rowsWritten > 0;
+  }
+
+  /**
+   * Models admins allow for prompts (directory); null when never configured
+   */
+  async getAllowedModels(): Promise<string[] | null> {
+    this.initDB();
+
+    const models = this.sql.exec('SELECT model FROM allowed_models ORDER BY rowid ASC').toArray();
+    return models.length > 0 ? models.map((row: any) => row.model as string) : null;
+  }
+
+  async setAllowedModels(models: string[] | null, updatedBy: string): Promise<void> {
+    this.initDB();
+
+    this.sql.exec('DELETE FROM allowed_models');
+    const updatedAt = Date.now();
+    for (const model of models ?? []) {
+      this.sql.exec('INSERT INTO allowed_models (model, updated_by, updated_at) VALUES (?, ?, ?)', model, updatedBy, updatedAt);
+    }
+  }
+
+  /**
+   * Get the role an admin assigned to a user, if any
+   */
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    this.initDB();
+
+    const results = this.sql.exec('SELECT role FROM user_roles WHERE user_id = ?', userId).toArray();
+    const role = results.length > 0 ? results[0].role : null;
+
+    return isUserRole(role) ? role : null;
+  }
+
+  /**
+   * Assign a role to a user (admin)
+   */
+  async setUserRole(userId: string, role: UserRole, updatedBy: string): Promise<void> {
+    this.initDB();
 
     this.sql.exec(
-      'INSERT INTO sessions (id, user_id, created_at) VALUES (?, ?, ?)',
-      sessionId, userId, createdAt
+      'INSERT INTO user_roles (user_id, role, updated_by, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET role = excluded.role, updated_by = excluded.updated_by, updated_at = excluded.updated_at',
+      userId, role, updatedBy, Date.now()
     );
+  }
+
+  /**
+   * List every known user (invited, role-assigned or owning sessions) with session counts (admin)
+   *
+   * Counts come from the session index plus sessions not yet migrated out of
+   * the directory; UNION drops a session caught mid-migration in both.
+   */
+  async listUsers(): Promise<UserSummary[]> {
+    this.initDB();
 
-    return { id: sessionId, userId, createdAt };
+    const cursor = this.sql.exec(`
+      WITH all_sessions AS (
+        SELECT id, user_id, created_at FROM session_index
+        UNION SELECT id, user_id, created_at FROM sessions
+      ),
+      known_users AS (
+        SELECT id AS user_id FROM invited_users
+        UNION SELECT user_id FROM user_roles
+        UNION SELECT user_id FROM all_sessions
+      )
+      SELECT
+        k.user_id,
+        COALESCE(p.email, NULLIF(i.email, '')) AS email,
+        p.name,
+        p.metadata_role,
+        i.invite_code,
+        i.created_at AS invited_at,
+        r.role,
+        (SELECT COUNT(*) FROM all_sessions s WHERE s.user_id = k.user_id) AS session_count,
+        (SELECT MAX(created_at) FROM all_sessions s WHERE s.user_id = k.user_id) AS last_session_at
+      FROM known_users k
+      LEFT JOIN invited_users i ON i.id = k.user_id
+      LEFT JOIN user_roles r ON r.user_id = k.user_id
+      LEFT JOIN user_profiles p ON p.user_id = k.user_id
+      ORDER BY invited_at DESC
+    `);
+
+    return cursor.toArray().map((row: any) => ({
+      userId: row.user_id as string,
+      email: (row.email as string | null) || null,
+      name: (row.name as string | null) ?? null,
+      storedRole: isUserRole(row.role) ? row.role : null,
+      metadataRole: isUserRole(row.metadata_role) ? row.metadata_role : null,
+      inviteCode: (row.invite_code as string | null) ?? null,
+      invitedAt: (row.invited_at as number | null) ?? null,
+      sessionCount: row.session_count as number,
+      lastSessionAt: (row.last_session_at as number | null) ?? null,
+    }));
   }
 
   /**
-   * Get a session by ID (verifies ownership)
+   * Store a Clerk user profile, ignoring out-of-order updates and deleted users
    */
-  async getSession(sessionId: string, userId: string): Promise<{ id: string; userId: string; createdAt: number } | null> {
+  async upsertUserProfile(profile: UserProfile): Promise<boolean> {
     this.initDB();
 
     const cursor = this.sql.exec(
-      'SELECT id, user_id, created_at FROM sessions WHERE id = ? AND user_id = ?',
-      sessionId, userId
+      'INSERT INTO user_profiles (user_id, email, name, metadata_role, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, NULL) ON CONFLICT(user_id) DO UPDATE SET email = excluded.email, name = excluded.name, metadata_role = excluded.metadata_role, updated_at = excluded.updated_at WHERE user_profiles.deleted_at IS NULL AND user_profiles.updated_at <= excluded.updated_at',
+      profile.userId, profile.email, profile.name, profile.metadataRole, profile.updatedAt
     );
 
-    const results = cursor.toArray();
+    return cursor.rowsWritten > 0;
+  }
 
-    if (!results || results.length === 0) {
+  /**
+   * Get the synced Clerk profile of a user
+   */
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    this.initDB();
+
+    const results = this.sql.exec(
+      'SELECT user_id, email, name, metadata_role, updated_at FROM user_profiles WHERE user_id = ? AND deleted_at IS NULL',
+      userId
+    ).toArray();
+
+    if (results.length === 0) {
       return null;
     }
 
     const row = results[0];
     return {
-      id: row.id as string,
       userId: row.user_id as string,
+      email: row.email as string | null,
+      name: row.name as string | null,
+      metadataRole: isUserRole(row.metadata_role) ? row.metadata_role : null,
+      updatedAt: row.updated_at as number,
+    };
+  }
+
+  /**
+   * Delete everything stored for a user deleted in Clerk
+   *
+   * The invited_users row is kept (without the email) so single-use invite
+   * codes stay redeemed; the profile becomes a tombstone so a late
+   * user.updated delivery cannot recreate it. Organization sessions the user
+   * created belong to the organization and are kept.
+   */
+  async purgeUserData(userId: string): Promise<UserDataPurgeResult> {
+    this.initDB();
+
+    const { sessions, messages } = this.deletePersonalSessions(userId);
+    this.sql.exec('DELETE FROM session_index WHERE user_id = ? AND org_id IS NULL', userId);
+    const apiKeys = this.sql.exec('DELETE FROM api_keys WHERE user_id = ?', userId).rowsWritten;
+    this.sql.exec('DELETE FROM refresh_tokens WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM device_authorizations WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM share_links WHERE created_by = ?', userId);
+    this.sql.exec('DELETE FROM user_roles WHERE user_id = ?', userId);
+    this.sql.exec("UPDATE invited_users SET email = '' WHERE id = ?", userId);
+
+    const now = Date.now();
+    this.sql.exec(
+      'INSERT INTO user_profiles (user_id, email, name, updated_at, deleted_at) VALUES (?, NULL, NULL, ?, ?) ON CONFLICT(user_id) DO UPDATE SET email = NULL, name = NULL, metadata_role = NULL, updated_at = excluded.updated_at, deleted_at = excluded.deleted_at',
+      userId, now, now
+    );
+
+    return { sessions, messages, apiKeys };
+  }
+
+  /**
+   * Start a device authorization (CLI login)
+   */
+  async createDeviceAuthorization(input: CreateDeviceAuthorizationInput): Promise<void> {
+    this.initDB();
+
+    const now = Date.now();
+    // Expired requests are never needed again
+    this.sql.exec('DELETE FROM device_authorizations WHERE expires_at <= ?', now);
+    this.sql.exec(
+      "INSERT INTO device_authorizations (device_code_hash, user_code, client_name, scopes, status, user_id, interval, last_polled_at, created_at, expires_at) VALUES (?, ?, ?, ?, 'pending', NULL, ?, NULL, ?, ?)",
+      input.deviceCodeHash, input.userCode, input.clientName, scopesToColumn(input.scopes), input.interval, now, input.expiresAt
+    );
+  }
+
+  /**
+   * Look up a device authorization by the code the user typed
+   */
+  async getDeviceAuthorization(userCode: string): Promise<DeviceAuthorization | null> {
+    this.initDB();
+
+    const results = this.sql.exec(
+      'SELECT user_code, client_name, scopes, status, user_id, created_at, expires_at FROM device_authorizations WHERE user_code = ?',
+      userCode
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    return {
+      userCode: row.user_code as string,
+      clientName: row.client_name as string | null,
+      scopes: scopesFromColumn(row.scopes),
+      status: row.status as DeviceAuthorization['status'],
+      userId: row.user_id as string | null,
       createdAt: row.created_at as number,
+      expiresAt: row.expires_at as number,
     };
   }
 
   /**
-   * Delete a session (verifies ownership)
+   * Approve or deny a pending device authorization
    */
-  async deleteSession(sessionId: string, userId: string): Promise<boolean> {
-    // First verify ownership
-    const session = await this.getSession(sessionId, userId);
-    if (!session) {
-      return false;
+  async decideDeviceAuthorization(userCode: string, userId: string, approve: boolean): Promise<boolean> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      "UPDATE device_authorizations SET status = ?, user_id = ? WHERE user_code = ? AND status = 'pending' AND expires_at > ?",
+      approve ? 'approved' : 'denied', userId, userCode, Date.now()
+    );
+
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Poll a device authorization from the token endpoint
+   *
+   * An approved request is consumed by the first poll that sees it, so a
+   * device code yields tokens at most once.
+   */
+  async pollDeviceAuthorization(deviceCodeHash: string): Promise<DevicePollResult> {
+    this.initDB();
+
+    const results = this.sql.exec(
+      'SELECT status, user_id, client_name, scopes, interval, last_polled_at, expires_at FROM device_authorizations WHERE device_code_hash = ?',
+      deviceCodeHash
+    ).toArray();
+
+    const row = results[0];
+    const now = Date.now();
+    if (!row || row.status === 'consumed') {
+      return { status: 'not_found' };
+    }
+    if ((row.expires_at as number) <= now) {
+      return { status: 'expired' };
+    }
+    if (row.status === 'denied') {
+      return { status: 'denied' };
+    }
+    if (row.status === 'approved') {
+      const cursor = this.sql.exec(
+        "UPDATE device_authorizations SET status = 'consumed' WHERE device_code_hash = ? AND status = 'approved'",
+        deviceCodeHash
+      );
+      return cursor.rowsWritten > 0
+        ? { status: 'approved', userId: row.user_id as string, clientName: row.client_name as string | null, scopes: scopesFromColumn(row.scopes) }
+        : { status: 'not_found' };
     }
 
-    // Delete session (messages will be deleted via CASCADE)
-    await this.sql.exec(
-      'DELETE FROM sessions WHERE id = ?',
+    const lastPolledAt = row.last_polled_at as number | null;
+    const tooFast = lastPolledAt !== null && now - lastPolledAt < (row.interval as number) * 1000;
+    // RFC 8628 §3.5: clients must add 5 seconds to their interval after slow_down
+    this.sql.exec(
+      'UPDATE device_authorizations SET last_polled_at = ?, interval = interval + ? WHERE device_code_hash = ?',
+      now, tooFast ? 5 : 0, deviceCodeHash
+    );
+
+    return { status: tooFast ? 'slow_down' : 'pending' };
+  }
+
+  /**
+   * Store a refresh token issued by the device flow
+   */
+  async createRefreshToken(userId: string, input: CreateRefreshTokenInput): Promise<void> {
+    this.initDB();
+
+    this.sql.exec(
+      'INSERT INTO refresh_tokens (token_hash, user_id, api_key_id, client_name, scopes, created_at, expires_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, ?, NULL)',
+      input.tokenHash, userId, input.apiKeyId, input.clientName, scopesToColumn(input.scopes), Date.now(), input.expiresAt
+    );
+  }
+
+  /**
+   * Redeem a refresh token (single use)
+   *
+   * The access token issued with it is deleted; revoking that access token
+   * through /api/keys therefore also ends the CLI login.
+   */
+  async consumeRefreshToken(tokenHash: string): Promise<RefreshTokenOwner | null> {
+    this.initDB();
+
+    const now = Date.now();
+    const results = this.sql.exec(
+      'SELECT user_id, api_key_id, client_name, scopes FROM refresh_tokens WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > ?',
+      tokenHash, now
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    const cursor = this.sql.exec('UPDATE refresh_tokens SET revoked_at = ? WHERE token_hash = ? AND revoked_at IS NULL', now, tokenHash);
+    if (cursor.rowsWritten === 0) {
+      return null;
+    }
+
+    const accessTokens = this.sql.exec('SELECT revoked_at FROM api_keys WHERE id = ?', row.api_key_id).toArray();
+    this.sql.exec('DELETE FROM api_keys WHERE id = ?', row.api_key_id);
+    if (accessTokens.length === 0 || accessTokens[0].revoked_at !== null) {
+      return null;
+    }
+
+    return { userId: row.user_id as string, clientName: row.client_name as string | null, scopes: scopesFromColumn(row.scopes) };
+  }
+
+  /**
+   * Create a new session (owned by an organization when orgId is given)
+   */
+  async createSession(userId: string, orgId: string | null = null, model: string | null = null, systemPrompt: string | null = null): Promise<SessionData> {
+    this.initDB();
+
+    const sessionId = `opencode-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const createdAt = Date.now();
+
+    this.sql.exec(
+      'INSERT INTO sessions (id, user_id, created_at, org_id, model, system_prompt) VALUES (?, ?, ?, ?, ?, ?)',
+      sessionId, userId, createdAt, orgId, model, systemPrompt
+    );
+
+    return { id: sessionId, userId, createdAt, orgId, model, systemPrompt };
+  }
+
+  /**
+   * Get a session by ID (verifies ownership or organization membership)
+   */
+  async getSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionData | null> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'SELECT id, user_id, created_at, org_id, model, system_prompt FROM sessions WHERE id = ?',
       sessionId
     );
 
-    return true;
-  }
+    const results = cursor.toArray();
+
+    if (!results || results.length === 0) {
+      return null;
+    }
+
+    const session = toSessionData(results[0]);
+    if (canAccessSession(session, userId, org)) {
+      return session;
+    }
+
+    const memberRole = this.getMemberRole(sessionId, userId);
+    return memberRole ? { ...session, memberRole } : null;
+  }
+
+  private getMemberRole(sessionId: string, userId: string): SessionMemberRole | null {
+    const results = this.sql.exec(
+      'SELECT role FROM session_members WHERE session_id = ? AND user_id = ?',
+      sessionId, userId
+    ).toArray();
+    return results.length > 0 && isSessionMemberRole(results[0].role) ? results[0].role : null;
+  }
+
+  /**
+   * Delete a session (owner for personal sessions, org admins for org sessions)
+   */
+  async deleteSession(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    // First verify ownership
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canDeleteSession(session, userId, org)) {
+      return false;
+    }
+
+    // Delete session (messages will be deleted via CASCADE)
+    await this.sql.exec(
+      'DELETE FROM sessions WHERE id = ?',
+      sessionId
+    );
+    this.sql.exec('DELETE FROM session_members WHERE session_id = ?', sessionId);
+
+    return true;
+  }
+
+  /**
+   * List a user's personal sessions and their active organization's sessions
+   */
+  async listUserSessions(userId: string, org?: OrgMembership | null): Promise<SessionData[]> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'SELECT id, user_id, created_at, org_id, model, system_prompt FROM sessions WHERE (org_id IS NULL AND user_id = ?) OR org_id = ? ORDER BY created_at DESC',
+      userId, org?.orgId ?? null
+    );
+
+    return cursor.toArray().map(toSessionData);
+  }
+
+  /**
+   * Add a message to conversation history (user messages are attributed to their author)
+   */
+  async addMessage(sessionId: string, userId: string, message: ConversationMessage, org?: OrgMembership | null): Promise<number> {
+    // Verify session exists and the caller may write to it (owner, organization or editor)
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      throw new Error('Session not found or access denied');
+    }
+
+    const [row] = this.sql.exec(
+      'INSERT INTO messages (session_id, role, content, created_at, author_id, aborted, cancelled) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id',
+      sessionId, message.role, message.content, Date.now(), message.role === 'user' ? userId : null,
+      message.aborted ? 1 : null, message.cancelled ? 1 : null
+    ).toArray();
+    return row.id as number;
+  }
+
+  /**
+   * Remove one of the caller's own messages (used to roll back a prompt whose answer failed)
+   */
+  async deleteMessage(sessionId: string, userId: string, messageId: number, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return false;
+    }
+
+    const deleted = this.sql.exec(
+      'DELETE FROM messages WHERE id = ? AND session_id = ? AND author_id = ? RETURNING id',
+      messageId, sessionId, userId
+    ).toArray();
+    return deleted.length > 0;
+  }
+
+  /**
+   * Get conversation history for a session
+   */
+  async getConversationHistory(sessionId: string, userId: string, org?: OrgMembership | null): Promise<ConversationMessage[]> {
+    // Verify session exists and the caller may read it (owner, organization or member)
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session) {
+      return [];
+    }
+
+    const cursor = this.sql.exec(
+      'SELECT id, role, content, author_id, aborted, cancelled FROM messages WHERE session_id = ? ORDER BY created_at ASC, id ASC',
+      sessionId
+    );
+
+    return cursor.toArray().map((row: any) => ({
+      id: row.id as number,
+      role: row.role as string,
+      content: row.content as string,
+      authorId: (row.author_id as string | null) ?? null,
+      ...(row.aborted ? { aborted: true } : {}),
+      ...(row.cancelled ? { cancelled: true } : {}),
+    }));
+  }
+
+  /**
+   * Change the default model of a session (owner, organization or editor)
+   */
+  async setSessionModel(sessionId: string, userId: string, model: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return null;
+    }
+
+    this.sql.exec('UPDATE sessions SET model = ? WHERE id = ?', model, sessionId);
+    return { ...session, model };
+  }
+
+  /**
+   * Change the system prompt of a session (owner, organization or editor)
+   */
+  async setSessionSystemPrompt(sessionId: string, userId: string, systemPrompt: string | null, org?: OrgMembership | null): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return null;
+    }
+
+    this.sql.exec('UPDATE sessions SET system_prompt = ? WHERE id = ?', systemPrompt, sessionId);
+    return { ...session, systemPrompt };
+  }
+
+  /**
+   * Get the rolling summary of a session's oldest messages
+   */
+  async getSessionSummary(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionSummary | null> {
+    if (!(await this.getSession(sessionId, userId, org))) {
+      return null;
+    }
+
+    const [row] = this.sql.exec(
+      'SELECT summary, summary_through, summary_updated_at FROM sessions WHERE id = ? AND summary IS NOT NULL',
+      sessionId
+    ).toArray();
+    return row
+      ? { content: row.summary as string, throughMessageId: row.summary_through as number, updatedAt: row.summary_updated_at as number }
+      : null;
+  }
+
+  /**
+   * Replace the rolling summary of a session (owner, organization or editor)
+   */
+  async setSessionSummary(sessionId: string, userId: string, summary: SessionSummary, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return false;
+    }
+
+    this.sql.exec(
+      'UPDATE sessions SET summary = ?, summary_through = ?, summary_updated_at = ? WHERE id = ?',
+      summary.content, summary.throughMessageId, summary.updatedAt, sessionId
+    );
+    return true;
+  }
+
+  /**
+   * Wait for this shard's lock on a session (see durable-objects/prompt-lock.ts)
+   */
+  async acquirePromptLock(sessionId: string, userId: string, ifMatch: number | null, org?: OrgMembership | null): Promise<PromptLockResult> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canWriteSession(session)) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (ifMatch !== null) {
+      const [row] = this.sql.exec('SELECT MAX(id) AS id FROM messages WHERE session_id = ?', sessionId).toArray();
+      const lastMessageId = (row?.id as number | null) ?? null;
+      if (this.promptLocks.isLocked(sessionId) || lastMessageId !== ifMatch) {
+        return { ok: false, reason: 'conflict', lastMessageId };
+      }
+    }
+
+    const lockId = await this.promptLocks.acquire(sessionId);
+    return lockId ? { ok: true, lockId } : { ok: false, reason: 'busy' };
+  }
+
+  /**
+   * Release a session lock; lock IDs are unguessable, so holding one is authorization enough
+   */
+  async releasePromptLock(sessionId: string, _userId: string, lockId: string): Promise<void> {
+    this.promptLocks.release(sessionId, lockId);
+  }
+
+  /**
+   * Keep a session lock while its prompt runs (same authorization as releasing it); tells the prompt whether it was cancelled
+   */
+  async renewPromptLock(sessionId: string, _userId: string, lockId: string): Promise<PromptLockState> {
+    return this.promptLocks.renew(sessionId, lockId);
+  }
+
+  /**
+   * Cancel the prompt holding a session's lock; requires write access
+   */
+  async cancelPrompt(sessionId: string, userId: string, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    return !!session && canWriteSession(session) && this.promptLocks.cancel(sessionId);
+  }
+
+  /**
+   * Take one of a user's in-flight prompt slots (the user's shard)
+   *
+   * Leases a Worker stopped renewing expire PROMPT_LEASE_TTL_MS after the last renewal.
+   */
+  async beginPrompt(userId: string, max: number): Promise<string | null> {
+    this.initDB();
+
+    const now = Date.now();
+    this.sql.exec('DELETE FROM prompt_leases WHERE expires_at <= ?', now);
+    const [row] = this.sql.exec('SELECT COUNT(*) AS count FROM prompt_leases WHERE user_id = ?', userId).toArray();
+    if ((row.count as number) >= max) {
+      return null;
+    }
+
+    const leaseId = `lease-${now}-${Math.random().toString(36).substring(2, 11)}`;
+    this.sql.exec(
+      'INSERT INTO prompt_leases (id, user_id, expires_at) VALUES (?, ?, ?)',
+      leaseId, userId, now + PROMPT_LEASE_TTL_MS
+    );
+    return leaseId;
+  }
+
+  async renewPrompt(userId: string, leaseId: string): Promise<boolean> {
+    this.initDB();
+
+    const now = Date.now();
+    return this.sql.exec(
+      'UPDATE prompt_leases SET expires_at = ? WHERE id = ? AND user_id = ? AND expires_at > ?',
+      now + PROMPT_LEASE_TTL_MS, leaseId, userId, now
+    ).rowsWritten > 0;
+  }
+
+  async endPrompt(userId: string, leaseId: string): Promise<void> {
+    this.initDB();
+    this.sql.exec('DELETE FROM prompt_leases WHERE id = ? AND user_id = ?', leaseId, userId);
+  }
+
+  /**
+   * Invite a user into a session or change their role (session managers only)
+   */
+  async addSessionMember(
+    sessionId: string,
+    userId: string,
+    member: { userId: string; role: SessionMemberRole },
+    org?: OrgMembership | null
+  ): Promise<SessionMember | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || !canDeleteSession(session, userId, org)) {
+      return null;
+    }
+
+    const addedAt = Date.now();
+    this.sql.exec(
+      'INSERT INTO session_members (session_id, user_id, role, added_by, added_at) VALUES (?, ?, ?, ?, ?) ON CONFLICT(session_id, user_id) DO UPDATE SET role = excluded.role',
+      sessionId, member.userId, member.role, userId, addedAt
+    );
+
+    const [row] = this.sql.exec(
+      'SELECT * FROM session_members WHERE session_id = ? AND user_id = ?',
+      sessionId, member.userId
+    ).toArray();
+    return toSessionMember(row);
+  }
+
+  /**
+   * Remove a member (session managers, or the member leaving)
+   */
+  async removeSessionMember(sessionId: string, userId: string, memberId: string, org?: OrgMembership | null): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session || (memberId !== userId && !canDeleteSession(session, userId, org))) {
+      return false;
+    }
+
+    const cursor = this.sql.exec(
+      'DELETE FROM session_members WHERE session_id = ? AND user_id = ?',
+      sessionId, memberId
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * List the members of a session the caller can read
+   */
+  async listSessionMembers(sessionId: string, userId: string, org?: OrgMembership | null): Promise<SessionMember[] | null> {
+    const session = await this.getSession(sessionId, userId, org);
+    if (!session) {
+      return null;
+    }
+
+    return this.sql.exec(
+      'SELECT * FROM session_members WHERE session_id = ? ORDER BY added_at ASC',
+      sessionId
+    ).toArray().map(toSessionMember);
+  }
+
+  /**
+   * Point a user at a session that another shard shares with them (the user's shard)
+   */
+  async addSharedSession(userId: string, ref: SharedSessionRef): Promise<void> {
+    this.initDB();
+
+    this.sql.exec(
+      'INSERT INTO shared_sessions (user_id, session_id, shard, owner_id, org_id, created_at, role) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(user_id, session_id) DO UPDATE SET role = excluded.role',
+      userId, ref.session.id, ref.shard, ref.session.userId, ref.session.orgId ?? null, ref.session.createdAt, ref.role
+    );
+  }
+
+  async removeSharedSession(userId: string, sessionId: string): Promise<void> {
+    this.initDB();
+    this.sql.exec('DELETE FROM shared_sessions WHERE user_id = ? AND session_id = ?', userId, sessionId);
+  }
+
+  async getSharedSession(userId: string, sessionId: string): Promise<SharedSessionRef | null> {
+    this.initDB();
+
+    const results = this.sql.exec(
+      'SELECT * FROM shared_sessions WHERE user_id = ? AND session_id = ?',
+      userId, sessionId
+    ).toArray();
+    return results.length > 0 ? toSharedSessionRef(results[0]) : null;
+  }
+
+  async listSharedSessions(userId: string): Promise<SharedSessionRef[]> {
+    this.initDB();
+
+    return this.sql.exec(
+      'SELECT * FROM shared_sessions WHERE user_id = ? ORDER BY created_at DESC',
+      userId
+    ).toArray().map(toSharedSessionRef);
+  }
+
+  /**
+   * Delete a user's personal sessions held by this shard
+   */
+  async purgeSessions(userId: string): Promise<Pick<UserDataPurgeResult, 'sessions' | 'messages'>> {
+    this.initDB();
+    this.sql.exec('DELETE FROM rate_limits WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM rate_limit_overrides WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM model_usage WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM user_plans WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM quota_top_ups WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM prompt_leases WHERE user_id = ?', userId);
+    this.sql.exec('DELETE FROM personas WHERE user_id = ?', userId);
+    return this.deletePersonalSessions(userId);
+  }
+
+  async setUserPlan(userId: string, plan: PlanId | null, updatedBy: string): Promise<void> {
+    this.initDB();
+
+    if (!plan) {
+      this.sql.exec('DELETE FROM user_plans WHERE user_id = ?', userId);
+      return;
+    }
+    this.sql.exec(
+      'INSERT INTO user_plans (user_id, plan, updated_by, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET plan = excluded.plan, updated_by = excluded.updated_by, updated_at = excluded.updated_at',
+      userId, plan, updatedBy, Date.now()
+    );
+  }
+
+  async addQuotaTopUp(userId: string, input: CreateQuotaTopUpInput): Promise<QuotaTopUp> {
+    this.initDB();
+
+    const topUp = {
+      id: `topup-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      tokens: input.tokens,
+      requests: input.requests,
+      grantedBy: input.grantedBy,
+      note: input.note,
+      createdAt: Date.now(),
+    };
+    this.sql.exec(
+      'INSERT INTO quota_top_ups (id, user_id, tokens, requests, granted_by, note, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      topUp.id, userId, topUp.tokens, topUp.requests, topUp.grantedBy, topUp.note, topUp.createdAt
+    );
+    return topUp;
+  }
+
+  /**
+   * Plan, top-ups and usage totals of one quota period (the user's shard)
+   */
+  async getQuotaState(userId: string, from: number, to: number): Promise<QuotaState> {
+    this.initDB();
+
+    const [plan] = this.sql.exec('SELECT plan FROM user_plans WHERE user_id = ?', userId).toArray();
+    const [used] = this.sql.exec(
+      'SELECT COUNT(*) AS requests, COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS tokens FROM model_usage WHERE user_id = ? AND created_at >= ? AND created_at < ?',
+      userId, from, to
+    ).toArray();
+    const topUps = this.sql.exec(
+      'SELECT * FROM quota_top_ups WHERE user_id = ? AND created_at >= ? AND created_at < ? ORDER BY created_at ASC',
+      userId, from, to
+    ).toArray().map((row: any) => ({
+      id: row.id as string,
+      tokens: row.tokens as number,
+      requests: row.requests as number,
+      grantedBy: row.granted_by as string,
+      note: (row.note as string | null) ?? null,
+      createdAt: row.created_at as number,
+    }));
+
+    return {
+      plan: plan && isPlanId(plan.plan) ? plan.plan : null,
+      topUps,
+      used: { tokens: used.tokens as number, requests: used.requests as number },
+    };
+  }
+
+  /**
+   * Record the usage of one assistant message (the prompting user's shard)
+   */
+  async recordUsage(userId: string, record: UsageRecord): Promise<void> {
+    this.initDB();
+
+    this.sql.exec(
+      'INSERT INTO model_usage (user_id, session_id, model, prompt_tokens, completion_tokens, latency_ms, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      userId, record.sessionId, record.model, record.promptTokens, record.completionTokens, record.latencyMs, record.createdAt
+    );
+  }
+
+  /**
+   * A user's usage aggregated per UTC day, session and model
+   */
+  async listUsage(userId: string, from: number, to: number): Promise<UsageRow[]> {
+    this.initDB();
+
+    return this.sql.exec(
+      `SELECT strftime('%Y-%m-%d', created_at / 1000, 'unixepoch') AS day, session_id, model,
+        COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens, SUM(latency_ms) AS latency_ms
+      FROM model_usage WHERE user_id = ? AND created_at >= ? AND created_at < ?
+      GROUP BY day, session_id, model`,
+      userId, from, to
+    ).toArray().map((row: any) => ({
+      day: row.day as string,
+      sessionId: row.session_id as string,
+      model: row.model as string,
+      requests: row.requests as number,
+      promptTokens: row.prompt_tokens as number,
+      completionTokens: row.completion_tokens as number,
+      latencyMs: row.latency_ms as number,
+    }));
+  }
+
+  /**
+   * Take a token from a user's bucket (the user's shard)
+   *
+   * The read-modify-write needs no transaction: a Durable Object handles one
+   * request at a time and there is no await in between.
+   */
+  async consumeRateLimit(userId: string, defaults: RateLimitConfig): Promise<RateLimitDecision> {
+    this.initDB();
+
+    const [row] = this.sql.exec('SELECT tokens, updated_at FROM rate_limits WHERE user_id = ?', userId).toArray();
+    const stored: TokenBucket | null = row ? { tokens: row.tokens as number, updatedAt: row.updated_at as number } : null;
+    const { bucket, decision } = takeToken(stored, this.readRateLimitOverride(userId) ?? defaults);
+
+    this.sql.exec(
+      'INSERT INTO rate_limits (user_id, tokens, updated_at) VALUES (?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at',
+      userId, bucket.tokens, bucket.updatedAt
+    );
+    return decision;
+  }
+
+  async getRateLimitOverride(userId: string): Promise<RateLimitConfig | null> {
+    this.initDB();
+    return this.readRateLimitOverride(userId);
+  }
+
+  async setRateLimitOverride(userId: string, config: RateLimitConfig | null, updatedBy: string): Promise<void> {
+    this.initDB();
+
+    if (!config) {
+      this.sql.exec('DELETE FROM rate_limit_overrides WHERE user_id = ?', userId);
+      return;
+    }
+    this.sql.exec(
+      'INSERT INTO rate_limit_overrides (user_id, requests_per_minute, burst, updated_by, updated_at) VALUES (?, ?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET requests_per_minute = excluded.requests_per_minute, burst = excluded.burst, updated_by = excluded.updated_by, updated_at = excluded.updated_at',
+      userId, config.requestsPerMinute, config.burst, updatedBy, Date.now()
+    );
+  }
+
+  private readRateLimitOverride(userId: string): RateLimitConfig | null {
+    const [row] = this.sql.exec(
+      'SELECT requests_per_minute, burst FROM rate_limit_overrides WHERE user_id = ?',
+      userId
+    ).toArray();
+    return row ? { requestsPerMinute: row.requests_per_minute as number, burst: row.burst as number } : null;
+  }
+
+  private deletePersonalSessions(userId: string): Pick<UserDataPurgeResult, 'sessions' | 'messages'> {
+    this.sql.exec(
+      'DELETE FROM session_members WHERE session_id IN (SELECT id FROM sessions WHERE user_id = ? AND org_id IS NULL)',
+      userId
+    );
+    this.sql.exec('DELETE FROM shared_sessions WHERE user_id = ?', userId);
+    const messages = this.sql.exec(
+      'DELETE FROM messages WHERE session_id IN (SELECT id FROM sessions WHERE user_id = ? AND org_id IS NULL)',
+      userId
+    ).rowsWritten;
+    const sessions = this.sql.exec('DELETE FROM sessions WHERE user_id = ? AND org_id IS NULL', userId).rowsWritten;
+    return { sessions, messages };
+  }
+
+  /**
+   * Insert sessions moved from the directory (shard); existing sessions are skipped
+   *
+   * Messages keep their IDs, which clients send back as `If-Match`; those whose
+   * ID the shard already used get new ones, in their original order.
+   */
+  async importSessions(sessions: SessionExport[]): Promise<number> {
+    this.initDB();
+
+    let imported = 0;
+    for (const session of sessions) {
+      const cursor = this.sql.exec(
+        'INSERT OR IGNORE INTO sessions (id, user_id, created_at, org_id) VALUES (?, ?, ?, ?)',
+        session.id, session.userId, session.createdAt, session.orgId
+      );
+      if (cursor.rowsWritten === 0) {
+        continue;
+      }
+
+      const renumbered = session.messages.filter(message => message.id === undefined || this.sql.exec(
+        'INSERT OR IGNORE INTO messages (id, session_id, role, content, created_at, author_id) VALUES (?, ?, ?, ?, ?, ?)',
+        message.id, session.id, message.role, message.content, message.createdAt, message.authorId ?? null
+      ).rowsWritten === 0);
+      for (const message of renumbered) {
+        this.sql.exec(
+          'INSERT INTO messages (session_id, role, content, created_at, author_id) VALUES (?, ?, ?, ?, ?)',
+          session.id, message.role, message.content, message.createdAt, message.authorId ?? null
+        );
+      }
+      imported++;
+    }
+    return imported;
+  }
+
+  /**
+   * Whether this shard already took over its owner's legacy sessions (shard)
+   */
+  async isLegacyAdopted(): Promise<boolean> {
+    this.initDB();
+    return this.sql.exec('SELECT 1 FROM legacy_adoption').toArray().length > 0;
+  }
+
+  /**
+   * Remember that this shard took over its owner's legacy sessions (shard)
+   */
+  async markLegacyAdopted(): Promise<void> {
+    this.initDB();
+    this.sql.exec('INSERT OR IGNORE INTO legacy_adoption (id, adopted_at) VALUES (1, ?)', Date.now());
+  }
+
+  /**
+   * Record a session created in a shard (directory)
+   */
+  async indexSession(session: SessionData): Promise<void> {
+    this.initDB();
+
+    this.sql.exec(
+      'INSERT OR IGNORE INTO session_index (id, user_id, org_id, created_at) VALUES (?, ?, ?, ?)',
+      session.id, session.userId, session.orgId ?? null, session.createdAt
+    );
+  }
+
+  /**
+   * Forget a session deleted from its shard, along with its share links (directory)
+   */
+  async unindexSession(sessionId: string): Promise<void> {
+    this.initDB();
+    this.sql.exec('DELETE FROM session_index WHERE id = ?', sessionId);
+    this.sql.exec('DELETE FROM share_links WHERE session_id = ?', sessionId);
+  }
+
+  /**
+   * Store a share link (hash only)
+   */
+  async createShareLink(userId: string, input: CreateShareLinkInput): Promise<ShareLink> {
+    this.initDB();
+
+    const link: ShareLink = {
+      id: `share-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      sessionId: input.sessionId,
+      orgId: input.orgId,
+      createdBy: userId,
+      createdAt: Date.now(),
+      expiresAt: input.expiresAt,
+      revokedAt: null,
+    };
+
+    this.sql.exec(
+      'INSERT INTO share_links (id, token_hash, session_id, org_id, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      link.id, input.tokenHash, link.sessionId, link.orgId, userId, link.createdAt, link.expiresAt
+    );
+
+    return link;
+  }
+
+  /**
+   * Look up a share link by token hash
+   */
+  async getShareLink(tokenHash: string): Promise<ShareLink | null> {
+    this.initDB();
+
+    const results = this.sql.exec('SELECT * FROM share_links WHERE token_hash = ?', tokenHash).toArray();
+    return results.length > 0 ? toShareLink(results[0]) : null;
+  }
+
+  /**
+   * List the share links of a session
+   */
+  async listShareLinks(sessionId: string): Promise<ShareLink[]> {
+    this.initDB();
+
+    return this.sql.exec(
+      'SELECT * FROM share_links WHERE session_id = ? ORDER BY created_at DESC',
+      sessionId
+    ).toArray().map(toShareLink);
+  }
+
+  /**
+   * Revoke a share link of a session
+   */
+  async revokeShareLink(sessionId: string, shareId: string): Promise<boolean> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'UPDATE share_links SET revoked_at = ? WHERE id = ? AND session_id = ? AND revoked_at IS NULL',
+      Date.now(), shareId, sessionId
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Oldest sessions written to the directory before storage was sharded, with their messages
+   */
+  async exportLegacySessions(limit: number): Promise<SessionExport[]> {
+    this.initDB();
+
+    return this.toSessionExports(this.sql.exec(
+      'SELECT id, user_id, created_at, org_id FROM sessions ORDER BY created_at ASC, id ASC LIMIT ?',
+      limit
+    ).toArray());
+  }
+
+  /**
+   * Legacy sessions of one shard's owner, moved when the owner first uses the shard
+   */
+  async exportLegacySessionsOf(owner: { userId: string } | { orgId: string }): Promise<SessionExport[]> {
+    this.initDB();
+
+    return this.toSessionExports('orgId' in owner
+      ? this.sql.exec('SELECT id, user_id, created_at, org_id FROM sessions WHERE org_id = ?', owner.orgId).toArray()
+      : this.sql.exec('SELECT id, user_id, created_at, org_id FROM sessions WHERE user_id = ? AND org_id IS NULL', owner.userId).toArray());
+  }
+
+  private toSessionExports(rows: any[]): SessionExport[] {
+    return rows.map((row: any) => ({
+      ...toSessionData(row),
+      messages: this.sql.exec(
+        'SELECT id, role, content, created_at, author_id FROM messages WHERE session_id = ? ORDER BY created_at ASC, id ASC',
+        row.id
+      ).toArray().map((message: any) => ({
+        id: message.id as number,
+        role: message.role as string,
+        content: message.content as string,
+        authorId: (message.author_id as string | null) ?? null,
+        createdAt: message.created_at as number,
+      })),
+    }));
+  }
+
+  /**
+   * Index sessions that were copied to their shards and delete them from the directory
+   */
+  async completeLegacyExport(sessionIds: string[]): Promise<number> {
+    this.initDB();
+
+    for (const sessionId of sessionIds) {
+      this.sql.exec(
+        'INSERT OR IGNORE INTO session_index (id, user_id, org_id, created_at) SELECT id, user_id, org_id, created_at FROM sessions WHERE id = ?',
+        sessionId
+      );
+      this.sql.exec('DELETE FROM messages WHERE session_id = ?', sessionId);
+      this.sql.exec('DELETE FROM sessions WHERE id = ?', sessionId);
+    }
+
+    const [{ remaining }] = this.sql.exec('SELECT COUNT(*) AS remaining FROM sessions').toArray();
+    return remaining as number;
+  }
+
+  /**
+   * Store a new API key (hash only)
+   */
+  async createApiKey(userId: string, input: CreateApiKeyInput): Promise<ApiKeyRecord> {
+    this.initDB();
+
+    const keyId = `key-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const createdAt = Date.now();
+
+    this.sql.exec(
+      'INSERT INTO api_keys (id, user_id, label, key_hash, key_prefix, created_at, expires_at, scopes) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      keyId, userId, input.label, input.keyHash, input.prefix, createdAt, input.expiresAt, scopesToColumn(input.scopes)
+    );
+
+    return {
+      id: keyId,
+      userId,
+      label: input.label,
+      prefix: input.prefix,
+      createdAt,
+      lastUsedAt: null,
+      expiresAt: input.expiresAt,
+      revokedAt: null,
+      scopes: input.scopes,
+    };
+  }
+
+  /**
+   * List a user's API keys, including revoked ones
+   */
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC',
+      userId
+    );
+
+    return cursor.toArray().map(toApiKeyRecord);
+  }
+
+  /**
+   * Rename an API key (verifies ownership)
+   */
+  async updateApiKeyLabel(userId: string, keyId: string, label: string): Promise<ApiKeyRecord | null> {
+    this.initDB();
+
+    this.sql.exec(
+      'UPDATE api_keys SET label = ? WHERE id = ? AND user_id = ?',
+      label, keyId, userId
+    );
+
+    const results = this.sql.exec(
+      'SELECT * FROM api_keys WHERE id = ? AND user_id = ?',
+      keyId, userId
+    ).toArray();
+
+    return results.length > 0 ? toApiKeyRecord(results[0]) : null;
+  }
+
+  /**
+   * Revoke an API key (verifies ownership)
+   */
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    this.initDB();
+
+    const cursor = this.sql.exec(
+      'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+      Date.now(), keyId, userId
+    );
+
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Look up an active API key by hash and update its last-used timestamp
+   */
+  async verifyApiKey(keyHash: string): Promise<{ userId: string; keyId: string; scopes: ApiScope[] | null } | null> {
+    this.initDB();
+
+    const now = Date.now();
+    const results = this.sql.exec(
+      'SELECT id, user_id, scopes FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)',
+      keyHash, now
+    ).toArray();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const row = results[0];
+    this.sql.exec('UPDATE api_keys SET last_used_at = ? WHERE id = ?', now, row.id);
+
+    return { userId: row.user_id as string, keyId: row.id as string, scopes: scopesFromColumn(row.scopes) };
+  }
+}
+
+/**
+ * OpenCode Multi-Tenant Worker Class
+ */
+export class Worker {
+  readonly app: AppType;
+  private openCodeService: OpenCodeService;
+  // Users, keys, invites and roles (the directory Durable Object)
+  private sessionDO: SessionStore;
+  // Role, invite and API-key checks made on every /api request, cached per isolate in front of the directory
+  private directoryLookups: DirectoryLookups;
+  // Per-user / per-org session shards; null with in-memory storage
+  private sessionRouter: ShardedSessionStore | null;
+  // Rate-limit buckets, plans, quotas and in-flight prompts live in the user's shard (next to their usage)
+  private userShard: (userId: string) => RateLimitStore & QuotaStore & PromptLeaseStore & PersonaStore;
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+    // Get or create Session Durable Objects
+    // Fallback to in-memory implementation for local development
+    if (env.SESSIONS) {
+      // Use idFromName to create a proper DurableObjectId from the class name
+      const doId = env.SESSIONS.idFromName(SessionDurableObject.id);
+      this.sessionDO = env.SESSIONS.get(doId);
+      this.directoryLookups = new CachedDirectory(this.sessionDO);
+      this.sessionRouter = new ShardedSessionStore(
+        (name) => env.SESSIONS.get(env.SESSIONS.idFromName(name)),
+        env.SESSIONS.get(doId)
+      );
+      this.userShard = (userId) => env.SESSIONS.get(env.SESSIONS.idFromName(userShardName(userId)));
+    } else {
+      // Fallback: Use in-memory storage for local development
+      console.warn('[Worker] SESSIONS binding not available, using in-memory storage');
+      const store = new InMemorySessionStore();
+      this.sessionDO = store;
+      this.directoryLookups = store;
+      this.sessionRouter = null;
+      this.userShard = () => store;
+    }
+
+    this.openCodeService = new OpenCodeService(
+      {
+        apiKey: env.OPENCODE_API_KEY,
+        openAICompatible: env.OPENAI_COMPATIBLE_BASE_URL
+          ? { baseUrl: env.OPENAI_COMPATIBLE_BASE_URL, apiKey: env.OPENAI_COMPATIBLE_API_KEY }
+          : null,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        modelProviders: parseModelProviders(env.MODEL_PROVIDERS),
+        ...parseUpstreamConfig(env.LLM_MAX_ATTEMPTS, env.LLM_TIMEOUT_MS),
+        context: parseContextConfig(env.CONTEXT_STRATEGY, env.CONTEXT_MAX_TOKENS, env.SYSTEM_PROMPT),
+      },
+      this.sessionRouter ?? this.sessionDO
+    );
+
+    this.setupRoutes();
+  }
+
+  /**
+   * Setup all routes
+   */
+  private setupRoutes() {
+    // CORS middleware (apply to all routes)
+    this.app.use('*', cors());
+
+    // Health check (no auth required)
+    this.app.get('/health', (c) => {
+      return c.json({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        uptime: performance.now(),
+      });
+    });
+
+    // Home page - Get auth token
+    this.app.get('/', (c) => {
+      const publishableKey = c.env.CLERK_PUBLISHABLE_KEY || '';
+      return c.html(createHomePage(publishableKey));
+    });
+
+    // Verify invite code endpoint (no auth required)
+    this.app.get('/api/verify-invite', async (c) => {
+      const inviteCode = c.req.query('code');
+      if (!inviteCode) {
+        return c.json({ valid: false, error: 'Invite code is required' }, 400);
+      }
+
+      const upperCode = normalizeInviteCode(inviteCode);
+      const isValid = await this.sessionDO.checkInviteCode(upperCode);
+
+      return c.json({
+        valid: isValid,
+        code: upperCode,
+        message: isValid ? '✓ 有効な招待コードです' : '❌ 無効な招待コードです'
+      });
+    });
+
+    // Clerk user lifecycle webhook (authenticated by its Svix signature, not a bearer token)
+    this.app.post('/webhooks/clerk', async (c) => {
+      const secret = c.env.CLERK_WEBHOOK_SECRET;
+      if (!secret) {
+        return c.json({ error: 'Webhook not configured' }, 503);
+      }
+
+      const payload = await c.req.text();
+      try {
+        await verifySvixSignature(payload, getSvixHeaders(c.req.raw.headers), secret);
+        const result = await handleClerkWebhookEvent(parseClerkWebhookEvent(payload), this.createUserProfileStore());
+        return c.json({ received: true, ...result });
+      } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+          return c.json({ error: 'Invalid signature', debug: error.reason }, 401);
+        }
+        if (error instanceof ClerkWebhookPayloadError) {
+          return c.json({ error: 'Invalid payload', message: error.message }, 400);
+        }
+        throw error;
+      }
+    });
+
+    // Device authorization (RFC 8628): the CLI starts a login here
+    this.app.post('/auth/device', async (c) => {
+      const params = await readOAuthParams(c.req.raw);
+      const clientName = params.client_name?.trim().substring(0, MAX_DEVICE_CLIENT_NAME_LENGTH) || null;
+      const requestedScopes = parseScopes(params.scope);
+      if (!requestedScopes.ok) {
+        return c.json({ error: 'invalid_scope', error_description: `Unknown scopes: ${requestedScopes.invalid.join(' ')}` }, 400);
+      }
+
+      const deviceCode = generateDeviceCode();
+      const userCode = generateUserCode();
+
+      await this.sessionDO.createDeviceAuthorization({
+        deviceCodeHash: await hashDeviceSecret(deviceCode),
+        userCode,
+        clientName,
+        scopes: requestedScopes.scopes,
+        expiresAt: Date.now() + DEVICE_CODE_TTL_SECONDS * 1000,
+        interval: DEVICE_POLL_INTERVAL_SECONDS,
+      });
+
+      const verificationUri = new URL('/device', c.req.url).toString();
+      c.header('Cache-Control', 'no-store');
+      return c.json({
+        device_code: deviceCode,
+        user_code: userCode,
+        verification_uri: verificationUri,
+        verification_uri_complete: `${verificationUri}?user_code=${userCode}`,
+        expires_in: DEVICE_CODE_TTL_SECONDS,
+        interval: DEVICE_POLL_INTERVAL_SECONDS,
+      });
+    });
+
+    // Device approval page (signed-in users approve the user code shown by the CLI)
+    this.app.get('/device', (c) => {
+      const userCode = normalizeUserCode(c.req.query('user_code') || '');
+      return c.html(createDevicePage(c.env.CLERK_PUBLISHABLE_KEY || '', USER_CODE_PATTERN.test(userCode) ? userCode : ''));
+    });
+
+    // Public read-only view of a shared conversation (HTML, or JSON with ?format=json / Accept: application/json)
+    this.app.get('/s/:token', async (c) => {
+      c.header('Cache-Control', 'no-store');
+      c.header('Referrer-Policy', 'no-referrer');
+      c.header('X-Robots-Tag', 'noindex');
+
+      const link = await this.sessionDO.getShareLink(await hashShareToken(c.req.param('token')));
+      if (!link || !isShareLinkActive(link)) {
+        return c.json({ error: 'Not Found' }, 404);
+      }
+
+      // Read as the link's creator: the owner of a personal session, or a member of the owning organization
+      const org: OrgMembership | null = link.orgId ? { orgId: link.orgId, role: 'member' } : null;
+      const session = await this.openCodeService.getSession(link.sessionId, link.createdBy, org);
+      if (!session) {
+        return c.json({ error: 'Not Found' }, 404);
+      }
+
+      const shared: SharedConversation = {
+        createdAt: session.createdAt,
+        expiresAt: link.expiresAt,
+        // Authors stay private on public links
+        messages: (await this.openCodeService.getConversationHistory(link.sessionId, link.createdBy, org))
+          .map(({ role, content }) => ({ role, content })),
+      };
+
+      const wantsJson = c.req.query('format') === 'json' || (c.req.header('Accept') ?? '').includes('application/json');
+      return wantsJson ? c.json(shared) : c.html(createSharePage(shared));
+    });
+
+    // Token endpoint polled by the CLI; also exchanges refresh tokens
+    this.app.post('/auth/device/token', async (c) => {
+      const params = await readOAuthParams(c.req.raw);
+      c.header('Cache-Control', 'no-store');
+
+      const tokenError = (error: DeviceTokenErrorCode, description?: string) =>
+        c.json({ error, ...(description ? { error_description: description } : {}) }, 400);
+
+      if (params.grant_type === DEVICE_CODE_GRANT_TYPE) {
+        if (!params.device_code) {
+          return tokenError('invalid_request', 'device_code is required');
+        }
+
+        const result = await this.sessionDO.pollDeviceAuthorization(await hashDeviceSecret(params.device_code));
+        switch (result.status) {
+          case 'approved':
+            return c.json(await this.issueDeviceTokens(result));
+          case 'pending':
+            return tokenError('authorization_pending');
+          case 'slow_down':
+            return tokenError('slow_down');
+          case 'denied':
+            return tokenError('access_denied');
+          case 'expired':
+            return tokenError('expired_token');
+          default:
+            return tokenError('invalid_grant', 'Unknown or already used device_code');
+        }
+      }
+
+      if (params.grant_type === REFRESH_TOKEN_GRANT_TYPE) {
+        if (!params.refresh_token) {
+          return tokenError('invalid_request', 'refresh_token is required');
+        }
+
+        const owner = await this.sessionDO.consumeRefreshToken(await hashDeviceSecret(params.refresh_token));
+        if (!owner) {
+          return tokenError('invalid_grant', 'Refresh token is invalid, expired or revoked');
+        }
+        // The refresh deleted the previous access token
+        forgetDirectoryUser(owner.userId);
+        return c.json(await this.issueDeviceTokens(owner));
+      }
+
+      return tokenError('unsupported_grant_type');
+    });
+
+    // Get token endpoint
+    this.app.get('/get-token', async (c) => {
+      if (!c.req.header('cookie')) {
+        return c.json({ error: 'No cookies. Please sign in first.' }, 401);
+      }
+
+      const sessionToken = getCookie(c.req.raw, CLERK_SESSION_COOKIE);
+
+      if (!sessionToken) {
+        return c.json({ error: 'No session cookie found. Please sign in first.' }, 401);
+      }
+
+      try {
+        const response = await fetch(`https://api.clerk.com/v1/sessions/${sessionToken}/verify`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${c.env.CLERK_SECRET_KEY}`,
+          },
+        });
+
+        if (!response.ok) {
+          return c.json({ error: 'Invalid session' }, 401);
+        }
+
+        const data = await response.json() as { last_active_token?: { jwt: string } };
+        const jwt = data.last_active_token?.jwt;
+
+        if (jwt) {
+          return c.json({ token: jwt });
+        } else {
+          return c.json({ error: 'No JWT found' }, 400);
+        }
+      } catch (error) {
+        return c.json({ error: 'Failed to verify session' }, 500);
+      }
+    });
+
+    // Authentication: API keys and Clerk session JWTs resolve to the same userId
+    const authMiddleware = createAuthMiddleware((c) => this.createAuthProviders(c.env));
+
+    // Credential management (API keys, CLI logins) needs an interactive Clerk session, so a leaked key cannot mint more credentials
+    const requireClerkSession = async (c: any, next: any) => {
+      if (c.get('authMethod') !== 'clerk') {
+        return c.json({ error: 'This action requires a Clerk session token' }, 403);
+      }
+      await next();
+    };
+
+    // Cookie sessions may only change state from this origin or a CLERK_AUTHORIZED_PARTIES origin
+    const csrfMiddleware = createCsrfMiddleware((c) => clerkOptionsFromEnv(c.env).authorizedParties ?? []);
+
+    // Resolve the caller's role; suspended accounts are locked out of every /api route
+    const loadRole = async (c: any, next: any) => {
+      const userId = c.get('userId');
+      const role = resolveRole({
+        storedRole: await this.directoryLookups.getUserRole(userId),
+        claimRole: roleFromClaims(c.get('auth').claims),
+        bootstrapAdmin: parseAdminUserIds(c.env.ADMIN_USER_IDS).includes(userId),
+      });
+
+      if (role === 'suspended') {
+        return c.json({ error: 'Account suspended', code: 'account_suspended' }, 403);
+      }
+      c.set('role', role);
+      c.set('org', orgFromClaims(c.get('auth').claims));
+      await next();
+    };
+
+    // New sessions are personal unless the caller asks for their active organization
+    const sessionOwnerOrg = (c: any, visibility: unknown): { orgId: string | null } | { error: Response } => {
+      if (visibility === undefined || visibility === 'personal') {
+        return { orgId: null };
+      }
+      if (visibility !== 'org') {
+        return { error: c.json({ error: 'visibility must be "personal" or "org"' }, 400) };
+      }
+      const org: OrgMembership | null = c.get('org');
+      if (!org) {
+        return { error: c.json({ error: 'No active organization', code: 'org_required' }, 400) };
+      }
+      return { orgId: org.orgId };
+    };
+
+    // A new session's system prompt: its own `systemPrompt`, or a copy of one of the caller's personas
+    const newSessionSystemPrompt = async (
+      c: any,
+      userId: string,
+      { personaId, systemPrompt }: { personaId?: unknown; systemPrompt?: unknown }
+    ): Promise<{ systemPrompt: string | null } | { error: Response }> => {
+      if (personaId !== undefined && systemPrompt !== undefined) {
+        return { error: c.json({ error: 'Send either personaId or systemPrompt, not both' }, 400) };
+      }
+      if (personaId !== undefined) {
+        const persona = typeof personaId === 'string' ? await this.userShard(userId).getPersona(userId, personaId) : null;
+        if (!persona) {
+          return { error: c.json({ error: `Unknown persona: ${String(personaId)}`, code: 'unknown_persona' }, 400) };
+        }
+        return { systemPrompt: persona.systemPrompt };
+      }
+      const parsed = parseSystemPrompt(systemPrompt);
+      return parsed.ok ? { systemPrompt: parsed.systemPrompt } : { error: c.json({ error: parsed.error }, 400) };
+    };
+
+    // Only users who redeemed an invite code may use the API (admins are exempt for bootstrapping)
+    const requireInvite = async (c: any, next: any) => {
+      const userId = c.get('userId');
+      const invited = c.get('role') === 'admin' || await this.directoryLookups.isUserInvited(userId);
+      if (!invited) {
+        return c.json({
+          error: 'Invitation required',
+          code: 'invite_required',
+          message: '招待コードが登録されていません。POST /api/invites/redeem で招待コードを登録してください',
+        }, 403);
+      }
+      await next();
+    };
+
+    // Rejects model IDs that are not in the catalog or not allowed by the admins
+    const modelError = (c: any, model: unknown, allowed: string[]): Response | null => {
+      if (!isKnownModel(model)) {
+        return c.json({ error: `Unknown model: ${String(model)}`, code: 'unknown_model' }, 400);
+      }
+      if (!allowed.includes(model)) {
+        return c.json({ error: `Model ${model} is not allowed`, code: 'model_not_allowed' }, 400);
+      }
+      return null;
+    };
+
+    // The model provider failed after retries: 504 on timeouts, 502 when it rejected the request, 503 otherwise
+    const upstreamError = (c: any, error: LLMProviderError): Response => {
+      const status = error.code === 'timeout' ? 504 : error.code === 'bad_response' ? 502 : 503;
+      if (status === 503 && error.retryAfterMs !== null) {
+        c.header('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      }
+      return c.json({ success: false, error: error.message, code: `upstream_${error.code}`, provider: error.provider }, status);
+    };
+
+    const usageReport = async (c: any, userId: string) => {
+      const range = parseUsageRange(c.req.query('from'), c.req.query('to'));
+      if (!range.ok) {
+        return c.json({ error: range.error }, 400);
+      }
+
+      const rows = await this.openCodeService.listUsage(userId, range.fromMs, range.toMs);
+      return c.json({ userId, ...summarizeUsage(rows, range.from, range.to) });
+    };
+
+    // Model usage is billed to the shared OPENCODE_API_KEY, so each user gets a token bucket
+    const promptRateLimit = createRateLimitMiddleware(
+      (userId) => this.userShard(userId),
+      (c) => parseRateLimitConfig(c.env.PROMPT_RATE_LIMIT_PER_MINUTE, c.env.PROMPT_RATE_LIMIT_BURST)
+    );
+
+    // API routes (require authentication)
+    const apiRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+    apiRoutes.use(authMiddleware);
+    apiRoutes.use(csrfMiddleware);
+    apiRoutes.use(loadRole);
+
+    // Invite routes are registered before the invite gate so un-invited users can reach them
+    apiRoutes.get('/invites/status', async (c) => {
+      const invited = await this.sessionDO.isUserInvited(c.get('userId'));
+      return c.json({ invited });
+    });
+
+    apiRoutes.post('/invites/redeem', async (c) => {
+      const userId = c.get('userId');
+      const body = await c.req.json().catch(() => ({}));
+      const { code } = body as { code?: string };
+
+      if (!code || typeof code !== 'string') {
+        return c.json({ error: 'code is required' }, 400);
+      }
+
+      const claims = c.get('auth').claims ?? {};
+      const email = typeof claims.email === 'string' ? claims.email : '';
+      const result = await this.sessionDO.redeemInviteCode(userId, email, code);
+
+      if (!result.ok) {
+        return c.json({ error: 'Invalid invite code', code: result.reason }, 400);
+      }
+
+      return c.json({ invited: true, alreadyInvited: result.alreadyInvited });
+    });
+
+    apiRoutes.use(requireInvite);
+
+    // POST /api/prompt - Execute OpenCode prompt
+    apiRoutes.post('/prompt', requireScope('prompt:write'), promptRateLimit, async (c) => {
+      const userId = c.get('userId');
+      const body = await c.req.json();
+      const { prompt, sessionId, visibility, stream, model } = body as {
+        prompt: string;
+        sessionId?: string;
+        visibility?: string;
+        stream?: boolean;
+        /** Overrides the session's default model for this prompt */
+        model?: string;
+        /** For a new session: one of the caller's personas, or a system prompt */
+        personaId?: string;
+        systemPrompt?: string | null;
+      };
+      const org = c.get('org');
+      const streaming = stream === true || (c.req.header('Accept') ?? '').includes('text/event-stream');
+
+      if (!prompt) {
+        return c.json({ error: 'prompt is required' }, 400);
+      }
+
+      // Optional: the ID of the last message the client has seen (see durable-objects/prompt-lock.ts)
+      const ifMatch = parseIfMatch(c.req.header('If-Match'));
+      if (ifMatch === undefined) {
+        return c.json({ error: 'If-Match must be a message ID' }, 400);
+      }
+
+      const owner = sessionOwnerOrg(c, visibility);
+      if ('error' in owner) {
+        return owner.error;
+      }
+
+      const allowedModels = await this.getAllowedModels();
+      const invalidModel = model !== undefined ? modelError(c, model, allowedModels) : null;
+      if (invalidModel) {
+        return invalidModel;
+      }
+      const newSession = sessionId ? null : await newSessionSystemPrompt(c, userId, body);
+      if (newSession && 'error' in newSession) {
+        return newSession.error;
+      }
+
+      // Checked before any session is created or the model is called
+      const quota = await this.getQuotaStatus(userId);
+      if (quota.exceeded) {
+        return c.json({
+          error: 'Monthly quota exceeded',
+          code: 'quota_exceeded',
+          plan: quota.plan,
+          limits: quota.limits,
+          used: quota.used,
+          resetsAt: quota.resetsAt,
+        }, 429);
+      }
+
+      // Prompts queued behind another prompt count as in flight too
+      const leaseId = await this.userShard(userId).beginPrompt(userId, parseMaxPromptsInFlight(c.env.PROMPT_MAX_IN_FLIGHT));
+      if (!leaseId) {
+        return c.json({ error: 'Too many prompts in flight', code: 'too_many_prompts' }, 429);
+      }
+
+      let held: { sessionId: string; lockId: string } | null = null;
+      // Aborts the model call once a renewal finds the prompt cancelled (POST /api/sessions/:id/cancel)
+      const cancellation = new AbortController();
+      // Renew the lease (and the lock, once held) for as long as the prompt waits or runs
+      const heartbeat = setInterval(() => {
+        this.userShard(userId).renewPrompt(userId, leaseId)
+          .catch(error => console.warn('[OpenCode] Failed to renew prompt lease:', error));
+        if (held) {
+          this.openCodeService.renewPromptLock(held.sessionId, userId, held.lockId, org)
+            .then(state => {
+              if (state === 'cancelled') {
+                cancellation.abort();
+              } else if (state === 'expired') {
+                console.warn('[OpenCode] Prompt lock expired while the prompt was running:', held?.sessionId);
+              }
+            })
+            .catch(error => console.warn('[OpenCode] Failed to renew prompt lock:', error));
+        }
+      }, PROMPT_RENEW_INTERVAL_MS);
+      const release = async () => {
+        clearInterval(heartbeat);
+        if (held) {
+          await this.openCodeService.releasePromptLock(held.sessionId, userId, held.lockId, org);
+        }
+        await this.userShard(userId).endPrompt(userId, leaseId);
+      };
+      // A streamed response outlives this handler and releases the lock and lease itself
+      let deferRelease = false;
+
+      try {
+        let actualSessionId: string;
+
+        if (sessionId) {
+          // Verify the session exists and belongs to this user or their organization
+          const session = await this.openCodeService.getSession(sessionId, userId, org);
+          if (!session) {
+            return c.json({ error: 'Session not found' }, 404);
+          }
+          if (!canWriteSession(session)) {
+            return c.json({ error: 'Forbidden', code: 'read_only_session' }, 403);
+          }
+          // The session's default may have been dropped from the allowlist since it was chosen
+          if (model === undefined && session.model && !allowedModels.includes(session.model)) {
+            return c.json({ error: `Model ${session.model} is not allowed`, code: 'model_not_allowed' }, 400);
+          }
+
+          // Wait for earlier prompts to this session to finish
+          const lock = await this.openCodeService.acquirePromptLock(sessionId, userId, ifMatch, org);
+          if (!lock.ok) {
+            if (lock.reason === 'conflict') {
+              return c.json({ error: 'The session has changed', code: 'message_conflict', lastMessageId: lock.lastMessageId }, 409);
+            }
+            if (lock.reason === 'busy') {
+              return c.json({ error: 'The session is busy with other prompts', code: 'session_busy' }, 409);
+            }
+            return c.json({ error: 'Session not found' }, 404);
+          }
+          held = { sessionId, lockId: lock.lockId };
+          actualSessionId = sessionId;
+        } else {
+          // Create new session (a model given here becomes its default)
+          const session = await this.openCodeService.createSession(userId, owner.orgId, model ?? null, newSession?.systemPrompt ?? null);
+          actualSessionId = session.id;
+          // Nobody waits on a new session, but holding its lock lets the prompt be cancelled
+          const lock = await this.openCodeService.acquirePromptLock(actualSessionId, userId, null, org);
+          if (!lock.ok) {
+            // The caller created it a moment ago, so they may remove it even where org sessions need an org admin
+            await this.openCodeService.deleteSession(actualSessionId, userId, org && { ...org, role: 'admin' });
+            return c.json({ error: 'The new session could not be locked, try again', code: 'session_unavailable' }, 503);
+          }
+          held = { sessionId: actualSessionId, lockId: lock.lockId };
+        }
+
+        if (streaming) {
+          deferRelease = true;
+          return streamSSE(c, async (sse) => {
+            // Stop reading the model's answer once the client is gone; what arrived so far is kept
+            const disconnected = new AbortController();
+            sse.onAbort(() => disconnected.abort());
+
+            try {
+              await sse.writeSSE({ event: 'start', data: JSON.stringify({ sessionId: actualSessionId }) });
+              const response = await this.openCodeService.streamPrompt(actualSessionId, userId, prompt, org, {
+                model,
+                signal: disconnected.signal,
+                cancelSignal: cancellation.signal,
+                onDelta: (text) => sse.writeSSE({ event: 'delta', data: JSON.stringify({ text }) }),
+              });
+              await sse.writeSSE({
+                event: 'done',
+                data: JSON.stringify({
+                  sessionId: actualSessionId,
+                  messageId: response.messageId,
+                  usage: response.usage,
+                  aborted: response.aborted,
+                  cancelled: response.cancelled,
+                }),
+              });
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : String(error);
+              console.error('[OpenCode] Stream error:', errorMessage, error);
+              // Nothing was saved for this prompt, so the client can send it again
+              const code = error instanceof LLMProviderError ? `upstream_${error.code}` : 'internal_error';
+              await sse.writeSSE({ event: 'error', data: JSON.stringify({ error: errorMessage, code }) });
+            } finally {
+              await release();
+            }
+          });
+        }
+
+        const response = await this.openCodeService.sendPrompt(actualSessionId, userId, prompt, org, model, cancellation.signal);
+
+        c.header('ETag', `"${response.messageId}"`);
+        return c.json({
+          success: true,
+          response: response.text,
+          sessionId: actualSessionId,
+          messageId: response.messageId,
+          usage: response.usage,
+          cancelled: response.cancelled,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('[OpenCode] Error:', errorMessage, error);
+
+        if (error instanceof LLMProviderError) {
+          return upstreamError(c, error);
+        }
+        return c.json({
+          success: false,
+          error: errorMessage,
+        }, 500);
+      } finally {
+        if (!deferRelease) {
+          await release();
+        }
+      }
+    });
+
+    // Token usage billed to the caller (?from=YYYY-MM-DD&to=YYYY-MM-DD, UTC, default: last 30 days)
+    apiRoutes.get('/usage', requireScope('usage:read'), async (c) => {
+      return usageReport(c, c.get('userId'));
+    });
+
+    // The caller's plan and what is left of this month's quota
+    apiRoutes.get('/quota', requireScope('usage:read'), async (c) => {
+      return c.json(await this.getQuotaStatus(c.get('userId')));
+    });
+
+    // Sessions routes
+    apiRoutes.get('/sessions', requireScope('sessions:read'), async (c) => {
+      const userId = c.get('userId');
+      const userSessions = await this.openCodeService.listUserSessions(userId, c.get('org'));
+      return c.json({ sessions: userSessions });
+    });
+
+    apiRoutes.post('/sessions', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const body = await c.req.json().catch(() => ({}));
+      const { visibility, model } = body as { visibility?: unknown; model?: unknown };
+      const owner = sessionOwnerOrg(c, visibility);
+      if ('error' in owner) {
+        return owner.error;
+      }
+      const invalidModel = model !== undefined && model !== null ? modelError(c, model, await this.getAllowedModels()) : null;
+      if (invalidModel) {
+        return invalidModel;
+      }
+      const prompt = await newSessionSystemPrompt(c, userId, body);
+      if ('error' in prompt) {
+        return prompt.error;
+      }
+
+      const session = await this.openCodeService.createSession(userId, owner.orgId, (model as string | undefined) ?? null, prompt.systemPrompt);
+      return c.json(session, 201);
+    });
+
+    // Change the default model (null returns to the service default) and/or the system prompt (null removes it) of a session
+    apiRoutes.patch('/sessions/:id', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const org = c.get('org');
+      const body = await c.req.json().catch(() => ({}));
+      const { model, systemPrompt } = body as { model?: unknown; systemPrompt?: unknown };
+
+      if (model === undefined && systemPrompt === undefined) {
+        return c.json({ error: 'model or systemPrompt is required (null resets it)' }, 400);
+      }
+      const invalidModel = model !== undefined && model !== null ? modelError(c, model, await this.getAllowedModels()) : null;
+      if (invalidModel) {
+        return invalidModel;
+      }
+      const parsedPrompt = parseSystemPrompt(systemPrompt);
+      if (!parsedPrompt.ok) {
+        return c.json({ error: parsedPrompt.error }, 400);
+      }
+
+      const session = await this.openCodeService.getSession(sessionId, userId, org);
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+      if (!canWriteSession(session)) {
+        return c.json({ error: 'Forbidden', code: 'read_only_session' }, 403);
+      }
+
+      let updated: OpenCodeSession | null = session;
+      if (model !== undefined) {
+        updated = await this.openCodeService.setSessionModel(sessionId, userId, model as string | null, org);
+      }
+      if (updated && systemPrompt !== undefined) {
+        updated = await this.openCodeService.setSessionSystemPrompt(sessionId, userId, parsedPrompt.systemPrompt, org);
+      }
+      if (!updated) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+      return c.json(updated);
+    });
+
+    // Models the caller may choose for sessions and prompts
+    apiRoutes.get('/models', async (c) => {
+      const allowed = await this.getAllowedModels();
+      return c.json({
+        default: DEFAULT_MODEL,
+        models: MODEL_CATALOG.filter(model => allowed.includes(model.id)),
+      });
+    });
+
+    // The caller's personas: saved system prompts to start sessions with (see opencode/personas.ts)
+    apiRoutes.get('/personas', requireScope('sessions:read'), async (c) => {
+      const userId = c.get('userId');
+      return c.json({ personas: await this.userShard(userId).listPersonas(userId) });
+    });
+
+    apiRoutes.post('/personas', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const parsed = parsePersonaInput(await c.req.json().catch(() => ({})));
+      if (!parsed.ok) {
+        return c.json({ error: parsed.error }, 400);
+      }
+
+      const persona = await this.userShard(userId).createPersona(userId, parsed.persona, MAX_PERSONAS_PER_USER);
+      if (!persona) {
+        return c.json({ error: `A user may keep at most ${MAX_PERSONAS_PER_USER} personas`, code: 'persona_limit_reached' }, 409);
+      }
+      return c.json(persona, 201);
+    });
+
+    apiRoutes.get('/personas/:id', requireScope('sessions:read'), async (c) => {
+      const userId = c.get('userId');
+      const persona = await this.userShard(userId).getPersona(userId, c.req.param('id'));
+      if (!persona) {
+        return c.json({ error: 'Persona not found' }, 404);
+      }
+      return c.json(persona);
+    });
+
+    apiRoutes.patch('/personas/:id', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const parsed = parsePersonaInput(await c.req.json().catch(() => ({})), true);
+      if (!parsed.ok) {
+        return c.json({ error: parsed.error }, 400);
+      }
+
+      const persona = await this.userShard(userId).updatePersona(userId, c.req.param('id'), parsed.persona);
+      if (!persona) {
+        return c.json({ error: 'Persona not found' }, 404);
+      }
+      return c.json(persona);
+    });
+
+    // Sessions started from the persona keep their copy of its system prompt
+    apiRoutes.delete('/personas/:id', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      if (!(await this.userShard(userId).deletePersona(userId, c.req.param('id')))) {
+        return c.json({ error: 'Persona not found' }, 404);
+      }
+      return c.body(null, 204);
+    });
+
+    apiRoutes.delete('/sessions/:id', requireScope('sessions:delete'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const org = c.get('org');
+
+      // Org members and invited members can see a session, but only its owner (or org admins) may delete it
+      const session = await this.openCodeService.getSession(sessionId, userId, org);
+      if (session && !canDeleteSession(session, userId, org)) {
+        return c.json({ error: 'Forbidden', code: session.memberRole ? 'session_owner_required' : 'org_admin_required' }, 403);
+      }
+
+      const deleted = await this.openCodeService.deleteSession(sessionId, userId, org);
+
+      if (!deleted) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      return c.body(null, 204);
+    });
+
+    // Conversation history; user messages carry the ID of the user who sent them
+    // The ETag is the last message's ID, to send back as If-Match with the next prompt
+    apiRoutes.get('/sessions/:id/messages', requireScope('sessions:read'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const session = await this.openCodeService.getSession(sessionId, userId, c.get('org'));
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      const messages = await this.openCodeService.getConversationHistory(sessionId, userId, c.get('org'));
+      const lastMessageId = messages.at(-1)?.id;
+      if (lastMessageId !== undefined) {
+        c.header('ETag', `"${lastMessageId}"`);
+      }
+      return c.json({ messages });
+    });
+
+    // Cancel the prompt a session is answering, e.g. from another tab; the prompt's own request
+    // stops waiting for the model and saves what it received so far as a cancelled answer
+    apiRoutes.post('/sessions/:id/cancel', requireScope('prompt:write'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const org = c.get('org');
+
+      const session = await this.openCodeService.getSession(sessionId, userId, org);
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+      if (!canWriteSession(session)) {
+        return c.json({ error: 'Forbidden', code: 'read_only_session' }, 403);
+      }
+
+      if (!(await this.openCodeService.cancelPrompt(sessionId, userId, org))) {
+        return c.json({ error: 'No prompt is running in this session', code: 'no_prompt_in_flight' }, 409);
+      }
+      return c.json({ cancelled: true }, 202);
+    });
+
+    // Session members: whoever may delete a session may invite others as viewers or editors
+    apiRoutes.get('/sessions/:id/members', requireScope('sessions:read'), async (c) => {
+      const members = await this.openCodeService.listSessionMembers(c.req.param('id'), c.get('userId'), c.get('org'));
+      if (!members) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      return c.json({ members });
+    });
+
+    apiRoutes.post('/sessions/:id/members', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const org = c.get('org');
+      const body = await c.req.json().catch(() => ({}));
+      const { userId: memberId, role } = body as { userId?: unknown; role?: unknown };
+
+      if (typeof memberId !== 'string' || !memberId) {
+        return c.json({ error: 'userId is required' }, 400);
+      }
+      if (!isSessionMemberRole(role)) {
+        return c.json({ error: 'Invalid role', allowed: SESSION_MEMBER_ROLES }, 400);
+      }
+      if (memberId === userId) {
+        return c.json({ error: 'Cannot invite yourself' }, 400);
+      }
+
+      const session = await this.openCodeService.getSession(sessionId, userId, org);
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+      if (!canDeleteSession(session, userId, org)) {
+        return c.json({ error: 'Forbidden', code: session.memberRole ? 'session_owner_required' : 'org_admin_required' }, 403);
+      }
+      // Only users who can use the API at all may be invited
+      if (!(await this.sessionDO.isUserInvited(memberId))) {
+        return c.json({ error: 'User not found', code: 'user_not_found' }, 404);
+      }
+
+      const member = await this.openCodeService.addSessionMember(sessionId, userId, { userId: memberId, role }, org);
+      if (!member) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      return c.json(member, 201);
+    });
+
+    // Managers may remove anyone; members may remove themselves (leave the session)
+    apiRoutes.delete('/sessions/:id/members/:userId', requireScope('sessions:write'), async (c) => {
+      const removed = await this.openCodeService.removeSessionMember(
+        c.req.param('id'),
+        c.get('userId'),
+        c.req.param('userId'),
+        c.get('org')
+      );
+      if (!removed) {
+        return c.json({ error: 'Member not found' }, 404);
+      }
+
+      return c.body(null, 204);
+    });
+
+    // Share links: anyone who can write to a session may share it or revoke its links; readers may list them
+    apiRoutes.post('/sessions/:id/share', requireScope('sessions:write'), async (c) => {
+      const userId = c.get('userId');
+      const sessionId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+      const { expiresInDays } = body as { expiresInDays?: number };
+
+      if (expiresInDays !== undefined && (typeof expiresInDays !== 'number' || !(expiresInDays > 0))) {
+        return c.json({ error: 'expiresInDays must be a positive number' }, 400);
+      }
+
+      const session = await this.openCodeService.getSession(sessionId, userId, c.get('org'));
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+      if (!canWriteSession(session)) {
+        return c.json({ error: 'Forbidden', code: 'read_only_session' }, 403);
+      }
+
+      const token = generateShareToken();
+      const link = await this.sessionDO.createShareLink(userId, {
+        sessionId,
+        orgId: session.orgId ?? null,
+        tokenHash: await hashShareToken(token),
+        expiresAt: expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : null,
+      });
+
+      // The token is only ever returned here
+      return c.json({ ...link, token, url: new URL(`/s/${token}`, c.req.url).toString() }, 201);
+    });
+
+    apiRoutes.get('/sessions/:id/shares', requireScope('sessions:read'), async (c) => {
+      const sessionId = c.req.param('id');
+      const session = await this.openCodeService.getSession(sessionId, c.get('userId'), c.get('org'));
+      if (!session) {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      return c.json({ shares: await this.sessionDO.listShareLinks(sessionId) });
+    });
+
+    apiRoutes.delete('/sessions/:id/shares/:shareId', requireScope('sessions:write'), async (c) => {
+      const sessionId = c.req.param('id');
+      const session = await this.openCodeService.getSession(sessionId, c.get('userId'), c.get('org'));
+      if (!session) {
+        return c.json({ error: 'Share link not found' }, 404);
+      }
+      if (!canWriteSession(session)) {
+        return c.json({ error: 'Forbidden', code: 'read_only_session' }, 403);
+      }
+      if (!(await this.sessionDO.revokeShareLink(sessionId, c.req.param('shareId')))) {
+        return c.json({ error: 'Share link not found' }, 404);
+      }
+
+      return c.body(null, 204);
+    });
 
-  /**
-   * List all sessions for a user
-   */
-  async listUserSessions(userId: string): Promise<Array<{ id: string; userId: string; createdAt: number }>> {
-    this.initDB();
+    // API key routes
+    apiRoutes.post('/keys', requireClerkSession, async (c) => {
+      const userId = c.get('userId');
+      const body = await c.req.json().catch(() => ({}));
+      const { label, expiresInDays, scopes } = body as { label?: string; expiresInDays?: number; scopes?: unknown };
 
-    const cursor = this.sql.exec(
-      'SELECT id, user_id, created_at FROM sessions WHERE user_id = ? ORDER BY created_at DESC',
-      userId
-    );
+      const keyLabel = (label ?? 'API key').trim();
+      if (!keyLabel || keyLabel.length > MAX_API_KEY_LABEL_LENGTH) {
+        return c.json({ error: `label must be 1-${MAX_API_KEY_LABEL_LENGTH} characters` }, 400);
+      }
+      if (expiresInDays !== undefined && (typeof expiresInDays !== 'number' || !(expiresInDays > 0))) {
+        return c.json({ error: 'expiresInDays must be a positive number' }, 400);
+      }
+      const parsedScopes = parseScopes(scopes);
+      if (!parsedScopes.ok) {
+        return c.json({ error: 'scopes must be a non-empty array of known scopes', invalid: parsedScopes.invalid }, 400);
+      }
 
-    return cursor.toArray().map((row: any) => ({
-      id: row.id as string,
-      userId: row.user_id as string,
-      createdAt: row.created_at as number,
-    }));
-  }
+      const { key, prefix } = generateApiKey();
+      const record = await this.sessionDO.createApiKey(userId, {
+        label: keyLabel,
+        keyHash: await hashApiKey(key),
+        prefix,
+        expiresAt: expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : null,
+        scopes: parsedScopes.scopes,
+      });
 
-  /**
-   * Add a message to conversation history
-   */
-  async addMessage(sessionId: string, userId: string, message: { role: string; content: string }): Promise<void> {
-    // Verify session exists and belongs to user
-    const session = await this.getSession(sessionId, userId);
-    if (!session) {
-      throw new Error('Session not found or access denied');
-    }
+      // The plaintext key is only ever returned here
+      return c.json({ ...record, key }, 201);
+    });
 
-    await this.sql.exec(
-      'INSERT INTO messages (session_id, role, content, created_at) VALUES (?, ?, ?, ?)',
-      sessionId, message.role, message.content, Date.now()
-    );
-  }
+    apiRoutes.get('/keys', requireClerkSession, async (c) => {
+      const userId = c.get('userId');
+      const keys = await this.sessionDO.listApiKeys(userId);
+      return c.json({ keys });
+    });
 
-  /**
-   * Get conversation history for a session
-   */
-  async getConversationHistory(sessionId: string, userId: string): Promise<Array<{ role: string; content: string }>> {
-    // Verify session exists and belongs to user
-    const session = await this.getSession(sessionId, userId);
-    if (!session) {
-      return [];
-    }
+    apiRoutes.patch('/keys/:id', requireClerkSession, async (c) => {
+      const userId = c.get('userId');
+      const body = await c.req.json().catch(() => ({}));
+      const label = ((body as { label?: string }).label ?? '').trim();
 
-    const cursor = this.sql.exec(
-      'SELECT role, content FROM messages WHERE session_id = ? ORDER BY created_at ASC',
-      sessionId
-    );
+      if (!label || label.length > MAX_API_KEY_LABEL_LENGTH) {
+        return c.json({ error: `label must be 1-${MAX_API_KEY_LABEL_LENGTH} characters` }, 400);
+      }
 
-    return cursor.toArray().map((row: any) => ({
-      role: row.role as string,
-      content: row.content as string,
-    }));
-  }
-}
+      const record = await this.sessionDO.updateApiKeyLabel(userId, c.req.param('id'), label);
+      if (!record) {
+        return c.json({ error: 'API key not found' }, 404);
+      }
 
-/**
- * OpenCode Multi-Tenant Worker Class
- */
-export class Worker {
-  readonly app: AppType;
-  private openCodeService: OpenCodeService;
-  private env: Env;
+      return c.json(record);
+    });
 
-  constructor(env: Env) {
-    this.env = env;
-    this.app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    apiRoutes.delete('/keys/:id', requireClerkSession, async (c) => {
+      const userId = c.get('userId');
+      const revoked = await this.sessionDO.revokeApiKey(userId, c.req.param('id'));
+      forgetDirectoryUser(userId);
 
-    // Get or create Session Durable Object
-    // Fallback to in-memory implementation for local development
-    let sessionDO: SessionDurableObjectState;
-    if (env.SESSIONS) {
-      // Use idFromName to create a proper DurableObjectId from the class name
-      const doId = env.SESSIONS.idFromName(SessionDurableObject.id);
-      sessionDO = env.SESSIONS.get(doId);
-    } else {
-      // Fallback: Use in-memory storage for local development
-      console.warn('[Worker] SESSIONS binding not available, using in-memory storage');
-      sessionDO = new InMemorySessionStore();
-    }
+      if (!revoked) {
+        return c.json({ error: 'API key not found' }, 404);
+      }
 
-    this.openCodeService = new OpenCodeService(
-      { apiKey: env.OPENCODE_API_KEY },
-      sessionDO
-    );
+      return c.body(null, 204);
+    });
 
-    this.setupRoutes();
-  }
+    // Device authorization approval (from the /device page)
+    apiRoutes.get('/device/:userCode', requireClerkSession, async (c) => {
+      const authorization = await this.sessionDO.getDeviceAuthorization(normalizeUserCode(c.req.param('userCode')));
 
-  /**
-   * Setup all routes
-   */
-  private setupRoutes() {
-    // CORS middleware (apply to all routes)
-    this.app.use('*', cors());
+      if (!authorization || authorization.status !== 'pending' || authorization.expiresAt <= Date.now()) {
+        return c.json({ error: 'Device code not found or expired' }, 404);
+      }
 
-    // Health check (no auth required)
-    this.app.get('/health', (c) => {
       return c.json({
-        status: 'ok',
-        timestamp: new Date().toISOString(),
-        uptime: performance.now(),
+        userCode: authorization.userCode,
+        clientName: authorization.clientName,
+        scopes: authorization.scopes,
+        expiresAt: authorization.expiresAt,
       });
     });
 
-    // Home page - Get auth token
-    this.app.get('/', (c) => {
-      const publishableKey = c.env.CLERK_PUBLISHABLE_KEY || '';
-      return c.html(createHomePage(publishableKey));
+    apiRoutes.post('/device/:userCode/approve', requireClerkSession, async (c) => {
+      const userCode = normalizeUserCode(c.req.param('userCode'));
+      const approved = await this.sessionDO.decideDeviceAuthorization(userCode, c.get('userId'), true);
+
+      if (!approved) {
+        return c.json({ error: 'Device code not found or expired' }, 404);
+      }
+
+      return c.json({ userCode, status: 'approved' });
     });
 
-    // Verify invite code endpoint (no auth required)
-    this.app.get('/api/verify-invite', (c) => {
-      const inviteCode = c.req.query('code');
-      if (!inviteCode) {
-        return c.json({ valid: false, error: 'Invite code is required' }, 400);
+    apiRoutes.post('/device/:userCode/deny', requireClerkSession, async (c) => {
+      const userCode = normalizeUserCode(c.req.param('userCode'));
+      const denied = await this.sessionDO.decideDeviceAuthorization(userCode, c.get('userId'), false);
+
+      if (!denied) {
+        return c.json({ error: 'Device code not found or expired' }, 404);
       }
 
-      const upperCode = inviteCode.toUpperCase();
-      const isValid = INVITATION_CODES.includes(upperCode);
+      return c.json({ userCode, status: 'denied' });
+    });
+
+    // Admin routes
+    const adminRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+    adminRoutes.use(requireScope('admin'));
+    adminRoutes.use(requireRole('admin'));
 
-      return c.json({
-        valid: isValid,
-        code: upperCode,
-        message: isValid ? '✓ 有効な招待コードです' : '❌ 無効な招待コードです'
-      });
+    // Role a user ends up with once ADMIN_USER_IDS and their Clerk metadata (as last synced by the webhook) are applied
+    const effectiveRole = async (c: any, userId: string, storedRole: UserRole | null): Promise<UserRole> => resolveRole({
+      storedRole,
+      claimRole: (await this.sessionDO.getUserProfile(userId))?.metadataRole ?? null,
+      bootstrapAdmin: parseAdminUserIds(c.env.ADMIN_USER_IDS).includes(userId),
     });
 
-    // Get token endpoint
-    this.app.get('/get-token', async (c) => {
-      const cookieHeader = c.req.header('cookie');
-      if (!cookieHeader) {
-        return c.json({ error: 'No cookies. Please sign in first.' }, 401);
+    adminRoutes.get('/users', async (c) => {
+      const adminIds = parseAdminUserIds(c.env.ADMIN_USER_IDS);
+      const users = (await this.sessionDO.listUsers()).map(user => ({
+        ...user,
+        role: resolveRole({ storedRole: user.storedRole, claimRole: user.metadataRole, bootstrapAdmin: adminIds.includes(user.userId) }),
+      }));
+      return c.json({ users });
+    });
+
+    adminRoutes.put('/users/:id/role', async (c) => {
+      const targetId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+      const { role } = body as { role?: string };
+
+      if (!isUserRole(role)) {
+        return c.json({ error: 'role must be one of admin, member, suspended' }, 400);
+      }
+      if (targetId === c.get('userId') && role !== 'admin') {
+        return c.json({ error: 'Admins cannot demote or suspend themselves' }, 400);
+      }
+      const effective = await effectiveRole(c, targetId, role);
+      if (effective !== role) {
+        return c.json({
+          error: `ADMIN_USER_IDS or the user's Clerk metadata make them ${effective}; change the role there`,
+          code: 'role_from_config',
+          role: effective,
+        }, 409);
       }
 
-      const cookies = cookieHeader.split(';').map(c => c.trim());
-      const sessionCookie = cookies.find(c => c.startsWith('__session='));
+      await this.sessionDO.setUserRole(targetId, role, c.get('userId'));
+      forgetDirectoryUser(targetId);
+      return c.json({ userId: targetId, role });
+    });
 
-      if (!sessionCookie) {
-        return c.json({ error: 'No session cookie found. Please sign in first.' }, 401);
+    adminRoutes.post('/users/:id/suspend', async (c) => {
+      const targetId = c.req.param('id');
+      if (targetId === c.get('userId')) {
+        return c.json({ error: 'Admins cannot demote or suspend themselves' }, 400);
       }
 
-      const sessionToken = sessionCookie.split('=')[1];
+      await this.sessionDO.setUserRole(targetId, 'suspended', c.get('userId'));
+      forgetDirectoryUser(targetId);
+      return c.json({ userId: targetId, role: 'suspended' });
+    });
 
-      try {
-        const response = await fetch(`https://api.clerk.com/v1/sessions/${sessionToken}/verify`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${c.env.CLERK_SECRET_KEY}`,
-          },
-        });
+    adminRoutes.post('/users/:id/reactivate', async (c) => {
+      const targetId = c.req.param('id');
+      if ((await this.sessionDO.getUserRole(targetId)) !== 'suspended') {
+        return c.json({ error: 'User is not suspended' }, 409);
+      }
 
-        if (!response.ok) {
-          return c.json({ error: 'Invalid session' }, 401);
-        }
+      await this.sessionDO.setUserRole(targetId, 'member', c.get('userId'));
+      forgetDirectoryUser(targetId);
+      return c.json({ userId: targetId, role: await effectiveRole(c, targetId, 'member') });
+    });
 
-        const data = await response.json() as { last_active_token?: { jwt: string } };
-        const jwt = data.last_active_token?.jwt;
+    adminRoutes.get('/users/:id/usage', async (c) => {
+      return usageReport(c, c.req.param('id'));
+    });
 
-        if (jwt) {
-          return c.json({ token: jwt });
-        } else {
-          return c.json({ error: 'No JWT found' }, 400);
-        }
-      } catch (error) {
-        return c.json({ error: 'Failed to verify session' }, 500);
-      }
+    // Plans and one-off top-ups (monthly quotas)
+    adminRoutes.get('/users/:id/quota', async (c) => {
+      return c.json({ userId: c.req.param('id'), ...(await this.getQuotaStatus(c.req.param('id'))) });
     });
 
-    // Clerk authentication middleware
-    const authMiddleware = async (c: any, next: any) => {
-      const authHeader = c.req.header('Authorization') || '';
+    adminRoutes.put('/users/:id/plan', async (c) => {
+      const targetId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+      const { plan } = body as { plan?: unknown };
 
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return c.json({ error: 'Unauthorized', debug: 'no_bearer' }, 401);
+      if (!isPlanId(plan)) {
+        return c.json({ error: `plan must be one of ${PLAN_IDS.join(', ')}` }, 400);
       }
 
-      const token = authHeader.substring(7); // Remove "Bearer " prefix
-
-      try {
-        // Decode JWT to get payload
-        const parts = token.split('.');
-        if (parts.length !== 3) {
-          return c.json({ error: 'Unauthorized', debug: 'invalid_jwt_format' }, 401);
-        }
+      await this.userShard(targetId).setUserPlan(targetId, plan, c.get('userId'));
+      return c.json({ userId: targetId, ...(await this.getQuotaStatus(targetId)) });
+    });
 
-        // Decode payload using Buffer (Cloudflare Workers compatible)
-        const payload = JSON.parse(
-          Buffer.from(parts[1], 'base64url').toString('utf-8')
-        );
+    // Top-ups raise the current month's quota only
+    adminRoutes.post('/users/:id/top-ups', async (c) => {
+      const targetId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+      const { tokens = 0, requests = 0, note = null } = body as { tokens?: unknown; requests?: unknown; note?: unknown };
 
-        // Check expiration
-        const now = Math.floor(Date.now() / 1000);
-        if (payload.exp && payload.exp < now) {
-          return c.json({ error: 'Unauthorized', debug: 'token_expired' }, 401);
-        }
+      const isAmount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+      if (!isAmount(tokens) || !isAmount(requests) || tokens + requests === 0) {
+        return c.json({ error: 'tokens and requests must be non-negative integers, and at least one positive' }, 400);
+      }
+      if (note !== null && (typeof note !== 'string' || note.length > MAX_TOP_UP_NOTE_LENGTH)) {
+        return c.json({ error: `note must be a string of at most ${MAX_TOP_UP_NOTE_LENGTH} characters` }, 400);
+      }
 
-        // Verify issuer
-        if (!payload.iss || (!payload.iss.includes('clerk.') && !payload.iss.includes('.clerk.accounts.'))) {
-          return c.json({ error: 'Unauthorized', debug: 'invalid_issuer' }, 401);
-        }
+      const topUp = await this.userShard(targetId).addQuotaTopUp(targetId, { tokens, requests, note, grantedBy: c.get('userId') });
+      return c.json({ ...topUp, quota: await this.getQuotaStatus(targetId) }, 201);
+    });
 
-        // Get user ID
-        const userId = payload.sub;
-        if (!userId) {
-          return c.json({ error: 'Unauthorized', debug: 'no_user_id' }, 401);
-        }
+    // Model allowlist (without one, only free models may be used)
+    adminRoutes.get('/models', async (c) => {
+      const configured = await this.sessionDO.getAllowedModels();
+      const allowed = allowedModelIds(configured);
+      return c.json({
+        configured: configured !== null,
+        models: MODEL_CATALOG.map(model => ({
+          ...model,
+          allowed: allowed.includes(model.id),
+          available: this.openCodeService.isModelAvailable(model.id),
+        })),
+      });
+    });
 
-        c.set('userId', userId);
-        await next();
-      } catch (error) {
-        console.error('[Auth] Token verification error:', error);
-        return c.json({ error: 'Unauthorized', debug: 'verify_error' }, 401);
+    adminRoutes.put('/models', async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const allowlist = parseModelAllowlist((body as { models?: unknown }).models);
+      if (!allowlist.ok) {
+        return c.json({ error: allowlist.error }, 400);
       }
-    };
 
-    // API routes (require authentication)
-    const apiRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
-    apiRoutes.use(authMiddleware);
+      await this.sessionDO.setAllowedModels(allowlist.models, c.get('userId'));
+      return c.json({
+        configured: true,
+        models: MODEL_CATALOG.map(model => ({
+          ...model,
+          allowed: allowlist.models.includes(model.id),
+          available: this.openCodeService.isModelAvailable(model.id),
+        })),
+      });
+    });
 
-    // POST /api/prompt - Execute OpenCode prompt
-    apiRoutes.post('/prompt', async (c) => {
-      const userId = c.get('userId');
-      const body = await c.req.json();
-      const { prompt, sessionId } = body as { prompt: string; sessionId?: string };
+    adminRoutes.delete('/models', async (c) => {
+      await this.sessionDO.setAllowedModels(null, c.get('userId'));
+      return c.body(null, 204);
+    });
 
-      if (!prompt) {
-        return c.json({ error: 'prompt is required' }, 400);
+    // Per-user /api/prompt limits (without an override the PROMPT_RATE_LIMIT_* defaults apply)
+    adminRoutes.get('/users/:id/rate-limit', async (c) => {
+      const targetId = c.req.param('id');
+      const override = await this.userShard(targetId).getRateLimitOverride(targetId);
+      const defaults = parseRateLimitConfig(c.env.PROMPT_RATE_LIMIT_PER_MINUTE, c.env.PROMPT_RATE_LIMIT_BURST);
+      return c.json({ userId: targetId, rateLimit: override ?? defaults, override: override !== null });
+    });
+
+    adminRoutes.put('/users/:id/rate-limit', async (c) => {
+      const targetId = c.req.param('id');
+      const body = await c.req.json().catch(() => ({}));
+      const { requestsPerMinute, burst } = body as Partial<RateLimitConfig>;
+      const config = { requestsPerMinute, burst };
+
+      if (!isRateLimitConfig(config)) {
+        return c.json({ error: `requestsPerMinute and burst must be integers between 1 and ${MAX_RATE_LIMIT_VALUE}` }, 400);
       }
 
-      try {
-        let actualSessionId: string;
+      await this.userShard(targetId).setRateLimitOverride(targetId, config, c.get('userId'));
+      return c.json({ userId: targetId, rateLimit: config, override: true });
+    });
 
-        if (sessionId) {
-          // Verify the session exists and belongs to this user
-          const session = await this.openCodeService.getSession(sessionId, userId);
-          if (!session) {
-            return c.json({ error: 'Session not found' }, 404);
-          }
-          actualSessionId = sessionId;
-        } else {
-          // Create new session
-          const session = await this.openCodeService.createSession(userId);
-          actualSessionId = session.id;
-        }
+    adminRoutes.delete('/users/:id/rate-limit', async (c) => {
+      const targetId = c.req.param('id');
+      await this.userShard(targetId).setRateLimitOverride(targetId, null, c.get('userId'));
+      return c.body(null, 204);
+    });
 
-        const response = await this.openCodeService.sendPrompt(actualSessionId, userId, prompt);
+    adminRoutes.post('/invites', async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const { code, maxRedemptions, expiresAt, notes } = body as {
+        code?: string;
+        maxRedemptions?: number | null;
+        expiresAt?: string | null;
+        notes?: string | null;
+      };
 
-        return c.json({
-          success: true,
-          response: response.text,
-          sessionId: actualSessionId,
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('[OpenCode] Error:', errorMessage, error);
+      const inviteCode = code ? normalizeInviteCode(code) : generateInviteCode();
+      if (!INVITE_CODE_PATTERN.test(inviteCode)) {
+        return c.json({ error: 'code must be 4-64 characters of A-Z, 0-9 and "-"' }, 400);
+      }
+      if (maxRedemptions != null && (!Number.isInteger(maxRedemptions) || maxRedemptions < 1)) {
+        return c.json({ error: 'maxRedemptions must be a positive integer' }, 400);
+      }
+      const expiresAtMs = expiresAt ? Date.parse(expiresAt) : null;
+      if (expiresAtMs !== null && Number.isNaN(expiresAtMs)) {
+        return c.json({ error: 'expiresAt must be an ISO 8601 date' }, 400);
+      }
 
-        return c.json({
-          success: false,
-          error: errorMessage,
-        }, 500);
+      const record = await this.sessionDO.createInviteCode({
+        code: inviteCode,
+        maxRedemptions: maxRedemptions ?? null,
+        expiresAt: expiresAtMs,
+        createdBy: c.get('userId'),
+        notes: notes?.trim() || null,
+      });
+
+      if (!record) {
+        return c.json({ error: 'Invite code already exists' }, 409);
       }
+
+      return c.json(record, 201);
     });
 
-    // Sessions routes
-    apiRoutes.get('/sessions', async (c) => {
-      const userId = c.get('userId');
-      const userSessions = await this.openCodeService.listUserSessions(userId);
-      return c.json({ sessions: userSessions });
+    adminRoutes.get('/invites', async (c) => {
+      const invites = await this.sessionDO.listInviteCodes();
+      return c.json({ invites });
     });
 
-    apiRoutes.post('/sessions', async (c) => {
-      const userId = c.get('userId');
-      const session = await this.openCodeService.createSession(userId);
-      return c.json(session, 201);
+    adminRoutes.delete('/invites/:code', async (c) => {
+      const revoked = await this.sessionDO.revokeInviteCode(c.req.param('code'));
+      if (!revoked) {
+        return c.json({ error: 'Invite code not found' }, 404);
+      }
+      return c.body(null, 204);
     });
 
-    apiRoutes.delete('/sessions/:id', async (c) => {
-      const userId = c.get('userId');
-      const sessionId = c.req.param('id');
-      const deleted = await this.openCodeService.deleteSession(sessionId, userId);
+    adminRoutes.get('/invites/:code/redemptions', async (c) => {
+      const code = normalizeInviteCode(c.req.param('code'));
+      const redemptions = await this.sessionDO.listInviteRedemptions(code);
+      return c.json({ code, redemptions });
+    });
 
-      if (!deleted) {
-        return c.json({ error: 'Session not found' }, 404);
+    // Move sessions written before sharding out of the directory, one batch per call
+    adminRoutes.post('/storage/migrate', async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const { limit = DEFAULT_MIGRATION_BATCH_SIZE } = body as { limit?: number };
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MIGRATION_BATCH_SIZE) {
+        return c.json({ error: `limit must be an integer between 1 and ${MAX_MIGRATION_BATCH_SIZE}` }, 400);
       }
 
-      return c.body(null, 204);
+      if (!this.sessionRouter) {
+        return c.json({ moved: 0, remaining: 0 });
+      }
+      return c.json(await this.sessionRouter.migrateLegacySessions(limit));
     });
 
+    apiRoutes.route('/admin', adminRoutes);
+
     // Mount API routes at /api
     this.app.route('/api', apiRoutes);
 
@@ -949,6 +4451,97 @@ export class Worker {
     });
   }
 
+  /**
+   * Model IDs prompts may use: the admins' allowlist (or the free models) whose provider is configured
+   */
+  private async getAllowedModels(): Promise<string[]> {
+    const allowed = allowedModelIds(await this.sessionDO.getAllowedModels());
+    return allowed.filter(model => this.openCodeService.isModelAvailable(model));
+  }
+
+  /**
+   * A user's plan and usage for the current month
+   */
+  private async getQuotaStatus(userId: string): Promise<QuotaStatus> {
+    const now = Date.now();
+    const { start, end } = quotaPeriod(now);
+    return evaluateQuota(await this.userShard(userId).getQuotaState(userId, start, end), now);
+  }
+
+  /**
+   * Issue an access token (short-lived API key) and a refresh token for a CLI login
+   */
+  private async issueDeviceTokens({ userId, clientName, scopes }: RefreshTokenOwner) {
+    const { key, prefix } = generateApiKey();
+    const accessToken = await this.sessionDO.createApiKey(userId, {
+      label: clientName ? `CLI: ${clientName}` : 'CLI (device login)',
+      keyHash: await hashApiKey(key),
+      prefix,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+      scopes,
+    });
+
+    const refreshToken = generateRefreshToken();
+    await this.sessionDO.createRefreshToken(userId, {
+      tokenHash: await hashDeviceSecret(refreshToken),
+      apiKeyId: accessToken.id,
+      clientName,
+      scopes,
+      expiresAt: Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000,
+    });
+
+    return {
+      access_token: key,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refreshToken,
+      ...(scopes ? { scope: scopes.join(' ') } : {}),
+    };
+  }
+
+  /**
+   * Clerk user lifecycle: profiles live in the directory, personal sessions in the user's shard
+   */
+  private createUserProfileStore(): UserProfileStore {
+    const directory = this.sessionDO;
+    const router = this.sessionRouter;
+    return {
+      upsertUserProfile: (profile) => directory.upsertUserProfile(profile),
+      getUserProfile: (userId) => directory.getUserProfile(userId),
+      purgeUserData: async (userId) => {
+        const purged = await directory.purgeUserData(userId);
+        forgetDirectoryUser(userId);
+        if (!router) {
+          return purged;
+        }
+
+        const sharded = await router.purgeUserSessions(userId);
+        return {
+          ...purged,
+          sessions: purged.sessions + sharded.sessions,
+          messages: purged.messages + sharded.messages,
+        };
+      },
+    };
+  }
+
+  /**
+   * Provider chain for /api routes (first match wins)
+   */
+  private createAuthProviders(env: Env): AuthProvider[] {
+    const providers: AuthProvider[] = [];
+    if (env.DEV_AUTH_BYPASS === 'true') {
+      providers.push(new DevBypassProvider());
+    }
+    const clerkOptions = clerkOptionsFromEnv(env);
+    providers.push(
+      new ApiKeyProvider(this.directoryLookups),
+      new ClerkJwtProvider(clerkOptions),
+      new ClerkCookieProvider(clerkOptions)
+    );
+    return providers;
+  }
+
   /**
    * Fetch handler for Cloudflare Workers
    */
@@ -1,7 +1,9 @@
 /**
  * Worker Entry Point Tests
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { createTestSigner, signTestToken } from './auth/test-keys.js';
+import type { TestSigner } from './auth/test-keys.js';
 
 // Mock @cloudflare/sandbox before importing
 const mockSandboxInstance = {
@@ -19,6 +21,11 @@ vi.mock('@cloudflare/sandbox', () => ({
 describe('Worker', () => {
   let env: any;
   let worker: any;
+  let signer: TestSigner;
+
+  beforeAll(async () => {
+    signer = await createTestSigner();
+  });
 
   beforeEach(async () => {
     // Import worker after mocks are set up
@@ -33,7 +40,7 @@ describe('Worker', () => {
       },
       OPENCODE_API_KEY: 'test-api-key',
       CLERK_SECRET_KEY: 'test-clerk-secret',
-      CLERK_JWT_KEY: 'test-jwt-key',
+      CLERK_JWT_KEY: signer.publicKeyPem,
     };
   });
 
@@ -59,8 +66,24 @@ describe('Worker', () => {
       expect(response.status).toBe(401);
     });
 
+    it('rejects tokens with a forged signature', async () => {
+      const attacker = await createTestSigner();
+      const forgedToken = await signTestToken(attacker, 'user_123');
+      const request = new Request('http://localhost/api/prompt', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${forgedToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ prompt: 'hello world' }),
+      });
+      const response = await worker.fetch(request, env);
+
+      expect(response.status).toBe(401);
+    });
+
     it('executes prompt with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await signTestToken(signer, 'user_123');
       const request = new Request('http://localhost/api/prompt', {
         method: 'POST',
         headers: {
@@ -87,7 +110,7 @@ describe('Worker', () => {
     });
 
     it('returns sessions list with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await signTestToken(signer, 'user_123');
       const request = new Request('http://localhost/sessions', {
         headers: {
           'Authorization': `Bearer ${validToken}`,
@@ -103,7 +126,7 @@ describe('Worker', () => {
 
   describe('POST /sessions', () => {
     it('creates new session with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await signTestToken(signer, 'user_123');
       const request = new Request('http://localhost/sessions', {
         method: 'POST',
         headers: {
@@ -121,7 +144,7 @@ describe('Worker', () => {
 
   describe('DELETE /sessions/:id', () => {
     it('deletes session with valid auth', async () => {
-      const validToken = createMockToken('user_123');
+      const validToken = await signTestToken(signer, 'user_123');
       const request = new Request('http://localhost/sessions/session-123', {
         method: 'DELETE',
         headers: {
@@ -143,17 +166,3 @@ describe('Worker', () => {
     });
   });
 });
-
-// Helper to create mock JWT token
-function createMockToken(sub: string): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
-  const payload = Buffer.from(
-    JSON.stringify({
-      sub,
-      iss: 'https://clerk.example.com',
-      exp: 9999999999,
-      iat: 1234567890,
-    })
-  ).toString('base64url');
-  return `${header}.${payload}.signature`;
-}
@@ -6,7 +6,9 @@
  */
 import { getSandbox } from '@cloudflare/sandbox';
 import type { Config } from '@opencode-ai/sdk';
-import { verifyClerkToken } from './auth/clerk.js';
+import { clerkOptionsFromEnv } from './auth/clerk.js';
+import { authenticateRequest, unauthorizedBody } from './auth/provider.js';
+import { ClerkJwtProvider } from './auth/providers.js';
 import { SandboxManager } from './sandbox/sandbox-manager.js';
 
 export { Sandbox } from '@cloudflare/sandbox';
@@ -19,6 +21,8 @@ export interface Env {
   OPENCODE_API_KEY: string;
   CLERK_SECRET_KEY: string;
   CLERK_JWT_KEY: string;
+  CLERK_PUBLISHABLE_KEY?: string;
+  CLERK_AUTHORIZED_PARTIES?: string;
 }
 
 /**
@@ -69,6 +73,24 @@ export default {
   }
 };
 
+/**
+ * Authenticate a request with the shared provider chain
+ */
+async function authenticate(
+  request: Request,
+  env: Env
+): Promise<{ ok: true; userId: string } | { ok: false; response: Response }> {
+  const result = await authenticateRequest([new ClerkJwtProvider(clerkOptionsFromEnv(env))], request);
+
+  if (!result.ok) {
+    return {
+      ok: false,
+      response: Response.json(unauthorizedBody(result.reason), { status: 401 }),
+    };
+  }
+  return { ok: true, userId: result.identity.userId };
+}
+
 /**
  * Handle API routes
  */
@@ -78,15 +100,11 @@ async function handleApiRoute(
   url: URL
 ): Promise<Response> {
   // Verify authentication
-  const authHeader = request.headers.get('Authorization') || '';
-  const userId = verifyClerkToken(authHeader);
-
-  if (!userId) {
-    return Response.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    );
+  const auth = await authenticate(request, env);
+  if (!auth.ok) {
+    return auth.response;
   }
+  const userId = auth.userId;
 
   // POST /api/prompt - Execute OpenCode prompt
   if (url.pathname === '/api/prompt' && request.method === 'POST') {
@@ -105,15 +123,11 @@ async function handleSessionRoute(
   url: URL
 ): Promise<Response> {
   // Verify authentication
-  const authHeader = request.headers.get('Authorization') || '';
-  const userId = verifyClerkToken(authHeader);
-
-  if (!userId) {
-    return Response.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    );
+  const auth = await authenticate(request, env);
+  if (!auth.ok) {
+    return auth.response;
   }
+  const userId = auth.userId;
 
   // GET /sessions - List user's sessions
   if (url.pathname === '/sessions' && request.method === 'GET') {